@@ -1,8 +1,10 @@
 using BackupChrono.Api.DTOs;
+using BackupChrono.Api.Hubs;
 using BackupChrono.Api.Services;
 using BackupChrono.Core.Interfaces;
 using BackupChrono.Infrastructure.Scheduling;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.SignalR;
 
 namespace BackupChrono.Api.Controllers;
 
@@ -13,17 +15,20 @@ public class BackupJobsController : ControllerBase
     private readonly IBackupJobRepository _backupJobRepository;
     private readonly IQuartzSchedulerService _schedulerService;
     private readonly IMappingService _mappingService;
+    private readonly IHubContext<BackupProgressHub> _hubContext;
     private readonly ILogger<BackupJobsController> _logger;
 
     public BackupJobsController(
         IBackupJobRepository backupJobRepository,
         IQuartzSchedulerService schedulerService,
         IMappingService mappingService,
+        IHubContext<BackupProgressHub> hubContext,
         ILogger<BackupJobsController> logger)
     {
         _backupJobRepository = backupJobRepository;
         _schedulerService = schedulerService;
         _mappingService = mappingService;
+        _hubContext = hubContext;
         _logger = logger;
     }
 
@@ -114,7 +119,8 @@ public class BackupJobsController : ControllerBase
                 request.ShareId);
 
             await _schedulerService.TriggerImmediateBackup(request.DeviceId, request.ShareId);
-            
+            await BroadcastQueued(request);
+
             return Accepted(new { message = "Backup triggered successfully" });
         }
         catch (InvalidOperationException ex)
@@ -181,4 +187,22 @@ public class BackupJobsController : ControllerBase
             return StatusCode(500, new ErrorResponse { Error = "Failed to delete backup job", Detail = ex.Message });
         }
     }
+
+    private async Task BroadcastQueued(TriggerBackupRequest request)
+    {
+        // The job only gets an ID once the scheduler runs it, so clients learn about it by device and share
+        try
+        {
+            await _hubContext.Clients.All.SendAsync(HubEvents.JobQueued, new BackupQueuedDto
+            {
+                DeviceId = request.DeviceId,
+                ShareId = request.ShareId,
+                QueuedAt = DateTime.UtcNow
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to broadcast queued backup for device {DeviceId}", request.DeviceId);
+        }
+    }
 }
@@ -1,10 +1,14 @@
+using System.IO.Compression;
+using System.Text.Json;
 using BackupChrono.Api.DTOs;
 using BackupChrono.Core.DTOs;
 using BackupChrono.Core.Entities;
 using BackupChrono.Core.Interfaces;
 using BackupChrono.Infrastructure.Services;
+using Microsoft.AspNetCore.Http.Features;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.Extensions.Options;
+using Microsoft.Net.Http.Headers;
 
 namespace BackupChrono.Api.Controllers;
 
@@ -17,17 +21,21 @@ public class BackupsController : ControllerBase
 {
     private readonly IResticService _resticService;
     private readonly IBackupLogService _backupLogService;
+    private readonly IRestoreOrchestrator _restoreOrchestrator;
     private readonly ResticOptions _resticOptions;
     private readonly ILogger<BackupsController> _logger;
+    private static readonly JsonSerializerOptions SearchResultJsonOptions = new(JsonSerializerDefaults.Web);
 
     public BackupsController(
         IResticService resticService,
             IBackupLogService backupLogService,
+        IRestoreOrchestrator restoreOrchestrator,
         IOptions<ResticOptions> resticOptions,
         ILogger<BackupsController> logger)
     {
         _resticService = resticService;
         _backupLogService = backupLogService;
+        _restoreOrchestrator = restoreOrchestrator;
         _resticOptions = resticOptions.Value;
         _logger = logger;
     }
@@ -223,6 +231,61 @@ public class BackupsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Find the device and share repository a backup belongs to, for links that only carry the backup ID
+    /// </summary>
+    [HttpGet("{backupId}/location")]
+    [ProducesResponseType(typeof(BackupLocationDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<BackupLocationDto>> GetBackupLocation(string backupId)
+    {
+        try
+        {
+            var basePath = _resticOptions.RepositoryBasePath;
+            var deviceDirectories = Directory.Exists(basePath) ? Directory.GetDirectories(basePath) : Array.Empty<string>();
+
+            foreach (var deviceDirectory in deviceDirectories)
+            {
+                if (!Guid.TryParse(Path.GetFileName(deviceDirectory), out var deviceId))
+                {
+                    continue;
+                }
+
+                foreach (var repositoryPath in GetDeviceRepositoryPaths(deviceId))
+                {
+                    if (!Guid.TryParse(Path.GetFileName(repositoryPath), out var shareId) ||
+                        !await _resticService.RepositoryExists(repositoryPath))
+                    {
+                        continue;
+                    }
+
+                    // Links may carry either the short or the full snapshot ID
+                    var backups = await _resticService.ListBackups(null, repositoryPath);
+                    if (backups.Any(b => b.Id.StartsWith(backupId, StringComparison.OrdinalIgnoreCase) ||
+                                         backupId.StartsWith(b.Id, StringComparison.OrdinalIgnoreCase)))
+                    {
+                        return Ok(new BackupLocationDto { DeviceId = deviceId, ShareId = shareId });
+                    }
+                }
+            }
+
+            return NotFound(new ErrorResponse
+            {
+                Error = "Backup not found",
+                Detail = $"No backup with ID {backupId} in any repository"
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error locating backup {BackupId}", backupId);
+            return StatusCode(500, new ErrorResponse
+            {
+                Error = "Failed to locate backup",
+                Detail = ex.Message
+            });
+        }
+    }
+
     /// <summary>
     /// Formats bytes to human-readable string.
     /// </summary>
@@ -384,6 +447,55 @@ public class BackupsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Get everything restic recorded about one entry of a snapshot: mode, ownership,
+    /// symlink target, hard links and extended attributes such as ACLs.
+    /// The content hash is only computed when includeHash is set, as it reads the whole file.
+    /// </summary>
+    [HttpGet("{backupId}/metadata")]
+    [ProducesResponseType(typeof(FileMetadata), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<FileMetadata>> GetFileMetadata(
+        string backupId,
+        [FromQuery] Guid deviceId,
+        [FromQuery] Guid shareId,
+        [FromQuery] string filePath,
+        [FromQuery] bool includeHash = false)
+    {
+        if (string.IsNullOrWhiteSpace(filePath) || filePath.Trim('/').Length == 0)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = "Invalid request",
+                Detail = "filePath must name an entry inside the snapshot"
+            });
+        }
+
+        try
+        {
+            var repositoryPath = GetRepositoryPath(deviceId, shareId);
+            return Ok(await _resticService.GetFileMetadata(backupId, filePath, includeHash, repositoryPath));
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new ErrorResponse
+            {
+                Error = "File not found",
+                Detail = ex.Message
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error reading metadata of {FilePath} in backup {BackupId}", filePath, backupId);
+            return StatusCode(500, new ErrorResponse
+            {
+                Error = "Failed to read file metadata",
+                Detail = ex.Message
+            });
+        }
+    }
+
     /// <summary>
     /// Download a single file from a backup
     /// </summary>
@@ -442,18 +554,294 @@ public class BackupsController : ControllerBase
     }
 
     /// <summary>
-    /// Restore files from a backup
+    /// Download a whole folder from a backup as a ZIP or tar.gz archive.
+    /// The archive is streamed from restic as it is produced, never buffered in full.
     /// </summary>
-    [HttpPost("{backupId}/restore")]
+    [HttpGet("{backupId}/archive")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> DownloadFolderArchive(
+        string backupId,
+        [FromQuery] Guid deviceId,
+        [FromQuery] Guid shareId,
+        [FromQuery] string folderPath = "/",
+        [FromQuery] string format = "zip")
+    {
+        try
+        {
+            if (format != "zip" && format != "tar.gz")
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = "Invalid request",
+                    Detail = "format must be 'zip' or 'tar.gz'"
+                });
+            }
+
+            var repositoryPath = GetRepositoryPath(deviceId, shareId);
+            var normalizedPath = string.IsNullOrWhiteSpace(folderPath) ? "/" : folderPath;
+            var folderName = normalizedPath.Trim('/') is { Length: > 0 } trimmed
+                ? Path.GetFileName(trimmed)
+                : $"snapshot-{(backupId.Length > 8 ? backupId[..8] : backupId)}";
+
+            _logger.LogInformation(
+                "Archive download requested for folder {FolderPath} from backup {BackupId} as {Format}",
+                normalizedPath,
+                backupId,
+                format);
+
+            var archiveFormat = format == "zip" ? ArchiveFormat.Zip : ArchiveFormat.Tar;
+            var archiveStream = await _resticService.DumpFolderArchiveStream(backupId, normalizedPath, archiveFormat, repositoryPath);
+
+            return await SendArchive(archiveStream, archiveFormat, folderName);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            _logger.LogWarning("Backup {BackupId} not found: {Message}", backupId, ex.Message);
+            return NotFound(new ErrorResponse
+            {
+                Error = "Backup not found",
+                Detail = ex.Message
+            });
+        }
+        catch (OperationCanceledException) when (HttpContext.RequestAborted.IsCancellationRequested)
+        {
+            _logger.LogInformation("Archive download of {FolderPath} from backup {BackupId} cancelled by client", folderPath, backupId);
+            return new EmptyResult();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error archiving folder {FolderPath} from backup {BackupId}", folderPath, backupId);
+            if (Response.HasStarted)
+            {
+                // Headers are already sent; aborting is the only way to tell the client the archive is incomplete
+                HttpContext.Abort();
+                return new EmptyResult();
+            }
+
+            return StatusCode(500, new ErrorResponse
+            {
+                Error = "Failed to download folder",
+                Detail = ex.Message
+            });
+        }
+    }
+
+    /// <summary>
+    /// Download several files and folders from a backup as one ZIP or tar.gz archive.
+    /// Posted as a form so the browser saves the response to disk; entries are streamed as restic dumps them.
+    /// </summary>
+    [HttpPost("{backupId}/archive")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
     [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> DownloadSelectionArchive(
+        string backupId,
+        [FromQuery] Guid deviceId,
+        [FromQuery] Guid shareId,
+        [FromForm] ArchiveSelectionRequestDto request)
+    {
+        try
+        {
+            var paths = request.Paths.Where(p => !string.IsNullOrWhiteSpace(p)).Distinct().ToList();
+            if (paths.Count == 0)
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = "Invalid request",
+                    Detail = "At least one path is required"
+                });
+            }
+
+            if (request.Format != "zip" && request.Format != "tar.gz")
+            {
+                return BadRequest(new ErrorResponse
+                {
+                    Error = "Invalid request",
+                    Detail = "format must be 'zip' or 'tar.gz'"
+                });
+            }
+
+            var repositoryPath = GetRepositoryPath(deviceId, shareId);
+
+            _logger.LogInformation(
+                "Archive download requested for {Count} selected paths from backup {BackupId} as {Format}",
+                paths.Count,
+                backupId,
+                request.Format);
+
+            var archiveFormat = request.Format == "zip" ? ArchiveFormat.Zip : ArchiveFormat.Tar;
+            var archiveName = $"selection-{(backupId.Length > 8 ? backupId[..8] : backupId)}";
+
+            return await WriteArchive(archiveFormat, archiveName, destination =>
+                _resticService.WriteSelectionArchive(backupId, paths, archiveFormat, destination, repositoryPath, HttpContext.RequestAborted));
+        }
+        catch (KeyNotFoundException ex)
+        {
+            _logger.LogWarning("Backup {BackupId} not found: {Message}", backupId, ex.Message);
+            return NotFound(new ErrorResponse
+            {
+                Error = "Backup not found",
+                Detail = ex.Message
+            });
+        }
+        catch (OperationCanceledException) when (HttpContext.RequestAborted.IsCancellationRequested)
+        {
+            _logger.LogInformation("Selection archive download from backup {BackupId} cancelled by client", backupId);
+            return new EmptyResult();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error archiving selection from backup {BackupId}", backupId);
+            if (Response.HasStarted)
+            {
+                HttpContext.Abort();
+                return new EmptyResult();
+            }
+
+            return StatusCode(500, new ErrorResponse
+            {
+                Error = "Failed to download selection",
+                Detail = ex.Message
+            });
+        }
+    }
+
+    /// <summary>
+    /// Get the total size of each subfolder directly below a path in a backup,
+    /// used to show an estimate before downloading a folder
+    /// </summary>
+    [HttpGet("{backupId}/folder-sizes")]
+    [ProducesResponseType(typeof(Dictionary<string, long>), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<Dictionary<string, long>>> GetFolderSizes(
+        string backupId,
+        [FromQuery] Guid deviceId,
+        [FromQuery] Guid shareId,
+        [FromQuery] string path = "/")
+    {
+        try
+        {
+            var repositoryPath = GetRepositoryPath(deviceId, shareId);
+            var sizes = await _resticService.GetFolderSizes(backupId, path, repositoryPath);
+            return Ok(sizes);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            _logger.LogWarning("Backup {BackupId} not found: {Message}", backupId, ex.Message);
+            return NotFound(new ErrorResponse
+            {
+                Error = "Backup not found",
+                Detail = ex.Message
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error calculating folder sizes for {Path} in backup {BackupId}", path, backupId);
+            return StatusCode(500, new ErrorResponse
+            {
+                Error = "Failed to calculate folder sizes",
+                Detail = ex.Message
+            });
+        }
+    }
+
+    /// <summary>
+    /// Search a backup for files by name or glob. Results are streamed as newline-delimited
+    /// JSON so the client can show matches while the snapshot is still being scanned.
+    /// The last line is a summary saying whether more matches exist beyond the limit.
+    /// </summary>
+    [HttpGet("{backupId}/search")]
+    [Produces("application/x-ndjson")]
+    [ProducesResponseType(typeof(FileEntry), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> SearchBackupFiles(
+        string backupId,
+        [FromQuery] Guid deviceId,
+        [FromQuery] Guid shareId,
+        [FromQuery] string? query,
+        [FromQuery] int limit = 1000)
+    {
+        if (string.IsNullOrWhiteSpace(query))
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = "Invalid search",
+                Detail = "A search term is required"
+            });
+        }
+
+        var repositoryPath = GetRepositoryPath(deviceId, shareId);
+        var cancellationToken = HttpContext.RequestAborted;
+        var count = 0;
+        var truncated = false;
+
+        Response.ContentType = "application/x-ndjson";
+
+        try
+        {
+            await foreach (var entry in _resticService.SearchSnapshot(backupId, query, repositoryPath, cancellationToken))
+            {
+                // Only a match beyond the limit means the results are incomplete
+                if (count >= limit)
+                {
+                    truncated = true;
+                    break;
+                }
+
+                await Response.WriteAsync(JsonSerializer.Serialize(entry, SearchResultJsonOptions) + "\n", cancellationToken);
+                await Response.Body.FlushAsync(cancellationToken);
+                count++;
+            }
+
+            var summary = new SearchStreamSummaryDto { Truncated = truncated };
+            await Response.WriteAsync(JsonSerializer.Serialize(summary, SearchResultJsonOptions) + "\n", cancellationToken);
+        }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogDebug("Search for '{Query}' in backup {BackupId} cancelled by client", query, backupId);
+        }
+        catch (Exception ex) when (!Response.HasStarted)
+        {
+            _logger.LogError(ex, "Error searching backup {BackupId} for '{Query}'", backupId, query);
+            Response.ContentType = null;
+            return StatusCode(500, new ErrorResponse
+            {
+                Error = "Failed to search backup",
+                Detail = ex.Message
+            });
+        }
+        catch (Exception ex)
+        {
+            // Results were already sent, so the only way to signal failure is to cut the stream short
+            _logger.LogError(ex, "Search for '{Query}' in backup {BackupId} failed after {Count} results", query, backupId, count);
+            HttpContext.Abort();
+        }
+
+        return new EmptyResult();
+    }
+
+    /// <summary>
+    /// Start restoring files from a backup. The restore runs in the background;
+    /// follow it through the restore-progress hub or GET api/restores/{restoreId}.
+    /// </summary>
+    [HttpPost("{backupId}/restore")]
+    [ProducesResponseType(typeof(RestoreProgress), StatusCodes.Status202Accepted)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status404NotFound)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status409Conflict)]
     public async Task<IActionResult> RestoreBackup(
         string backupId,
         [FromQuery] Guid deviceId,
         [FromQuery] Guid shareId,
         [FromBody] RestoreRequestDto request)
     {
+        if (request.RestoreToSource)
+        {
+            return await RestoreBackupToSource(backupId, deviceId, shareId, request);
+        }
+
         try
         {
             if (string.IsNullOrWhiteSpace(request.TargetPath))
@@ -477,46 +865,109 @@ public class BackupsController : ControllerBase
                 });
             }
 
-            // Determine target path - if RestoreToSource is true, we would need to get the original path
-            // For now, we use the provided TargetPath in all cases
-            
             // Convert IncludePaths from List to array for service call
             var includePaths = request.IncludePaths?.ToArray();
 
-            // Construct repository path
-            var repositoryPath = GetRepositoryPath(deviceId, shareId);
-            
             _logger.LogInformation(
                 "Restore requested for backup {BackupId} to {TargetPath} with {PathCount} include paths",
                 backupId,
                 targetPath,
                 includePaths?.Length ?? 0);
 
-            // Execute the restore operation
-            await _resticService.RestoreBackup(backupId, targetPath, includePaths, repositoryPath);
-            
-            // Generate a restore ID for tracking (for future progress tracking implementation)
-            var restoreId = Guid.NewGuid().ToString();
+            var progress = await _restoreOrchestrator.StartRestore(deviceId, shareId, backupId, targetPath, includePaths);
 
-            return Ok(new
+            return Accepted(progress);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error restoring backup {BackupId}", backupId);
+            return StatusCode(500, new ErrorResponse
             {
-                restoreId,
-                status = "Completed",
-                targetPath
+                Error = "Failed to restore backup",
+                Detail = ex.Message
             });
         }
+    }
+
+    /// <summary>
+    /// Describe the device and share a restore-to-source would write to, so the user can confirm it
+    /// </summary>
+    [HttpGet("restore-target")]
+    [ProducesResponseType(typeof(RestoreSourceTarget), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<RestoreSourceTarget>> GetRestoreTarget(
+        [FromQuery] Guid deviceId,
+        [FromQuery] Guid shareId)
+    {
+        try
+        {
+            return Ok(await _restoreOrchestrator.GetSourceTarget(deviceId, shareId));
+        }
         catch (KeyNotFoundException ex)
         {
-            _logger.LogWarning("Backup {BackupId} not found: {Message}", backupId, ex.Message);
             return NotFound(new ErrorResponse
             {
-                Error = "Backup not found",
+                Error = "Restore target not found",
                 Detail = ex.Message
             });
         }
         catch (Exception ex)
         {
-            _logger.LogError(ex, "Error restoring backup {BackupId}", backupId);
+            _logger.LogError(ex, "Error resolving restore target for device {DeviceId}, share {ShareId}", deviceId, shareId);
+            return StatusCode(500, new ErrorResponse
+            {
+                Error = "Failed to resolve restore target",
+                Detail = ex.Message
+            });
+        }
+    }
+
+    private async Task<IActionResult> RestoreBackupToSource(string backupId, Guid deviceId, Guid shareId, RestoreRequestDto request)
+    {
+        if (!Enum.TryParse<RestoreConflictMode>(request.ConflictMode, ignoreCase: true, out var conflictMode) ||
+            !Enum.IsDefined(conflictMode))
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = "Invalid restore request",
+                Detail = "ConflictMode must be Overwrite, Skip or Rename"
+            });
+        }
+
+        try
+        {
+            var includePaths = request.IncludePaths?.ToArray();
+
+            _logger.LogInformation(
+                "Restore to source requested for backup {BackupId} with {PathCount} include paths ({ConflictMode})",
+                backupId,
+                includePaths?.Length ?? 0,
+                conflictMode);
+
+            var progress = await _restoreOrchestrator.StartSourceRestore(deviceId, shareId, backupId, conflictMode, includePaths);
+
+            return Accepted(progress);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new ErrorResponse
+            {
+                Error = "Restore target not found",
+                Detail = ex.Message
+            });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Cannot restore backup {BackupId} to source", backupId);
+            return Conflict(new ErrorResponse
+            {
+                Error = "Source unavailable",
+                Detail = ex.Message
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error restoring backup {BackupId} to source", backupId);
             return StatusCode(500, new ErrorResponse
             {
                 Error = "Failed to restore backup",
@@ -526,14 +977,16 @@ public class BackupsController : ControllerBase
     }
 
     /// <summary>
-    /// Get version history for a specific file across all backups
+    /// Get version history for a specific file across all backups.
+    /// When shareId is omitted, every share repository of the device is searched.
     /// </summary>
     [HttpGet("files/history")]
     [ProducesResponseType(typeof(List<FileVersion>), StatusCodes.Status200OK)]
     [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
-    public ActionResult<List<FileVersion>> GetFileHistory(
+    public async Task<ActionResult<List<FileVersion>>> GetFileHistory(
         [FromQuery] Guid deviceId,
-        [FromQuery] string filePath)
+        [FromQuery] string filePath,
+        [FromQuery] Guid? shareId = null)
     {
         if (string.IsNullOrWhiteSpace(filePath))
         {
@@ -544,9 +997,226 @@ public class BackupsController : ControllerBase
             });
         }
 
-        // TODO: Implement file history tracking
-        // For now return empty list
-        return Ok(new List<FileVersion>());
+        try
+        {
+            var repositoryPaths = shareId.HasValue
+                ? new List<string> { GetRepositoryPath(deviceId, shareId.Value) }
+                : GetDeviceRepositoryPaths(deviceId);
+
+            var history = new List<FileVersion>();
+            foreach (var repositoryPath in repositoryPaths)
+            {
+                if (!await _resticService.RepositoryExists(repositoryPath))
+                {
+                    continue;
+                }
+
+                history.AddRange(await _resticService.GetFileHistory(filePath, repositoryPath, HttpContext.RequestAborted));
+            }
+
+            return Ok(history.OrderByDescending(v => v.Timestamp).ToList());
+        }
+        catch (OperationCanceledException) when (HttpContext.RequestAborted.IsCancellationRequested)
+        {
+            _logger.LogInformation("History lookup for {FilePath} on device {DeviceId} cancelled by client", filePath, deviceId);
+            return new EmptyResult();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting history for file {FilePath} on device {DeviceId}", filePath, deviceId);
+            return StatusCode(500, new ErrorResponse
+            {
+                Error = "Failed to get file history",
+                Detail = ex.Message
+            });
+        }
+    }
+
+    /// <summary>
+    /// Search the snapshots of a device for a file name or glob and group the hits by path,
+    /// so a deleted file can be traced to the last snapshot that still has it.
+    /// When shareId is omitted, every share repository of the device is searched.
+    /// Hits are streamed as newline-delimited JSON while snapshots are searched, newest first; a path
+    /// may be sent again with its final first-seen snapshot and count. The last line is a summary
+    /// saying whether the search stopped at the limit.
+    /// </summary>
+    [HttpGet("files/search")]
+    [Produces("application/x-ndjson")]
+    [ProducesResponseType(typeof(FileSearchHitDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
+    public async Task<IActionResult> SearchDeviceFiles(
+        [FromQuery] Guid deviceId,
+        [FromQuery] string? query,
+        [FromQuery] Guid? shareId = null,
+        [FromQuery] int limit = 500)
+    {
+        if (string.IsNullOrWhiteSpace(query))
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = "Invalid search",
+                Detail = "A search term is required"
+            });
+        }
+
+        var cancellationToken = HttpContext.RequestAborted;
+        var found = 0;
+
+        Response.ContentType = "application/x-ndjson";
+
+        try
+        {
+            var repositoryPaths = shareId.HasValue
+                ? new List<string> { GetRepositoryPath(deviceId, shareId.Value) }
+                : GetDeviceRepositoryPaths(deviceId);
+
+            foreach (var repositoryPath in repositoryPaths)
+            {
+                if (found >= limit)
+                {
+                    break;
+                }
+
+                if (!await _resticService.RepositoryExists(repositoryPath))
+                {
+                    continue;
+                }
+
+                var repositoryShareId = Guid.TryParse(Path.GetFileName(repositoryPath), out var parsed) ? parsed : (Guid?)null;
+                var hitPaths = new HashSet<string>(StringComparer.Ordinal);
+                await foreach (var hit in _resticService.SearchAllSnapshots(query, repositoryPath, limit - found, cancellationToken))
+                {
+                    hitPaths.Add(hit.Path);
+                    await Response.WriteAsync(JsonSerializer.Serialize(MapToFileSearchHitDto(hit, repositoryShareId), SearchResultJsonOptions) + "\n", cancellationToken);
+                    await Response.Body.FlushAsync(cancellationToken);
+                }
+
+                found += hitPaths.Count;
+            }
+
+            var summary = new SearchStreamSummaryDto { Truncated = found >= limit };
+            await Response.WriteAsync(JsonSerializer.Serialize(summary, SearchResultJsonOptions) + "\n", cancellationToken);
+        }
+        catch (OperationCanceledException) when (cancellationToken.IsCancellationRequested)
+        {
+            _logger.LogDebug("Search of device {DeviceId} for '{Query}' cancelled by client", deviceId, query);
+        }
+        catch (Exception ex) when (!Response.HasStarted)
+        {
+            _logger.LogError(ex, "Error searching device {DeviceId} for '{Query}'", deviceId, query);
+            Response.ContentType = null;
+            return StatusCode(500, new ErrorResponse
+            {
+                Error = "Failed to search backups",
+                Detail = ex.Message
+            });
+        }
+        catch (Exception ex)
+        {
+            // Hits were already sent, so the only way to signal failure is to cut the stream short
+            _logger.LogError(ex, "Search of device {DeviceId} for '{Query}' failed after {Count} paths", deviceId, query, found);
+            HttpContext.Abort();
+        }
+
+        return new EmptyResult();
+    }
+
+    /// <summary>
+    /// Compare two snapshots of the same share and list added, removed and modified files
+    /// </summary>
+    [HttpGet("diff")]
+    [ProducesResponseType(typeof(SnapshotDiffDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<SnapshotDiffDto>> DiffSnapshots(
+        [FromQuery] Guid deviceId,
+        [FromQuery] Guid shareId,
+        [FromQuery] string from,
+        [FromQuery] string to)
+    {
+        if (string.IsNullOrWhiteSpace(from) || string.IsNullOrWhiteSpace(to))
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = "Invalid request",
+                Detail = "Both from and to snapshot IDs are required"
+            });
+        }
+
+        if (from == to)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = "Invalid request",
+                Detail = "Cannot compare a snapshot with itself"
+            });
+        }
+
+        try
+        {
+            var repositoryPath = GetRepositoryPath(deviceId, shareId);
+            if (!await _resticService.RepositoryExists(repositoryPath))
+            {
+                return NotFound(new ErrorResponse
+                {
+                    Error = "Repository not found",
+                    Detail = $"No backups exist for share {shareId}"
+                });
+            }
+
+            var diff = await _resticService.DiffSnapshots(from, to, repositoryPath);
+            return Ok(MapToSnapshotDiffDto(diff));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error comparing snapshots {From} and {To}", from, to);
+            return StatusCode(500, new ErrorResponse
+            {
+                Error = "Failed to compare snapshots",
+                Detail = ex.Message
+            });
+        }
+    }
+
+    private static SnapshotDiffDto MapToSnapshotDiffDto(SnapshotDiff diff)
+    {
+        return new SnapshotDiffDto
+        {
+            FromBackupId = diff.FromBackupId,
+            ToBackupId = diff.ToBackupId,
+            AddedCount = diff.AddedCount,
+            RemovedCount = diff.RemovedCount,
+            ModifiedCount = diff.ModifiedCount,
+            SizeDelta = diff.SizeDelta,
+            Changes = diff.Changes.Select(c => new SnapshotDiffEntryDto
+            {
+                Path = c.Path,
+                ChangeType = c.ChangeType.ToString(),
+                OldSize = c.OldSize,
+                NewSize = c.NewSize,
+                SizeDelta = c.SizeDelta
+            }).ToList()
+        };
+    }
+
+    private static FileSearchHitDto MapToFileSearchHitDto(FileSearchHit hit, Guid? shareId)
+    {
+        return new FileSearchHitDto
+        {
+            ShareId = shareId,
+            Path = hit.Path,
+            Name = hit.Name,
+            IsDirectory = hit.IsDirectory,
+            Size = hit.Size,
+            ModifiedAt = hit.ModifiedAt,
+            SnapshotCount = hit.SnapshotCount,
+            FirstSeenBackupId = hit.FirstSeenBackupId,
+            FirstSeenAt = hit.FirstSeenAt,
+            LastSeenBackupId = hit.LastSeenBackupId,
+            LastSeenAt = hit.LastSeenAt,
+            RemovedInBackupId = hit.RemovedInBackupId,
+            RemovedAt = hit.RemovedAt
+        };
     }
 
     private static string CalculateContentDedup(long dataAdded, long dataProcessed)
@@ -556,8 +1226,62 @@ public class BackupsController : ControllerBase
         return $"{contentDedup:P1}";
     }
 
+    private async Task<IActionResult> SendArchive(Stream archiveStream, ArchiveFormat format, string baseName)
+    {
+        if (format == ArchiveFormat.Zip)
+        {
+            return File(archiveStream, "application/zip", $"{baseName}.zip");
+        }
+
+        // RequestAborted stops the copy (and with it any restic process) if the client goes away
+        await using (archiveStream)
+        {
+            return await WriteArchive(format, baseName, gzip => archiveStream.CopyToAsync(gzip, HttpContext.RequestAborted));
+        }
+    }
+
+    /// <summary>
+    /// Writes an archive straight into the response body. Tar archives are gzipped on the fly.
+    /// </summary>
+    private async Task<IActionResult> WriteArchive(ArchiveFormat format, string baseName, Func<Stream, Task> writeArchive)
+    {
+        Response.ContentType = format == ArchiveFormat.Zip ? "application/zip" : "application/gzip";
+        Response.Headers.ContentDisposition = new ContentDispositionHeaderValue("attachment")
+        {
+            FileNameStar = format == ArchiveFormat.Zip ? $"{baseName}.zip" : $"{baseName}.tar.gz"
+        }.ToString();
+
+        if (format == ArchiveFormat.Zip)
+        {
+            // ZipArchive has no async API, so its entry headers and central directory are written synchronously
+            var bodyControl = HttpContext.Features.Get<IHttpBodyControlFeature>();
+            if (bodyControl != null)
+            {
+                bodyControl.AllowSynchronousIO = true;
+            }
+
+            await writeArchive(Response.Body);
+            return new EmptyResult();
+        }
+
+        await using (var gzip = new GZipStream(Response.Body, CompressionLevel.Fastest, leaveOpen: true))
+        {
+            await writeArchive(gzip);
+        }
+
+        return new EmptyResult();
+    }
+
     private string GetRepositoryPath(Guid deviceId, Guid shareId)
     {
         return Path.Combine(_resticOptions.RepositoryBasePath, deviceId.ToString(), shareId.ToString());
     }
+
+    private List<string> GetDeviceRepositoryPaths(Guid deviceId)
+    {
+        var devicePath = Path.Combine(_resticOptions.RepositoryBasePath, deviceId.ToString());
+        return Directory.Exists(devicePath)
+            ? Directory.GetDirectories(devicePath).ToList()
+            : new List<string>();
+    }
 }
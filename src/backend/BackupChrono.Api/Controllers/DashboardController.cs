@@ -1,6 +1,8 @@
 using BackupChrono.Api.DTOs;
+using BackupChrono.Api.Services;
 using BackupChrono.Core.Entities;
 using BackupChrono.Core.Interfaces;
+using BackupChrono.Core.ValueObjects;
 using BackupChrono.Infrastructure.Services;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.Extensions.Options;
@@ -12,9 +14,30 @@ namespace BackupChrono.Api.Controllers;
 [Route("api/dashboard")]
 public class DashboardController : ControllerBase
 {
+    private static readonly int[] HistoryRanges = { 7, 30, 90 };
+
+    // A share is flagged when its recent runs are this much slower or larger than its earlier runs
+    private const double CreepThresholdPercent = 20;
+
+    private const int MaxUpcomingHours = 7 * 24;
+
+    // Caps a lane so an every-minute cron cannot blow up a week-long timeline
+    private const int MaxRunsPerLane = 200;
+
+    // Number of recent runs whose median duration is used as a share's expected duration
+    private const int DurationSampleSize = 10;
+
+    // Runs without history are drawn and checked for overlaps as if they took this long
+    private static readonly TimeSpan MinimumRunDuration = TimeSpan.FromMinutes(5);
+
+    // Number of upcoming fire times listed when previewing a schedule in the editor
+    private const int PreviewRunCount = 10;
+
     private readonly IDeviceService _deviceService;
     private readonly IShareService _shareService;
     private readonly IBackupJobRepository _backupJobRepository;
+    private readonly ISettingsService _settingsService;
+    private readonly IMappingService _mappingService;
     private readonly IStorageMonitor _storageMonitor;
     private readonly ResticOptions _resticOptions;
     private readonly ILogger<DashboardController> _logger;
@@ -23,6 +46,8 @@ public class DashboardController : ControllerBase
         IDeviceService deviceService,
         IShareService shareService,
         IBackupJobRepository backupJobRepository,
+        ISettingsService settingsService,
+        IMappingService mappingService,
         IStorageMonitor storageMonitor,
         IOptions<ResticOptions> resticOptions,
         ILogger<DashboardController> logger)
@@ -30,6 +55,8 @@ public class DashboardController : ControllerBase
         _deviceService = deviceService;
         _shareService = shareService;
         _backupJobRepository = backupJobRepository;
+        _settingsService = settingsService;
+        _mappingService = mappingService;
         _storageMonitor = storageMonitor;
         _resticOptions = resticOptions.Value;
         _logger = logger;
@@ -142,6 +169,8 @@ public class DashboardController : ControllerBase
                         LastBackupId = lastSuccessfulJob?.BackupId,
                         LastJobId = latestJob?.Id,
                         NextBackupTime = nextRun,
+                        Schedule = cron,
+                        InheritsDeviceSchedule = share.Schedule == null && device.Schedule != null,
                         TotalSize = lastSuccessfulJob?.BytesTransferred ?? 0, // Using bytes transferred of last backup as proxy
                         FileCount = lastSuccessfulJob?.FilesProcessed ?? 0
                     });
@@ -176,11 +205,336 @@ public class DashboardController : ControllerBase
         }
     }
 
+    [HttpGet("history")]
+    [ProducesResponseType(typeof(DashboardHistoryDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<DashboardHistoryDto>> GetHistory([FromQuery] int days = 30)
+    {
+        if (!HistoryRanges.Contains(days))
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = "Invalid history range",
+                Detail = $"Days must be one of: {string.Join(", ", HistoryRanges)}"
+            });
+        }
+
+        try
+        {
+            var firstDay = DateTime.UtcNow.Date.AddDays(-(days - 1));
+            var allJobs = (await _backupJobRepository.ListJobs())
+                .Where(j => j.StartedAt.HasValue)
+                .ToList();
+            var jobsInRange = allJobs.Where(j => j.StartedAt >= firstDay).ToList();
+
+            var response = new DashboardHistoryDto { Days = days };
+
+            // Restic does not report historical repository size, so growth is tracked as the
+            // running total of data added, starting from everything added before the range.
+            var repositorySize = allJobs.Where(j => j.StartedAt < firstDay).Sum(j => j.DataAdded);
+
+            for (var day = firstDay; day <= DateTime.UtcNow.Date; day = day.AddDays(1))
+            {
+                var dayJobs = jobsInRange.Where(j => j.StartedAt!.Value.Date == day).ToList();
+                var dataAdded = dayJobs.Sum(j => j.DataAdded);
+                repositorySize += dataAdded;
+
+                response.Daily.Add(new DailyBackupStatsDto
+                {
+                    Date = day,
+                    Succeeded = dayJobs.Count(j => j.Status == BackupJobStatus.Completed),
+                    Partial = dayJobs.Count(j => j.Status == BackupJobStatus.PartiallyCompleted),
+                    Failed = dayJobs.Count(j => j.Status == BackupJobStatus.Failed),
+                    Cancelled = dayJobs.Count(j => j.Status == BackupJobStatus.Cancelled),
+                    DataAdded = dataAdded,
+                    RepositorySize = repositorySize,
+                    Jobs = dayJobs
+                        .Where(j => j.Status is not (BackupJobStatus.Pending or BackupJobStatus.Running))
+                        .OrderBy(j => j.StartedAt)
+                        .Select(j => new HistoryJobDto
+                        {
+                            JobId = j.Id,
+                            BackupId = j.BackupId,
+                            DeviceId = j.DeviceId,
+                            DeviceName = j.DeviceName,
+                            ShareId = j.ShareId,
+                            ShareName = j.ShareName,
+                            Status = j.Status.ToString(),
+                            StartedAt = j.StartedAt!.Value
+                        })
+                        .ToList()
+                });
+            }
+
+            var finishedJobs = jobsInRange
+                .Where(j => j.ShareId.HasValue && j.CompletedAt.HasValue)
+                .Where(j => j.Status is BackupJobStatus.Completed or BackupJobStatus.PartiallyCompleted);
+
+            foreach (var shareJobs in finishedJobs.GroupBy(j => j.ShareId!.Value))
+            {
+                var points = shareJobs
+                    .OrderBy(j => j.StartedAt)
+                    .Select(j => new ShareTrendPointDto
+                    {
+                        JobId = j.Id,
+                        BackupId = j.BackupId,
+                        StartedAt = j.StartedAt!.Value,
+                        DurationSeconds = (j.CompletedAt!.Value - j.StartedAt!.Value).TotalSeconds,
+                        Size = j.BytesTransferred,
+                        DataAdded = j.DataAdded
+                    })
+                    .ToList();
+
+                var latest = shareJobs.OrderByDescending(j => j.StartedAt).First();
+                var durationChange = PercentChange(points.Select(p => p.DurationSeconds).ToList());
+                var sizeChange = PercentChange(points.Select(p => (double)p.Size).ToList());
+
+                response.Shares.Add(new ShareTrendDto
+                {
+                    DeviceId = latest.DeviceId,
+                    DeviceName = latest.DeviceName ?? string.Empty,
+                    ShareId = shareJobs.Key,
+                    ShareName = latest.ShareName ?? string.Empty,
+                    Points = points,
+                    DurationChangePercent = durationChange,
+                    SizeChangePercent = sizeChange,
+                    IsCreeping = durationChange >= CreepThresholdPercent || sizeChange >= CreepThresholdPercent
+                });
+            }
+
+            response.Shares = response.Shares
+                .OrderByDescending(s => s.IsCreeping)
+                .ThenBy(s => s.DeviceName)
+                .ThenBy(s => s.ShareName)
+                .ToList();
+
+            return Ok(response);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error generating dashboard history");
+            return StatusCode(500, new ErrorResponse { Error = "Failed to generate backup history", Detail = ex.Message });
+        }
+    }
+
+    [HttpGet("upcoming")]
+    [ProducesResponseType(typeof(UpcomingScheduleDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<UpcomingScheduleDto>> GetUpcoming([FromQuery] int hours = 24)
+    {
+        if (hours < 1 || hours > MaxUpcomingHours)
+        {
+            return BadRequest(new ErrorResponse
+            {
+                Error = "Invalid timeline range",
+                Detail = $"Hours must be between 1 and {MaxUpcomingHours}"
+            });
+        }
+
+        try
+        {
+            var from = DateTimeOffset.UtcNow;
+            var to = from.AddHours(hours);
+
+            var devices = await _deviceService.ListDevices();
+            var allJobs = (await _backupJobRepository.ListJobs()).ToList();
+            var globalSchedule = (await _settingsService.GetGlobalSettings()).Schedule;
+
+            var response = new UpcomingScheduleDto
+            {
+                From = from.UtcDateTime,
+                To = to.UtcDateTime,
+                ServerTimeZone = TimeZoneInfo.Local.Id
+            };
+
+            foreach (var device in devices)
+            {
+                var enabledShares = (await _shareService.ListShares(device.Id)).Where(s => s.Enabled).ToList();
+                var lanes = new List<ScheduleLaneDto>();
+
+                // Mirrors the scheduler: shares with their own schedule get their own job, and the
+                // device schedule runs one job over every enabled share if any share relies on it
+                foreach (var share in enabledShares.Where(s => s.Schedule != null))
+                {
+                    var restrictions = new[] { globalSchedule, device.Schedule, share.Schedule };
+                    lanes.Add(BuildLane(device, share, share.Schedule!, restrictions, new[] { share }, allJobs, from, to));
+                }
+
+                if (device.Schedule != null && enabledShares.Any(s => s.Schedule == null))
+                {
+                    var restrictions = new[] { globalSchedule, device.Schedule };
+                    lanes.Add(BuildLane(device, null, device.Schedule, restrictions, enabledShares, allJobs, from, to));
+                }
+
+                // Skipped runs never start, so they cannot collide with anything
+                MarkOverlaps(lanes.SelectMany(l => l.Runs).Where(r => r.BlockedReason == null));
+                response.Lanes.AddRange(lanes);
+            }
+
+            return Ok(response);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error generating upcoming schedule");
+            return StatusCode(500, new ErrorResponse { Error = "Failed to generate upcoming schedule", Detail = ex.Message });
+        }
+    }
+
+    [HttpPost("schedule-preview")]
+    [ProducesResponseType(typeof(SchedulePreviewDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
+    public ActionResult<SchedulePreviewDto> PreviewSchedule([FromBody] SchedulePreviewRequestDto request)
+    {
+        if (string.IsNullOrWhiteSpace(request.Schedule.CronExpression))
+        {
+            return BadRequest(new ErrorResponse { Error = "Cron expression is required" });
+        }
+
+        var expression = Infrastructure.Scheduling.CronSchedule.Normalize(request.Schedule.CronExpression.Trim());
+        var restrictions = request.Inherited
+            .Append(request.Schedule)
+            .Select(dto => _mappingService.ToSchedule(dto))
+            .ToList();
+
+        try
+        {
+            // Read with the scheduler's own parser, so the preview accepts exactly what Quartz will run
+            var runs = Infrastructure.Scheduling.CronSchedule.GetOccurrences(
+                expression, DateTimeOffset.UtcNow, DateTimeOffset.MaxValue, PreviewRunCount);
+
+            return Ok(new SchedulePreviewDto
+            {
+                CronExpression = expression,
+                ServerTimeZone = TimeZoneInfo.Local.Id,
+                Runs = runs.Select(r => new PreviewRunDto
+                {
+                    StartsAt = r.UtcDateTime,
+                    BlockedReason = Infrastructure.Scheduling.CronSchedule.GetBlockedReason(r, restrictions)
+                }).ToList()
+            });
+        }
+        catch (FormatException ex)
+        {
+            return BadRequest(new ErrorResponse { Error = "Invalid cron expression", Detail = ex.Message });
+        }
+    }
+
+    private static ScheduleLaneDto BuildLane(
+        Device device,
+        Share? share,
+        Schedule schedule,
+        IReadOnlyList<Schedule?> restrictions,
+        IReadOnlyList<Share> coveredShares,
+        IReadOnlyList<BackupJob> jobs,
+        DateTimeOffset from,
+        DateTimeOffset to)
+    {
+        // A device-level run backs up its shares one after another, so it takes about as long as all of them together
+        var shareDurations = coveredShares.Select(s => MedianDuration(jobs, s.Id)).ToList();
+        double? expectedSeconds = shareDurations.Any(d => d.HasValue) ? shareDurations.Sum(d => d ?? 0) : null;
+
+        var lane = new ScheduleLaneDto
+        {
+            DeviceId = device.Id,
+            DeviceName = device.Name,
+            ShareId = share?.Id,
+            ShareName = share?.Name,
+            ShareNames = coveredShares.Select(s => s.Name).ToList(),
+            CronExpression = schedule.CronExpression,
+            TimeWindowStart = schedule.TimeWindowStart,
+            TimeWindowEnd = schedule.TimeWindowEnd,
+            ExpectedDurationSeconds = expectedSeconds
+        };
+
+        try
+        {
+            var occurrences = Infrastructure.Scheduling.CronSchedule.GetOccurrences(schedule.CronExpression, from, to, MaxRunsPerLane + 1);
+            var assumedDuration = TimeSpan.FromSeconds(Math.Max(expectedSeconds ?? 0, MinimumRunDuration.TotalSeconds));
+
+            lane.Truncated = occurrences.Count > MaxRunsPerLane;
+            lane.Runs = occurrences
+                .Take(MaxRunsPerLane)
+                .Select(start => new ScheduledRunDto
+                {
+                    StartsAt = start.UtcDateTime,
+                    ExpectedEndAt = (start + assumedDuration).UtcDateTime,
+                    BlockedReason = Infrastructure.Scheduling.CronSchedule.GetBlockedReason(start, restrictions)
+                })
+                .ToList();
+        }
+        catch (FormatException ex)
+        {
+            lane.Error = ex.Message;
+        }
+
+        return lane;
+    }
+
+    private static double? MedianDuration(IEnumerable<BackupJob> jobs, Guid shareId)
+    {
+        var durations = jobs
+            .Where(j => j.ShareId == shareId && j.StartedAt.HasValue && j.CompletedAt.HasValue)
+            .Where(j => j.Status is BackupJobStatus.Completed or BackupJobStatus.PartiallyCompleted)
+            .OrderByDescending(j => j.StartedAt)
+            .Take(DurationSampleSize)
+            .Select(j => (j.CompletedAt!.Value - j.StartedAt!.Value).TotalSeconds)
+            .OrderBy(d => d)
+            .ToList();
+
+        if (durations.Count == 0)
+        {
+            return null;
+        }
+
+        var middle = durations.Count / 2;
+        return durations.Count % 2 == 1 ? durations[middle] : (durations[middle - 1] + durations[middle]) / 2;
+    }
+
+    /// <summary>
+    /// Flags every run that is expected to still be going when another run on the same device starts.
+    /// </summary>
+    private static void MarkOverlaps(IEnumerable<ScheduledRunDto> deviceRuns)
+    {
+        ScheduledRunDto? latestEnding = null;
+
+        foreach (var run in deviceRuns.OrderBy(r => r.StartsAt))
+        {
+            if (latestEnding != null && run.StartsAt < latestEnding.ExpectedEndAt)
+            {
+                run.Overlaps = true;
+                latestEnding.Overlaps = true;
+            }
+
+            if (latestEnding == null || run.ExpectedEndAt > latestEnding.ExpectedEndAt)
+            {
+                latestEnding = run;
+            }
+        }
+    }
+
+    /// <summary>
+    /// Compares the average of the later half of the values with the earlier half.
+    /// Returns null when there are too few runs for the comparison to mean anything.
+    /// </summary>
+    private static double? PercentChange(IReadOnlyList<double> values)
+    {
+        if (values.Count < 4)
+        {
+            return null;
+        }
+
+        var half = values.Count / 2;
+        var earlier = values.Take(half).Average();
+        var later = values.Skip(values.Count - half).Average();
+
+        return earlier > 0 ? (later - earlier) / earlier * 100 : null;
+    }
+
     private DateTime? GetNextExecution(string cron)
     {
         try
         {
-            var expression = new CronExpression(cron);
+            var expression = new CronExpression(Infrastructure.Scheduling.CronSchedule.Normalize(cron));
             var next = expression.GetNextValidTimeAfter(DateTimeOffset.UtcNow);
             return next?.UtcDateTime;
         }
@@ -0,0 +1,67 @@
+using BackupChrono.Api.DTOs;
+using BackupChrono.Core.DTOs;
+using BackupChrono.Core.Interfaces;
+using Microsoft.AspNetCore.Mvc;
+
+namespace BackupChrono.Api.Controllers;
+
+/// <summary>
+/// Controller for tracking running and recently finished restores
+/// </summary>
+[ApiController]
+[Route("api/restores")]
+public class RestoresController : ControllerBase
+{
+    private readonly IRestoreOrchestrator _restoreOrchestrator;
+    private readonly ILogger<RestoresController> _logger;
+
+    public RestoresController(IRestoreOrchestrator restoreOrchestrator, ILogger<RestoresController> logger)
+    {
+        _restoreOrchestrator = restoreOrchestrator;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// List running and recently finished restores
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(List<RestoreProgress>), StatusCodes.Status200OK)]
+    public async Task<ActionResult<List<RestoreProgress>>> ListRestores()
+    {
+        try
+        {
+            var restores = await _restoreOrchestrator.ListRestores();
+            return Ok(restores.ToList());
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error listing restores");
+            return StatusCode(500, new ErrorResponse { Error = "Failed to list restores", Detail = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Get progress of a restore by ID
+    /// </summary>
+    [HttpGet("{restoreId}")]
+    [ProducesResponseType(typeof(RestoreProgress), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<RestoreProgress>> GetRestore(string restoreId)
+    {
+        try
+        {
+            var progress = await _restoreOrchestrator.GetRestoreProgress(restoreId);
+            if (progress == null)
+            {
+                return NotFound(new ErrorResponse { Error = "Restore not found", Detail = $"No restore with ID {restoreId}" });
+            }
+
+            return Ok(progress);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting restore {RestoreId}", restoreId);
+            return StatusCode(500, new ErrorResponse { Error = "Failed to get restore", Detail = ex.Message });
+        }
+    }
+}
@@ -0,0 +1,73 @@
+using BackupChrono.Api.DTOs;
+using BackupChrono.Api.Services;
+using BackupChrono.Core.Interfaces;
+using Microsoft.AspNetCore.Mvc;
+
+namespace BackupChrono.Api.Controllers;
+
+/// <summary>
+/// Controller for the global configuration defaults inherited by devices and shares.
+/// </summary>
+[ApiController]
+[Route("api/settings")]
+public class SettingsController : ControllerBase
+{
+    private readonly ISettingsService _settingsService;
+    private readonly IMappingService _mappingService;
+    private readonly ILogger<SettingsController> _logger;
+
+    public SettingsController(
+        ISettingsService settingsService,
+        IMappingService mappingService,
+        ILogger<SettingsController> logger)
+    {
+        _settingsService = settingsService;
+        _mappingService = mappingService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get global settings
+    /// </summary>
+    [HttpGet]
+    [ProducesResponseType(typeof(GlobalSettingsDto), StatusCodes.Status200OK)]
+    public async Task<ActionResult<GlobalSettingsDto>> GetSettings()
+    {
+        try
+        {
+            var settings = await _settingsService.GetGlobalSettings();
+            return Ok(_mappingService.ToGlobalSettingsDto(settings));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error loading global settings");
+            return StatusCode(500, new ErrorResponse { Error = "Failed to load settings", Detail = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Update global settings
+    /// </summary>
+    [HttpPut]
+    [ProducesResponseType(typeof(GlobalSettingsDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
+    public async Task<ActionResult<GlobalSettingsDto>> UpdateSettings([FromBody] GlobalSettingsUpdateDto dto)
+    {
+        try
+        {
+            var settings = _mappingService.ToGlobalSettings(dto);
+            var updated = await _settingsService.UpdateGlobalSettings(settings);
+            return Ok(_mappingService.ToGlobalSettingsDto(updated));
+        }
+        catch (Exception ex) when (ex is InvalidOperationException or ArgumentException)
+        {
+            _logger.LogWarning(ex, "Invalid global settings update request");
+            return BadRequest(new ErrorResponse { Error = "Invalid settings", Detail = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating global settings");
+            return StatusCode(500, new ErrorResponse { Error = "Failed to update settings", Detail = ex.Message });
+        }
+    }
+}
@@ -1,7 +1,11 @@
 using BackupChrono.Api.DTOs;
 using BackupChrono.Api.Services;
+using BackupChrono.Core.Entities;
 using BackupChrono.Core.Interfaces;
+using BackupChrono.Infrastructure.Restic;
+using BackupChrono.Infrastructure.Services;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Options;
 
 namespace BackupChrono.Api.Controllers;
 
@@ -13,6 +17,9 @@ public class SharesController : ControllerBase
     private readonly IShareService _shareService;
     private readonly IMappingService _mappingService;
     private readonly IQuartzSchedulerService _schedulerService;
+    private readonly IResticService _resticService;
+    private readonly IBackupJobRepository _backupJobRepository;
+    private readonly ResticOptions _resticOptions;
     private readonly ILogger<SharesController> _logger;
 
     public SharesController(
@@ -20,12 +27,18 @@ public class SharesController : ControllerBase
         IShareService shareService,
         IMappingService mappingService,
         IQuartzSchedulerService schedulerService,
+        IResticService resticService,
+        IBackupJobRepository backupJobRepository,
+        IOptions<ResticOptions> resticOptions,
         ILogger<SharesController> logger)
     {
         _deviceService = deviceService;
         _shareService = shareService;
         _mappingService = mappingService;
         _schedulerService = schedulerService;
+        _resticService = resticService;
+        _backupJobRepository = backupJobRepository;
+        _resticOptions = resticOptions.Value;
         _logger = logger;
     }
 
@@ -211,4 +224,79 @@ public class SharesController : ControllerBase
             return StatusCode(500, new ErrorResponse { Error = "Failed to delete share", Detail = ex.Message });
         }
     }
+
+    /// <summary>
+    /// Preview which of the share's snapshots a retention policy would keep or forget, without changing anything
+    /// </summary>
+    [HttpPost("{shareId:guid}/retention-preview")]
+    [ProducesResponseType(typeof(RetentionPreviewDto), StatusCodes.Status200OK)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(typeof(ErrorResponse), StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<RetentionPreviewDto>> PreviewRetention(Guid deviceId, Guid shareId, [FromBody] RetentionPolicyDto dto)
+    {
+        try
+        {
+            var share = await _shareService.GetShare(shareId);
+            if (share == null || share.DeviceId != deviceId)
+            {
+                return NotFound(new ErrorResponse { Error = "Share not found", Detail = $"No share with ID {shareId} for device {deviceId}" });
+            }
+
+            var policy = _mappingService.ToRetentionPolicy(dto)!;
+            if (!policy.IsValid())
+            {
+                return BadRequest(new ErrorResponse { Error = "Invalid retention policy", Detail = "Keep counts cannot be negative and at least one must be above zero" });
+            }
+
+            var repositoryPath = Path.Combine(_resticOptions.RepositoryBasePath, deviceId.ToString(), shareId.ToString());
+            var backups = await _resticService.RepositoryExists(repositoryPath)
+                ? (await _resticService.ListBackups(null, repositoryPath)).ToList()
+                : new List<Backup>();
+
+            // Snapshot listings carry no sizes, so use what the job that made each snapshot recorded.
+            // Jobs store the full snapshot ID and listings the 8-character short ID.
+            var jobs = await _backupJobRepository.ListJobsByDevice(deviceId);
+            var dataAddedBySnapshot = jobs
+                .Where(j => j.BackupId is { Length: >= 8 })
+                .GroupBy(j => j.BackupId![..8])
+                .ToDictionary(g => g.Key, g => g.First().DataAdded);
+
+            var snapshots = RetentionSimulator.Apply(backups, policy, TimeZoneInfo.Local)
+                .Select(decision => new RetentionPreviewSnapshotDto
+                {
+                    Id = decision.Backup.Id,
+                    Timestamp = decision.Backup.Timestamp,
+                    Keep = decision.Keep,
+                    Reasons = decision.Reasons,
+                    DataAdded = decision.Backup.Id.Length >= 8 && dataAddedBySnapshot.TryGetValue(decision.Backup.Id[..8], out var dataAdded)
+                        ? dataAdded
+                        : null
+                })
+                .ToList();
+            var forgotten = snapshots.Where(s => !s.Keep).ToList();
+
+            // Prune frees the data only forgotten snapshots reference: everything stored for the
+            // share minus what the kept snapshots still need
+            long bytesReclaimed = 0;
+            if (forgotten.Count > 0)
+            {
+                var totalSize = await _resticService.GetRawDataSize(snapshots.Select(s => s.Id), repositoryPath);
+                var keptSize = await _resticService.GetRawDataSize(snapshots.Where(s => s.Keep).Select(s => s.Id), repositoryPath);
+                bytesReclaimed = Math.Max(0, totalSize - keptSize);
+            }
+
+            return Ok(new RetentionPreviewDto
+            {
+                Snapshots = snapshots,
+                KeepCount = snapshots.Count - forgotten.Count,
+                ForgetCount = forgotten.Count,
+                BytesReclaimed = bytesReclaimed
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error previewing retention for share {ShareId} on device {DeviceId}", shareId, deviceId);
+            return StatusCode(500, new ErrorResponse { Error = "Failed to preview retention policy", Detail = ex.Message });
+        }
+    }
 }
@@ -1,3 +1,4 @@
+using System.ComponentModel.DataAnnotations;
 using System.Text.Json.Serialization;
 
 namespace BackupChrono.Api.DTOs;
@@ -34,8 +35,115 @@ public class ShareDashboardDto
     public string Status { get; set; } = "Unknown"; // Success, Failed, Running, Warning, Disabled
     public DateTime? LastBackupTime { get; set; }
     public DateTime? NextBackupTime { get; set; }
+    public string? Schedule { get; set; } // Effective cron: the share's own, else the device's
+    public bool InheritsDeviceSchedule { get; set; } // Runs as part of the device-level job
     public long TotalSize { get; set; }
     public int FileCount { get; set; }
     public string? LastBackupId { get; set; } // Snapshot ID
     public Guid? LastJobId { get; set; } // Job ID
 }
+
+public class DashboardHistoryDto
+{
+    public int Days { get; set; }
+    public List<DailyBackupStatsDto> Daily { get; set; } = new();
+    public List<ShareTrendDto> Shares { get; set; } = new();
+}
+
+public class DailyBackupStatsDto
+{
+    public DateTime Date { get; set; } // UTC day
+    public int Succeeded { get; set; }
+    public int Partial { get; set; }
+    public int Failed { get; set; }
+    public int Cancelled { get; set; }
+    public long DataAdded { get; set; }
+    public long RepositorySize { get; set; } // Cumulative data added up to the end of the day
+    public List<HistoryJobDto> Jobs { get; set; } = new();
+}
+
+public class HistoryJobDto
+{
+    public Guid JobId { get; set; }
+    public string? BackupId { get; set; }
+    public Guid DeviceId { get; set; }
+    public string? DeviceName { get; set; }
+    public Guid? ShareId { get; set; }
+    public string? ShareName { get; set; }
+    public string Status { get; set; } = string.Empty;
+    public DateTime StartedAt { get; set; }
+}
+
+public class ShareTrendDto
+{
+    public Guid DeviceId { get; set; }
+    public string DeviceName { get; set; } = string.Empty;
+    public Guid ShareId { get; set; }
+    public string ShareName { get; set; } = string.Empty;
+    public List<ShareTrendPointDto> Points { get; set; } = new();
+    public double? DurationChangePercent { get; set; } // Later half of the range vs earlier half
+    public double? SizeChangePercent { get; set; }
+    public bool IsCreeping { get; set; }
+}
+
+public class ShareTrendPointDto
+{
+    public Guid JobId { get; set; }
+    public string? BackupId { get; set; }
+    public DateTime StartedAt { get; set; }
+    public double DurationSeconds { get; set; }
+    public long Size { get; set; }
+    public long DataAdded { get; set; }
+}
+
+public class UpcomingScheduleDto
+{
+    public DateTime From { get; set; }
+    public DateTime To { get; set; }
+    public string ServerTimeZone { get; set; } = string.Empty;
+    public List<ScheduleLaneDto> Lanes { get; set; } = new();
+}
+
+public class ScheduleLaneDto
+{
+    public Guid DeviceId { get; set; }
+    public string DeviceName { get; set; } = string.Empty;
+    public Guid? ShareId { get; set; } // Null for a device-level schedule, which backs up every enabled share
+    public string? ShareName { get; set; }
+    public List<string> ShareNames { get; set; } = new(); // Shares covered by the run
+    public string CronExpression { get; set; } = string.Empty;
+    public TimeOnly? TimeWindowStart { get; set; }
+    public TimeOnly? TimeWindowEnd { get; set; }
+    public double? ExpectedDurationSeconds { get; set; } // Median of recent runs, null without history
+    public string? Error { get; set; } // Set when the cron expression cannot be parsed
+    public bool Truncated { get; set; } // More runs fall in the range than are listed
+    public List<ScheduledRunDto> Runs { get; set; } = new();
+}
+
+public class ScheduledRunDto
+{
+    public DateTime StartsAt { get; set; }
+    public DateTime ExpectedEndAt { get; set; }
+    public string? BlockedReason { get; set; } // Set when a window, blocked hour or blackout skips the run
+    public bool Overlaps { get; set; } // Competes with another run on the same device
+}
+
+public class SchedulePreviewRequestDto
+{
+    [Required]
+    public ScheduleDto Schedule { get; set; } = new();
+    public List<ScheduleDto> Inherited { get; set; } = new(); // Global and device schedules whose restrictions also apply
+}
+
+public class SchedulePreviewDto
+{
+    public string CronExpression { get; set; } = string.Empty; // As the scheduler will run it
+    public string ServerTimeZone { get; set; } = string.Empty;
+    public List<PreviewRunDto> Runs { get; set; } = new();
+}
+
+public class PreviewRunDto
+{
+    public DateTime StartsAt { get; set; }
+    public string? BlockedReason { get; set; }
+}
@@ -88,6 +88,15 @@ public class ScheduleDto
     public string CronExpression { get; set; } = string.Empty;
     public TimeOnly? TimeWindowStart { get; set; }
     public TimeOnly? TimeWindowEnd { get; set; }
+    public Dictionary<DayOfWeek, List<int>>? BlockedHours { get; set; } // Hours 0-23 per weekday, server time
+    public List<BlackoutPeriodDto>? BlackoutPeriods { get; set; }
+}
+
+public class BlackoutPeriodDto
+{
+    public DateOnly Start { get; set; }
+    public DateOnly End { get; set; } // Inclusive
+    public string? Reason { get; set; }
 }
 
 public class RetentionPolicyDto
@@ -160,6 +169,23 @@ public class ShareUpdateDto
     public IncludeExcludeRulesDto? IncludeExcludeRules { get; set; }
 }
 
+public class RetentionPreviewDto
+{
+    public List<RetentionPreviewSnapshotDto> Snapshots { get; set; } = new(); // Newest first
+    public int KeepCount { get; set; }
+    public int ForgetCount { get; set; }
+    public long BytesReclaimed { get; set; } // Stored data only the forgotten snapshots reference, freed by prune
+}
+
+public class RetentionPreviewSnapshotDto
+{
+    public string Id { get; set; } = string.Empty;
+    public DateTime Timestamp { get; set; }
+    public bool Keep { get; set; }
+    public List<string> Reasons { get; set; } = new(); // Rules that keep the snapshot
+    public long? DataAdded { get; set; }
+}
+
 public class BackupJobDto
 {
     public Guid Id { get; set; }
@@ -174,6 +200,7 @@ public class BackupJobDto
     public string? BackupId { get; set; }
     public long? FilesProcessed { get; set; }
     public long? BytesTransferred { get; set; }
+    public long? DataAdded { get; set; }
     public string? ErrorMessage { get; set; }
     public int RetryAttempt { get; set; }
     public DateTime? NextRetryAt { get; set; }
@@ -264,6 +291,54 @@ public class ProgressLogEntryDto
     public long? BytesDone { get; set; }
 }
 
+public class SnapshotDiffDto
+{
+    public string FromBackupId { get; set; } = string.Empty;
+    public string ToBackupId { get; set; } = string.Empty;
+    public int AddedCount { get; set; }
+    public int RemovedCount { get; set; }
+    public int ModifiedCount { get; set; }
+    public long SizeDelta { get; set; }
+    public List<SnapshotDiffEntryDto> Changes { get; set; } = new();
+}
+
+public class SnapshotDiffEntryDto
+{
+    public string Path { get; set; } = string.Empty;
+    public string ChangeType { get; set; } = string.Empty; // Added, Removed, Modified
+    public long? OldSize { get; set; }
+    public long? NewSize { get; set; }
+    public long SizeDelta { get; set; }
+}
+
+public class BackupLocationDto
+{
+    public Guid DeviceId { get; set; }
+    public Guid ShareId { get; set; }
+}
+
+public class FileSearchHitDto
+{
+    public Guid? ShareId { get; set; } // Share repository the hit was found in
+    public string Path { get; set; } = string.Empty;
+    public string Name { get; set; } = string.Empty;
+    public bool IsDirectory { get; set; }
+    public long Size { get; set; }
+    public DateTime ModifiedAt { get; set; }
+    public int SnapshotCount { get; set; }
+    public string FirstSeenBackupId { get; set; } = string.Empty;
+    public DateTime FirstSeenAt { get; set; }
+    public string LastSeenBackupId { get; set; } = string.Empty;
+    public DateTime LastSeenAt { get; set; }
+    public string? RemovedInBackupId { get; set; } // null while the path is still in the latest snapshot
+    public DateTime? RemovedAt { get; set; }
+}
+
+public class SearchStreamSummaryDto
+{
+    public bool Truncated { get; set; } // Sent as the last line of a streamed search; true when the limit cut it short
+}
+
 public class ConnectionTestResult
 {
     public bool Success { get; set; }
@@ -285,14 +360,31 @@ public class TriggerBackupRequest
     public Guid? ShareId { get; set; }
 }
 
+public class BackupQueuedDto
+{
+    public Guid DeviceId { get; set; }
+    public Guid? ShareId { get; set; }
+    public DateTime QueuedAt { get; set; }
+}
+
 public class RestoreRequestDto
 {
-    [Required]
-    public string TargetPath { get; set; } = string.Empty;
+    public string TargetPath { get; set; } = string.Empty; // Ignored when RestoreToSource is set
     
     public List<string>? IncludePaths { get; set; }
     
     public bool RestoreToSource { get; set; }
+
+    public string ConflictMode { get; set; } = "Overwrite"; // Overwrite, Skip, Rename
+}
+
+public class ArchiveSelectionRequestDto
+{
+    [Required]
+    [MinLength(1)]
+    public List<string> Paths { get; set; } = new();
+
+    public string Format { get; set; } = "zip";
 }
 
 public class ErrorResponse
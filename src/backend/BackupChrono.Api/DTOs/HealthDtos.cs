@@ -0,0 +1,24 @@
+namespace BackupChrono.Api.DTOs;
+
+/// <summary>
+/// Health status response model.
+/// </summary>
+public class HealthStatus
+{
+    public required string Status { get; set; }
+    public DateTime Timestamp { get; set; }
+    public required string Version { get; set; }
+    public TimeSpan Uptime { get; set; }
+    public IEnumerable<HealthCheck> Checks { get; set; } = Array.Empty<HealthCheck>();
+}
+
+/// <summary>
+/// Individual health check result.
+/// </summary>
+public class HealthCheck
+{
+    public required string Name { get; set; }
+    public required string Status { get; set; } // Healthy, Warning, Critical
+    public required string Message { get; set; }
+    public Dictionary<string, object>? Details { get; set; }
+}
@@ -0,0 +1,27 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace BackupChrono.Api.DTOs;
+
+public class GlobalSettingsDto
+{
+    public ScheduleDto Schedule { get; set; } = new();
+    public RetentionPolicyDto RetentionPolicy { get; set; } = new();
+    public IncludeExcludeRulesDto IncludeExcludeRules { get; set; } = new();
+    public string Compression { get; set; } = string.Empty;
+    public DateTime UpdatedAt { get; set; }
+}
+
+public class GlobalSettingsUpdateDto
+{
+    [Required]
+    public ScheduleDto Schedule { get; set; } = new();
+
+    [Required]
+    public RetentionPolicyDto RetentionPolicy { get; set; } = new();
+
+    [Required]
+    public IncludeExcludeRulesDto IncludeExcludeRules { get; set; } = new();
+
+    [Required]
+    public string Compression { get; set; } = string.Empty;
+}
@@ -3,10 +3,17 @@ using Microsoft.AspNetCore.SignalR;
 namespace BackupChrono.Api.Hubs;
 
 /// <summary>
-/// SignalR hub for broadcasting real-time backup progress updates to connected clients.
+/// SignalR hub for broadcasting real-time backup job events, health changes and configuration changes.
+/// Job lifecycle events go to every client; the high-volume progress ticks only go to clients
+/// that joined the group of the job, its device, or all jobs.
 /// </summary>
 public class BackupProgressHub : Hub
 {
+    /// <summary>
+    /// Group receiving progress for every job.
+    /// </summary>
+    public const string AllJobsGroup = "jobs";
+
     private readonly ILogger<BackupProgressHub> _logger;
 
     public BackupProgressHub(ILogger<BackupProgressHub> logger)
@@ -14,6 +21,10 @@ public class BackupProgressHub : Hub
         _logger = logger;
     }
 
+    public static string JobGroup(Guid jobId) => $"job:{jobId}";
+
+    public static string DeviceGroup(Guid deviceId) => $"device:{deviceId}";
+
     public override async Task OnConnectedAsync()
     {
         _logger.LogInformation("Client connected: {ConnectionId}", Context.ConnectionId);
@@ -25,4 +36,31 @@ public class BackupProgressHub : Hub
         _logger.LogInformation("Client disconnected: {ConnectionId}", Context.ConnectionId);
         await base.OnDisconnectedAsync(exception);
     }
+
+    /// <summary>
+    /// Receives progress for every job.
+    /// </summary>
+    public Task SubscribeToAllJobs() =>
+        Groups.AddToGroupAsync(Context.ConnectionId, AllJobsGroup);
+
+    public Task UnsubscribeFromAllJobs() =>
+        Groups.RemoveFromGroupAsync(Context.ConnectionId, AllJobsGroup);
+
+    /// <summary>
+    /// Receives progress for a single job.
+    /// </summary>
+    public Task SubscribeToJob(Guid jobId) =>
+        Groups.AddToGroupAsync(Context.ConnectionId, JobGroup(jobId));
+
+    public Task UnsubscribeFromJob(Guid jobId) =>
+        Groups.RemoveFromGroupAsync(Context.ConnectionId, JobGroup(jobId));
+
+    /// <summary>
+    /// Receives progress for every job of a device.
+    /// </summary>
+    public Task SubscribeToDevice(Guid deviceId) =>
+        Groups.AddToGroupAsync(Context.ConnectionId, DeviceGroup(deviceId));
+
+    public Task UnsubscribeFromDevice(Guid deviceId) =>
+        Groups.RemoveFromGroupAsync(Context.ConnectionId, DeviceGroup(deviceId));
 }
@@ -0,0 +1,17 @@
+namespace BackupChrono.Api.Hubs;
+
+/// <summary>
+/// Names of the client methods invoked by the SignalR hubs.
+/// </summary>
+public static class HubEvents
+{
+    public const string JobQueued = "JobQueued";
+    public const string JobStarted = "JobStarted";
+    public const string JobProgress = "JobProgress";
+    public const string JobCompleted = "JobCompleted";
+    public const string JobFailed = "JobFailed";
+    public const string JobCancelled = "JobCancelled";
+    public const string RestoreProgress = "RestoreProgress";
+    public const string HealthChanged = "HealthChanged";
+    public const string ConfigChanged = "ConfigChanged";
+}
@@ -161,9 +161,15 @@ builder.Services.AddSingleton<IProtocolPluginLoader, ProtocolPluginLoader>();
 builder.Services.AddSingleton<IDeviceService, DeviceService>();
 builder.Services.AddSingleton<IShareService, ShareService>();
 
+// Global settings (global.yaml)
+builder.Services.AddSingleton<ISettingsService, SettingsService>();
+
 // Backup orchestration - Singleton to preserve job state during shutdown
 builder.Services.AddSingleton<IBackupOrchestrator, BackupOrchestrator>();
 
+// Restore orchestration - Singleton so restore progress survives between requests
+builder.Services.AddSingleton<IRestoreOrchestrator, RestoreOrchestrator>();
+
 // Storage monitoring
 builder.Services.AddSingleton<IStorageMonitor, StorageMonitor>();
 
@@ -188,6 +194,16 @@ builder.Services.AddTransient<BackupChrono.Infrastructure.Scheduling.BackupJob>(
 // BackupProgressBroadcaster - bridges BackupOrchestrator events to SignalR (must be after all dependencies)
 builder.Services.AddHostedService<BackupProgressBroadcaster>();
 
+// RestoreProgressBroadcaster - bridges RestoreOrchestrator events to SignalR
+builder.Services.AddHostedService<RestoreProgressBroadcaster>();
+
+// ConfigChangeBroadcaster - bridges committed configuration changes to SignalR
+builder.Services.AddHostedService<ConfigChangeBroadcaster>();
+
+// HealthChangeBroadcaster - re-runs health checks and broadcasts status changes over SignalR
+builder.Services.AddSingleton<HealthCheckService>();
+builder.Services.AddHostedService<HealthChangeBroadcaster>();
+
 // JobCleanupService - marks stale "Running" jobs as Failed on startup
 builder.Services.AddHostedService<JobCleanupService>();
 
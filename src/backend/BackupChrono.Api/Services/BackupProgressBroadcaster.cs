@@ -1,4 +1,6 @@
+using System.Collections.Concurrent;
 using BackupChrono.Api.Hubs;
+using BackupChrono.Core.Entities;
 using BackupChrono.Core.Interfaces;
 using BackupChrono.Core.DTOs;
 using Microsoft.AspNetCore.SignalR;
@@ -7,12 +9,15 @@ namespace BackupChrono.Api.Services;
 
 /// <summary>
 /// Service that bridges BackupOrchestrator events to SignalR hub broadcasts.
+/// Every update is sent as JobProgress to the job, device and all-jobs groups; status changes
+/// are additionally sent to every client as JobStarted, JobCompleted, JobFailed or JobCancelled.
 /// </summary>
 public class BackupProgressBroadcaster : IHostedService
 {
     private readonly IBackupOrchestrator _orchestrator;
     private readonly IHubContext<BackupProgressHub> _hubContext;
     private readonly ILogger<BackupProgressBroadcaster> _logger;
+    private readonly ConcurrentDictionary<string, DateTime> _startedJobs = new();
 
     public BackupProgressBroadcaster(
         IBackupOrchestrator orchestrator,
@@ -42,11 +47,64 @@ public class BackupProgressBroadcaster : IHostedService
     {
         try
         {
-            await _hubContext.Clients.All.SendAsync("BackupProgress", progress);
+            var lifecycleEvent = TrackStatus(progress);
+            if (lifecycleEvent != null)
+            {
+                await _hubContext.Clients.All.SendAsync(lifecycleEvent, progress);
+            }
+
+            await _hubContext.Clients.Groups(ProgressGroups(progress)).SendAsync(HubEvents.JobProgress, progress);
         }
         catch (Exception ex)
         {
             _logger.LogError(ex, "Failed to broadcast progress for job {JobId}", progress.JobId);
         }
     }
+
+    /// <summary>
+    /// Returns the lifecycle event to raise when the update changes the job's status.
+    /// </summary>
+    private string? TrackStatus(BackupProgress progress)
+    {
+        if (!Enum.TryParse<BackupJobStatus>(progress.Status, out var status))
+        {
+            return null;
+        }
+
+        var lifecycleEvent = status switch
+        {
+            BackupJobStatus.Running => HubEvents.JobStarted,
+            BackupJobStatus.Completed or BackupJobStatus.PartiallyCompleted => HubEvents.JobCompleted,
+            BackupJobStatus.Failed => HubEvents.JobFailed,
+            BackupJobStatus.Cancelled => HubEvents.JobCancelled,
+            _ => null
+        };
+
+        if (lifecycleEvent == HubEvents.JobStarted)
+        {
+            // Only the first Running update starts the job; the rest are progress ticks
+            return _startedJobs.TryAdd(progress.JobId, DateTime.UtcNow) ? lifecycleEvent : null;
+        }
+
+        // Terminal statuses end tracking so the dictionary only ever holds active jobs
+        _startedJobs.TryRemove(progress.JobId, out _);
+        return lifecycleEvent;
+    }
+
+    private static IReadOnlyList<string> ProgressGroups(BackupProgress progress)
+    {
+        var groups = new List<string> { BackupProgressHub.AllJobsGroup };
+
+        if (Guid.TryParse(progress.JobId, out var jobId))
+        {
+            groups.Add(BackupProgressHub.JobGroup(jobId));
+        }
+
+        if (progress.DeviceId.HasValue)
+        {
+            groups.Add(BackupProgressHub.DeviceGroup(progress.DeviceId.Value));
+        }
+
+        return groups;
+    }
 }
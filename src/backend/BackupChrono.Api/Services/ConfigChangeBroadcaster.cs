@@ -0,0 +1,52 @@
+using BackupChrono.Api.Hubs;
+using BackupChrono.Core.ValueObjects;
+using BackupChrono.Infrastructure.Git;
+using Microsoft.AspNetCore.SignalR;
+
+namespace BackupChrono.Api.Services;
+
+/// <summary>
+/// Service that bridges committed configuration changes to SignalR hub broadcasts.
+/// </summary>
+public class ConfigChangeBroadcaster : IHostedService
+{
+    private readonly GitConfigService _gitConfigService;
+    private readonly IHubContext<BackupProgressHub> _hubContext;
+    private readonly ILogger<ConfigChangeBroadcaster> _logger;
+
+    public ConfigChangeBroadcaster(
+        GitConfigService gitConfigService,
+        IHubContext<BackupProgressHub> hubContext,
+        ILogger<ConfigChangeBroadcaster> logger)
+    {
+        _gitConfigService = gitConfigService;
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    public Task StartAsync(CancellationToken cancellationToken)
+    {
+        _gitConfigService.ConfigurationChanged += OnConfigurationChanged;
+        _logger.LogInformation("ConfigChangeBroadcaster started");
+        return Task.CompletedTask;
+    }
+
+    public Task StopAsync(CancellationToken cancellationToken)
+    {
+        _gitConfigService.ConfigurationChanged -= OnConfigurationChanged;
+        _logger.LogInformation("ConfigChangeBroadcaster stopped");
+        return Task.CompletedTask;
+    }
+
+    private async void OnConfigurationChanged(object? sender, ConfigurationCommit commit)
+    {
+        try
+        {
+            await _hubContext.Clients.All.SendAsync(HubEvents.ConfigChanged, commit);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to broadcast configuration change {Hash}", commit.Hash);
+        }
+    }
+}
@@ -0,0 +1,73 @@
+using BackupChrono.Api.DTOs;
+using BackupChrono.Api.Hubs;
+using Microsoft.AspNetCore.SignalR;
+
+namespace BackupChrono.Api.Services;
+
+/// <summary>
+/// Background service that re-runs the health checks periodically and broadcasts the new
+/// health status whenever the overall status or any individual check's status changes.
+/// </summary>
+public class HealthChangeBroadcaster : BackgroundService
+{
+    private static readonly TimeSpan CheckInterval = TimeSpan.FromMinutes(1);
+
+    private readonly HealthCheckService _healthCheckService;
+    private readonly IHubContext<BackupProgressHub> _hubContext;
+    private readonly ILogger<HealthChangeBroadcaster> _logger;
+
+    public HealthChangeBroadcaster(
+        HealthCheckService healthCheckService,
+        IHubContext<BackupProgressHub> hubContext,
+        ILogger<HealthChangeBroadcaster> logger)
+    {
+        _healthCheckService = healthCheckService;
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        string? lastSignature = null;
+
+        using var timer = new PeriodicTimer(CheckInterval);
+        do
+        {
+            try
+            {
+                var health = await _healthCheckService.GetHealthStatus();
+                var signature = Signature(health);
+
+                // The first run only records the baseline; clients load the current status themselves
+                if (lastSignature != null && signature != lastSignature)
+                {
+                    _logger.LogInformation("Health status changed to {Status}", health.Status);
+                    await _hubContext.Clients.All.SendAsync(HubEvents.HealthChanged, health, stoppingToken);
+                }
+
+                lastSignature = signature;
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Failed to check health status");
+            }
+        }
+        while (await WaitForNextCheck(timer, stoppingToken));
+    }
+
+    private static async Task<bool> WaitForNextCheck(PeriodicTimer timer, CancellationToken stoppingToken)
+    {
+        try
+        {
+            return await timer.WaitForNextTickAsync(stoppingToken);
+        }
+        catch (OperationCanceledException)
+        {
+            return false;
+        }
+    }
+
+    // Messages carry live numbers such as memory use, so only statuses count as a change
+    private static string Signature(HealthStatus health) =>
+        string.Join(";", health.Checks.Select(c => $"{c.Name}={c.Status}").Prepend(health.Status));
+}
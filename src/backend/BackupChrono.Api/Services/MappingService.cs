@@ -27,6 +27,9 @@ public interface IMappingService
     
     IncludeExcludeRulesDto? ToIncludeExcludeRulesDto(IncludeExcludeRules? rules);
     IncludeExcludeRules? ToIncludeExcludeRules(IncludeExcludeRulesDto? dto);
+
+    GlobalSettingsDto ToGlobalSettingsDto(GlobalSettings settings);
+    GlobalSettings ToGlobalSettings(GlobalSettingsUpdateDto dto);
 }
 
 public class MappingService : IMappingService
@@ -197,6 +200,7 @@ public class MappingService : IMappingService
             BackupId = job.BackupId,
             FilesProcessed = job.FilesProcessed,
             BytesTransferred = job.BytesTransferred,
+            DataAdded = job.DataAdded,
             ErrorMessage = job.ErrorMessage,
             RetryAttempt = job.RetryAttempt,
             NextRetryAt = job.NextRetryAt,
@@ -241,7 +245,11 @@ public class MappingService : IMappingService
         {
             CronExpression = schedule.CronExpression,
             TimeWindowStart = schedule.TimeWindowStart,
-            TimeWindowEnd = schedule.TimeWindowEnd
+            TimeWindowEnd = schedule.TimeWindowEnd,
+            BlockedHours = schedule.BlockedHours?.ToDictionary(e => e.Key, e => e.Value.ToList()),
+            BlackoutPeriods = schedule.BlackoutPeriods?
+                .Select(p => new BlackoutPeriodDto { Start = p.Start, End = p.End, Reason = p.Reason })
+                .ToList()
         };
     }
 
@@ -253,7 +261,14 @@ public class MappingService : IMappingService
         {
             CronExpression = dto.CronExpression,
             TimeWindowStart = dto.TimeWindowStart,
-            TimeWindowEnd = dto.TimeWindowEnd
+            TimeWindowEnd = dto.TimeWindowEnd,
+            // Days without blocked hours are dropped so the stored config stays short
+            BlockedHours = dto.BlockedHours?
+                .Where(e => e.Value.Count > 0)
+                .ToDictionary(e => e.Key, e => e.Value.Distinct().Order().ToList()),
+            BlackoutPeriods = dto.BlackoutPeriods?
+                .Select(p => new BlackoutPeriod { Start = p.Start, End = p.End, Reason = p.Reason })
+                .ToList()
         };
     }
 
@@ -310,4 +325,32 @@ public class MappingService : IMappingService
             ExcludeIfPresent = dto.ExcludeIfPresent
         };
     }
+
+    public GlobalSettingsDto ToGlobalSettingsDto(GlobalSettings settings)
+    {
+        return new GlobalSettingsDto
+        {
+            Schedule = ToScheduleDto(settings.Schedule)!,
+            RetentionPolicy = ToRetentionPolicyDto(settings.RetentionPolicy)!,
+            IncludeExcludeRules = ToIncludeExcludeRulesDto(settings.IncludeExcludeRules)!,
+            Compression = settings.Compression.ToString(),
+            UpdatedAt = settings.UpdatedAt
+        };
+    }
+
+    public GlobalSettings ToGlobalSettings(GlobalSettingsUpdateDto dto)
+    {
+        if (!Enum.TryParse<CompressionMode>(dto.Compression, ignoreCase: true, out var compression))
+        {
+            throw new ArgumentException($"Invalid compression '{dto.Compression}'. Must be one of: {string.Join(", ", Enum.GetNames<CompressionMode>())}", nameof(dto.Compression));
+        }
+
+        return new GlobalSettings
+        {
+            Schedule = ToSchedule(dto.Schedule)!,
+            RetentionPolicy = ToRetentionPolicy(dto.RetentionPolicy)!,
+            IncludeExcludeRules = ToIncludeExcludeRules(dto.IncludeExcludeRules)!,
+            Compression = compression
+        };
+    }
 }
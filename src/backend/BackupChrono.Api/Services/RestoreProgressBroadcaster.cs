@@ -0,0 +1,52 @@
+using BackupChrono.Api.Hubs;
+using BackupChrono.Core.Interfaces;
+using BackupChrono.Core.DTOs;
+using Microsoft.AspNetCore.SignalR;
+
+namespace BackupChrono.Api.Services;
+
+/// <summary>
+/// Service that bridges RestoreOrchestrator events to SignalR hub broadcasts.
+/// </summary>
+public class RestoreProgressBroadcaster : IHostedService
+{
+    private readonly IRestoreOrchestrator _orchestrator;
+    private readonly IHubContext<RestoreProgressHub> _hubContext;
+    private readonly ILogger<RestoreProgressBroadcaster> _logger;
+
+    public RestoreProgressBroadcaster(
+        IRestoreOrchestrator orchestrator,
+        IHubContext<RestoreProgressHub> hubContext,
+        ILogger<RestoreProgressBroadcaster> logger)
+    {
+        _orchestrator = orchestrator;
+        _hubContext = hubContext;
+        _logger = logger;
+    }
+
+    public Task StartAsync(CancellationToken cancellationToken)
+    {
+        _orchestrator.ProgressUpdated += OnProgressUpdated;
+        _logger.LogInformation("RestoreProgressBroadcaster started");
+        return Task.CompletedTask;
+    }
+
+    public Task StopAsync(CancellationToken cancellationToken)
+    {
+        _orchestrator.ProgressUpdated -= OnProgressUpdated;
+        _logger.LogInformation("RestoreProgressBroadcaster stopped");
+        return Task.CompletedTask;
+    }
+
+    private async void OnProgressUpdated(object? sender, RestoreProgress progress)
+    {
+        try
+        {
+            await _hubContext.Clients.All.SendAsync(HubEvents.RestoreProgress, progress);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to broadcast progress for restore {RestoreId}", progress.RestoreId);
+        }
+    }
+}
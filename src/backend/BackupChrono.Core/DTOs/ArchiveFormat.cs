@@ -0,0 +1,17 @@
+namespace BackupChrono.Core.DTOs;
+
+/// <summary>
+/// Archive formats restic can produce when dumping a folder from a snapshot.
+/// </summary>
+public enum ArchiveFormat
+{
+    /// <summary>
+    /// Uncompressed tar archive (restic's default).
+    /// </summary>
+    Tar,
+
+    /// <summary>
+    /// Zip archive.
+    /// </summary>
+    Zip
+}
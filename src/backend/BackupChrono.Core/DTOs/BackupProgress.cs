@@ -10,6 +10,16 @@ public class BackupProgress
     /// </summary>
     public required string JobId { get; init; }
 
+    /// <summary>
+    /// Device being backed up.
+    /// </summary>
+    public Guid? DeviceId { get; init; }
+
+    /// <summary>
+    /// Share being backed up (null for the device-level status of a device backup).
+    /// </summary>
+    public Guid? ShareId { get; init; }
+
     /// <summary>
     /// Device name being backed up.
     /// </summary>
@@ -21,7 +31,7 @@ public class BackupProgress
     public string? ShareName { get; init; }
 
     /// <summary>
-    /// Current status of the backup (Running, Completed, Failed).
+    /// Current status of the backup (Running, Completed, PartiallyCompleted, Failed, Cancelled).
     /// </summary>
     public string? Status { get; init; }
 
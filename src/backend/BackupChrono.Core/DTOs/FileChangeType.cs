@@ -0,0 +1,22 @@
+namespace BackupChrono.Core.DTOs;
+
+/// <summary>
+/// Kind of change a file underwent between two backup snapshots.
+/// </summary>
+public enum FileChangeType
+{
+    /// <summary>
+    /// File exists only in the newer snapshot.
+    /// </summary>
+    Added,
+
+    /// <summary>
+    /// File exists only in the older snapshot.
+    /// </summary>
+    Removed,
+
+    /// <summary>
+    /// File exists in both snapshots but its size or modification time differs.
+    /// </summary>
+    Modified
+}
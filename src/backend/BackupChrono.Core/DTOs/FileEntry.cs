@@ -20,6 +20,11 @@ public class FileEntry
     /// </summary>
     public bool IsDirectory { get; init; }
 
+    /// <summary>
+    /// Whether this entry is a symbolic link.
+    /// </summary>
+    public bool IsSymlink { get; init; }
+
     /// <summary>
     /// File size in bytes (0 for directories).
     /// </summary>
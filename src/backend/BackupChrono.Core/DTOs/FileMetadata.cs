@@ -0,0 +1,130 @@
+namespace BackupChrono.Core.DTOs;
+
+/// <summary>
+/// Everything restic recorded about a single file, folder or link in a snapshot.
+/// Fields restic did not store for the entry (e.g. owner names on Windows) are null.
+/// </summary>
+public class FileMetadata
+{
+    /// <summary>
+    /// Full path within the backup.
+    /// </summary>
+    public required string Path { get; init; }
+
+    /// <summary>
+    /// File or directory name.
+    /// </summary>
+    public required string Name { get; init; }
+
+    /// <summary>
+    /// Node type as stored by restic ("file", "dir", "symlink", "dev", "chardev", "fifo" or "socket").
+    /// </summary>
+    public required string Type { get; init; }
+
+    /// <summary>
+    /// Permission bits in octal (e.g., "755").
+    /// </summary>
+    public string? Mode { get; init; }
+
+    /// <summary>
+    /// Symbolic permissions including the type character (e.g., "drwxr-xr-x").
+    /// </summary>
+    public string? Permissions { get; init; }
+
+    /// <summary>
+    /// Numeric owner user ID.
+    /// </summary>
+    public uint? Uid { get; init; }
+
+    /// <summary>
+    /// Numeric owner group ID.
+    /// </summary>
+    public uint? Gid { get; init; }
+
+    /// <summary>
+    /// Owner user name, when it could be resolved at backup time.
+    /// </summary>
+    public string? User { get; init; }
+
+    /// <summary>
+    /// Owner group name, when it could be resolved at backup time.
+    /// </summary>
+    public string? Group { get; init; }
+
+    /// <summary>
+    /// Target of a symbolic link, exactly as stored.
+    /// </summary>
+    public string? LinkTarget { get; init; }
+
+    /// <summary>
+    /// Number of hard links to the inode at backup time.
+    /// </summary>
+    public ulong? HardLinks { get; init; }
+
+    /// <summary>
+    /// Inode number at backup time; entries sharing an inode and device are hard links of each other.
+    /// </summary>
+    public ulong? Inode { get; init; }
+
+    /// <summary>
+    /// Device ID of the filesystem the entry lived on.
+    /// </summary>
+    public ulong? DeviceId { get; init; }
+
+    /// <summary>
+    /// File size in bytes (0 for directories).
+    /// </summary>
+    public long Size { get; init; }
+
+    /// <summary>
+    /// Last modification timestamp.
+    /// </summary>
+    public DateTime? ModifiedAt { get; init; }
+
+    /// <summary>
+    /// Last access timestamp.
+    /// </summary>
+    public DateTime? AccessedAt { get; init; }
+
+    /// <summary>
+    /// Last status change timestamp.
+    /// </summary>
+    public DateTime? ChangedAt { get; init; }
+
+    /// <summary>
+    /// Extended attributes and platform attributes (POSIX ACLs, Windows security descriptors).
+    /// </summary>
+    public List<FileAttributeEntry> Attributes { get; init; } = new();
+
+    /// <summary>
+    /// Number of content chunks restic stored for the file.
+    /// </summary>
+    public int ContentChunks { get; init; }
+
+    /// <summary>
+    /// SHA-256 of the file content, only computed when requested.
+    /// </summary>
+    public string? ContentHash { get; init; }
+}
+
+/// <summary>
+/// A single extended attribute or platform attribute of a snapshot entry.
+/// </summary>
+public class FileAttributeEntry
+{
+    /// <summary>
+    /// Attribute name (e.g., "user.comment", "system.posix_acl_access").
+    /// </summary>
+    public required string Name { get; init; }
+
+    /// <summary>
+    /// Raw attribute value, base64 encoded.
+    /// </summary>
+    public required string Value { get; init; }
+
+    /// <summary>
+    /// Readable form of the value: the decoded ACL entries for POSIX ACLs, the text for
+    /// printable values, or null when the value is binary.
+    /// </summary>
+    public string? Text { get; init; }
+}
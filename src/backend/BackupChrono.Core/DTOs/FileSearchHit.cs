@@ -0,0 +1,68 @@
+namespace BackupChrono.Core.DTOs;
+
+/// <summary>
+/// A path matching a search, summarised across every snapshot of a repository.
+/// </summary>
+public class FileSearchHit
+{
+    /// <summary>
+    /// Full path within the backup.
+    /// </summary>
+    public required string Path { get; init; }
+
+    /// <summary>
+    /// File or folder name.
+    /// </summary>
+    public required string Name { get; init; }
+
+    /// <summary>
+    /// Whether the path is a directory.
+    /// </summary>
+    public bool IsDirectory { get; init; }
+
+    /// <summary>
+    /// Size in bytes in the most recent snapshot containing the path.
+    /// </summary>
+    public long Size { get; init; }
+
+    /// <summary>
+    /// Modification time in the most recent snapshot containing the path.
+    /// </summary>
+    public DateTime ModifiedAt { get; init; }
+
+    /// <summary>
+    /// Number of snapshots containing the path.
+    /// </summary>
+    public int SnapshotCount { get; init; }
+
+    /// <summary>
+    /// Oldest snapshot containing the path.
+    /// </summary>
+    public required string FirstSeenBackupId { get; init; }
+
+    /// <summary>
+    /// Time of the oldest snapshot containing the path.
+    /// </summary>
+    public DateTime FirstSeenAt { get; init; }
+
+    /// <summary>
+    /// Newest snapshot containing the path.
+    /// </summary>
+    public required string LastSeenBackupId { get; init; }
+
+    /// <summary>
+    /// Time of the newest snapshot containing the path.
+    /// </summary>
+    public DateTime LastSeenAt { get; init; }
+
+    /// <summary>
+    /// First snapshot after <see cref="LastSeenBackupId"/>, i.e. the one the path disappeared in.
+    /// Null when the path is still in the latest snapshot.
+    /// </summary>
+    public string? RemovedInBackupId { get; init; }
+
+    /// <summary>
+    /// Time of the snapshot the path disappeared in.
+    /// </summary>
+    public DateTime? RemovedAt { get; init; }
+}
@@ -15,6 +15,11 @@ public class FileVersion
     /// </summary>
     public DateTime Timestamp { get; init; }
 
+    /// <summary>
+    /// File modification time recorded in the snapshot.
+    /// </summary>
+    public DateTime ModifiedAt { get; init; }
+
     /// <summary>
     /// File size in bytes.
     /// </summary>
@@ -22,6 +27,7 @@ public class FileVersion
 
     /// <summary>
     /// Content hash (for detecting identical files).
+    /// Null when the file is too large to hash while building the history.
     /// </summary>
-    public required string Hash { get; init; }
+    public string? Hash { get; init; }
 }
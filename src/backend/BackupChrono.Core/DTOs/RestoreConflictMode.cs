@@ -0,0 +1,22 @@
+namespace BackupChrono.Core.DTOs;
+
+/// <summary>
+/// What to do when a restored file already exists at its destination.
+/// </summary>
+public enum RestoreConflictMode
+{
+    /// <summary>
+    /// Replace the existing file with the backed-up version.
+    /// </summary>
+    Overwrite,
+
+    /// <summary>
+    /// Keep the existing file and do not restore that one.
+    /// </summary>
+    Skip,
+
+    /// <summary>
+    /// Keep the existing file and restore the backed-up version next to it with a timestamp suffix.
+    /// </summary>
+    Rename
+}
@@ -10,18 +10,68 @@ public class RestoreProgress
     /// </summary>
     public required string RestoreId { get; init; }
 
+    /// <summary>
+    /// Backup snapshot being restored.
+    /// </summary>
+    public string? BackupId { get; init; }
+
+    /// <summary>
+    /// Device the snapshot belongs to.
+    /// </summary>
+    public Guid? DeviceId { get; init; }
+
+    /// <summary>
+    /// Share the snapshot belongs to.
+    /// </summary>
+    public Guid? ShareId { get; init; }
+
+    /// <summary>
+    /// Directory the files are restored into.
+    /// </summary>
+    public string? TargetPath { get; init; }
+
+    /// <summary>
+    /// Current status of the restore (Running, Completed, Failed).
+    /// </summary>
+    public string? Status { get; init; }
+
     /// <summary>
     /// Number of files restored so far.
     /// </summary>
     public int FilesRestored { get; init; }
 
+    /// <summary>
+    /// Total number of files to restore (if known).
+    /// </summary>
+    public int? TotalFiles { get; init; }
+
     /// <summary>
     /// Number of bytes restored so far.
     /// </summary>
     public long BytesRestored { get; init; }
 
+    /// <summary>
+    /// Total bytes to restore (if known).
+    /// </summary>
+    public long? TotalBytes { get; init; }
+
     /// <summary>
     /// Percentage complete (0-100).
     /// </summary>
     public double PercentComplete { get; init; }
+
+    /// <summary>
+    /// When the restore was started.
+    /// </summary>
+    public DateTime StartedAt { get; init; }
+
+    /// <summary>
+    /// When the restore finished (null while running).
+    /// </summary>
+    public DateTime? CompletedAt { get; init; }
+
+    /// <summary>
+    /// Error message if the restore failed.
+    /// </summary>
+    public string? ErrorMessage { get; init; }
 }
@@ -0,0 +1,42 @@
+namespace BackupChrono.Core.DTOs;
+
+/// <summary>
+/// Where a restore-to-source operation would write, shown to the user for confirmation.
+/// </summary>
+public class RestoreSourceTarget
+{
+    /// <summary>
+    /// Device the files are written back to.
+    /// </summary>
+    public required Guid DeviceId { get; init; }
+
+    /// <summary>
+    /// Display name of the device.
+    /// </summary>
+    public required string DeviceName { get; init; }
+
+    /// <summary>
+    /// Hostname or IP address of the device.
+    /// </summary>
+    public required string Host { get; init; }
+
+    /// <summary>
+    /// Protocol used to reach the device (SMB, SSH, Rsync).
+    /// </summary>
+    public required string Protocol { get; init; }
+
+    /// <summary>
+    /// Share the files are written back to.
+    /// </summary>
+    public required Guid ShareId { get; init; }
+
+    /// <summary>
+    /// Display name of the share.
+    /// </summary>
+    public required string ShareName { get; init; }
+
+    /// <summary>
+    /// Path of the share on the device.
+    /// </summary>
+    public required string SharePath { get; init; }
+}
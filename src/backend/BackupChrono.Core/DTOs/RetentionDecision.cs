@@ -0,0 +1,25 @@
+using BackupChrono.Core.Entities;
+
+namespace BackupChrono.Core.DTOs;
+
+/// <summary>
+/// Whether a retention policy keeps a snapshot, and which of its rules do.
+/// </summary>
+public class RetentionDecision
+{
+    /// <summary>
+    /// The snapshot the decision is about.
+    /// </summary>
+    public required Backup Backup { get; init; }
+
+    /// <summary>
+    /// Rules that keep the snapshot ("latest", "daily", "weekly", "monthly" or "yearly").
+    /// Empty when the snapshot would be forgotten.
+    /// </summary>
+    public List<string> Reasons { get; init; } = new();
+
+    /// <summary>
+    /// Whether the snapshot survives the policy.
+    /// </summary>
+    public bool Keep => Reasons.Count > 0;
+}
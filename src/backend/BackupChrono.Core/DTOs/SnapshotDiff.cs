@@ -0,0 +1,73 @@
+namespace BackupChrono.Core.DTOs;
+
+/// <summary>
+/// Differences between two backup snapshots of the same repository.
+/// </summary>
+public class SnapshotDiff
+{
+    /// <summary>
+    /// Older snapshot ID the comparison starts from.
+    /// </summary>
+    public required string FromBackupId { get; init; }
+
+    /// <summary>
+    /// Newer snapshot ID the comparison ends at.
+    /// </summary>
+    public required string ToBackupId { get; init; }
+
+    /// <summary>
+    /// Changed files, ordered by path.
+    /// </summary>
+    public List<SnapshotDiffEntry> Changes { get; init; } = new();
+
+    /// <summary>
+    /// Number of files added.
+    /// </summary>
+    public int AddedCount => Changes.Count(c => c.ChangeType == FileChangeType.Added);
+
+    /// <summary>
+    /// Number of files removed.
+    /// </summary>
+    public int RemovedCount => Changes.Count(c => c.ChangeType == FileChangeType.Removed);
+
+    /// <summary>
+    /// Number of files modified.
+    /// </summary>
+    public int ModifiedCount => Changes.Count(c => c.ChangeType == FileChangeType.Modified);
+
+    /// <summary>
+    /// Net change in bytes across all changed files.
+    /// </summary>
+    public long SizeDelta => Changes.Sum(c => c.SizeDelta);
+}
+
+/// <summary>
+/// A single file that differs between two snapshots.
+/// </summary>
+public class SnapshotDiffEntry
+{
+    /// <summary>
+    /// Full path within the backup.
+    /// </summary>
+    public required string Path { get; init; }
+
+    /// <summary>
+    /// Kind of change.
+    /// </summary>
+    public FileChangeType ChangeType { get; init; }
+
+    /// <summary>
+    /// File size in the older snapshot (null when added).
+    /// </summary>
+    public long? OldSize { get; init; }
+
+    /// <summary>
+    /// File size in the newer snapshot (null when removed).
+    /// </summary>
+    public long? NewSize { get; init; }
+
+    /// <summary>
+    /// Size difference in bytes (new - old).
+    /// </summary>
+    public long SizeDelta => (NewSize ?? 0) - (OldSize ?? 0);
+}
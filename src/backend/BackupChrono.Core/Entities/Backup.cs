@@ -47,6 +47,17 @@ public class Backup
     /// </summary>
     public Dictionary<string, string> SharesPaths { get; init; } = new();
 
+    /// <summary>
+    /// Source paths recorded in the restic snapshot. Together with the host they form the group
+    /// restic's forget applies a retention policy to.
+    /// </summary>
+    public List<string> SnapshotPaths { get; init; } = new();
+
+    /// <summary>
+    /// ID of the snapshot's root tree in restic. Snapshots with the same tree have identical contents.
+    /// </summary>
+    public string? TreeId { get; init; }
+
     /// <summary>
     /// Number of new files in this backup.
     /// </summary>
@@ -65,6 +65,11 @@ public class BackupJob
     /// </summary>
     public long BytesTransferred { get; set; }
 
+    /// <summary>
+    /// Number of new bytes added to the repository by the backup (summed across shares for device-level jobs).
+    /// </summary>
+    public long DataAdded { get; set; }
+
     /// <summary>
     /// Error message if the job failed.
     /// </summary>
@@ -0,0 +1,22 @@
+namespace BackupChrono.Core.Entities;
+
+/// <summary>
+/// Repository compression mode (maps to restic's --compression option).
+/// </summary>
+public enum CompressionMode
+{
+    /// <summary>
+    /// Compress data with restic's default fast compression level.
+    /// </summary>
+    Auto,
+
+    /// <summary>
+    /// Store data uncompressed.
+    /// </summary>
+    Off,
+
+    /// <summary>
+    /// Compress data with the highest (slowest) compression level.
+    /// </summary>
+    Max
+}
@@ -0,0 +1,62 @@
+using BackupChrono.Core.ValueObjects;
+
+namespace BackupChrono.Core.Entities;
+
+/// <summary>
+/// Global configuration defaults inherited by all devices and shares
+/// (configuration cascade: Share > Device > Global).
+/// </summary>
+public class GlobalSettings
+{
+    /// <summary>
+    /// Default cron schedule used when neither device nor share define one.
+    /// </summary>
+    public const string DefaultCronExpression = "0 2 * * *";
+
+    /// <summary>
+    /// Default backup schedule.
+    /// </summary>
+    public Schedule Schedule { get; set; } = new() { CronExpression = DefaultCronExpression };
+
+    /// <summary>
+    /// Default retention policy.
+    /// </summary>
+    public RetentionPolicy RetentionPolicy { get; set; } = new();
+
+    /// <summary>
+    /// Baseline include/exclude rules applied to all devices and shares.
+    /// </summary>
+    public IncludeExcludeRules IncludeExcludeRules { get; set; } = IncludeExcludeRules.Default;
+
+    /// <summary>
+    /// Repository compression mode.
+    /// </summary>
+    public CompressionMode Compression { get; set; } = CompressionMode.Auto;
+
+    /// <summary>
+    /// Last time the settings were modified (UTC).
+    /// </summary>
+    public DateTime UpdatedAt { get; set; } = DateTime.UtcNow;
+
+    /// <summary>
+    /// Validates that the settings are consistent.
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown when a schedule, retention policy or rule set is invalid.</exception>
+    public void Validate()
+    {
+        if (Schedule == null || !Schedule.IsValid())
+        {
+            throw new InvalidOperationException("Global schedule requires a cron expression, a time window whose start and end differ, blocked hours between 0 and 23 and blackout periods that end after they start.");
+        }
+
+        if (RetentionPolicy == null || !RetentionPolicy.IsValid())
+        {
+            throw new InvalidOperationException("Global retention policy must keep at least one snapshot.");
+        }
+
+        if (IncludeExcludeRules == null || !IncludeExcludeRules.IsValid())
+        {
+            throw new InvalidOperationException("Global include/exclude rules cannot combine ExcludeRegex and IncludeOnlyRegex.");
+        }
+    }
+}
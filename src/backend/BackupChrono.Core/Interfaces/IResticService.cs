@@ -46,11 +46,12 @@ public interface IResticService
     /// <param name="share">Share to backup (null for device-level backup of all shares).</param>
     /// <param name="sourcePath">Local path to backup (from mounted share).</param>
     /// <param name="rules">Include/exclude rules to apply.</param>
+    /// <param name="compression">Compression mode for the data the backup adds.</param>
     /// <param name="onProgress">Optional callback for progress updates during backup.</param>
     /// <param name="onWarning">Optional callback for warning lines during backup.</param>
     /// <param name="onError">Optional callback for error lines during backup.</param>
     /// <returns>Created backup snapshot.</returns>
-    Task<Backup> CreateBackup(string repositoryPath, Device device, Share? share, string sourcePath, IncludeExcludeRules rules, Action<BackupProgress>? onProgress = null, Action<string>? onWarning = null, Action<string>? onError = null, CancellationToken cancellationToken = default);
+    Task<Backup> CreateBackup(string repositoryPath, Device device, Share? share, string sourcePath, IncludeExcludeRules rules, CompressionMode compression = CompressionMode.Auto, Action<BackupProgress>? onProgress = null, Action<string>? onWarning = null, Action<string>? onError = null, CancellationToken cancellationToken = default);
 
     /// <summary>
     /// Gets progress of a running backup job.
@@ -92,6 +93,15 @@ public interface IResticService
     /// <returns>Repository statistics including blob counts and deduplication ratio.</returns>
     Task<SnapshotStats> GetSnapshotStats(string backupId, string? repositoryPath = null);
 
+    /// <summary>
+    /// Measures the unique data a set of snapshots references, as stored in the repository.
+    /// Data shared between the snapshots is counted once.
+    /// </summary>
+    /// <param name="backupIds">Snapshot IDs to measure; an empty set measures nothing.</param>
+    /// <param name="repositoryPath">Optional repository path override.</param>
+    /// <returns>Stored bytes of the blobs the snapshots reference.</returns>
+    Task<long> GetRawDataSize(IEnumerable<string> backupIds, string? repositoryPath = null);
+
     /// <summary>
     /// Gets complete backup details including snapshots, metadata, and stats in a single efficient call.
     /// This minimizes restic command invocations by combining GetBackup, GetSnapshotMetadata, and GetSnapshotStats.
@@ -107,9 +117,34 @@ public interface IResticService
     Task<IEnumerable<FileEntry>> BrowseBackup(string backupId, string path = "/", string? repositoryPath = null);
 
     /// <summary>
-    /// Gets version history for a specific file across backups.
+    /// Reads the full node restic stored for one entry of a snapshot: ownership, mode,
+    /// link target, hard link and inode details and extended attributes.
+    /// </summary>
+    /// <param name="backupId">Snapshot ID</param>
+    /// <param name="filePath">Absolute path of the entry inside the snapshot</param>
+    /// <param name="includeHash">Also read the file content to compute its SHA-256</param>
+    /// <param name="repositoryPath">Optional repository path override (for per-share repositories)</param>
+    /// <exception cref="KeyNotFoundException">The snapshot does not contain the path.</exception>
+    Task<FileMetadata> GetFileMetadata(string backupId, string filePath, bool includeHash = false, string? repositoryPath = null);
+
+    /// <summary>
+    /// Gets version history for a specific file across all snapshots in a repository.
+    /// </summary>
+    /// <param name="filePath">Absolute path of the file inside the snapshots.</param>
+    /// <param name="repositoryPath">Repository to search (null = default repository).</param>
+    /// <param name="cancellationToken">Stops listing and hashing, e.g. when the request is aborted.</param>
+    /// <returns>One entry per snapshot containing the file, newest first.</returns>
+    Task<IEnumerable<FileVersion>> GetFileHistory(string filePath, string? repositoryPath = null, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Compares the files of two snapshots in the same repository by content, using restic diff.
+    /// A file whose metadata changed but whose data did not is not reported.
     /// </summary>
-    Task<IEnumerable<FileVersion>> GetFileHistory(string deviceName, string filePath);
+    /// <param name="fromBackupId">Older snapshot to compare from.</param>
+    /// <param name="toBackupId">Newer snapshot to compare to.</param>
+    /// <param name="repositoryPath">Repository containing both snapshots (null = default repository).</param>
+    /// <returns>Added, removed and modified files ordered by path.</returns>
+    Task<SnapshotDiff> DiffSnapshots(string fromBackupId, string toBackupId, string? repositoryPath = null);
 
     // Retention
 
@@ -138,16 +173,84 @@ public interface IResticService
     /// <returns>File content as stream.</returns>
     Task<Stream> DumpFileStream(string backupId, string filePath, string? repositoryPath = null);
 
+    /// <summary>
+    /// Streams a folder from a backup snapshot as an archive.
+    /// </summary>
+    /// <param name="backupId">Backup snapshot ID.</param>
+    /// <param name="folderPath">Folder within the backup ("/" for the whole snapshot).</param>
+    /// <param name="format">Archive format restic should produce.</param>
+    /// <param name="repositoryPath">Optional repository path override.</param>
+    /// <returns>Archive content as stream.</returns>
+    Task<Stream> DumpFolderArchiveStream(string backupId, string folderPath, ArchiveFormat format, string? repositoryPath = null);
+
+    /// <summary>
+    /// Writes several files and folders of a backup snapshot into one archive, entry by entry
+    /// as restic dumps them, without staging anything on disk.
+    /// </summary>
+    /// <param name="backupId">Backup snapshot ID.</param>
+    /// <param name="paths">Files and folders within the backup to include.</param>
+    /// <param name="format">Archive format to produce.</param>
+    /// <param name="destination">Stream the archive is written to.</param>
+    /// <param name="repositoryPath">Optional repository path override.</param>
+    /// <param name="cancellationToken">Stops the dump, e.g. when the client disconnects.</param>
+    Task WriteSelectionArchive(string backupId, IReadOnlyCollection<string> paths, ArchiveFormat format, Stream destination, string? repositoryPath = null, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Estimates the size of each subfolder directly below a path by summing the file sizes
+    /// recorded in the snapshot.
+    /// </summary>
+    /// <param name="backupId">Backup snapshot ID.</param>
+    /// <param name="path">Folder whose subfolders are measured.</param>
+    /// <param name="repositoryPath">Optional repository path override.</param>
+    /// <returns>Total bytes keyed by subfolder path.</returns>
+    Task<Dictionary<string, long>> GetFolderSizes(string backupId, string path = "/", string? repositoryPath = null);
+
+    /// <summary>
+    /// Searches a whole snapshot for files and folders whose name matches a pattern.
+    /// Plain text matches anywhere in the name, * and ? are treated as a glob, and a
+    /// pattern containing '/' is matched against the full path.
+    /// Matches are yielded as restic lists them.
+    /// </summary>
+    /// <param name="backupId">Snapshot ID</param>
+    /// <param name="pattern">Text or glob to search for</param>
+    /// <param name="repositoryPath">Optional repository path override (for per-share repositories)</param>
+    /// <param name="cancellationToken">Stops the listing when the caller is done</param>
+    IAsyncEnumerable<FileEntry> SearchSnapshot(string backupId, string pattern, string? repositoryPath = null, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Searches the snapshots in a repository, newest first, and groups the matches by path, recording
+    /// the first and last snapshot each path appears in and the snapshot it disappeared in.
+    /// Uses the same pattern rules as <see cref="SearchSnapshot"/>. Snapshots sharing a tree with one
+    /// already searched are not listed again.
+    /// </summary>
+    /// <remarks>
+    /// New paths are yielded as each snapshot finishes. Paths that older snapshots also contain are
+    /// yielded a second time at the end with their final first-seen snapshot and count, so consumers
+    /// should replace earlier hits for the same path.
+    /// </remarks>
+    /// <param name="pattern">Text or glob to search for</param>
+    /// <param name="repositoryPath">Repository to search (null = default repository)</param>
+    /// <param name="limit">Stops searching older snapshots once this many paths have been found</param>
+    /// <param name="cancellationToken">Stops the search</param>
+    IAsyncEnumerable<FileSearchHit> SearchAllSnapshots(string pattern, string? repositoryPath = null, int limit = int.MaxValue, CancellationToken cancellationToken = default);
+
     /// <summary>
     /// Restores files from a backup.
     /// </summary>
     /// <param name="backupId">Backup snapshot to restore from.</param>
     /// <param name="targetPath">Local path to restore to.</param>
     /// <param name="includePaths">Optional specific paths to restore (null = restore all).</param>
-    Task RestoreBackup(string backupId, string targetPath, string[]? includePaths = null, string? repositoryPath = null);
+    /// <param name="onProgress">Optional callback for restic status updates (RestoreId is left empty).</param>
+    Task RestoreBackup(string backupId, string targetPath, string[]? includePaths = null, string? repositoryPath = null, Action<RestoreProgress>? onProgress = null, CancellationToken cancellationToken = default);
 
     /// <summary>
-    /// Gets progress of a running restore operation.
+    /// Restores files from a backup back into a mounted copy of their original source.
     /// </summary>
-    Task<RestoreProgress> GetRestoreProgress(string restoreId);
+    /// <param name="backupId">Backup snapshot to restore from.</param>
+    /// <param name="snapshotRoot">Source path recorded in the snapshot; its contents map onto targetPath.</param>
+    /// <param name="targetPath">Local mount path of the source share.</param>
+    /// <param name="conflictMode">How to handle files that already exist on the source.</param>
+    /// <param name="includePaths">Optional snapshot paths to restore (null = restore all).</param>
+    /// <param name="onProgress">Optional callback for restic status updates (RestoreId is left empty).</param>
+    Task RestoreToSource(string backupId, string snapshotRoot, string targetPath, RestoreConflictMode conflictMode, string[]? includePaths = null, string? repositoryPath = null, Action<RestoreProgress>? onProgress = null, CancellationToken cancellationToken = default);
 }
@@ -0,0 +1,56 @@
+using BackupChrono.Core.DTOs;
+
+namespace BackupChrono.Core.Interfaces;
+
+/// <summary>
+/// Runs restores in the background and tracks their progress so clients can
+/// follow them live or check back later.
+/// </summary>
+public interface IRestoreOrchestrator
+{
+    /// <summary>
+    /// Starts restoring a snapshot and returns immediately with the tracked operation.
+    /// </summary>
+    /// <param name="deviceId">Device the snapshot belongs to.</param>
+    /// <param name="shareId">Share the snapshot belongs to.</param>
+    /// <param name="backupId">Snapshot to restore.</param>
+    /// <param name="targetPath">Directory to restore into.</param>
+    /// <param name="includePaths">Optional paths to restore (null = entire snapshot).</param>
+    /// <returns>Initial progress of the restore, including its ID.</returns>
+    Task<RestoreProgress> StartRestore(Guid deviceId, Guid shareId, string backupId, string targetPath, string[]? includePaths = null);
+
+    /// <summary>
+    /// Describes the device and share a restore-to-source would write to, for confirmation.
+    /// </summary>
+    /// <exception cref="KeyNotFoundException">The device or share does not exist.</exception>
+    Task<RestoreSourceTarget> GetSourceTarget(Guid deviceId, Guid shareId);
+
+    /// <summary>
+    /// Starts restoring a snapshot straight back to its original device and share
+    /// through the device's protocol plugin.
+    /// </summary>
+    /// <param name="deviceId">Device the snapshot belongs to.</param>
+    /// <param name="shareId">Share the snapshot belongs to.</param>
+    /// <param name="backupId">Snapshot to restore.</param>
+    /// <param name="conflictMode">How to handle files that already exist on the source.</param>
+    /// <param name="includePaths">Optional paths to restore (null = entire snapshot).</param>
+    /// <returns>Initial progress of the restore, including its ID.</returns>
+    /// <exception cref="KeyNotFoundException">The device or share does not exist.</exception>
+    /// <exception cref="InvalidOperationException">The source device is not reachable.</exception>
+    Task<RestoreProgress> StartSourceRestore(Guid deviceId, Guid shareId, string backupId, RestoreConflictMode conflictMode, string[]? includePaths = null);
+
+    /// <summary>
+    /// Gets the latest progress of a running or recently finished restore.
+    /// </summary>
+    Task<RestoreProgress?> GetRestoreProgress(string restoreId);
+
+    /// <summary>
+    /// Lists running and recently finished restores, newest first.
+    /// </summary>
+    Task<IEnumerable<RestoreProgress>> ListRestores();
+
+    /// <summary>
+    /// Event raised when restore progress is updated.
+    /// </summary>
+    event EventHandler<RestoreProgress>? ProgressUpdated;
+}
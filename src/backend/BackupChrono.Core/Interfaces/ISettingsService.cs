@@ -0,0 +1,19 @@
+using BackupChrono.Core.Entities;
+
+namespace BackupChrono.Core.Interfaces;
+
+/// <summary>
+/// Service for reading and updating the global configuration defaults.
+/// </summary>
+public interface ISettingsService
+{
+    /// <summary>
+    /// Gets the global settings. Returns built-in defaults when none have been saved yet.
+    /// </summary>
+    Task<GlobalSettings> GetGlobalSettings();
+
+    /// <summary>
+    /// Validates and persists the global settings.
+    /// </summary>
+    Task<GlobalSettings> UpdateGlobalSettings(GlobalSettings settings);
+}
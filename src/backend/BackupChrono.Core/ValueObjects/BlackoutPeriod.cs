@@ -0,0 +1,32 @@
+namespace BackupChrono.Core.ValueObjects;
+
+/// <summary>
+/// A range of whole days during which scheduled backups must not run, such as a holiday or maintenance.
+/// </summary>
+public class BlackoutPeriod
+{
+    /// <summary>
+    /// First blocked day, in server local time.
+    /// </summary>
+    public required DateOnly Start { get; init; }
+
+    /// <summary>
+    /// Last blocked day (inclusive), in server local time.
+    /// </summary>
+    public required DateOnly End { get; init; }
+
+    /// <summary>
+    /// Optional note shown to users, e.g. "Office move".
+    /// </summary>
+    public string? Reason { get; init; }
+
+    /// <summary>
+    /// Returns true when the day falls within the period.
+    /// </summary>
+    public bool Contains(DateOnly day) => day >= Start && day <= End;
+
+    /// <summary>
+    /// Validates that the period does not end before it starts.
+    /// </summary>
+    public bool IsValid() => End >= Start;
+}
@@ -1,7 +1,8 @@
 namespace BackupChrono.Core.ValueObjects;
 
 /// <summary>
-/// Defines when backup jobs should run using cron expressions and optional time windows.
+/// Defines when backup jobs should run using cron expressions and optional time windows,
+/// blocked hours and blackout periods. All times are read in server local time.
 /// </summary>
 public class Schedule
 {
@@ -17,9 +18,20 @@ public class Schedule
 
     /// <summary>
     /// Optional backup window end time (e.g., "06:00"). Backups will only run within this window.
+    /// An end before the start wraps past midnight, so 22:00-06:00 is an overnight window.
     /// </summary>
     public TimeOnly? TimeWindowEnd { get; init; }
 
+    /// <summary>
+    /// Hours of the day (0-23) per weekday during which scheduled backups must not start.
+    /// </summary>
+    public Dictionary<DayOfWeek, List<int>>? BlockedHours { get; init; }
+
+    /// <summary>
+    /// Days on which scheduled backups must not run at all.
+    /// </summary>
+    public List<BlackoutPeriod>? BlackoutPeriods { get; init; }
+
     /// <summary>
     /// Validates that the schedule configuration is correct.
     /// </summary>
@@ -28,11 +40,13 @@ public class Schedule
         if (string.IsNullOrWhiteSpace(CronExpression))
             return false;
 
-        if (TimeWindowStart.HasValue && TimeWindowEnd.HasValue)
-        {
-            return TimeWindowEnd.Value > TimeWindowStart.Value;
-        }
+        // A window may wrap past midnight, but one that starts and ends at the same time is empty
+        if (TimeWindowStart.HasValue && TimeWindowEnd.HasValue && TimeWindowEnd.Value == TimeWindowStart.Value)
+            return false;
+
+        if (BlockedHours != null && BlockedHours.Values.Any(hours => hours.Any(h => h < 0 || h > 23)))
+            return false;
 
-        return true;
+        return BlackoutPeriods == null || BlackoutPeriods.All(p => p.IsValid());
     }
 }
@@ -18,6 +18,11 @@ public class GitConfigService
 
     public string RepositoryPath => _repositoryPath;
 
+    /// <summary>
+    /// Raised after a configuration change has been committed.
+    /// </summary>
+    public event EventHandler<ConfigurationCommit>? ConfigurationChanged;
+
     public GitConfigService(string repositoryPath)
     {
         _repositoryPath = repositoryPath;
@@ -243,6 +248,7 @@ public class GitConfigService
     {
         var fullPath = Path.Combine(_repositoryPath, relativePath);
         var yaml = _yamlSerializer.Serialize(data);
+        ConfigurationCommit? committed;
 
         await _gitLock.WaitAsync();
         try
@@ -284,23 +290,26 @@ public class GitConfigService
             }
 
             // Stage and commit only the specific file written
-            await Task.Run(() =>
+            committed = await Task.Run(() =>
             {
                 using var repo = new LibGit2Sharp.Repository(_repositoryPath);
                 Commands.Stage(repo, relativePath);
 
                 var status = repo.RetrieveStatus();
                 if (!status.IsDirty)
-                    return;
+                    return null;
 
                 var signature = new Signature("BackupChrono", "backupchrono@system", DateTimeOffset.Now);
-                repo.Commit(commitMessage, signature, signature);
+                var commit = repo.Commit(commitMessage, signature, signature);
+                return ToConfigurationCommit(commit, new[] { relativePath });
             });
         }
         finally
         {
             _gitLock.Release();
         }
+
+        OnConfigurationChanged(committed);
     }
 
     /// <summary>
@@ -366,10 +375,12 @@ public class GitConfigService
     /// </summary>
     public async Task CommitChanges(string message)
     {
+        ConfigurationCommit? committed;
+
         await _gitLock.WaitAsync();
         try
         {
-            await Task.Run(() =>
+            committed = await Task.Run(() =>
             {
                 using var repo = new LibGit2Sharp.Repository(_repositoryPath);
                 
@@ -379,16 +390,24 @@ public class GitConfigService
                 // Check if there are changes to commit
                 var status = repo.RetrieveStatus();
                 if (!status.IsDirty)
-                    return;
+                    return null;
+
+                var files = status.Staged.Concat(status.Added).Concat(status.Removed)
+                    .Select(entry => entry.FilePath)
+                    .Distinct()
+                    .ToArray();
 
                 var signature = new Signature("BackupChrono", "backupchrono@system", DateTimeOffset.Now);
-                repo.Commit(message, signature, signature);
+                var commit = repo.Commit(message, signature, signature);
+                return ToConfigurationCommit(commit, files);
             });
         }
         finally
         {
             _gitLock.Release();
         }
+
+        OnConfigurationChanged(committed);
     }
 
     /// <summary>
@@ -396,15 +415,36 @@ public class GitConfigService
     /// </summary>
     private async Task CommitChangesAsync(string message, string[] files)
     {
-        await Task.Run(() =>
+        var committed = await Task.Run(() =>
         {
             using var repo = new LibGit2Sharp.Repository(_repositoryPath);
             
             Commands.Stage(repo, files);
 
             var signature = new Signature("BackupChrono", "backupchrono@system", DateTimeOffset.Now);
-            repo.Commit(message, signature, signature);
+            var commit = repo.Commit(message, signature, signature);
+            return ToConfigurationCommit(commit, files.Select(f => Path.GetRelativePath(_repositoryPath, f)).ToArray());
         });
+
+        OnConfigurationChanged(committed);
+    }
+
+    private static ConfigurationCommit ToConfigurationCommit(Commit commit, string[] files) => new()
+    {
+        Hash = commit.Sha,
+        Timestamp = commit.Author.When.UtcDateTime,
+        Author = commit.Author.Name,
+        Email = commit.Author.Email,
+        Message = commit.MessageShort,
+        FilesChanged = files
+    };
+
+    private void OnConfigurationChanged(ConfigurationCommit? commit)
+    {
+        if (commit != null)
+        {
+            ConfigurationChanged?.Invoke(this, commit);
+        }
     }
 
     private static void TryDeleteFile(string? path)
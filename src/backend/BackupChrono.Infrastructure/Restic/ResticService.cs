@@ -1,9 +1,16 @@
+using System.Collections.Concurrent;
+using System.Formats.Tar;
+using System.IO.Compression;
+using System.IO.Enumeration;
+using System.Runtime.CompilerServices;
+using System.Security.Cryptography;
 using System.Text.Json;
 using BackupChrono.Core.DTOs;
 using BackupChrono.Core.Entities;
 using BackupChrono.Core.Interfaces;
 using BackupChrono.Core.ValueObjects;
 using Microsoft.Extensions.Logging;
+using CompressionMode = BackupChrono.Core.Entities.CompressionMode;
 
 namespace BackupChrono.Infrastructure.Restic;
 
@@ -16,6 +23,22 @@ public class ResticService : IResticService
     private readonly ILogger<ResticService> _logger;
     private static readonly TimeSpan LogThrottleInterval = TimeSpan.FromSeconds(1);
 
+    // File history dumps every changed version to hash it; larger files are compared by size and mtime only
+    private const long MaxHistoryHashSize = 256L * 1024 * 1024;
+
+    // Snapshots never change, so folder totals are computed once per snapshot and kept for the
+    // most recently browsed ones instead of listing the whole snapshot on every navigation
+    private const int MaxCachedFolderSizeSnapshots = 16;
+    private readonly ConcurrentDictionary<string, (Dictionary<string, long> Totals, DateTime LastUsed)> _folderSizeCache = new();
+
+    // Raw-data stats read every blob a snapshot set references; the same set always gives the same answer
+    private const int MaxCachedRawDataSizes = 64;
+    private readonly ConcurrentDictionary<string, long> _rawDataSizeCache = new();
+
+    // Diff sizes are read by listing only the folders with changes; beyond this many folders the
+    // command line gets too long and one full listing is used instead
+    private const int MaxDiffSizeFolders = 500;
+
     public ResticService(IResticClient client, ILogger<ResticService> logger)
     {
         _client = client;
@@ -79,9 +102,9 @@ public class ResticService : IResticService
         await _client.ExecuteCommand(new[] { "prune" }, repositoryPathOverride: repositoryPath);
     }
 
-    public async Task<Backup> CreateBackup(string repositoryPath, Device device, Share? share, string sourcePath, IncludeExcludeRules rules, Action<BackupProgress>? onProgress = null, Action<string>? onWarning = null, Action<string>? onError = null, CancellationToken cancellationToken = default)
+    public async Task<Backup> CreateBackup(string repositoryPath, Device device, Share? share, string sourcePath, IncludeExcludeRules rules, CompressionMode compression = CompressionMode.Auto, Action<BackupProgress>? onProgress = null, Action<string>? onWarning = null, Action<string>? onError = null, CancellationToken cancellationToken = default)
     {
-        var args = new List<string> { "backup", sourcePath, "--json" };
+        var args = new List<string> { "backup", sourcePath, "--json", "--compression", compression.ToString().ToLowerInvariant() };
 
         // Add exclude patterns
         foreach (var pattern in rules.ExcludePatterns)
@@ -279,6 +302,10 @@ public class ResticService : IResticService
                 var id = snapshot.GetProperty("short_id").GetString() ?? string.Empty;
                 var hostname = snapshot.GetProperty("hostname").GetString() ?? "unknown";
                 var timestamp = snapshot.GetProperty("time").GetDateTime();
+                var paths = snapshot.TryGetProperty("paths", out var pathsElement)
+                    ? pathsElement.EnumerateArray().Select(p => p.GetString() ?? "").ToList()
+                    : new List<string>();
+                var treeId = snapshot.TryGetProperty("tree", out var treeElement) ? treeElement.GetString() : null;
                 
                 // Parse tags for device/share metadata
                 var tags = new List<string>();
@@ -296,6 +323,8 @@ public class ResticService : IResticService
                     ShareName = null,
                     Timestamp = timestamp,
                     Status = BackupStatus.Success,
+                    SnapshotPaths = paths,
+                    TreeId = treeId,
                     FilesNew = 0, // Summary stats not available in snapshot list
                     FilesChanged = 0,
                     FilesUnmodified = 0,
@@ -463,6 +492,32 @@ public class ResticService : IResticService
         
     }
 
+    public async Task<long> GetRawDataSize(IEnumerable<string> backupIds, string? repositoryPath = null)
+    {
+        var ids = backupIds.Distinct().OrderBy(id => id, StringComparer.Ordinal).ToList();
+
+        // restic stats without snapshot IDs measures every snapshot, not none
+        if (ids.Count == 0)
+            return 0;
+
+        var cacheKey = $"{repositoryPath}|{string.Join(",", ids)}";
+        if (_rawDataSizeCache.TryGetValue(cacheKey, out var cached))
+            return cached;
+
+        var args = new List<string> { "stats", "--json", "--mode=raw-data" };
+        args.AddRange(ids);
+        var output = await _client.ExecuteCommand(args.ToArray(), repositoryPathOverride: repositoryPath);
+
+        using var doc = JsonDocument.Parse(output);
+        var size = doc.RootElement.TryGetProperty("total_size", out var totalSize) ? totalSize.GetInt64() : 0;
+
+        if (_rawDataSizeCache.Count >= MaxCachedRawDataSizes)
+            _rawDataSizeCache.Clear();
+        _rawDataSizeCache[cacheKey] = size;
+
+        return size;
+    }
+
     /// <summary>
     /// Get complete backup details including snapshots, metadata, and stats in a single efficient call.
     /// This method combines GetBackup, GetSnapshotMetadata, and GetSnapshotStats into one to minimize restic calls.
@@ -640,9 +695,6 @@ public class ResticService : IResticService
                         structType.GetString() == "node")
                     {
                         var filePath = root.GetProperty("path").GetString() ?? "";
-                        var fileName = Path.GetFileName(filePath);
-                        var nodeType = root.GetProperty("type").GetString();
-                        var isDirectory = nodeType == "dir";
                         
                         // Filter by requested path
                         // Don't trim "/" from root path, otherwise it becomes empty string
@@ -669,19 +721,7 @@ public class ResticService : IResticService
                             continue;
                         }
                         
-                        files.Add(new FileEntry
-                        {
-                            Name = fileName,
-                            Path = filePath,
-                            IsDirectory = isDirectory,
-                            Size = root.TryGetProperty("size", out var size) ? size.GetInt64() : 0,
-                            ModifiedAt = root.TryGetProperty("mtime", out var mtime) 
-                                ? mtime.GetDateTime() 
-                                : DateTime.MinValue,
-                            Permissions = root.TryGetProperty("mode", out var mode) 
-                                ? GetModeAsOctal(mode)
-                                : null
-                        });
+                        files.Add(ToFileEntry(root));
                     }
                 }
                 catch (JsonException)
@@ -706,6 +746,185 @@ public class ResticService : IResticService
         return files;
     }
 
+    public async IAsyncEnumerable<FileEntry> SearchSnapshot(
+        string backupId,
+        string pattern,
+        string? repositoryPath = null,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        var matches = CreateSearchMatcher(pattern);
+
+        // Read restic's listing line by line so matches can be handed out while it is still running
+        await using var stream = await _client.ExecuteCommandStream(new[] { "ls", backupId, "--json" }, cancellationToken, repositoryPath);
+        using var reader = new StreamReader(stream);
+
+        string? line;
+        while ((line = await reader.ReadLineAsync(cancellationToken)) != null)
+        {
+            var entry = TryParseNode(line);
+            if (entry != null && matches(entry))
+            {
+                yield return entry;
+            }
+        }
+    }
+
+    public async IAsyncEnumerable<FileSearchHit> SearchAllSnapshots(
+        string pattern,
+        string? repositoryPath = null,
+        int limit = int.MaxValue,
+        [EnumeratorCancellation] CancellationToken cancellationToken = default)
+    {
+        // Newest first: the first copy found of a path is its newest, which settles its last-seen and
+        // removed-in snapshots straight away. Only the first-seen snapshot and count change after that.
+        var snapshots = (await ListBackups(null, repositoryPath))
+            .OrderByDescending(b => b.Timestamp)
+            .ToList();
+
+        var matches = new Dictionary<string, (FileEntry Newest, int NewestIndex, int OldestIndex, int Count)>(StringComparer.Ordinal);
+        var pathsByTree = new Dictionary<string, List<string>>(StringComparer.Ordinal);
+        var listed = 0;
+
+        for (var index = 0; index < snapshots.Count && matches.Count < limit; index++)
+        {
+            var snapshot = snapshots[index];
+            var found = new List<string>();
+
+            if (snapshot.TreeId != null && pathsByTree.TryGetValue(snapshot.TreeId, out var treePaths))
+            {
+                // Same tree as a snapshot already searched, so the same paths match
+                foreach (var path in treePaths)
+                {
+                    var match = matches[path];
+                    matches[path] = (match.Newest, match.NewestIndex, index, match.Count + 1);
+                }
+                continue;
+            }
+
+            var matchedPaths = new List<string>();
+            listed++;
+            await foreach (var entry in SearchSnapshot(snapshot.Id, pattern, repositoryPath, cancellationToken))
+            {
+                if (matches.TryGetValue(entry.Path, out var match))
+                {
+                    matches[entry.Path] = (match.Newest, match.NewestIndex, index, match.Count + 1);
+                }
+                else if (matches.Count < limit)
+                {
+                    matches[entry.Path] = (entry, index, index, 1);
+                    found.Add(entry.Path);
+                }
+                else
+                {
+                    continue;
+                }
+
+                matchedPaths.Add(entry.Path);
+            }
+
+            if (snapshot.TreeId != null)
+            {
+                pathsByTree[snapshot.TreeId] = matchedPaths;
+            }
+
+            foreach (var path in found)
+            {
+                yield return ToSearchHit(matches[path], snapshots);
+            }
+        }
+
+        _logger.LogInformation(
+            "Search for '{Pattern}' found {HitCount} paths, listing {ListedCount} of {SnapshotCount} snapshots",
+            pattern,
+            matches.Count,
+            listed,
+            snapshots.Count);
+
+        // Paths also seen in older snapshots go out again with their final first-seen snapshot and count
+        foreach (var match in matches.Values.Where(m => m.Count > 1))
+        {
+            yield return ToSearchHit(match, snapshots);
+        }
+    }
+
+    private static FileSearchHit ToSearchHit((FileEntry Newest, int NewestIndex, int OldestIndex, int Count) match, List<Backup> snapshots)
+    {
+        // The path is gone from every snapshot newer than the newest one it was seen in
+        var removedIn = match.NewestIndex > 0 ? snapshots[match.NewestIndex - 1] : null;
+        return new FileSearchHit
+        {
+            Path = match.Newest.Path,
+            Name = match.Newest.Name,
+            IsDirectory = match.Newest.IsDirectory,
+            Size = match.Newest.Size,
+            ModifiedAt = match.Newest.ModifiedAt,
+            SnapshotCount = match.Count,
+            FirstSeenBackupId = snapshots[match.OldestIndex].Id,
+            FirstSeenAt = snapshots[match.OldestIndex].Timestamp,
+            LastSeenBackupId = snapshots[match.NewestIndex].Id,
+            LastSeenAt = snapshots[match.NewestIndex].Timestamp,
+            RemovedInBackupId = removedIn?.Id,
+            RemovedAt = removedIn?.Timestamp
+        };
+    }
+
+    /// <summary>
+    /// Plain text matches anywhere in the file name; * and ? make it a glob. A pattern containing
+    /// a slash is matched against the full path instead of the name.
+    /// </summary>
+    private static Func<FileEntry, bool> CreateSearchMatcher(string pattern)
+    {
+        var trimmed = pattern.Trim();
+        var matchPath = trimmed.Contains('/');
+
+        if (trimmed.IndexOfAny(new[] { '*', '?' }) < 0)
+        {
+            return entry => (matchPath ? entry.Path : entry.Name).Contains(trimmed, StringComparison.OrdinalIgnoreCase);
+        }
+
+        return entry => FileSystemName.MatchesSimpleExpression(trimmed, matchPath ? entry.Path : entry.Name, ignoreCase: true);
+    }
+
+    private static FileEntry? TryParseNode(string line)
+    {
+        if (string.IsNullOrWhiteSpace(line))
+        {
+            return null;
+        }
+
+        try
+        {
+            using var doc = JsonDocument.Parse(line);
+            var root = doc.RootElement;
+            return root.TryGetProperty("struct_type", out var structType) && structType.GetString() == "node"
+                ? ToFileEntry(root)
+                : null;
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    private static FileEntry ToFileEntry(JsonElement node)
+    {
+        var filePath = node.GetProperty("path").GetString() ?? "";
+        return new FileEntry
+        {
+            Name = Path.GetFileName(filePath),
+            Path = filePath,
+            IsDirectory = node.GetProperty("type").GetString() == "dir",
+            IsSymlink = node.GetProperty("type").GetString() == "symlink",
+            Size = node.TryGetProperty("size", out var size) ? size.GetInt64() : 0,
+            ModifiedAt = node.TryGetProperty("mtime", out var mtime)
+                ? mtime.GetDateTime()
+                : DateTime.MinValue,
+            Permissions = node.TryGetProperty("mode", out var mode)
+                ? GetModeAsOctal(mode)
+                : null
+        };
+    }
+
     private static string? GetModeAsOctal(JsonElement mode)
     {
         try
@@ -743,10 +962,453 @@ public class ResticService : IResticService
         }
     }
 
-    public Task<IEnumerable<FileVersion>> GetFileHistory(string deviceName, string filePath)
+    public async Task<FileMetadata> GetFileMetadata(string backupId, string filePath, bool includeHash = false, string? repositoryPath = null)
+    {
+        var normalizedPath = "/" + filePath.Replace("\\", "/").Trim('/');
+        var parentPath = normalizedPath.Substring(0, normalizedPath.LastIndexOf('/')).TrimStart('/');
+        var name = normalizedPath.Substring(normalizedPath.LastIndexOf('/') + 1);
+
+        // "ls" leaves out owner names, link targets and attributes, so read the parent tree object itself
+        var treeRef = parentPath.Length == 0 ? backupId : $"{backupId}:{parentPath}";
+
+        string output;
+        try
+        {
+            output = await _client.ExecuteCommand(new[] { "cat", "tree", treeRef }, repositoryPathOverride: repositoryPath);
+        }
+        catch (InvalidOperationException ex) when (
+            ex.Message.Contains("unable to find snapshot") ||
+            ex.Message.Contains("unable to load snapshot") ||
+            ex.Message.Contains("not found") ||
+            ex.Message.Contains("repository does not exist"))
+        {
+            _logger.LogWarning(ex, "Path {FilePath} not found in backup {BackupId}", normalizedPath, backupId);
+            throw new KeyNotFoundException($"Path {normalizedPath} not found in backup {backupId}", ex);
+        }
+
+        using var doc = JsonDocument.Parse(output);
+        if (!doc.RootElement.TryGetProperty("nodes", out var nodes) || nodes.ValueKind != JsonValueKind.Array)
+        {
+            throw new KeyNotFoundException($"Path {normalizedPath} not found in backup {backupId}");
+        }
+
+        var node = nodes.EnumerateArray()
+            .Where(n => n.TryGetProperty("name", out var nodeName) && nodeName.GetString() == name)
+            .Select(n => (JsonElement?)n)
+            .FirstOrDefault()
+            ?? throw new KeyNotFoundException($"Path {normalizedPath} not found in backup {backupId}");
+
+        // Hashing means reading the whole file back out of the repository, so it is opt-in
+        var isFile = node.TryGetProperty("type", out var nodeType) && nodeType.GetString() == "file";
+        var contentHash = includeHash && isFile
+            ? await ComputeFileHash(backupId, normalizedPath, repositoryPath)
+            : null;
+
+        return ToFileMetadata(node, normalizedPath, contentHash);
+    }
+
+    private static FileMetadata ToFileMetadata(JsonElement node, string path, string? contentHash)
+    {
+        var type = node.TryGetProperty("type", out var typeValue) ? typeValue.GetString() ?? "file" : "file";
+        var fileMode = node.TryGetProperty("mode", out var modeValue) && modeValue.TryGetUInt32(out var rawMode)
+            ? rawMode
+            : (uint?)null;
+
+        return new FileMetadata
+        {
+            Path = path,
+            Name = node.GetProperty("name").GetString() ?? Path.GetFileName(path),
+            Type = type,
+            Mode = fileMode.HasValue ? Convert.ToString(ToUnixMode(fileMode.Value), 8) : null,
+            Permissions = fileMode.HasValue ? ToSymbolicPermissions(type, fileMode.Value) : null,
+            Uid = GetUInt32(node, "uid"),
+            Gid = GetUInt32(node, "gid"),
+            User = GetNonEmptyString(node, "user"),
+            Group = GetNonEmptyString(node, "group"),
+            LinkTarget = type == "symlink" ? GetNonEmptyString(node, "linktarget") : null,
+            HardLinks = GetUInt64(node, "links"),
+            Inode = GetUInt64(node, "inode"),
+            DeviceId = GetUInt64(node, "device_id"),
+            Size = node.TryGetProperty("size", out var size) ? size.GetInt64() : 0,
+            ModifiedAt = GetDateTime(node, "mtime"),
+            AccessedAt = GetDateTime(node, "atime"),
+            ChangedAt = GetDateTime(node, "ctime"),
+            Attributes = ReadAttributes(node),
+            ContentChunks = node.TryGetProperty("content", out var content) && content.ValueKind == JsonValueKind.Array
+                ? content.GetArrayLength()
+                : 0,
+            ContentHash = contentHash
+        };
+    }
+
+    // Go's os.FileMode keeps setuid/setgid/sticky in high bits; move them back to where chmod expects them
+    private static uint ToUnixMode(uint fileMode)
+    {
+        var mode = fileMode & 0x1FF;
+        if ((fileMode & (1u << 23)) != 0) mode |= 0x800;
+        if ((fileMode & (1u << 22)) != 0) mode |= 0x400;
+        if ((fileMode & (1u << 20)) != 0) mode |= 0x200;
+        return mode;
+    }
+
+    private static string ToSymbolicPermissions(string type, uint fileMode)
+    {
+        var chars = new char[10];
+        chars[0] = type switch
+        {
+            "dir" => 'd',
+            "symlink" => 'l',
+            "dev" => 'b',
+            "chardev" => 'c',
+            "fifo" => 'p',
+            "socket" => 's',
+            _ => '-'
+        };
+
+        const string flags = "rwxrwxrwx";
+        for (var i = 0; i < 9; i++)
+        {
+            chars[i + 1] = (fileMode & (1u << (8 - i))) != 0 ? flags[i] : '-';
+        }
+
+        if ((fileMode & (1u << 23)) != 0) chars[3] = chars[3] == 'x' ? 's' : 'S';
+        if ((fileMode & (1u << 22)) != 0) chars[6] = chars[6] == 'x' ? 's' : 'S';
+        if ((fileMode & (1u << 20)) != 0) chars[9] = chars[9] == 'x' ? 't' : 'T';
+
+        return new string(chars);
+    }
+
+    private static List<FileAttributeEntry> ReadAttributes(JsonElement node)
+    {
+        var attributes = new List<FileAttributeEntry>();
+
+        if (node.TryGetProperty("extended_attributes", out var extended) && extended.ValueKind == JsonValueKind.Array)
+        {
+            foreach (var attribute in extended.EnumerateArray())
+            {
+                var name = attribute.TryGetProperty("name", out var nameValue) ? nameValue.GetString() : null;
+                var value = attribute.TryGetProperty("value", out var rawValue) ? rawValue.GetString() ?? "" : "";
+                if (string.IsNullOrEmpty(name))
+                {
+                    continue;
+                }
+
+                attributes.Add(new FileAttributeEntry { Name = name, Value = value, Text = DescribeAttribute(name, value) });
+            }
+        }
+
+        // Windows security descriptors and file attributes are stored as restic "generic attributes"
+        if (node.TryGetProperty("generic_attributes", out var generic) && generic.ValueKind == JsonValueKind.Object)
+        {
+            foreach (var attribute in generic.EnumerateObject())
+            {
+                var value = attribute.Value.ValueKind == JsonValueKind.String
+                    ? attribute.Value.GetString() ?? ""
+                    : attribute.Value.GetRawText();
+                attributes.Add(new FileAttributeEntry
+                {
+                    Name = attribute.Name,
+                    Value = value,
+                    Text = attribute.Value.ValueKind == JsonValueKind.String ? DescribeAttribute(attribute.Name, value) : value
+                });
+            }
+        }
+
+        return attributes;
+    }
+
+    private static string? DescribeAttribute(string name, string base64Value)
+    {
+        byte[] bytes;
+        try
+        {
+            bytes = Convert.FromBase64String(base64Value);
+        }
+        catch (FormatException)
+        {
+            return null;
+        }
+
+        if (name is "system.posix_acl_access" or "system.posix_acl_default")
+        {
+            return DecodePosixAcl(bytes);
+        }
+
+        var text = System.Text.Encoding.UTF8.GetString(bytes).TrimEnd('\0');
+        var printable = !text.Contains('\uFFFD') && text.All(c => !char.IsControl(c) || c is '\n' or '\r' or '\t');
+        return printable ? text : null;
+    }
+
+    /// <summary>
+    /// Decodes the Linux xattr form of a POSIX ACL (a version header followed by tag/perm/id
+    /// entries) into the "user::rwx,group:100:r-x" notation used by getfacl.
+    /// </summary>
+    private static string? DecodePosixAcl(byte[] bytes)
+    {
+        const uint aclVersion = 2;
+        if (bytes.Length < 4 || (bytes.Length - 4) % 8 != 0 || BitConverter.ToUInt32(bytes, 0) != aclVersion)
+        {
+            return null;
+        }
+
+        var entries = new List<string>();
+        for (var offset = 4; offset < bytes.Length; offset += 8)
+        {
+            var tag = BitConverter.ToUInt16(bytes, offset);
+            var perm = BitConverter.ToUInt16(bytes, offset + 2);
+            var id = BitConverter.ToUInt32(bytes, offset + 4);
+            var rwx = $"{((perm & 4) != 0 ? 'r' : '-')}{((perm & 2) != 0 ? 'w' : '-')}{((perm & 1) != 0 ? 'x' : '-')}";
+
+            entries.Add(tag switch
+            {
+                0x01 => $"user::{rwx}",
+                0x02 => $"user:{id}:{rwx}",
+                0x04 => $"group::{rwx}",
+                0x08 => $"group:{id}:{rwx}",
+                0x10 => $"mask::{rwx}",
+                0x20 => $"other::{rwx}",
+                _ => $"unknown({tag}):{id}:{rwx}"
+            });
+        }
+
+        return string.Join(",", entries);
+    }
+
+    private static uint? GetUInt32(JsonElement node, string property) =>
+        node.TryGetProperty(property, out var value) && value.TryGetUInt32(out var result) ? result : null;
+
+    private static ulong? GetUInt64(JsonElement node, string property) =>
+        node.TryGetProperty(property, out var value) && value.TryGetUInt64(out var result) ? result : null;
+
+    private static DateTime? GetDateTime(JsonElement node, string property) =>
+        node.TryGetProperty(property, out var value) && value.TryGetDateTime(out var result) ? result : null;
+
+    private static string? GetNonEmptyString(JsonElement node, string property) =>
+        node.TryGetProperty(property, out var value) && value.ValueKind == JsonValueKind.String && !string.IsNullOrEmpty(value.GetString())
+            ? value.GetString()
+            : null;
+
+    public async Task<IEnumerable<FileVersion>> GetFileHistory(string filePath, string? repositoryPath = null, CancellationToken cancellationToken = default)
+    {
+        var normalizedPath = filePath.Replace("\\", "/");
+        var parentPath = Path.GetDirectoryName(normalizedPath)?.Replace("\\", "/");
+        if (string.IsNullOrEmpty(parentPath))
+        {
+            parentPath = "/";
+        }
+
+        var snapshots = (await ListBackups(null, repositoryPath))
+            .OrderBy(b => b.Timestamp)
+            .ToList();
+
+        var versions = new List<FileVersion>();
+        FileVersion? previous = null;
+
+        foreach (var snapshot in snapshots)
+        {
+            // Only list the parent directory instead of the whole snapshot
+            var args = new[] { "ls", snapshot.Id, "--json", parentPath };
+            var output = await _client.ExecuteCommand(args, cancellationToken, repositoryPathOverride: repositoryPath);
+
+            if (!ParseFileNodes(output).TryGetValue(normalizedPath, out var node))
+            {
+                // File absent in this snapshot - a later reappearance must be hashed again
+                previous = null;
+                continue;
+            }
+
+            var (size, modifiedAt) = node;
+
+            // restic ls does not expose content hashes. Unchanged size and mtime means restic
+            // reused the same blobs, so only dump and hash content when metadata changed.
+            // Files above MaxHistoryHashSize are never dumped and are compared by metadata alone.
+            var hash = previous != null && previous.Size == size && previous.ModifiedAt == modifiedAt
+                ? previous.Hash
+                : size > MaxHistoryHashSize
+                    ? null
+                    : await ComputeFileHash(snapshot.Id, normalizedPath, repositoryPath, cancellationToken);
+
+            previous = new FileVersion
+            {
+                BackupId = snapshot.Id,
+                Timestamp = snapshot.Timestamp,
+                ModifiedAt = modifiedAt,
+                Size = size,
+                Hash = hash
+            };
+            versions.Add(previous);
+        }
+
+        _logger.LogInformation(
+            "File history for {FilePath}: {VersionCount} versions across {SnapshotCount} snapshots",
+            normalizedPath,
+            versions.Count,
+            snapshots.Count);
+
+        versions.Reverse();
+        return versions;
+    }
+
+    public async Task<SnapshotDiff> DiffSnapshots(string fromBackupId, string toBackupId, string? repositoryPath = null)
+    {
+        // restic diff compares the trees and file contents by blob, so unchanged folders are skipped
+        // and a file only counts as modified when its data changed, not just its mtime
+        var output = await _client.ExecuteCommand(
+            new[] { "diff", fromBackupId, toBackupId, "--json" },
+            repositoryPathOverride: repositoryPath);
+
+        var changed = new List<(string Path, FileChangeType ChangeType)>();
+        foreach (var line in output.Split('\n', StringSplitOptions.RemoveEmptyEntries))
+        {
+            try
+            {
+                using var doc = JsonDocument.Parse(line);
+                var root = doc.RootElement;
+
+                if (!root.TryGetProperty("message_type", out var messageType) || messageType.GetString() != "change")
+                    continue;
+
+                // Folders end in a slash; their files are reported on their own
+                var path = root.GetProperty("path").GetString()?.Replace("\\", "/");
+                if (string.IsNullOrEmpty(path) || path.EndsWith('/'))
+                    continue;
+
+                // "+" added, "-" removed, "M" content changed, "T" type changed, "U" metadata only
+                var modifier = root.TryGetProperty("modifier", out var modifierElement) ? modifierElement.GetString() ?? "" : "";
+                if (modifier == "+")
+                    changed.Add((path, FileChangeType.Added));
+                else if (modifier == "-")
+                    changed.Add((path, FileChangeType.Removed));
+                else if (modifier.Contains('M') || modifier.Contains('T'))
+                    changed.Add((path, FileChangeType.Modified));
+            }
+            catch (JsonException)
+            {
+                // Skip non-JSON lines
+            }
+        }
+
+        var fromSizes = await GetFileSizes(
+            fromBackupId,
+            changed.Where(c => c.ChangeType != FileChangeType.Added).Select(c => c.Path).ToList(),
+            repositoryPath);
+        var toSizes = await GetFileSizes(
+            toBackupId,
+            changed.Where(c => c.ChangeType != FileChangeType.Removed).Select(c => c.Path).ToList(),
+            repositoryPath);
+
+        // Only files have sizes, so symlinks and other special nodes drop out here
+        var changes = changed
+            .Where(c => fromSizes.ContainsKey(c.Path) || toSizes.ContainsKey(c.Path))
+            .Select(c => new SnapshotDiffEntry
+            {
+                Path = c.Path,
+                ChangeType = c.ChangeType,
+                OldSize = c.ChangeType == FileChangeType.Added ? null : fromSizes.GetValueOrDefault(c.Path),
+                NewSize = c.ChangeType == FileChangeType.Removed ? null : toSizes.GetValueOrDefault(c.Path)
+            })
+            .ToList();
+
+        _logger.LogInformation(
+            "Diff {FromBackupId} -> {ToBackupId}: {ChangeCount} changed files",
+            fromBackupId,
+            toBackupId,
+            changes.Count);
+
+        return new SnapshotDiff
+        {
+            FromBackupId = fromBackupId,
+            ToBackupId = toBackupId,
+            Changes = changes.OrderBy(c => c.Path, StringComparer.Ordinal).ToList()
+        };
+    }
+
+    /// <summary>
+    /// Sizes of the given files in a snapshot, read by listing only the folders that contain them.
+    /// </summary>
+    private async Task<Dictionary<string, long>> GetFileSizes(string backupId, IReadOnlyCollection<string> paths, string? repositoryPath)
+    {
+        var sizes = new Dictionary<string, long>(StringComparer.Ordinal);
+        if (paths.Count == 0)
+        {
+            return sizes;
+        }
+
+        var folders = paths
+            .Select(p => Path.GetDirectoryName(p)?.Replace("\\", "/") ?? "/")
+            .Distinct(StringComparer.Ordinal)
+            .ToList();
+        var args = new List<string> { "ls", backupId, "--json" };
+        if (folders.Count <= MaxDiffSizeFolders)
+        {
+            args.AddRange(folders);
+        }
+
+        var output = await _client.ExecuteCommand(args.ToArray(), repositoryPathOverride: repositoryPath);
+
+        var wanted = paths.ToHashSet(StringComparer.Ordinal);
+        foreach (var (path, node) in ParseFileNodes(output))
+        {
+            if (wanted.Contains(path))
+            {
+                sizes[path] = node.Size;
+            }
+        }
+
+        return sizes;
+    }
+
+    private async Task<Dictionary<string, (long Size, DateTime ModifiedAt)>> ListSnapshotFiles(string backupId, string? repositoryPath)
     {
-        // TODO: Implement file history across backups
-        return Task.FromResult(Enumerable.Empty<FileVersion>());
+        // Without a path argument restic ls walks the whole snapshot tree
+        var args = new[] { "ls", backupId, "--json" };
+        var output = await _client.ExecuteCommand(args, repositoryPathOverride: repositoryPath);
+
+        return ParseFileNodes(output);
+    }
+
+    /// <summary>
+    /// Parses restic ls --json output into file nodes keyed by their snapshot path.
+    /// </summary>
+    private static Dictionary<string, (long Size, DateTime ModifiedAt)> ParseFileNodes(string lsOutput)
+    {
+        var files = new Dictionary<string, (long Size, DateTime ModifiedAt)>(StringComparer.Ordinal);
+        foreach (var line in lsOutput.Split('\n', StringSplitOptions.RemoveEmptyEntries))
+        {
+            try
+            {
+                using var doc = JsonDocument.Parse(line);
+                var root = doc.RootElement;
+
+                if (!root.TryGetProperty("struct_type", out var structType) || structType.GetString() != "node")
+                    continue;
+
+                if (root.GetProperty("type").GetString() != "file")
+                    continue;
+
+                var nodePath = root.GetProperty("path").GetString()?.Replace("\\", "/");
+                if (string.IsNullOrEmpty(nodePath))
+                    continue;
+
+                var size = root.TryGetProperty("size", out var sizeElement) ? sizeElement.GetInt64() : 0;
+                var mtime = root.TryGetProperty("mtime", out var mtimeElement) ? mtimeElement.GetDateTime() : DateTime.MinValue;
+                files[nodePath] = (size, mtime);
+            }
+            catch (JsonException)
+            {
+                // Skip non-JSON lines
+            }
+        }
+
+        return files;
+    }
+
+    private async Task<string> ComputeFileHash(string backupId, string filePath, string? repositoryPath, CancellationToken cancellationToken = default)
+    {
+        await using var stream = await DumpFileStream(backupId, filePath, repositoryPath);
+        using var sha256 = SHA256.Create();
+        var hash = await sha256.ComputeHashAsync(stream, cancellationToken);
+        return Convert.ToHexString(hash).ToLowerInvariant();
     }
 
     public async Task ApplyRetentionPolicy(string deviceName, RetentionPolicy policy)
@@ -826,25 +1488,397 @@ public class ResticService : IResticService
         }
     }
 
-    public async Task RestoreBackup(string backupId, string targetPath, string[]? includePaths = null, string? repositoryPath = null)
+    public async Task<Stream> DumpFolderArchiveStream(string backupId, string folderPath, ArchiveFormat format, string? repositoryPath = null)
     {
         try
         {
-            _logger.LogInformation("Starting restore of backup {BackupId} to {TargetPath}", backupId, targetPath);
-            
-            var args = new List<string> { "restore", backupId, "--target", targetPath };
+            _logger.LogInformation("Streaming folder {FolderPath} from backup {BackupId} as {Format}", folderPath, backupId, format);
+
+            var archive = format == ArchiveFormat.Zip ? "zip" : "tar";
+            var args = new[] { "dump", "--archive", archive, backupId, folderPath };
+            return await _client.ExecuteCommandStream(args, repositoryPathOverride: repositoryPath);
+        }
+        catch (InvalidOperationException ex) when (
+            ex.Message.Contains("unable to find snapshot") || 
+            ex.Message.Contains("unable to load snapshot") ||
+            ex.Message.Contains("snapshot") && ex.Message.Contains("not found") ||
+            ex.Message.Contains("repository does not exist"))
+        {
+            _logger.LogError("Backup {BackupId} not found for folder dump", backupId);
+            throw new KeyNotFoundException($"Backup {backupId} not found");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to stream folder {FolderPath} from backup {BackupId}", folderPath, backupId);
+            throw;
+        }
+    }
+
+    public async Task WriteSelectionArchive(string backupId, IReadOnlyCollection<string> paths, ArchiveFormat format, Stream destination, string? repositoryPath = null, CancellationToken cancellationToken = default)
+    {
+        _logger.LogInformation("Archiving {Count} selected paths from backup {BackupId} as {Format}", paths.Count, backupId, format);
+
+        var nodes = await GetSelectedNodes(backupId, paths, repositoryPath, cancellationToken);
+        var entries = ReadSelectionEntries(backupId, nodes, repositoryPath, cancellationToken);
+
+        if (format == ArchiveFormat.Zip)
+        {
+            using var zip = new ZipArchive(destination, ZipArchiveMode.Create, leaveOpen: true);
+            await foreach (var entry in entries)
+            {
+                if (entry.EntryType == TarEntryType.Directory)
+                {
+                    zip.CreateEntry(entry.Name);
+                }
+                else if (entry.DataStream != null)
+                {
+                    var zipEntry = zip.CreateEntry(entry.Name, CompressionLevel.Fastest);
+                    zipEntry.LastWriteTime = entry.ModificationTime;
+                    await using var entryStream = zipEntry.Open();
+                    await entry.DataStream.CopyToAsync(entryStream, cancellationToken);
+                }
+            }
+        }
+        else
+        {
+            await using var tar = new TarWriter(destination, TarEntryFormat.Pax, leaveOpen: true);
+            await foreach (var entry in entries)
+            {
+                await tar.WriteEntryAsync(entry, cancellationToken);
+            }
+        }
+    }
 
-            // If specific paths are requested, include only those
-            if (includePaths != null && includePaths.Length > 0)
+    /// <summary>
+    /// Looks up the snapshot nodes of the selected paths by listing their parent folders.
+    /// </summary>
+    private async Task<List<FileEntry>> GetSelectedNodes(string backupId, IReadOnlyCollection<string> paths, string? repositoryPath, CancellationToken cancellationToken)
+    {
+        var selected = paths.Select(p => "/" + p.Replace("\\", "/").Trim('/')).ToHashSet(StringComparer.Ordinal);
+        var parents = selected.Select(p => Path.GetDirectoryName(p)?.Replace("\\", "/") ?? "/").Distinct();
+
+        string output;
+        try
+        {
+            var args = new[] { "ls", backupId, "--json" }.Concat(parents).ToArray();
+            output = await _client.ExecuteCommand(args, cancellationToken, repositoryPathOverride: repositoryPath);
+        }
+        catch (InvalidOperationException ex) when (
+            ex.Message.Contains("unable to find snapshot") ||
+            ex.Message.Contains("unable to load snapshot") ||
+            ex.Message.Contains("snapshot") && ex.Message.Contains("not found") ||
+            ex.Message.Contains("repository does not exist"))
+        {
+            _logger.LogError("Backup {BackupId} not found for selection archive", backupId);
+            throw new KeyNotFoundException($"Backup {backupId} not found");
+        }
+
+        var nodes = new List<FileEntry>();
+        foreach (var line in output.Split('\n', StringSplitOptions.RemoveEmptyEntries))
+        {
+            try
             {
-                foreach (var path in includePaths)
+                using var doc = JsonDocument.Parse(line);
+                var root = doc.RootElement;
+                if (root.TryGetProperty("struct_type", out var structType) && structType.GetString() == "node" &&
+                    selected.Contains(root.GetProperty("path").GetString() ?? ""))
                 {
-                    args.Add("--include");
-                    args.Add(path);
+                    nodes.Add(ToFileEntry(root));
                 }
             }
+            catch (JsonException)
+            {
+                continue;
+            }
+        }
 
-            var output = await _client.ExecuteCommand(args.ToArray(), repositoryPathOverride: repositoryPath);
+        if (nodes.Count == 0)
+        {
+            throw new KeyNotFoundException($"None of the selected paths exist in backup {backupId}");
+        }
+
+        return nodes;
+    }
+
+    /// <summary>
+    /// Dumps each selected node from restic and yields its archive entries one at a time. An entry's
+    /// data must be read before moving to the next one, as it comes straight from restic's output.
+    /// </summary>
+    private async IAsyncEnumerable<PaxTarEntry> ReadSelectionEntries(
+        string backupId,
+        IReadOnlyList<FileEntry> nodes,
+        string? repositoryPath,
+        [EnumeratorCancellation] CancellationToken cancellationToken)
+    {
+        foreach (var node in nodes)
+        {
+            var name = node.Path.TrimStart('/');
+
+            if (!node.IsDirectory && !node.IsSymlink)
+            {
+                // restic dumps a single file as its raw content rather than as an archive
+                await using var content = await _client.ExecuteCommandStream(
+                    new[] { "dump", backupId, node.Path }, cancellationToken, repositoryPath);
+                yield return new PaxTarEntry(TarEntryType.RegularFile, name)
+                {
+                    ModificationTime = node.ModifiedAt,
+                    DataStream = new SizedReadStream(content, node.Size)
+                };
+                continue;
+            }
+
+            if (node.IsSymlink)
+            {
+                _logger.LogWarning("Skipping selected symbolic link {Path} in selection archive", node.Path);
+                continue;
+            }
+
+            // Folders are read from restic's tar output and re-written entry by entry
+            await using var archive = await _client.ExecuteCommandStream(
+                new[] { "dump", "--archive", "tar", backupId, node.Path }, cancellationToken, repositoryPath);
+            var reader = new TarReader(archive);
+            while (await reader.GetNextEntryAsync(cancellationToken: cancellationToken) is { } entry)
+            {
+                var entryType = entry.EntryType is TarEntryType.V7RegularFile ? TarEntryType.RegularFile : entry.EntryType;
+                if (entryType is not (TarEntryType.RegularFile or TarEntryType.Directory or TarEntryType.SymbolicLink))
+                {
+                    continue;
+                }
+
+                var copy = new PaxTarEntry(entryType, entry.Name.TrimStart('/'))
+                {
+                    ModificationTime = entry.ModificationTime,
+                    Mode = entry.Mode
+                };
+                if (entryType == TarEntryType.SymbolicLink)
+                {
+                    copy.LinkName = entry.LinkName;
+                }
+                else if (entry.DataStream != null)
+                {
+                    copy.DataStream = new SizedReadStream(entry.DataStream, entry.Length);
+                }
+
+                yield return copy;
+            }
+        }
+    }
+
+    public async Task<Dictionary<string, long>> GetFolderSizes(string backupId, string path = "/", string? repositoryPath = null)
+    {
+        var normalizedPath = path == "/" ? "" : path.Replace("\\", "/").TrimEnd('/');
+        var totals = await GetSnapshotFolderTotals(backupId, repositoryPath);
+
+        // Keep only the subfolders directly below the requested path
+        return totals
+            .Where(entry => entry.Key.StartsWith(normalizedPath + "/", StringComparison.Ordinal)
+                && entry.Key.IndexOf('/', normalizedPath.Length + 1) < 0)
+            .ToDictionary(entry => entry.Key, entry => entry.Value, StringComparer.Ordinal);
+    }
+
+    /// <summary>
+    /// Total file bytes below every folder of a snapshot, keyed by folder path.
+    /// </summary>
+    private async Task<Dictionary<string, long>> GetSnapshotFolderTotals(string backupId, string? repositoryPath)
+    {
+        var cacheKey = $"{repositoryPath}|{backupId}";
+        if (_folderSizeCache.TryGetValue(cacheKey, out var cached))
+        {
+            _folderSizeCache[cacheKey] = (cached.Totals, DateTime.UtcNow);
+            return cached.Totals;
+        }
+
+        var files = await ListSnapshotFiles(backupId, repositoryPath);
+
+        var totals = new Dictionary<string, long>(StringComparer.Ordinal);
+        foreach (var (filePath, node) in files)
+        {
+            // Add the file to every folder above it
+            for (var separator = filePath.LastIndexOf('/'); separator > 0; separator = filePath.LastIndexOf('/', separator - 1))
+            {
+                var folder = filePath[..separator];
+                totals[folder] = totals.GetValueOrDefault(folder) + node.Size;
+            }
+        }
+
+        _folderSizeCache[cacheKey] = (totals, DateTime.UtcNow);
+        foreach (var stale in _folderSizeCache
+            .OrderByDescending(entry => entry.Value.LastUsed)
+            .Skip(MaxCachedFolderSizeSnapshots)
+            .Select(entry => entry.Key)
+            .ToList())
+        {
+            _folderSizeCache.TryRemove(stale, out _);
+        }
+
+        return totals;
+    }
+
+    public Task RestoreBackup(string backupId, string targetPath, string[]? includePaths = null, string? repositoryPath = null, Action<RestoreProgress>? onProgress = null, CancellationToken cancellationToken = default)
+    {
+        var extraArgs = new List<string>();
+
+        // If specific paths are requested, include only those
+        if (includePaths != null && includePaths.Length > 0)
+        {
+            foreach (var path in includePaths)
+            {
+                extraArgs.Add("--include");
+                extraArgs.Add(path);
+            }
+        }
+
+        return RunRestore(backupId, backupId, targetPath, extraArgs, repositoryPath, onProgress, cancellationToken);
+    }
+
+    public async Task RestoreToSource(string backupId, string snapshotRoot, string targetPath, RestoreConflictMode conflictMode, string[]? includePaths = null, string? repositoryPath = null, Action<RestoreProgress>? onProgress = null, CancellationToken cancellationToken = default)
+    {
+        // "<id>:<subfolder>" restores the contents of the original source directory, so files
+        // land at the same relative paths under the freshly mounted share. Include patterns
+        // are relative to that subfolder.
+        var normalizedRoot = snapshotRoot.Replace("\\", "/").TrimEnd('/');
+        var snapshot = string.IsNullOrEmpty(normalizedRoot) ? backupId : $"{backupId}:{normalizedRoot}";
+
+        var extraArgs = new List<string>();
+        foreach (var path in includePaths ?? Array.Empty<string>())
+        {
+            var normalizedPath = path.Replace("\\", "/").TrimEnd('/');
+            if (normalizedPath == normalizedRoot)
+            {
+                // The snapshot root itself is selected, which is everything restored from it
+                extraArgs.Clear();
+                break;
+            }
+
+            var relativePath = normalizedPath.StartsWith(normalizedRoot + "/", StringComparison.Ordinal)
+                ? normalizedPath[normalizedRoot.Length..]
+                : normalizedPath;
+            extraArgs.Add("--include");
+            extraArgs.Add(relativePath);
+        }
+
+        if (conflictMode != RestoreConflictMode.Rename)
+        {
+            extraArgs.Add("--overwrite");
+            extraArgs.Add(conflictMode == RestoreConflictMode.Skip ? "never" : "always");
+            await RunRestore(backupId, snapshot, targetPath, extraArgs, repositoryPath, onProgress, cancellationToken);
+            return;
+        }
+
+        // restic cannot rename on conflict, so restore next to the files in a staging directory
+        // on the same share and move everything into place afterwards
+        var suffix = $".restored-{DateTime.Now:yyyyMMdd-HHmmss}";
+        var stagingPath = Path.Combine(targetPath, $".backupchrono-restore-{Guid.NewGuid():N}");
+        try
+        {
+            await RunRestore(backupId, snapshot, stagingPath, extraArgs, repositoryPath, onProgress, cancellationToken);
+            MoveRestoredFiles(stagingPath, targetPath, suffix);
+        }
+        finally
+        {
+            if (Directory.Exists(stagingPath))
+            {
+                Directory.Delete(stagingPath, recursive: true);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Moves restored files from the staging directory into the target, giving every file
+    /// that would replace an existing one a timestamp suffix instead. A counter is added when
+    /// an earlier restore in the same second already took that name.
+    /// </summary>
+    private void MoveRestoredFiles(string stagingPath, string targetPath, string suffix)
+    {
+        // Directories first, so empty ones from the backup exist in the target too
+        foreach (var sourceDirectory in Directory.EnumerateDirectories(stagingPath, "*", SearchOption.AllDirectories))
+        {
+            Directory.CreateDirectory(Path.Combine(targetPath, Path.GetRelativePath(stagingPath, sourceDirectory)));
+        }
+
+        foreach (var sourceFile in Directory.EnumerateFiles(stagingPath, "*", SearchOption.AllDirectories))
+        {
+            var relativePath = Path.GetRelativePath(stagingPath, sourceFile);
+            var destination = Path.Combine(targetPath, relativePath);
+            Directory.CreateDirectory(Path.GetDirectoryName(destination)!);
+
+            if (File.Exists(destination) || Directory.Exists(destination))
+            {
+                var directory = Path.GetDirectoryName(destination)!;
+                var name = Path.GetFileNameWithoutExtension(destination);
+                var extension = Path.GetExtension(destination);
+                var renamed = Path.Combine(directory, name + suffix + extension);
+                for (var attempt = 2; File.Exists(renamed) || Directory.Exists(renamed); attempt++)
+                {
+                    renamed = Path.Combine(directory, $"{name}{suffix}-{attempt}{extension}");
+                }
+
+                _logger.LogInformation("{Destination} already exists, restoring as {Renamed}", destination, renamed);
+                destination = renamed;
+            }
+
+            File.Move(sourceFile, destination);
+        }
+    }
+
+    private async Task RunRestore(string backupId, string snapshot, string targetPath, IEnumerable<string> extraArgs, string? repositoryPath, Action<RestoreProgress>? onProgress, CancellationToken cancellationToken)
+    {
+        try
+        {
+            _logger.LogInformation("Starting restore of backup {BackupId} to {TargetPath}", backupId, targetPath);
+            
+            var args = new List<string> { "restore", snapshot, "--target", targetPath };
+            args.AddRange(extraArgs);
+
+            // Status lines are only needed when someone is listening for progress
+            if (onProgress != null)
+            {
+                args.Add("--json");
+            }
+
+            // Large restores can run for hours; they end when restic finishes or the restore is cancelled,
+            // not after the client's default timeout
+            await _client.ExecuteCommand(args.ToArray(), cancellationToken, timeout: Timeout.InfiniteTimeSpan, onOutputLine: line =>
+            {
+                if (onProgress == null || string.IsNullOrWhiteSpace(line)) return;
+
+                try
+                {
+                    using var doc = JsonDocument.Parse(line);
+                    var root = doc.RootElement;
+
+                    if (root.TryGetProperty("message_type", out var messageType) &&
+                        messageType.GetString() == "status")
+                    {
+                        onProgress(new RestoreProgress
+                        {
+                            RestoreId = "", // Will be set by RestoreOrchestrator
+                            BackupId = backupId,
+                            TargetPath = targetPath,
+                            Status = "Running",
+                            PercentComplete = root.TryGetProperty("percent_done", out var percentDone)
+                                ? percentDone.GetDouble() * 100
+                                : 0,
+                            FilesRestored = root.TryGetProperty("files_restored", out var filesRestored)
+                                ? filesRestored.GetInt32()
+                                : 0,
+                            TotalFiles = root.TryGetProperty("total_files", out var totalFiles)
+                                ? totalFiles.GetInt32()
+                                : null,
+                            BytesRestored = root.TryGetProperty("bytes_restored", out var bytesRestored)
+                                ? bytesRestored.GetInt64()
+                                : 0,
+                            TotalBytes = root.TryGetProperty("total_bytes", out var totalBytes)
+                                ? totalBytes.GetInt64()
+                                : null
+                        });
+                    }
+                }
+                catch (JsonException)
+                {
+                    // Ignore JSON parse errors for non-JSON output lines (restic outputs mixed text/JSON)
+                }
+            }, repositoryPathOverride: repositoryPath);
             _logger.LogInformation("Successfully restored backup {BackupId} to {TargetPath}", backupId, targetPath);
         }
         catch (InvalidOperationException ex) when (
@@ -865,18 +1899,6 @@ public class ResticService : IResticService
         }
     }
 
-    public Task<RestoreProgress> GetRestoreProgress(string restoreId)
-    {
-        // TODO: Implement restore progress tracking
-        return Task.FromResult(new RestoreProgress
-        {
-            RestoreId = restoreId,
-            FilesRestored = 0,
-            BytesRestored = 0,
-            PercentComplete = 0
-        });
-    }
-
     private static SnapshotMetadata ParseSnapshotMetadata(JsonElement snapshot, string backupId)
     {
         var metadata = new SnapshotMetadata
@@ -913,4 +1935,55 @@ public class ResticService : IResticService
 
         return metadata;
     }
+
+    /// <summary>
+    /// Read-only view of a forward-only stream whose length is known up front. TarWriter refuses
+    /// unseekable data when the archive itself is unseekable, but it only needs the length, never a seek.
+    /// </summary>
+    private sealed class SizedReadStream : Stream
+    {
+        private readonly Stream _baseStream;
+        private readonly long _length;
+        private long _position;
+
+        public SizedReadStream(Stream baseStream, long length)
+        {
+            _baseStream = baseStream;
+            _length = length;
+        }
+
+        public override bool CanRead => true;
+        public override bool CanSeek => true;
+        public override bool CanWrite => false;
+        public override long Length => _length;
+        public override long Position
+        {
+            get => _position;
+            set => throw new NotSupportedException();
+        }
+
+        public override int Read(byte[] buffer, int offset, int count)
+        {
+            var read = _baseStream.Read(buffer, offset, (int)Math.Min(count, _length - _position));
+            _position += read;
+            return read;
+        }
+
+        public override async ValueTask<int> ReadAsync(Memory<byte> buffer, CancellationToken cancellationToken = default)
+        {
+            var read = await _baseStream.ReadAsync(buffer[..(int)Math.Min(buffer.Length, _length - _position)], cancellationToken);
+            _position += read;
+            return read;
+        }
+
+        public override Task<int> ReadAsync(byte[] buffer, int offset, int count, CancellationToken cancellationToken)
+        {
+            return ReadAsync(buffer.AsMemory(offset, count), cancellationToken).AsTask();
+        }
+
+        public override void Flush() { }
+        public override long Seek(long offset, SeekOrigin origin) => throw new NotSupportedException();
+        public override void SetLength(long value) => throw new NotSupportedException();
+        public override void Write(byte[] buffer, int offset, int count) => throw new NotSupportedException();
+    }
 }
@@ -0,0 +1,80 @@
+using System.Globalization;
+using BackupChrono.Core.DTOs;
+using BackupChrono.Core.Entities;
+using BackupChrono.Core.ValueObjects;
+
+namespace BackupChrono.Infrastructure.Restic;
+
+/// <summary>
+/// Applies a retention policy to a snapshot list the way 'restic forget' does, so its effect can be
+/// previewed without touching the repository.
+/// </summary>
+public static class RetentionSimulator
+{
+    /// <summary>
+    /// Decides for each snapshot whether the policy keeps it. Like restic's default --group-by host,paths,
+    /// the policy applies separately to each host and set of snapshot paths. Within a group snapshots are
+    /// walked newest first; every rule keeps the first snapshot of each period (each snapshot, for "latest")
+    /// until its count is used up, and a rule with count left also keeps the group's oldest snapshot.
+    /// Periods are calendar days, ISO weeks, months and years in <paramref name="timeZone"/>.
+    /// </summary>
+    /// <returns>The decisions, newest snapshot first.</returns>
+    public static IReadOnlyList<RetentionDecision> Apply(IEnumerable<Backup> backups, RetentionPolicy policy, TimeZoneInfo timeZone)
+    {
+        return backups
+            .GroupBy(GroupKey)
+            .SelectMany(group => ApplyToGroup(group.OrderByDescending(b => b.Timestamp.ToUniversalTime()).ToList(), policy, timeZone))
+            .OrderByDescending(d => d.Backup.Timestamp.ToUniversalTime())
+            .ToList();
+    }
+
+    private static IEnumerable<RetentionDecision> ApplyToGroup(List<Backup> backups, RetentionPolicy policy, TimeZoneInfo timeZone)
+    {
+        var rules = new[]
+        {
+            new Rule("latest", policy.KeepLatest, (_, index) => index),
+            new Rule("daily", policy.KeepDaily, (time, _) => time.Year * 10000 + time.Month * 100 + time.Day),
+            new Rule("weekly", policy.KeepWeekly, (time, _) => ISOWeek.GetYear(time) * 100 + ISOWeek.GetWeekOfYear(time)),
+            new Rule("monthly", policy.KeepMonthly, (time, _) => time.Year * 100 + time.Month),
+            new Rule("yearly", policy.KeepYearly, (time, _) => time.Year),
+        };
+
+        return backups.Select((backup, index) =>
+        {
+            var time = TimeZoneInfo.ConvertTime(backup.Timestamp, timeZone);
+            var isOldest = index == backups.Count - 1;
+            var reasons = new List<string>();
+
+            foreach (var rule in rules.Where(r => r.Remaining > 0))
+            {
+                var period = rule.Period(time, index);
+                if (period == rule.LastPeriod && !isOldest) continue;
+
+                rule.LastPeriod = period;
+                rule.Remaining--;
+                reasons.Add(rule.Name);
+            }
+
+            return new RetentionDecision { Backup = backup, Reasons = reasons };
+        }).ToList();
+    }
+
+    // restic compares the sorted snapshot paths, so the order they were given in does not matter
+    private static string GroupKey(Backup backup) =>
+        backup.DeviceName + "\n" + string.Join("\n", backup.SnapshotPaths.Order(StringComparer.Ordinal));
+
+    private sealed class Rule
+    {
+        public Rule(string name, int count, Func<DateTime, int, int> period)
+        {
+            Name = name;
+            Remaining = count;
+            Period = period;
+        }
+
+        public string Name { get; }
+        public int Remaining { get; set; }
+        public Func<DateTime, int, int> Period { get; }
+        public int? LastPeriod { get; set; }
+    }
+}
@@ -61,6 +61,21 @@ public class BackupJob : IJob
         using var scope = _serviceProvider.CreateScope();
         var orchestrator = scope.ServiceProvider.GetRequiredService<IBackupOrchestrator>();
 
+        // Manual backups ignore windows and blackouts; scheduled runs and their retries honour them
+        if (jobType != BackupJobType.Manual)
+        {
+            var blockedReason = await GetBlockedReason(scope.ServiceProvider, deviceId, shareId);
+            if (blockedReason != null)
+            {
+                _logger.LogInformation(
+                    "Skipping scheduled backup of {DeviceName}/{ShareName}: {Reason}",
+                    deviceName ?? deviceId.ToString(),
+                    shareName ?? shareId?.ToString() ?? "all shares",
+                    blockedReason);
+                return;
+            }
+        }
+
         try
         {
             Core.Entities.BackupJob backupJob;
@@ -142,6 +157,28 @@ public class BackupJob : IJob
         }
     }
 
+    private async Task<string?> GetBlockedReason(IServiceProvider services, Guid deviceId, Guid? shareId)
+    {
+        try
+        {
+            var settings = await services.GetRequiredService<ISettingsService>().GetGlobalSettings();
+            var device = await services.GetRequiredService<IDeviceService>().GetDevice(deviceId);
+            var share = shareId.HasValue
+                ? await services.GetRequiredService<IShareService>().GetShare(shareId.Value)
+                : null;
+
+            return CronSchedule.GetBlockedReason(
+                DateTimeOffset.Now,
+                new[] { settings.Schedule, device?.Schedule, share?.Schedule });
+        }
+        catch (Exception ex)
+        {
+            // A backup that runs at a blocked time is better than one silently lost to a config read error
+            _logger.LogWarning(ex, "Failed to check backup restrictions for device {DeviceId}, running anyway", deviceId);
+            return null;
+        }
+    }
+
     private async Task ScheduleRetry(
         IJobExecutionContext context,
         Core.Entities.BackupJob failedJob,
@@ -0,0 +1,104 @@
+using BackupChrono.Core.ValueObjects;
+using Quartz;
+
+namespace BackupChrono.Infrastructure.Scheduling;
+
+/// <summary>
+/// Cron helpers shared by the scheduler and the views that predict what it will do,
+/// so both read a schedule the same way Quartz does.
+/// </summary>
+public static class CronSchedule
+{
+    /// <summary>
+    /// Converts "* *" in the day-of-month and day-of-week fields to "* ?", which Quartz requires.
+    /// Expressions with fewer than six parts are returned unchanged.
+    /// </summary>
+    public static string Normalize(string cron)
+    {
+        if (string.IsNullOrWhiteSpace(cron)) return cron;
+
+        var parts = cron.Split(' ');
+        if (parts.Length < 6) return cron;
+
+        if (parts[3] == "*" && parts[5] == "*")
+        {
+            parts[5] = "?";
+            return string.Join(" ", parts);
+        }
+
+        return cron;
+    }
+
+    /// <summary>
+    /// Lists the fire times of a cron expression after <paramref name="from"/> up to and including
+    /// <paramref name="to"/>, evaluated in the server's time zone like the scheduler's triggers.
+    /// </summary>
+    /// <exception cref="FormatException">Thrown when the expression is not valid Quartz cron.</exception>
+    public static IReadOnlyList<DateTimeOffset> GetOccurrences(string cron, DateTimeOffset from, DateTimeOffset to, int limit)
+    {
+        var expression = new CronExpression(Normalize(cron));
+        var occurrences = new List<DateTimeOffset>();
+
+        var next = expression.GetNextValidTimeAfter(from);
+        while (next.HasValue && next.Value <= to && occurrences.Count < limit)
+        {
+            occurrences.Add(next.Value);
+            next = expression.GetNextValidTimeAfter(next.Value);
+        }
+
+        return occurrences;
+    }
+
+    /// <summary>
+    /// Returns true when the time falls inside the window, read in server local time.
+    /// A missing bound leaves that side open; a window ending before it starts wraps past midnight.
+    /// </summary>
+    public static bool IsWithinWindow(DateTimeOffset time, TimeOnly? windowStart, TimeOnly? windowEnd)
+    {
+        if (!windowStart.HasValue && !windowEnd.HasValue) return true;
+
+        var timeOfDay = TimeOnly.FromDateTime(time.ToLocalTime().DateTime);
+        var start = windowStart ?? TimeOnly.MinValue;
+        var end = windowEnd ?? TimeOnly.MaxValue;
+
+        return start <= end
+            ? timeOfDay >= start && timeOfDay < end
+            : timeOfDay >= start || timeOfDay < end;
+    }
+
+    /// <summary>
+    /// Returns why a scheduled run starting at the given time must be skipped, or null when it may run.
+    /// Restrictions add up across levels: the time must be allowed by every schedule given
+    /// (typically global, device and share), each read in server local time.
+    /// </summary>
+    public static string? GetBlockedReason(DateTimeOffset time, IEnumerable<Schedule?> schedules)
+    {
+        var local = time.ToLocalTime();
+        var day = DateOnly.FromDateTime(local.DateTime);
+
+        foreach (var schedule in schedules.OfType<Schedule>())
+        {
+            var blackout = schedule.BlackoutPeriods?.FirstOrDefault(p => p.Contains(day));
+            if (blackout != null)
+            {
+                return string.IsNullOrWhiteSpace(blackout.Reason)
+                    ? "Blackout period"
+                    : $"Blackout period: {blackout.Reason}";
+            }
+
+            if (schedule.BlockedHours != null &&
+                schedule.BlockedHours.TryGetValue(local.DayOfWeek, out var hours) &&
+                hours.Contains(local.Hour))
+            {
+                return $"Blocked hour ({local.DayOfWeek} {local.Hour:00}:00)";
+            }
+
+            if (!IsWithinWindow(time, schedule.TimeWindowStart, schedule.TimeWindowEnd))
+            {
+                return "Outside the backup window";
+            }
+        }
+
+        return null;
+    }
+}
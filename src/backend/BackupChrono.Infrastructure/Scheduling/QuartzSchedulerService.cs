@@ -372,19 +372,12 @@ public class QuartzSchedulerService : IQuartzSchedulerService
     /// </summary>
     private string NormalizeCronExpression(string cron)
     {
-        if (string.IsNullOrWhiteSpace(cron)) return cron;
-        
-        var parts = cron.Split(' ');
-        if (parts.Length < 6) return cron;
-
-        // Check if day-of-month (index 3) and day-of-week (index 5) are both '*'
-        if (parts[3] == "*" && parts[5] == "*")
+        var normalized = CronSchedule.Normalize(cron);
+        if (normalized != cron)
         {
-            parts[5] = "?"; // Convert day-of-week to '?'
-            _logger.LogWarning("Normalized cron expression from '{Original}' to '{Normalized}'", cron, string.Join(" ", parts));
-            return string.Join(" ", parts);
+            _logger.LogWarning("Normalized cron expression from '{Original}' to '{Normalized}'", cron, normalized);
         }
 
-        return cron;
+        return normalized;
     }
 }
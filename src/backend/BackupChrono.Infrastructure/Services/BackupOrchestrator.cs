@@ -22,6 +22,7 @@ public class BackupOrchestrator : IBackupOrchestrator
     private readonly IStorageMonitor _storageMonitor;
     private readonly IBackupJobRepository _backupJobRepository;
     private readonly IBackupLogService _backupLogService;
+    private readonly ISettingsService _settingsService;
     private readonly ILogger<BackupOrchestrator> _logger;
     private readonly string _repositoryBasePath;
     private readonly ConcurrentDictionary<Guid, BackupJob> _activeJobs = new();
@@ -42,6 +43,7 @@ public class BackupOrchestrator : IBackupOrchestrator
         IStorageMonitor storageMonitor,
         IBackupJobRepository backupJobRepository,
         IBackupLogService backupLogService,
+        ISettingsService settingsService,
         ILogger<BackupOrchestrator> logger,
         IOptions<ResticOptions> resticOptions)
     {
@@ -52,6 +54,7 @@ public class BackupOrchestrator : IBackupOrchestrator
         _storageMonitor = storageMonitor;
         _backupJobRepository = backupJobRepository;
         _backupLogService = backupLogService;
+        _settingsService = settingsService;
         _logger = logger;
         _repositoryBasePath = resticOptions.Value.RepositoryBasePath;
     }
@@ -61,6 +64,8 @@ public class BackupOrchestrator : IBackupOrchestrator
         ProgressUpdated?.Invoke(this, new BackupProgress
         {
             JobId = job.Id.ToString(),
+            DeviceId = job.DeviceId,
+            ShareId = job.ShareId,
             DeviceName = job.DeviceName,
             ShareName = job.ShareName,
             Status = job.Status.ToString(),
@@ -424,7 +429,8 @@ public class BackupOrchestrator : IBackupOrchestrator
             cancellationToken.ThrowIfCancellationRequested();
 
             // Get effective rules (configuration cascade: share > device > global)
-            var rules = share.IncludeExcludeRules ?? device.IncludeExcludeRules ?? new IncludeExcludeRules();
+            var globalSettings = await _settingsService.GetGlobalSettings();
+            var rules = share.IncludeExcludeRules ?? device.IncludeExcludeRules ?? globalSettings.IncludeExcludeRules;
 
             // Initialize repository if it doesn't exist
             var repositoryPath = GetRepositoryPath(device, share);
@@ -467,7 +473,7 @@ public class BackupOrchestrator : IBackupOrchestrator
 
             // Build command line for debugging (includes repository path, excludes password)
             var includeExcludeArgs = string.Join(" ", rules.ExcludePatterns.Select(p => $"--exclude \"{p}\""));
-            job.CommandLine = $"RESTIC_REPOSITORY={repositoryPath}\nrestic backup \"{mountPath}\" --json {includeExcludeArgs}";
+            job.CommandLine = $"RESTIC_REPOSITORY={repositoryPath}\nrestic backup \"{mountPath}\" --json --compression {globalSettings.Compression.ToString().ToLowerInvariant()} {includeExcludeArgs}";
             await _backupJobRepository.SaveJob(job);
 
             // Execute restic backup
@@ -476,12 +482,14 @@ public class BackupOrchestrator : IBackupOrchestrator
             // Track final progress values
             BackupProgress? lastProgress = null;
             
-            var backup = await _resticService.CreateBackup(repositoryPath, device, share, mountPath, rules, progress =>
+            var backup = await _resticService.CreateBackup(repositoryPath, device, share, mountPath, rules, globalSettings.Compression, progress =>
             {
                 // Create a new progress object with the JobId set
                 var updatedProgress = new BackupProgress
                 {
                     JobId = job.Id.ToString(),
+                    DeviceId = device.Id,
+                    ShareId = share.Id,
                     DeviceName = progress.DeviceName,
                     ShareName = progress.ShareName,
                     Status = progress.Status,
@@ -515,6 +523,7 @@ public class BackupOrchestrator : IBackupOrchestrator
                 job.FilesProcessed = lastProgress.FilesProcessed;
                 job.BytesTransferred = lastProgress.BytesProcessed;
             }
+            job.DataAdded += backup.DataAdded;
 
             _logger.LogInformation("Backup completed with snapshot ID: {SnapshotId}", backup.Id);
             
@@ -0,0 +1,292 @@
+using System.Collections.Concurrent;
+using BackupChrono.Core.DTOs;
+using BackupChrono.Core.Entities;
+using BackupChrono.Core.Interfaces;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+
+namespace BackupChrono.Infrastructure.Services;
+
+/// <summary>
+/// Runs restic restores in the background and keeps their latest progress in memory,
+/// so a client can leave the page and pick the restore up again later.
+/// </summary>
+public class RestoreOrchestrator : IRestoreOrchestrator
+{
+    private readonly IResticService _resticService;
+    private readonly IDeviceService _deviceService;
+    private readonly IShareService _shareService;
+    private readonly IProtocolPluginLoader _pluginLoader;
+    private readonly ILogger<RestoreOrchestrator> _logger;
+    private readonly string _repositoryBasePath;
+    private readonly ConcurrentDictionary<string, RestoreProgress> _restores = new();
+    private readonly ConcurrentDictionary<string, (double LastPercent, DateTime LastBroadcast)> _progressThrottle = new();
+    private static readonly TimeSpan CompletedRestoreRetention = TimeSpan.FromHours(1);
+    private static readonly TimeSpan ProgressBroadcastInterval = TimeSpan.FromMilliseconds(500);
+    private const double ProgressPercentThreshold = 1.0;
+
+    public event EventHandler<RestoreProgress>? ProgressUpdated;
+
+    public RestoreOrchestrator(
+        IResticService resticService,
+        IDeviceService deviceService,
+        IShareService shareService,
+        IProtocolPluginLoader pluginLoader,
+        ILogger<RestoreOrchestrator> logger,
+        IOptions<ResticOptions> resticOptions)
+    {
+        _resticService = resticService;
+        _deviceService = deviceService;
+        _shareService = shareService;
+        _pluginLoader = pluginLoader;
+        _logger = logger;
+        _repositoryBasePath = resticOptions.Value.RepositoryBasePath;
+    }
+
+    public Task<RestoreProgress> StartRestore(Guid deviceId, Guid shareId, string backupId, string targetPath, string[]? includePaths = null)
+    {
+        var initial = TrackNewRestore(deviceId, shareId, backupId, targetPath);
+        var repositoryPath = GetRepositoryPath(deviceId, shareId);
+
+        // Fire and forget - progress is reported through ProgressUpdated and GetRestoreProgress
+        _ = Task.Run(() => ExecuteRestore(initial, onProgress => _resticService.RestoreBackup(
+            backupId,
+            targetPath,
+            includePaths,
+            repositoryPath,
+            onProgress: onProgress)));
+
+        return Task.FromResult(initial);
+    }
+
+    public async Task<RestoreSourceTarget> GetSourceTarget(Guid deviceId, Guid shareId)
+    {
+        var (device, share) = await GetDeviceAndShare(deviceId, shareId);
+
+        return new RestoreSourceTarget
+        {
+            DeviceId = device.Id,
+            DeviceName = device.Name,
+            Host = device.Host,
+            Protocol = device.Protocol.ToString(),
+            ShareId = share.Id,
+            ShareName = share.Name,
+            SharePath = share.Path
+        };
+    }
+
+    public async Task<RestoreProgress> StartSourceRestore(Guid deviceId, Guid shareId, string backupId, RestoreConflictMode conflictMode, string[]? includePaths = null)
+    {
+        var (device, share) = await GetDeviceAndShare(deviceId, shareId);
+        var plugin = _pluginLoader.GetPlugin(device.Protocol);
+
+        // Fail fast while the user is still looking at the dialog rather than inside the background task
+        if (!await plugin.TestConnection(device))
+        {
+            throw new InvalidOperationException(
+                $"Device '{device.Name}' ({device.Host}) is not reachable. Download the files instead, or retry once it is online.");
+        }
+
+        var initial = TrackNewRestore(deviceId, shareId, backupId, $"{device.Host}:{share.Path}");
+        var repositoryPath = GetRepositoryPath(deviceId, shareId);
+
+        _logger.LogInformation(
+            "Restoring backup {BackupId} to source {Host}:{SharePath} ({ConflictMode})",
+            backupId, device.Host, share.Path, conflictMode);
+
+        _ = Task.Run(() => ExecuteRestore(initial, async onProgress =>
+        {
+            var mountPath = await plugin.MountShare(device, share);
+            try
+            {
+                // The snapshot records the mount path used at backup time, which may differ from today's
+                var metadata = await _resticService.GetSnapshotMetadata(backupId, repositoryPath);
+                var snapshotRoot = metadata.Paths.FirstOrDefault() ?? "/";
+
+                await _resticService.RestoreToSource(
+                    backupId,
+                    snapshotRoot,
+                    mountPath,
+                    conflictMode,
+                    includePaths,
+                    repositoryPath,
+                    onProgress);
+            }
+            finally
+            {
+                try
+                {
+                    await plugin.UnmountShare(mountPath);
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogWarning(ex, "Failed to unmount share '{ShareName}' at '{MountPath}'", share.Name, mountPath);
+                }
+            }
+        }));
+
+        return initial;
+    }
+
+    public Task<RestoreProgress?> GetRestoreProgress(string restoreId)
+    {
+        return Task.FromResult(_restores.TryGetValue(restoreId, out var progress) ? progress : null);
+    }
+
+    public Task<IEnumerable<RestoreProgress>> ListRestores()
+    {
+        RemoveExpiredRestores();
+        IEnumerable<RestoreProgress> restores = _restores.Values
+            .OrderByDescending(r => r.StartedAt)
+            .ToList();
+        return Task.FromResult(restores);
+    }
+
+    private RestoreProgress TrackNewRestore(Guid deviceId, Guid shareId, string backupId, string targetPath)
+    {
+        var initial = new RestoreProgress
+        {
+            RestoreId = Guid.NewGuid().ToString(),
+            BackupId = backupId,
+            DeviceId = deviceId,
+            ShareId = shareId,
+            TargetPath = targetPath,
+            Status = "Running",
+            StartedAt = DateTime.UtcNow
+        };
+
+        _restores[initial.RestoreId] = initial;
+        ProgressUpdated?.Invoke(this, initial);
+        return initial;
+    }
+
+    private async Task<(Device Device, Share Share)> GetDeviceAndShare(Guid deviceId, Guid shareId)
+    {
+        var device = await _deviceService.GetDevice(deviceId)
+            ?? throw new KeyNotFoundException($"Device with ID '{deviceId}' not found");
+        var share = await _shareService.GetShare(shareId);
+        if (share == null || share.DeviceId != deviceId)
+        {
+            throw new KeyNotFoundException($"Share with ID '{shareId}' not found on device '{device.Name}'");
+        }
+
+        return (device, share);
+    }
+
+    private string GetRepositoryPath(Guid deviceId, Guid shareId)
+    {
+        return Path.Combine(_repositoryBasePath, deviceId.ToString(), shareId.ToString());
+    }
+
+    private async Task ExecuteRestore(RestoreProgress initial, Func<Action<RestoreProgress>, Task> restore)
+    {
+        try
+        {
+            await restore(progress => RaiseProgressUpdate(WithIdentity(progress, initial)));
+
+            var current = _restores.GetValueOrDefault(initial.RestoreId) ?? initial;
+            Complete(new RestoreProgress
+            {
+                RestoreId = initial.RestoreId,
+                BackupId = initial.BackupId,
+                DeviceId = initial.DeviceId,
+                ShareId = initial.ShareId,
+                TargetPath = initial.TargetPath,
+                Status = "Completed",
+                FilesRestored = current.TotalFiles ?? current.FilesRestored,
+                TotalFiles = current.TotalFiles,
+                BytesRestored = current.TotalBytes ?? current.BytesRestored,
+                TotalBytes = current.TotalBytes,
+                PercentComplete = 100,
+                StartedAt = initial.StartedAt,
+                CompletedAt = DateTime.UtcNow
+            });
+
+            _logger.LogInformation("Restore {RestoreId} of backup {BackupId} completed", initial.RestoreId, initial.BackupId);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Restore {RestoreId} of backup {BackupId} failed", initial.RestoreId, initial.BackupId);
+
+            var current = _restores.GetValueOrDefault(initial.RestoreId) ?? initial;
+            Complete(new RestoreProgress
+            {
+                RestoreId = initial.RestoreId,
+                BackupId = initial.BackupId,
+                DeviceId = initial.DeviceId,
+                ShareId = initial.ShareId,
+                TargetPath = initial.TargetPath,
+                Status = "Failed",
+                FilesRestored = current.FilesRestored,
+                TotalFiles = current.TotalFiles,
+                BytesRestored = current.BytesRestored,
+                TotalBytes = current.TotalBytes,
+                PercentComplete = current.PercentComplete,
+                StartedAt = initial.StartedAt,
+                CompletedAt = DateTime.UtcNow,
+                ErrorMessage = ex is KeyNotFoundException ? $"Backup {initial.BackupId} not found" : ex.Message
+            });
+        }
+    }
+
+    private static RestoreProgress WithIdentity(RestoreProgress progress, RestoreProgress initial)
+    {
+        return new RestoreProgress
+        {
+            RestoreId = initial.RestoreId,
+            BackupId = initial.BackupId,
+            DeviceId = initial.DeviceId,
+            ShareId = initial.ShareId,
+            TargetPath = initial.TargetPath,
+            Status = "Running",
+            FilesRestored = progress.FilesRestored,
+            TotalFiles = progress.TotalFiles,
+            BytesRestored = progress.BytesRestored,
+            TotalBytes = progress.TotalBytes,
+            PercentComplete = progress.PercentComplete,
+            StartedAt = initial.StartedAt
+        };
+    }
+
+    private void RaiseProgressUpdate(RestoreProgress progress)
+    {
+        // Always keep the latest state so polling clients see it, but throttle broadcasts
+        _restores[progress.RestoreId] = progress;
+
+        var now = DateTime.UtcNow;
+        var shouldBroadcast = true;
+
+        if (_progressThrottle.TryGetValue(progress.RestoreId, out var lastState))
+        {
+            var timeSinceLastBroadcast = now - lastState.LastBroadcast;
+            var percentChanged = Math.Abs(progress.PercentComplete - lastState.LastPercent);
+            shouldBroadcast = percentChanged >= ProgressPercentThreshold ||
+                              timeSinceLastBroadcast >= ProgressBroadcastInterval;
+        }
+
+        if (shouldBroadcast)
+        {
+            _progressThrottle[progress.RestoreId] = (progress.PercentComplete, now);
+            ProgressUpdated?.Invoke(this, progress);
+        }
+    }
+
+    private void Complete(RestoreProgress progress)
+    {
+        _restores[progress.RestoreId] = progress;
+        _progressThrottle.TryRemove(progress.RestoreId, out _);
+        ProgressUpdated?.Invoke(this, progress);
+    }
+
+    private void RemoveExpiredRestores()
+    {
+        var cutoff = DateTime.UtcNow - CompletedRestoreRetention;
+        foreach (var (restoreId, progress) in _restores)
+        {
+            if (progress.CompletedAt.HasValue && progress.CompletedAt.Value < cutoff)
+            {
+                _restores.TryRemove(restoreId, out _);
+            }
+        }
+    }
+}
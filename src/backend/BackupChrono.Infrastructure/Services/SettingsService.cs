@@ -0,0 +1,48 @@
+using BackupChrono.Core.Entities;
+using BackupChrono.Core.Interfaces;
+using BackupChrono.Infrastructure.Git;
+using Microsoft.Extensions.Logging;
+
+namespace BackupChrono.Infrastructure.Services;
+
+/// <summary>
+/// Service for managing the global configuration defaults with YAML persistence via Git.
+/// </summary>
+public class SettingsService : ISettingsService
+{
+    private const string GlobalSettingsFile = "global.yaml";
+
+    private readonly GitConfigService _gitConfigService;
+    private readonly ILogger<SettingsService> _logger;
+
+    public SettingsService(GitConfigService gitConfigService, ILogger<SettingsService> logger)
+    {
+        _gitConfigService = gitConfigService;
+        _logger = logger;
+    }
+
+    public async Task<GlobalSettings> GetGlobalSettings()
+    {
+        var settings = await _gitConfigService.ReadYamlFile<GlobalSettings>(GlobalSettingsFile);
+        if (settings == null)
+        {
+            _logger.LogDebug("No {File} found, using built-in global defaults", GlobalSettingsFile);
+            return new GlobalSettings();
+        }
+
+        return settings;
+    }
+
+    public async Task<GlobalSettings> UpdateGlobalSettings(GlobalSettings settings)
+    {
+        ArgumentNullException.ThrowIfNull(settings);
+
+        settings.Validate();
+        settings.UpdatedAt = DateTime.UtcNow;
+
+        await _gitConfigService.WriteAndCommitYamlFile(GlobalSettingsFile, settings, "Update global settings");
+        _logger.LogInformation("Global settings updated");
+
+        return settings;
+    }
+}
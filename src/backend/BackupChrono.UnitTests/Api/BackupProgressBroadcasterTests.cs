@@ -0,0 +1,109 @@
+using BackupChrono.Api.Hubs;
+using BackupChrono.Api.Services;
+using BackupChrono.Core.DTOs;
+using BackupChrono.Core.Interfaces;
+using FluentAssertions;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Api;
+
+public class BackupProgressBroadcasterTests
+{
+    private readonly Mock<IBackupOrchestrator> _orchestratorMock;
+    private readonly Mock<IClientProxy> _allClientsMock;
+    private readonly Mock<IClientProxy> _groupClientsMock;
+    private readonly List<IReadOnlyList<string>> _progressGroups = new();
+    private readonly BackupProgressBroadcaster _broadcaster;
+
+    public BackupProgressBroadcasterTests()
+    {
+        _orchestratorMock = new Mock<IBackupOrchestrator>();
+        _allClientsMock = new Mock<IClientProxy>();
+        _groupClientsMock = new Mock<IClientProxy>();
+
+        var clientsMock = new Mock<IHubClients>();
+        clientsMock.Setup(c => c.All).Returns(_allClientsMock.Object);
+        clientsMock
+            .Setup(c => c.Groups(It.IsAny<IReadOnlyList<string>>()))
+            .Callback<IReadOnlyList<string>>(groups => _progressGroups.Add(groups))
+            .Returns(_groupClientsMock.Object);
+
+        var hubContextMock = new Mock<IHubContext<BackupProgressHub>>();
+        hubContextMock.Setup(h => h.Clients).Returns(clientsMock.Object);
+
+        _broadcaster = new BackupProgressBroadcaster(
+            _orchestratorMock.Object,
+            hubContextMock.Object,
+            Mock.Of<ILogger<BackupProgressBroadcaster>>());
+        _broadcaster.StartAsync(CancellationToken.None).Wait();
+    }
+
+    private void Raise(Guid jobId, Guid deviceId, string status) =>
+        _orchestratorMock.Raise(o => o.ProgressUpdated += null, _orchestratorMock.Object, new BackupProgress
+        {
+            JobId = jobId.ToString(),
+            DeviceId = deviceId,
+            Status = status
+        });
+
+    private List<string> LifecycleEvents() => _allClientsMock.Invocations
+        .Select(i => (string)i.Arguments[0])
+        .ToList();
+
+    [Fact]
+    public void ProgressUpdated_RaisesStartedOnceAndCompletedOnStatusChange()
+    {
+        // Arrange
+        var jobId = Guid.NewGuid();
+        var deviceId = Guid.NewGuid();
+
+        // Act
+        Raise(jobId, deviceId, "Running");
+        Raise(jobId, deviceId, "Running");
+        Raise(jobId, deviceId, "Running");
+        Raise(jobId, deviceId, "PartiallyCompleted");
+
+        // Assert
+        LifecycleEvents().Should().Equal(HubEvents.JobStarted, HubEvents.JobCompleted);
+        _groupClientsMock.Invocations.Should().HaveCount(4);
+        _groupClientsMock.Invocations.Should().OnlyContain(i => (string)i.Arguments[0] == HubEvents.JobProgress);
+    }
+
+    [Theory]
+    [InlineData("Failed", HubEvents.JobFailed)]
+    [InlineData("Cancelled", HubEvents.JobCancelled)]
+    public void ProgressUpdated_RaisesTerminalEvent(string status, string expectedEvent)
+    {
+        // Arrange
+        var jobId = Guid.NewGuid();
+
+        // Act
+        Raise(jobId, Guid.NewGuid(), "Running");
+        Raise(jobId, Guid.NewGuid(), status);
+
+        // Assert
+        LifecycleEvents().Should().Equal(HubEvents.JobStarted, expectedEvent);
+    }
+
+    [Fact]
+    public void ProgressUpdated_SendsProgressToJobDeviceAndAllJobsGroups()
+    {
+        // Arrange
+        var jobId = Guid.NewGuid();
+        var deviceId = Guid.NewGuid();
+
+        // Act
+        Raise(jobId, deviceId, "Running");
+
+        // Assert
+        _progressGroups.Should().ContainSingle().Which.Should().BeEquivalentTo(new[]
+        {
+            BackupProgressHub.AllJobsGroup,
+            BackupProgressHub.JobGroup(jobId),
+            BackupProgressHub.DeviceGroup(deviceId)
+        });
+    }
+}
@@ -1,10 +1,14 @@
+using System.IO.Compression;
+using System.Text;
 using BackupChrono.Api.Controllers;
 using BackupChrono.Api.DTOs;
+using BackupChrono.Core.DTOs;
 using BackupChrono.Core.Entities;
 using BackupChrono.Core.Interfaces;
 using BackupChrono.Infrastructure.Services;
 using BackupChrono.Infrastructure.Restic;
 using FluentAssertions;
+using Microsoft.AspNetCore.Http;
 using Microsoft.AspNetCore.Mvc;
 using Microsoft.Extensions.Logging;
 using Microsoft.Extensions.Options;
@@ -19,6 +23,7 @@ namespace BackupChrono.UnitTests.Api;
 public class BackupsControllerTests
 {
     private readonly Mock<IResticService> _mockResticService;
+    private readonly Mock<IRestoreOrchestrator> _mockRestoreOrchestrator;
     private readonly Mock<ILogger<BackupsController>> _mockLogger;
     private readonly BackupsController _controller;
 
@@ -26,9 +31,10 @@ public class BackupsControllerTests
     {
         _mockResticService = new Mock<IResticService>();
         var _mockBackupLogService = new Mock<IBackupLogService>();
+        _mockRestoreOrchestrator = new Mock<IRestoreOrchestrator>();
         _mockLogger = new Mock<ILogger<BackupsController>>();
         var resticOptions = Options.Create(new ResticOptions { RepositoryBasePath = "./repositories" });
-        _controller = new BackupsController(_mockResticService.Object, _mockBackupLogService.Object, resticOptions, _mockLogger.Object);
+        _controller = new BackupsController(_mockResticService.Object, _mockBackupLogService.Object, _mockRestoreOrchestrator.Object, resticOptions, _mockLogger.Object);
     }
 
     [Fact]
@@ -247,6 +253,49 @@ public class BackupsControllerTests
         result.Result.Should().BeOfType<NotFoundObjectResult>();
     }
 
+    [Fact]
+    public async Task GetFileMetadata_ReturnsOkWithMetadata_WhenEntryExists()
+    {
+        // Arrange
+        var deviceId = Guid.NewGuid();
+        var shareId = Guid.NewGuid();
+        var metadata = new FileMetadata
+        {
+            Path = "/etc/current",
+            Name = "current",
+            Type = "symlink",
+            Permissions = "lrwxrwxrwx",
+            LinkTarget = "releases/42"
+        };
+
+        _mockResticService
+            .Setup(s => s.GetFileMetadata("backup123", "/etc/current", false, It.IsAny<string?>()))
+            .ReturnsAsync(metadata);
+
+        // Act
+        var result = await _controller.GetFileMetadata("backup123", deviceId, shareId, "/etc/current");
+
+        // Assert
+        var okResult = result.Result.Should().BeOfType<OkObjectResult>().Subject;
+        var returned = okResult.Value.Should().BeOfType<FileMetadata>().Subject;
+        returned.LinkTarget.Should().Be("releases/42");
+    }
+
+    [Fact]
+    public async Task GetFileMetadata_Returns404_WhenEntryNotInSnapshot()
+    {
+        // Arrange
+        _mockResticService
+            .Setup(s => s.GetFileMetadata("backup123", "/missing", It.IsAny<bool>(), It.IsAny<string?>()))
+            .ThrowsAsync(new KeyNotFoundException("Path /missing not found in backup backup123"));
+
+        // Act
+        var result = await _controller.GetFileMetadata("backup123", Guid.NewGuid(), Guid.NewGuid(), "/missing");
+
+        // Assert
+        result.Result.Should().BeOfType<NotFoundObjectResult>();
+    }
+
     [Fact]
     public async Task RestoreBackup_WithPathOutsideAllowedDirectory_ReturnsBadRequest()
     {
@@ -290,7 +339,7 @@ public class BackupsControllerTests
     }
 
     [Fact]
-    public async Task RestoreBackup_WithValidRequest_ReturnsOk()
+    public async Task RestoreBackup_WithValidRequest_ReturnsAcceptedWithTrackedRestore()
     {
         // Arrange
         var backupId = "backup789";
@@ -300,46 +349,289 @@ public class BackupsControllerTests
         {
             TargetPath = "./restores/backup789"
         };
+        var progress = new BackupChrono.Core.DTOs.RestoreProgress { RestoreId = "restore-1", BackupId = backupId, Status = "Running" };
+
+        _mockRestoreOrchestrator
+            .Setup(o => o.StartRestore(deviceId, shareId, backupId, It.Is<string>(p => p.EndsWith("backup789")), null))
+            .ReturnsAsync(progress);
 
         // Act
         var result = await _controller.RestoreBackup(backupId, deviceId, shareId, request);
 
         // Assert
-        var okResult = result.Should().BeOfType<OkObjectResult>().Subject;
-        okResult.StatusCode.Should().Be(200);
+        var acceptedResult = result.Should().BeOfType<AcceptedResult>().Subject;
+        acceptedResult.StatusCode.Should().Be(202);
+        acceptedResult.Value.Should().BeSameAs(progress);
+        _mockResticService.Verify(
+            s => s.RestoreBackup(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string[]?>(), It.IsAny<string?>(),
+                It.IsAny<Action<BackupChrono.Core.DTOs.RestoreProgress>?>(), It.IsAny<CancellationToken>()),
+            Times.Never);
     }
 
     [Fact]
-    public void GetFileHistory_ReturnsOkWithEmptyList_WhenNoHistory()
+    public async Task GetFileHistory_ReturnsOkWithEmptyList_WhenNoHistory()
     {
         // Arrange
         var deviceId = Guid.NewGuid();
+        var shareId = Guid.NewGuid();
         var filePath = "/test/file.txt";
 
-        // Act - controller doesn't call ResticService yet, just returns empty list
-        var result = _controller.GetFileHistory(deviceId, filePath);
+        _mockResticService
+            .Setup(s => s.RepositoryExists(It.IsAny<string>()))
+            .ReturnsAsync(false);
+
+        // Act
+        var result = await _controller.GetFileHistory(deviceId, filePath, shareId);
 
         // Assert
         var okResult = result.Result.Should().BeOfType<OkObjectResult>().Subject;
         var history = okResult.Value.Should().BeAssignableTo<List<BackupChrono.Core.DTOs.FileVersion>>().Subject;
         history.Should().BeEmpty();
+        _mockResticService.Verify(s => s.GetFileHistory(It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<CancellationToken>()), Times.Never);
     }
 
     [Fact]
-    public void GetFileHistory_ReturnsOkWithHistory_WhenHistoryExists()
+    public async Task GetFileHistory_ReturnsOkWithHistory_WhenHistoryExists()
     {
         // Arrange
         var deviceId = Guid.NewGuid();
+        var shareId = Guid.NewGuid();
         var filePath = "/documents/report.pdf";
+        var versions = new List<BackupChrono.Core.DTOs.FileVersion>
+        {
+            new() { BackupId = "older01", Timestamp = DateTime.UtcNow.AddDays(-2), Size = 100, Hash = "aaa" },
+            new() { BackupId = "newer02", Timestamp = DateTime.UtcNow.AddDays(-1), Size = 120, Hash = "bbb" }
+        };
 
-        // Act - controller doesn't call ResticService yet, just returns empty list
-        var result = _controller.GetFileHistory(deviceId, filePath);
+        _mockResticService
+            .Setup(s => s.RepositoryExists(It.IsAny<string>()))
+            .ReturnsAsync(true);
+        _mockResticService
+            .Setup(s => s.GetFileHistory(filePath, It.Is<string?>(p => p!.Contains(shareId.ToString())), It.IsAny<CancellationToken>()))
+            .ReturnsAsync(versions);
+        _controller.ControllerContext = new ControllerContext { HttpContext = new DefaultHttpContext() };
+
+        // Act
+        var result = await _controller.GetFileHistory(deviceId, filePath, shareId);
 
         // Assert
         var okResult = result.Result.Should().BeOfType<OkObjectResult>().Subject;
         var returnedHistory = okResult.Value.Should().BeAssignableTo<List<BackupChrono.Core.DTOs.FileVersion>>().Subject;
-        // Currently returns empty as not implemented
-        returnedHistory.Should().BeEmpty();
+        returnedHistory.Should().HaveCount(2);
+        returnedHistory[0].BackupId.Should().Be("newer02");
+    }
+
+    [Fact]
+    public async Task GetBackupLocation_ReturnsDeviceAndShareOfRepositoryContainingBackup()
+    {
+        // Arrange
+        var basePath = Path.Combine(Path.GetTempPath(), $"backupchrono-location-{Guid.NewGuid():N}");
+        var deviceId = Guid.NewGuid();
+        var otherShareId = Guid.NewGuid();
+        var shareId = Guid.NewGuid();
+        Directory.CreateDirectory(Path.Combine(basePath, deviceId.ToString(), otherShareId.ToString()));
+        Directory.CreateDirectory(Path.Combine(basePath, deviceId.ToString(), shareId.ToString()));
+
+        try
+        {
+            _mockResticService
+                .Setup(s => s.RepositoryExists(It.IsAny<string>()))
+                .ReturnsAsync(true);
+            _mockResticService
+                .Setup(s => s.ListBackups(null, It.Is<string?>(p => p!.Contains(otherShareId.ToString()))))
+                .ReturnsAsync(new List<Backup>());
+            _mockResticService
+                .Setup(s => s.ListBackups(null, It.Is<string?>(p => p!.Contains(shareId.ToString()))))
+                .ReturnsAsync(new List<Backup>
+                {
+                    new() { Id = "abc12345", DeviceId = Guid.Empty, DeviceName = "server", Timestamp = DateTime.UtcNow, Status = BackupStatus.Success }
+                });
+
+            var controller = new BackupsController(
+                _mockResticService.Object,
+                new Mock<IBackupLogService>().Object,
+                _mockRestoreOrchestrator.Object,
+                Options.Create(new ResticOptions { RepositoryBasePath = basePath }),
+                _mockLogger.Object);
+
+            // Act
+            var result = await controller.GetBackupLocation("abc12345");
+
+            // Assert
+            var okResult = result.Result.Should().BeOfType<OkObjectResult>().Subject;
+            var location = okResult.Value.Should().BeOfType<BackupLocationDto>().Subject;
+            location.DeviceId.Should().Be(deviceId);
+            location.ShareId.Should().Be(shareId);
+        }
+        finally
+        {
+            Directory.Delete(basePath, recursive: true);
+        }
+    }
+
+    [Fact]
+    public async Task SearchDeviceFiles_StreamsHitsWithShareId_ThenSummary()
+    {
+        // Arrange
+        var deviceId = Guid.NewGuid();
+        var shareId = Guid.NewGuid();
+        var hits = new List<BackupChrono.Core.DTOs.FileSearchHit>
+        {
+            new()
+            {
+                Path = "/docs/deleted.txt", Name = "deleted.txt", SnapshotCount = 1,
+                FirstSeenBackupId = "older01", LastSeenBackupId = "older01", LastSeenAt = DateTime.UtcNow.AddDays(-2),
+                RemovedInBackupId = "newer02"
+            },
+            new()
+            {
+                Path = "/docs/current.txt", Name = "current.txt", SnapshotCount = 2,
+                FirstSeenBackupId = "older01", LastSeenBackupId = "newer02", LastSeenAt = DateTime.UtcNow.AddDays(-1)
+            }
+        };
+
+        _mockResticService
+            .Setup(s => s.RepositoryExists(It.IsAny<string>()))
+            .ReturnsAsync(true);
+        _mockResticService
+            .Setup(s => s.SearchAllSnapshots("*.txt", It.Is<string?>(p => p!.Contains(shareId.ToString())), 500, It.IsAny<CancellationToken>()))
+            .Returns(ToAsyncEnumerable(hits));
+
+        var responseBody = new MemoryStream();
+        var httpContext = new DefaultHttpContext();
+        httpContext.Response.Body = responseBody;
+        _controller.ControllerContext = new ControllerContext { HttpContext = httpContext };
+
+        // Act
+        var result = await _controller.SearchDeviceFiles(deviceId, "*.txt", shareId);
+
+        // Assert
+        result.Should().BeOfType<EmptyResult>();
+        httpContext.Response.ContentType.Should().Be("application/x-ndjson");
+
+        var lines = Encoding.UTF8.GetString(responseBody.ToArray())
+            .Split('\n', StringSplitOptions.RemoveEmptyEntries);
+        lines.Should().HaveCount(3);
+        lines[0].Should().Contain("\"path\":\"/docs/deleted.txt\"")
+            .And.Contain($"\"shareId\":\"{shareId}\"")
+            .And.Contain("\"removedInBackupId\":\"newer02\"");
+        lines[1].Should().Contain("\"path\":\"/docs/current.txt\"");
+        lines[2].Should().Be("{\"truncated\":false}");
+    }
+
+    [Fact]
+    public async Task SearchDeviceFiles_ReportsTruncated_WhenLimitIsReached()
+    {
+        // Arrange
+        var hits = new List<BackupChrono.Core.DTOs.FileSearchHit>
+        {
+            new() { Path = "/docs/a.txt", Name = "a.txt", SnapshotCount = 1, FirstSeenBackupId = "snap01", LastSeenBackupId = "snap01" },
+            new() { Path = "/docs/b.txt", Name = "b.txt", SnapshotCount = 1, FirstSeenBackupId = "snap01", LastSeenBackupId = "snap01" },
+            // The service sends a path again once its first-seen snapshot is settled
+            new() { Path = "/docs/a.txt", Name = "a.txt", SnapshotCount = 2, FirstSeenBackupId = "snap00", LastSeenBackupId = "snap01" }
+        };
+
+        _mockResticService
+            .Setup(s => s.RepositoryExists(It.IsAny<string>()))
+            .ReturnsAsync(true);
+        _mockResticService
+            .Setup(s => s.SearchAllSnapshots("*.txt", It.IsAny<string?>(), 2, It.IsAny<CancellationToken>()))
+            .Returns(ToAsyncEnumerable(hits));
+
+        var responseBody = new MemoryStream();
+        var httpContext = new DefaultHttpContext();
+        httpContext.Response.Body = responseBody;
+        _controller.ControllerContext = new ControllerContext { HttpContext = httpContext };
+
+        // Act
+        await _controller.SearchDeviceFiles(Guid.NewGuid(), "*.txt", Guid.NewGuid(), limit: 2);
+
+        // Assert
+        var lines = Encoding.UTF8.GetString(responseBody.ToArray())
+            .Split('\n', StringSplitOptions.RemoveEmptyEntries);
+        lines.Should().HaveCount(4);
+        lines[^1].Should().Be("{\"truncated\":true}");
+    }
+
+    [Fact]
+    public async Task SearchDeviceFiles_ReturnsBadRequest_WhenQueryIsEmpty()
+    {
+        // Act
+        var result = await _controller.SearchDeviceFiles(Guid.NewGuid(), "");
+
+        // Assert
+        result.Should().BeOfType<BadRequestObjectResult>();
+    }
+
+    [Fact]
+    public async Task GetFileHistory_ReturnsBadRequest_WhenFilePathMissing()
+    {
+        // Act
+        var result = await _controller.GetFileHistory(Guid.NewGuid(), "", Guid.NewGuid());
+
+        // Assert
+        result.Result.Should().BeOfType<BadRequestObjectResult>();
+    }
+
+    [Fact]
+    public async Task DiffSnapshots_ReturnsBadRequest_WhenComparingSnapshotWithItself()
+    {
+        // Act
+        var result = await _controller.DiffSnapshots(Guid.NewGuid(), Guid.NewGuid(), "abc123", "abc123");
+
+        // Assert
+        result.Result.Should().BeOfType<BadRequestObjectResult>();
+        _mockResticService.Verify(s => s.DiffSnapshots(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task DiffSnapshots_ReturnsNotFound_WhenRepositoryMissing()
+    {
+        // Arrange
+        _mockResticService
+            .Setup(s => s.RepositoryExists(It.IsAny<string>()))
+            .ReturnsAsync(false);
+
+        // Act
+        var result = await _controller.DiffSnapshots(Guid.NewGuid(), Guid.NewGuid(), "older01", "newer02");
+
+        // Assert
+        result.Result.Should().BeOfType<NotFoundObjectResult>();
+    }
+
+    [Fact]
+    public async Task DiffSnapshots_ReturnsOkWithChanges_WhenRepositoryExists()
+    {
+        // Arrange
+        var diff = new BackupChrono.Core.DTOs.SnapshotDiff
+        {
+            FromBackupId = "older01",
+            ToBackupId = "newer02",
+            Changes = new List<BackupChrono.Core.DTOs.SnapshotDiffEntry>
+            {
+                new() { Path = "/a.txt", ChangeType = BackupChrono.Core.DTOs.FileChangeType.Added, NewSize = 50 },
+                new() { Path = "/b.txt", ChangeType = BackupChrono.Core.DTOs.FileChangeType.Modified, OldSize = 100, NewSize = 80 }
+            }
+        };
+
+        _mockResticService
+            .Setup(s => s.RepositoryExists(It.IsAny<string>()))
+            .ReturnsAsync(true);
+        _mockResticService
+            .Setup(s => s.DiffSnapshots("older01", "newer02", It.IsAny<string?>()))
+            .ReturnsAsync(diff);
+
+        // Act
+        var result = await _controller.DiffSnapshots(Guid.NewGuid(), Guid.NewGuid(), "older01", "newer02");
+
+        // Assert
+        var okResult = result.Result.Should().BeOfType<OkObjectResult>().Subject;
+        var dto = okResult.Value.Should().BeOfType<SnapshotDiffDto>().Subject;
+        dto.AddedCount.Should().Be(1);
+        dto.ModifiedCount.Should().Be(1);
+        dto.SizeDelta.Should().Be(30);
+        dto.Changes[1].ChangeType.Should().Be("Modified");
+        dto.Changes[1].SizeDelta.Should().Be(-20);
     }
 
     [Fact]
@@ -370,7 +662,7 @@ public class BackupsControllerTests
     }
 
     [Fact]
-    public async Task RestoreBackup_WithIncludePaths_ReturnsOk()
+    public async Task RestoreBackup_WithIncludePaths_ReturnsAccepted()
     {
         // Arrange
         var backupId = "backup999";
@@ -386,11 +678,14 @@ public class BackupsControllerTests
         var result = await _controller.RestoreBackup(backupId, deviceId, shareId, request);
 
         // Assert
-        var acceptedResult = result.Should().BeOfType<OkObjectResult>().Subject;
+        result.Should().BeOfType<AcceptedResult>();
+        _mockRestoreOrchestrator.Verify(o => o.StartRestore(
+            deviceId, shareId, backupId, It.IsAny<string>(),
+            It.Is<string[]?>(paths => paths != null && paths.SequenceEqual(new[] { "/path1", "/path2" }))), Times.Once);
     }
 
     [Fact]
-    public async Task RestoreBackup_WithRestoreToSource_ReturnsOk()
+    public async Task RestoreBackup_WithRestoreToSource_ReturnsAccepted()
     {
         // Arrange
         var backupId = "backup888";
@@ -406,7 +701,41 @@ public class BackupsControllerTests
         var result = await _controller.RestoreBackup(backupId, deviceId, shareId, request);
 
         // Assert
-        result.Should().BeOfType<OkObjectResult>();
+        result.Should().BeOfType<AcceptedResult>();
+        _mockRestoreOrchestrator.Verify(o => o.StartSourceRestore(
+            deviceId, shareId, backupId, RestoreConflictMode.Overwrite, It.IsAny<string[]?>()), Times.Once);
+        _mockRestoreOrchestrator.Verify(o => o.StartRestore(
+            It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string[]?>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task RestoreBackup_WithRestoreToSource_ReturnsConflict_WhenSourceOffline()
+    {
+        // Arrange
+        var request = new RestoreRequestDto { RestoreToSource = true, ConflictMode = "rename" };
+        _mockRestoreOrchestrator
+            .Setup(o => o.StartSourceRestore(It.IsAny<Guid>(), It.IsAny<Guid>(), "backup888", RestoreConflictMode.Rename, null))
+            .ThrowsAsync(new InvalidOperationException("Device 'nas' (192.168.1.100) is not reachable."));
+
+        // Act
+        var result = await _controller.RestoreBackup("backup888", Guid.NewGuid(), Guid.NewGuid(), request);
+
+        // Assert
+        var conflict = result.Should().BeOfType<ConflictObjectResult>().Subject;
+        conflict.Value.Should().BeOfType<ErrorResponse>().Which.Detail.Should().Contain("not reachable");
+    }
+
+    [Fact]
+    public async Task RestoreBackup_WithRestoreToSource_ReturnsBadRequest_ForUnknownConflictMode()
+    {
+        // Arrange
+        var request = new RestoreRequestDto { RestoreToSource = true, ConflictMode = "merge" };
+
+        // Act
+        var result = await _controller.RestoreBackup("backup888", Guid.NewGuid(), Guid.NewGuid(), request);
+
+        // Assert
+        result.Should().BeOfType<BadRequestObjectResult>();
     }
 
     [Fact]
@@ -496,4 +825,195 @@ public class BackupsControllerTests
                 It.Is<Func<It.IsAnyType, Exception?, string>>((v, t) => true)),
             Times.Once);
     }
+
+    [Fact]
+    public async Task DownloadFolderArchive_ReturnsZipFile_WhenFormatIsZip()
+    {
+        // Arrange
+        var archive = new MemoryStream(new byte[] { 0x50, 0x4B, 0x03, 0x04 });
+        _mockResticService
+            .Setup(s => s.DumpFolderArchiveStream("abc123", "/docs/reports", ArchiveFormat.Zip, It.IsAny<string?>()))
+            .ReturnsAsync(archive);
+
+        // Act
+        var result = await _controller.DownloadFolderArchive("abc123", Guid.NewGuid(), Guid.NewGuid(), "/docs/reports", "zip");
+
+        // Assert
+        var fileResult = result.Should().BeOfType<FileStreamResult>().Subject;
+        fileResult.ContentType.Should().Be("application/zip");
+        fileResult.FileDownloadName.Should().Be("reports.zip");
+    }
+
+    [Fact]
+    public async Task DownloadFolderArchive_StreamsGzippedTar_WhenFormatIsTarGz()
+    {
+        // Arrange
+        var tarBytes = System.Text.Encoding.UTF8.GetBytes("pretend this is a tar archive");
+        _mockResticService
+            .Setup(s => s.DumpFolderArchiveStream("abc123", "/docs", ArchiveFormat.Tar, It.IsAny<string?>()))
+            .ReturnsAsync(new MemoryStream(tarBytes));
+
+        var responseBody = new MemoryStream();
+        var httpContext = new DefaultHttpContext();
+        httpContext.Response.Body = responseBody;
+        _controller.ControllerContext = new ControllerContext { HttpContext = httpContext };
+
+        // Act
+        var result = await _controller.DownloadFolderArchive("abc123", Guid.NewGuid(), Guid.NewGuid(), "/docs", "tar.gz");
+
+        // Assert
+        result.Should().BeOfType<EmptyResult>();
+        httpContext.Response.ContentType.Should().Be("application/gzip");
+        httpContext.Response.Headers.ContentDisposition.ToString().Should().Contain("docs.tar.gz");
+
+        responseBody.Position = 0;
+        using var gzip = new GZipStream(responseBody, CompressionMode.Decompress);
+        using var decompressed = new MemoryStream();
+        await gzip.CopyToAsync(decompressed);
+        decompressed.ToArray().Should().Equal(tarBytes);
+    }
+
+    [Fact]
+    public async Task DownloadFolderArchive_ReturnsBadRequest_WhenFormatIsUnsupported()
+    {
+        // Act
+        var result = await _controller.DownloadFolderArchive("abc123", Guid.NewGuid(), Guid.NewGuid(), "/docs", "rar");
+
+        // Assert
+        result.Should().BeOfType<BadRequestObjectResult>();
+        _mockResticService.Verify(
+            s => s.DumpFolderArchiveStream(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<ArchiveFormat>(), It.IsAny<string?>()),
+            Times.Never);
+    }
+
+    [Fact]
+    public async Task SearchBackupFiles_StreamsMatchesAsNdjson_UpToLimit()
+    {
+        // Arrange
+        var matches = new[]
+        {
+            new FileEntry { Name = "a.txt", Path = "/docs/a.txt", Size = 10 },
+            new FileEntry { Name = "b.txt", Path = "/docs/b.txt", Size = 20 },
+            new FileEntry { Name = "c.txt", Path = "/docs/c.txt", Size = 30 }
+        };
+        _mockResticService
+            .Setup(s => s.SearchSnapshot("abc123", "*.txt", It.IsAny<string?>(), It.IsAny<CancellationToken>()))
+            .Returns(ToAsyncEnumerable(matches));
+
+        var responseBody = new MemoryStream();
+        var httpContext = new DefaultHttpContext();
+        httpContext.Response.Body = responseBody;
+        _controller.ControllerContext = new ControllerContext { HttpContext = httpContext };
+
+        // Act
+        var result = await _controller.SearchBackupFiles("abc123", Guid.NewGuid(), Guid.NewGuid(), "*.txt", limit: 2);
+
+        // Assert
+        result.Should().BeOfType<EmptyResult>();
+        httpContext.Response.ContentType.Should().Be("application/x-ndjson");
+
+        var lines = Encoding.UTF8.GetString(responseBody.ToArray())
+            .Split('\n', StringSplitOptions.RemoveEmptyEntries);
+        lines.Should().HaveCount(3);
+        lines[0].Should().Contain("\"path\":\"/docs/a.txt\"").And.Contain("\"size\":10");
+        lines[1].Should().Contain("\"path\":\"/docs/b.txt\"");
+        lines[2].Should().Be("{\"truncated\":true}");
+    }
+
+    [Fact]
+    public async Task SearchBackupFiles_ReportsNotTruncated_WhenMatchesFitTheLimit()
+    {
+        // Arrange
+        var matches = new[]
+        {
+            new FileEntry { Name = "a.txt", Path = "/docs/a.txt", Size = 10 },
+            new FileEntry { Name = "b.txt", Path = "/docs/b.txt", Size = 20 }
+        };
+        _mockResticService
+            .Setup(s => s.SearchSnapshot("abc123", "*.txt", It.IsAny<string?>(), It.IsAny<CancellationToken>()))
+            .Returns(ToAsyncEnumerable(matches));
+
+        var responseBody = new MemoryStream();
+        var httpContext = new DefaultHttpContext();
+        httpContext.Response.Body = responseBody;
+        _controller.ControllerContext = new ControllerContext { HttpContext = httpContext };
+
+        // Act
+        await _controller.SearchBackupFiles("abc123", Guid.NewGuid(), Guid.NewGuid(), "*.txt", limit: 2);
+
+        // Assert
+        var lines = Encoding.UTF8.GetString(responseBody.ToArray())
+            .Split('\n', StringSplitOptions.RemoveEmptyEntries);
+        lines.Should().HaveCount(3);
+        lines[2].Should().Be("{\"truncated\":false}");
+    }
+
+    [Fact]
+    public async Task SearchBackupFiles_ReturnsBadRequest_WhenQueryIsEmpty()
+    {
+        // Act
+        var result = await _controller.SearchBackupFiles("abc123", Guid.NewGuid(), Guid.NewGuid(), "  ");
+
+        // Assert
+        result.Should().BeOfType<BadRequestObjectResult>();
+        _mockResticService.Verify(
+            s => s.SearchSnapshot(It.IsAny<string>(), It.IsAny<string>(), It.IsAny<string?>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    private static async IAsyncEnumerable<T> ToAsyncEnumerable<T>(IEnumerable<T> items)
+    {
+        foreach (var item in items)
+        {
+            await Task.Yield();
+            yield return item;
+        }
+    }
+
+    [Fact]
+    public async Task DownloadSelectionArchive_ReturnsZipFile_ForSelectedPaths()
+    {
+        // Arrange
+        var request = new ArchiveSelectionRequestDto { Paths = new List<string> { "/docs/a.txt", "/photos" }, Format = "zip" };
+        var httpContext = new DefaultHttpContext();
+        var responseBody = new MemoryStream();
+        httpContext.Response.Body = responseBody;
+        _controller.ControllerContext = new ControllerContext { HttpContext = httpContext };
+
+        _mockResticService
+            .Setup(s => s.WriteSelectionArchive(
+                "abc12345xyz",
+                It.Is<IReadOnlyCollection<string>>(p => p.Count == 2),
+                ArchiveFormat.Zip,
+                It.IsAny<Stream>(),
+                It.IsAny<string?>(),
+                It.IsAny<CancellationToken>()))
+            .Returns<string, IReadOnlyCollection<string>, ArchiveFormat, Stream, string?, CancellationToken>(
+                (_, _, _, destination, _, _) => destination.WriteAsync(new byte[] { 0x50, 0x4B }).AsTask());
+
+        // Act
+        var result = await _controller.DownloadSelectionArchive("abc12345xyz", Guid.NewGuid(), Guid.NewGuid(), request);
+
+        // Assert
+        result.Should().BeOfType<EmptyResult>();
+        httpContext.Response.ContentType.Should().Be("application/zip");
+        httpContext.Response.Headers.ContentDisposition.ToString().Should().Contain("selection-abc12345.zip");
+        responseBody.ToArray().Should().Equal(0x50, 0x4B);
+    }
+
+    [Fact]
+    public async Task DownloadSelectionArchive_ReturnsBadRequest_WhenNoPathsSelected()
+    {
+        // Arrange
+        var request = new ArchiveSelectionRequestDto { Paths = new List<string> { " " }, Format = "zip" };
+
+        // Act
+        var result = await _controller.DownloadSelectionArchive("abc123", Guid.NewGuid(), Guid.NewGuid(), request);
+
+        // Assert
+        result.Should().BeOfType<BadRequestObjectResult>();
+        _mockResticService.Verify(
+            s => s.WriteSelectionArchive(It.IsAny<string>(), It.IsAny<IReadOnlyCollection<string>>(), It.IsAny<ArchiveFormat>(), It.IsAny<Stream>(), It.IsAny<string?>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
 }
@@ -1,5 +1,6 @@
 using BackupChrono.Api.Controllers;
 using BackupChrono.Api.DTOs;
+using BackupChrono.Api.Services;
 using BackupChrono.Core.Entities;
 using BackupChrono.Core.Interfaces;
 using BackupChrono.Core.ValueObjects;
@@ -18,6 +19,7 @@ public class DashboardControllerTests
     private readonly Mock<IDeviceService> _deviceServiceMock = new();
     private readonly Mock<IShareService> _shareServiceMock = new();
     private readonly Mock<IBackupJobRepository> _jobRepositoryMock = new();
+    private readonly Mock<ISettingsService> _settingsServiceMock = new();
     private readonly Mock<IStorageMonitor> _storageMonitorMock = new();
     private readonly Mock<ILogger<DashboardController>> _loggerMock = new();
     private readonly IOptions<ResticOptions> _resticOptions = Options.Create(new ResticOptions
@@ -25,6 +27,11 @@ public class DashboardControllerTests
         RepositoryBasePath = "/repo"
     });
 
+    public DashboardControllerTests()
+    {
+        _settingsServiceMock.Setup(s => s.GetGlobalSettings()).ReturnsAsync(new GlobalSettings());
+    }
+
     [Fact]
     public async Task GetSummary_ComputesStatsAndStatuses()
     {
@@ -145,6 +152,8 @@ public class DashboardControllerTests
         runningShare.LastBackupTime.Should().Be(lastSuccessful);
         runningShare.LastBackupId.Should().Be("snap-123");
         runningShare.NextBackupTime.Should().NotBeNull();
+        runningShare.Schedule.Should().Be("0 15 6 * * ?");
+        runningShare.InheritsDeviceSchedule.Should().BeFalse();
 
         var disabledShare = deviceResult.Shares.Single(s => s.Id == shareTwoId);
         disabledShare.Status.Should().Be("Disabled");
@@ -207,12 +216,339 @@ public class DashboardControllerTests
         shareDto.NextBackupTime.Should().BeNull();
     }
 
+    [Fact]
+    public async Task GetHistory_BucketsJobsByDayAndFlagsCreepingShares()
+    {
+        // Arrange
+        var deviceId = Guid.NewGuid();
+        var steadyShareId = Guid.NewGuid();
+        var growingShareId = Guid.NewGuid();
+        var today = DateTime.UtcNow.Date;
+
+        BackupJob Job(Guid shareId, int daysAgo, BackupJobStatus status, int minutes, long size, long added) => new()
+        {
+            DeviceId = deviceId,
+            DeviceName = "nas-01",
+            ShareId = shareId,
+            ShareName = shareId == steadyShareId ? "docs" : "media",
+            Type = BackupJobType.Scheduled,
+            Status = status,
+            StartedAt = today.AddDays(-daysAgo).AddHours(1),
+            CompletedAt = today.AddDays(-daysAgo).AddHours(1).AddMinutes(minutes),
+            BytesTransferred = size,
+            DataAdded = added
+        };
+
+        var jobs = new List<BackupJob>
+        {
+            // Before the range: only counts towards the starting repository size
+            Job(steadyShareId, 40, BackupJobStatus.Completed, 10, 1000, 500),
+            Job(steadyShareId, 4, BackupJobStatus.Completed, 10, 1000, 10),
+            Job(steadyShareId, 3, BackupJobStatus.Completed, 10, 1000, 10),
+            Job(steadyShareId, 2, BackupJobStatus.Failed, 1, 0, 0),
+            Job(steadyShareId, 1, BackupJobStatus.Completed, 10, 1000, 10),
+            Job(steadyShareId, 0, BackupJobStatus.Completed, 10, 1000, 10),
+            Job(growingShareId, 4, BackupJobStatus.Completed, 10, 1000, 100),
+            Job(growingShareId, 3, BackupJobStatus.Completed, 10, 1000, 100),
+            Job(growingShareId, 1, BackupJobStatus.PartiallyCompleted, 20, 2000, 100),
+            Job(growingShareId, 0, BackupJobStatus.Completed, 20, 2000, 100)
+        };
+
+        _jobRepositoryMock.Setup(r => r.ListJobs()).ReturnsAsync(jobs);
+
+        var controller = CreateController();
+
+        // Act
+        var result = await controller.GetHistory(7);
+
+        // Assert
+        var ok = result.Result as OkObjectResult;
+        ok.Should().NotBeNull();
+        var history = ok!.Value as DashboardHistoryDto;
+        history.Should().NotBeNull();
+
+        history!.Daily.Should().HaveCount(7);
+        history.Daily.Last().Date.Should().Be(today);
+
+        var twoDaysAgo = history.Daily.Single(d => d.Date == today.AddDays(-2));
+        twoDaysAgo.Failed.Should().Be(1);
+        twoDaysAgo.Succeeded.Should().Be(0);
+        twoDaysAgo.Jobs.Should().ContainSingle().Which.Status.Should().Be("Failed");
+
+        var yesterday = history.Daily.Single(d => d.Date == today.AddDays(-1));
+        yesterday.Succeeded.Should().Be(1);
+        yesterday.Partial.Should().Be(1);
+        yesterday.DataAdded.Should().Be(110);
+
+        history.Daily.First().RepositorySize.Should().Be(500);
+        history.Daily.Last().RepositorySize.Should().Be(940);
+
+        history.Shares.Should().HaveCount(2);
+        var growing = history.Shares.First();
+        growing.ShareName.Should().Be("media");
+        growing.IsCreeping.Should().BeTrue();
+        growing.DurationChangePercent.Should().BeApproximately(100, 0.01);
+        growing.SizeChangePercent.Should().BeApproximately(100, 0.01);
+
+        var steady = history.Shares.Single(s => s.ShareId == steadyShareId);
+        steady.Points.Should().HaveCount(4);
+        steady.IsCreeping.Should().BeFalse();
+        steady.DurationChangePercent.Should().Be(0);
+    }
+
+    [Fact]
+    public async Task GetHistory_RejectsUnsupportedRange()
+    {
+        // Arrange
+        var controller = CreateController();
+
+        // Act
+        var result = await controller.GetHistory(14);
+
+        // Assert
+        result.Result.Should().BeOfType<BadRequestObjectResult>();
+        _jobRepositoryMock.Verify(r => r.ListJobs(), Times.Never);
+    }
+
+    [Fact]
+    public async Task GetUpcoming_PlansRunsFromEffectiveSchedulesAndFlagsOverlaps()
+    {
+        // Arrange
+        var deviceId = Guid.NewGuid();
+        var inheritingShareId = Guid.NewGuid();
+        var scheduledShareId = Guid.NewGuid();
+
+        var device = new Device
+        {
+            Id = deviceId,
+            Name = "nas-01",
+            Protocol = ProtocolType.SMB,
+            Host = "nas.local",
+            Username = "user",
+            Password = new EncryptedCredential("secret"),
+            Schedule = new Schedule { CronExpression = "0 0 * * * ?" }
+        };
+
+        var inheritingShare = new Share { Id = inheritingShareId, DeviceId = deviceId, Name = "docs", Path = "/docs", Enabled = true };
+        var scheduledShare = new Share
+        {
+            Id = scheduledShareId,
+            DeviceId = deviceId,
+            Name = "media",
+            Path = "/media",
+            Enabled = true,
+            Schedule = new Schedule { CronExpression = "0 30 * * * ?" }
+        };
+        var disabledShare = new Share
+        {
+            Id = Guid.NewGuid(),
+            DeviceId = deviceId,
+            Name = "archive",
+            Path = "/archive",
+            Enabled = false,
+            Schedule = new Schedule { CronExpression = "0 15 * * * ?" }
+        };
+
+        BackupJob Run(Guid shareId, int minutes) => new()
+        {
+            DeviceId = deviceId,
+            ShareId = shareId,
+            Type = BackupJobType.Scheduled,
+            Status = BackupJobStatus.Completed,
+            StartedAt = DateTime.UtcNow.AddDays(-1),
+            CompletedAt = DateTime.UtcNow.AddDays(-1).AddMinutes(minutes)
+        };
+
+        _deviceServiceMock.Setup(s => s.ListDevices()).ReturnsAsync(new List<Device> { device });
+        _shareServiceMock.Setup(s => s.ListShares(deviceId))
+            .ReturnsAsync(new List<Share> { inheritingShare, scheduledShare, disabledShare });
+        _jobRepositoryMock.Setup(r => r.ListJobs()).ReturnsAsync(new List<BackupJob>
+        {
+            Run(inheritingShareId, 40),
+            Run(inheritingShareId, 45),
+            Run(inheritingShareId, 50),
+            Run(scheduledShareId, 10)
+        });
+
+        var controller = CreateController();
+
+        // Act
+        var result = await controller.GetUpcoming(6);
+
+        // Assert
+        var ok = result.Result as OkObjectResult;
+        ok.Should().NotBeNull();
+        var upcoming = ok!.Value as UpcomingScheduleDto;
+        upcoming.Should().NotBeNull();
+
+        upcoming!.Lanes.Should().HaveCount(2);
+
+        var shareLane = upcoming.Lanes.Single(l => l.ShareId == scheduledShareId);
+        shareLane.ExpectedDurationSeconds.Should().Be(600);
+        shareLane.Runs.Should().HaveCount(6);
+
+        // The device-level run covers both enabled shares, so it is expected to take 45 + 10 minutes
+        var deviceLane = upcoming.Lanes.Single(l => l.ShareId == null);
+        deviceLane.ShareNames.Should().BeEquivalentTo("docs", "media");
+        deviceLane.ExpectedDurationSeconds.Should().Be(3300);
+        deviceLane.Runs.Should().HaveCount(6);
+
+        // Every hourly device run is still going when the :30 share run starts
+        deviceLane.Runs.Should().OnlyContain(r => r.Overlaps);
+        shareLane.Runs.Should().Contain(r => r.Overlaps);
+    }
+
+    [Fact]
+    public async Task GetUpcoming_ReportsInvalidCronAndRejectsUnsupportedRange()
+    {
+        // Arrange
+        var deviceId = Guid.NewGuid();
+        var device = new Device
+        {
+            Id = deviceId,
+            Name = "nas-02",
+            Protocol = ProtocolType.SMB,
+            Host = "nas.local",
+            Username = "user",
+            Password = new EncryptedCredential("secret")
+        };
+        var share = new Share
+        {
+            Id = Guid.NewGuid(),
+            DeviceId = deviceId,
+            Name = "data",
+            Path = "/data",
+            Enabled = true,
+            Schedule = new Schedule { CronExpression = "invalid" }
+        };
+
+        _deviceServiceMock.Setup(s => s.ListDevices()).ReturnsAsync(new List<Device> { device });
+        _shareServiceMock.Setup(s => s.ListShares(deviceId)).ReturnsAsync(new List<Share> { share });
+        _jobRepositoryMock.Setup(r => r.ListJobs()).ReturnsAsync(new List<BackupJob>());
+
+        var controller = CreateController();
+
+        // Act
+        var result = await controller.GetUpcoming(24);
+        var tooLong = await controller.GetUpcoming(24 * 8);
+
+        // Assert
+        var upcoming = (result.Result as OkObjectResult)!.Value as UpcomingScheduleDto;
+        var lane = upcoming!.Lanes.Single();
+        lane.Error.Should().NotBeNullOrEmpty();
+        lane.Runs.Should().BeEmpty();
+        lane.ExpectedDurationSeconds.Should().BeNull();
+
+        tooLong.Result.Should().BeOfType<BadRequestObjectResult>();
+    }
+
+    [Fact]
+    public async Task GetUpcoming_SkipsRunsBlockedByGlobalBlackout()
+    {
+        // Arrange
+        var deviceId = Guid.NewGuid();
+        var device = new Device
+        {
+            Id = deviceId,
+            Name = "nas-01",
+            Protocol = ProtocolType.SMB,
+            Host = "nas.local",
+            Username = "user",
+            Password = new EncryptedCredential("secret"),
+            Schedule = new Schedule { CronExpression = "0 0 * * * ?" }
+        };
+        var share = new Share { Id = Guid.NewGuid(), DeviceId = deviceId, Name = "docs", Path = "/docs", Enabled = true };
+        var today = DateOnly.FromDateTime(DateTime.Now);
+
+        _settingsServiceMock.Setup(s => s.GetGlobalSettings()).ReturnsAsync(new GlobalSettings
+        {
+            Schedule = new Schedule
+            {
+                CronExpression = GlobalSettings.DefaultCronExpression,
+                BlackoutPeriods = new List<BlackoutPeriod> { new() { Start = today, End = today.AddDays(2), Reason = "Holiday" } }
+            }
+        });
+        _deviceServiceMock.Setup(s => s.ListDevices()).ReturnsAsync(new List<Device> { device });
+        _shareServiceMock.Setup(s => s.ListShares(deviceId)).ReturnsAsync(new List<Share> { share });
+        _jobRepositoryMock.Setup(r => r.ListJobs()).ReturnsAsync(new List<BackupJob>());
+
+        // Act
+        var result = await CreateController().GetUpcoming(24);
+
+        // Assert
+        var upcoming = (result.Result as OkObjectResult)!.Value as UpcomingScheduleDto;
+        var lane = upcoming!.Lanes.Single();
+        lane.Runs.Should().HaveCount(24);
+        lane.Runs.Should().OnlyContain(r => r.BlockedReason == "Blackout period: Holiday" && !r.Overlaps);
+    }
+
+    [Fact]
+    public void PreviewSchedule_ListsNextTenRunsOfNormalizedExpression()
+    {
+        // Arrange
+        var controller = CreateController();
+        var request = new SchedulePreviewRequestDto { Schedule = new ScheduleDto { CronExpression = "0 0 * * * *" } };
+
+        // Act
+        var result = controller.PreviewSchedule(request);
+
+        // Assert
+        var preview = (result.Result as OkObjectResult)!.Value as SchedulePreviewDto;
+        preview!.CronExpression.Should().Be("0 0 * * * ?");
+        preview.ServerTimeZone.Should().Be(TimeZoneInfo.Local.Id);
+        preview.Runs.Should().HaveCount(10);
+        preview.Runs.Select(r => r.StartsAt).Should().BeInAscendingOrder();
+        preview.Runs.Should().OnlyContain(r => r.StartsAt.Second == 0 && r.BlockedReason == null);
+    }
+
+    [Fact]
+    public void PreviewSchedule_FlagsRunsBlockedByInheritedRestrictions()
+    {
+        // Arrange
+        var everyHour = Enumerable.Range(0, 24).ToList();
+        var request = new SchedulePreviewRequestDto
+        {
+            Schedule = new ScheduleDto { CronExpression = "0 0 * * * ?" },
+            Inherited = new List<ScheduleDto>
+            {
+                new()
+                {
+                    CronExpression = GlobalSettings.DefaultCronExpression,
+                    BlockedHours = Enum.GetValues<DayOfWeek>().ToDictionary(d => d, _ => everyHour)
+                }
+            }
+        };
+
+        // Act
+        var result = CreateController().PreviewSchedule(request);
+
+        // Assert
+        var preview = (result.Result as OkObjectResult)!.Value as SchedulePreviewDto;
+        preview!.Runs.Should().HaveCount(10);
+        preview.Runs.Should().OnlyContain(r => r.BlockedReason != null && r.BlockedReason.StartsWith("Blocked hour"));
+    }
+
+    [Theory]
+    [InlineData("")]
+    [InlineData("0 2 * * *")]
+    [InlineData("0 0 25 ? * *")]
+    public void PreviewSchedule_RejectsInvalidExpressions(string cron)
+    {
+        var request = new SchedulePreviewRequestDto { Schedule = new ScheduleDto { CronExpression = cron } };
+
+        var result = CreateController().PreviewSchedule(request);
+
+        result.Result.Should().BeOfType<BadRequestObjectResult>();
+    }
+
     private DashboardController CreateController()
     {
         return new DashboardController(
             _deviceServiceMock.Object,
             _shareServiceMock.Object,
             _jobRepositoryMock.Object,
+            _settingsServiceMock.Object,
+            new MappingService(),
             _storageMonitorMock.Object,
             _resticOptions,
             _loggerMock.Object);
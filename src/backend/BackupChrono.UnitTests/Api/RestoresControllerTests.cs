@@ -0,0 +1,74 @@
+using BackupChrono.Api.Controllers;
+using BackupChrono.Api.DTOs;
+using BackupChrono.Core.DTOs;
+using BackupChrono.Core.Interfaces;
+using FluentAssertions;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Api;
+
+/// <summary>
+/// Unit tests for RestoresController
+/// </summary>
+public class RestoresControllerTests
+{
+    private readonly Mock<IRestoreOrchestrator> _mockRestoreOrchestrator;
+    private readonly RestoresController _controller;
+
+    public RestoresControllerTests()
+    {
+        _mockRestoreOrchestrator = new Mock<IRestoreOrchestrator>();
+        _controller = new RestoresController(_mockRestoreOrchestrator.Object, new Mock<ILogger<RestoresController>>().Object);
+    }
+
+    [Fact]
+    public async Task ListRestores_ReturnsOkWithTrackedRestores()
+    {
+        // Arrange
+        var restores = new List<RestoreProgress>
+        {
+            new() { RestoreId = "r2", Status = "Running" },
+            new() { RestoreId = "r1", Status = "Completed" }
+        };
+        _mockRestoreOrchestrator.Setup(o => o.ListRestores()).ReturnsAsync(restores);
+
+        // Act
+        var result = await _controller.ListRestores();
+
+        // Assert
+        var okResult = result.Result.Should().BeOfType<OkObjectResult>().Subject;
+        okResult.Value.Should().BeAssignableTo<List<RestoreProgress>>().Which.Should().HaveCount(2);
+    }
+
+    [Fact]
+    public async Task GetRestore_ReturnsNotFound_WhenRestoreUnknown()
+    {
+        // Arrange
+        _mockRestoreOrchestrator.Setup(o => o.GetRestoreProgress("missing")).ReturnsAsync((RestoreProgress?)null);
+
+        // Act
+        var result = await _controller.GetRestore("missing");
+
+        // Assert
+        var notFound = result.Result.Should().BeOfType<NotFoundObjectResult>().Subject;
+        notFound.Value.Should().BeOfType<ErrorResponse>();
+    }
+
+    [Fact]
+    public async Task GetRestore_ReturnsOkWithProgress()
+    {
+        // Arrange
+        var progress = new RestoreProgress { RestoreId = "r1", Status = "Running", PercentComplete = 42 };
+        _mockRestoreOrchestrator.Setup(o => o.GetRestoreProgress("r1")).ReturnsAsync(progress);
+
+        // Act
+        var result = await _controller.GetRestore("r1");
+
+        // Assert
+        var okResult = result.Result.Should().BeOfType<OkObjectResult>().Subject;
+        okResult.Value.Should().BeSameAs(progress);
+    }
+}
@@ -0,0 +1,117 @@
+using BackupChrono.Api.Controllers;
+using BackupChrono.Api.DTOs;
+using BackupChrono.Api.Services;
+using BackupChrono.Core.Entities;
+using BackupChrono.Core.Interfaces;
+using FluentAssertions;
+using Microsoft.AspNetCore.Mvc;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Api;
+
+/// <summary>
+/// Unit tests for SettingsController
+/// </summary>
+public class SettingsControllerTests
+{
+    private readonly Mock<ISettingsService> _mockSettingsService;
+    private readonly Mock<ILogger<SettingsController>> _mockLogger;
+    private readonly SettingsController _controller;
+
+    public SettingsControllerTests()
+    {
+        _mockSettingsService = new Mock<ISettingsService>();
+        _mockLogger = new Mock<ILogger<SettingsController>>();
+
+        _controller = new SettingsController(
+            _mockSettingsService.Object,
+            new MappingService(),
+            _mockLogger.Object
+        );
+    }
+
+    private static GlobalSettingsUpdateDto CreateUpdateDto(string compression = "Max")
+    {
+        return new GlobalSettingsUpdateDto
+        {
+            Schedule = new ScheduleDto { CronExpression = "0 3 * * *" },
+            RetentionPolicy = new RetentionPolicyDto { KeepLatest = 10, KeepDaily = 14, KeepWeekly = 8, KeepMonthly = 6, KeepYearly = 2 },
+            IncludeExcludeRules = new IncludeExcludeRulesDto { ExcludePatterns = new[] { "*.bak" } },
+            Compression = compression
+        };
+    }
+
+    [Fact]
+    public async Task GetSettings_ReturnsMappedSettings()
+    {
+        // Arrange
+        _mockSettingsService.Setup(s => s.GetGlobalSettings()).ReturnsAsync(new GlobalSettings());
+
+        // Act
+        var result = await _controller.GetSettings();
+
+        // Assert
+        var okResult = result.Result.Should().BeOfType<OkObjectResult>().Subject;
+        var dto = okResult.Value.Should().BeOfType<GlobalSettingsDto>().Subject;
+        dto.Schedule.CronExpression.Should().Be(GlobalSettings.DefaultCronExpression);
+        dto.RetentionPolicy.KeepLatest.Should().Be(7);
+        dto.RetentionPolicy.KeepYearly.Should().Be(3);
+        dto.IncludeExcludeRules.ExcludePatterns.Should().Contain("*.tmp");
+        dto.Compression.Should().Be("Auto");
+    }
+
+    [Fact]
+    public async Task UpdateSettings_ValidRequest_PersistsAndReturnsSettings()
+    {
+        // Arrange
+        GlobalSettings? saved = null;
+        _mockSettingsService
+            .Setup(s => s.UpdateGlobalSettings(It.IsAny<GlobalSettings>()))
+            .Callback<GlobalSettings>(s => saved = s)
+            .ReturnsAsync((GlobalSettings s) => s);
+
+        // Act
+        var result = await _controller.UpdateSettings(CreateUpdateDto());
+
+        // Assert
+        var okResult = result.Result.Should().BeOfType<OkObjectResult>().Subject;
+        var dto = okResult.Value.Should().BeOfType<GlobalSettingsDto>().Subject;
+        dto.Schedule.CronExpression.Should().Be("0 3 * * *");
+        dto.Compression.Should().Be("Max");
+
+        saved.Should().NotBeNull();
+        saved!.RetentionPolicy.KeepDaily.Should().Be(14);
+        saved.IncludeExcludeRules.ExcludePatterns.Should().BeEquivalentTo(new[] { "*.bak" });
+        saved.Compression.Should().Be(CompressionMode.Max);
+    }
+
+    [Fact]
+    public async Task UpdateSettings_InvalidCompression_ReturnsBadRequest()
+    {
+        // Act
+        var result = await _controller.UpdateSettings(CreateUpdateDto(compression: "ultra"));
+
+        // Assert
+        var badRequest = result.Result.Should().BeOfType<BadRequestObjectResult>().Subject;
+        var error = badRequest.Value.Should().BeOfType<ErrorResponse>().Subject;
+        error.Detail.Should().Contain("ultra");
+        _mockSettingsService.Verify(s => s.UpdateGlobalSettings(It.IsAny<GlobalSettings>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task UpdateSettings_ValidationFails_ReturnsBadRequest()
+    {
+        // Arrange
+        _mockSettingsService
+            .Setup(s => s.UpdateGlobalSettings(It.IsAny<GlobalSettings>()))
+            .ThrowsAsync(new InvalidOperationException("Global retention policy must keep at least one snapshot."));
+
+        // Act
+        var result = await _controller.UpdateSettings(CreateUpdateDto());
+
+        // Assert
+        result.Result.Should().BeOfType<BadRequestObjectResult>();
+    }
+}
@@ -0,0 +1,90 @@
+using BackupChrono.Core.Entities;
+using BackupChrono.Core.ValueObjects;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Core.Entities;
+
+public class GlobalSettingsTests
+{
+    [Fact]
+    public void Validate_ShouldNotThrow_ForDefaults()
+    {
+        // Arrange
+        var settings = new GlobalSettings();
+
+        // Act & Assert
+        var exception = Record.Exception(() => settings.Validate());
+        Assert.Null(exception);
+    }
+
+    [Fact]
+    public void Validate_ShouldThrow_WhenRetentionKeepsNothing()
+    {
+        // Arrange
+        var settings = new GlobalSettings
+        {
+            RetentionPolicy = new RetentionPolicy { KeepLatest = 0, KeepDaily = 0, KeepWeekly = 0, KeepMonthly = 0, KeepYearly = 0 }
+        };
+
+        // Act & Assert
+        var exception = Assert.Throws<InvalidOperationException>(() => settings.Validate());
+        Assert.Contains("retention policy", exception.Message);
+    }
+
+    [Fact]
+    public void Validate_ShouldNotThrow_WhenTimeWindowWrapsPastMidnight()
+    {
+        // Arrange
+        var settings = new GlobalSettings
+        {
+            Schedule = new Schedule
+            {
+                CronExpression = "0 2 * * *",
+                TimeWindowStart = new TimeOnly(22, 0),
+                TimeWindowEnd = new TimeOnly(6, 0)
+            }
+        };
+
+        // Act & Assert
+        var exception = Record.Exception(() => settings.Validate());
+        Assert.Null(exception);
+    }
+
+    [Fact]
+    public void Validate_ShouldThrow_WhenTimeWindowIsEmpty()
+    {
+        // Arrange
+        var settings = new GlobalSettings
+        {
+            Schedule = new Schedule
+            {
+                CronExpression = "0 2 * * *",
+                TimeWindowStart = new TimeOnly(2, 0),
+                TimeWindowEnd = new TimeOnly(2, 0)
+            }
+        };
+
+        // Act & Assert
+        Assert.Throws<InvalidOperationException>(() => settings.Validate());
+    }
+
+    [Fact]
+    public void Validate_ShouldThrow_WhenBlackoutPeriodEndsBeforeStart()
+    {
+        // Arrange
+        var settings = new GlobalSettings
+        {
+            Schedule = new Schedule
+            {
+                CronExpression = "0 2 * * *",
+                BlackoutPeriods = new List<BlackoutPeriod>
+                {
+                    new() { Start = new DateOnly(2026, 12, 31), End = new DateOnly(2026, 12, 24) }
+                }
+            }
+        };
+
+        // Act & Assert
+        Assert.Throws<InvalidOperationException>(() => settings.Validate());
+    }
+}
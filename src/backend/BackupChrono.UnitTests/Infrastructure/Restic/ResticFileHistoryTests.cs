@@ -0,0 +1,150 @@
+using System.Text;
+using BackupChrono.Infrastructure.Restic;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Infrastructure.Restic;
+
+public class ResticFileHistoryTests
+{
+    private const string RepositoryPath = "./repositories/device/share";
+
+    private readonly Mock<ILogger<ResticService>> _loggerMock;
+    private readonly Mock<IResticClient> _clientMock;
+    private readonly ResticService _service;
+
+    public ResticFileHistoryTests()
+    {
+        _loggerMock = new Mock<ILogger<ResticService>>();
+        _clientMock = new Mock<IResticClient>();
+        _service = new ResticService(_clientMock.Object, _loggerMock.Object);
+
+        var snapshotsOutput = @"[
+{""short_id"":""snap0001"",""hostname"":""server"",""time"":""2025-01-01T02:00:00Z""},
+{""short_id"":""snap0002"",""hostname"":""server"",""time"":""2025-01-02T02:00:00Z""},
+{""short_id"":""snap0003"",""hostname"":""server"",""time"":""2025-01-03T02:00:00Z""},
+{""short_id"":""snap0004"",""hostname"":""server"",""time"":""2025-01-04T02:00:00Z""}
+]";
+        SetupCommand(args => args[0] == "snapshots", snapshotsOutput);
+    }
+
+    private void SetupCommand(Func<string[], bool> match, string output)
+    {
+        _clientMock
+            .Setup(c => c.ExecuteCommand(
+                It.Is<string[]>(args => match(args)),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<TimeSpan?>(),
+                It.IsAny<Action<string>?>(),
+                It.IsAny<string?>(),
+                It.IsAny<Action<string>?>()))
+            .ReturnsAsync(output);
+    }
+
+    private void SetupLs(string snapshotId, string? fileNode)
+    {
+        var output = @"{""time"":""2025-01-01T02:00:00Z"",""tree"":""abc"",""paths"":[""/""],""struct_type"":""snapshot""}
+{""name"":""other.txt"",""type"":""file"",""path"":""/docs/other.txt"",""size"":5,""mtime"":""2024-12-01T12:00:00Z"",""struct_type"":""node""}";
+        if (fileNode != null)
+        {
+            output += "\n" + fileNode;
+        }
+
+        SetupCommand(args => args[0] == "ls" && args[1] == snapshotId && args.Contains("/docs"), output);
+    }
+
+    private void SetupDump(string snapshotId, string content)
+    {
+        _clientMock
+            .Setup(c => c.ExecuteCommandStream(
+                It.Is<string[]>(args => args[0] == "dump" && args[1] == snapshotId && args[2] == "/docs/report.txt"),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<string?>()))
+            .ReturnsAsync(() => new MemoryStream(Encoding.UTF8.GetBytes(content)));
+    }
+
+    private static string ReportNode(long size, string mtime) =>
+        $@"{{""name"":""report.txt"",""type"":""file"",""path"":""/docs/report.txt"",""size"":{size},""mtime"":""{mtime}"",""struct_type"":""node""}}";
+
+    [Fact]
+    public async Task GetFileHistory_ReturnsOneVersionPerSnapshotContainingFile_NewestFirst()
+    {
+        // Arrange - file unchanged in snap0002, modified in snap0003, deleted in snap0004
+        SetupLs("snap0001", ReportNode(10, "2024-12-31T10:00:00Z"));
+        SetupLs("snap0002", ReportNode(10, "2024-12-31T10:00:00Z"));
+        SetupLs("snap0003", ReportNode(12, "2025-01-02T15:00:00Z"));
+        SetupLs("snap0004", null);
+        SetupDump("snap0001", "first v1");
+        SetupDump("snap0003", "second v2!!");
+
+        // Act
+        var versions = (await _service.GetFileHistory("/docs/report.txt", RepositoryPath)).ToList();
+
+        // Assert
+        Assert.Equal(new[] { "snap0003", "snap0002", "snap0001" }, versions.Select(v => v.BackupId));
+        Assert.Equal(12, versions[0].Size);
+        Assert.Equal(versions[1].Hash, versions[2].Hash);
+        Assert.NotEqual(versions[0].Hash, versions[1].Hash);
+        Assert.Equal(64, versions[0].Hash!.Length);
+    }
+
+    [Fact]
+    public async Task GetFileHistory_OnlyDumpsContentWhenMetadataChanges()
+    {
+        // Arrange
+        SetupLs("snap0001", ReportNode(10, "2024-12-31T10:00:00Z"));
+        SetupLs("snap0002", ReportNode(10, "2024-12-31T10:00:00Z"));
+        SetupLs("snap0003", ReportNode(10, "2024-12-31T10:00:00Z"));
+        SetupLs("snap0004", ReportNode(10, "2024-12-31T10:00:00Z"));
+        SetupDump("snap0001", "same");
+
+        // Act
+        var versions = (await _service.GetFileHistory("/docs/report.txt", RepositoryPath)).ToList();
+
+        // Assert
+        Assert.Equal(4, versions.Count);
+        Assert.Single(versions.Select(v => v.Hash).Distinct());
+        _clientMock.Verify(c => c.ExecuteCommandStream(
+            It.Is<string[]>(args => args[0] == "dump"),
+            It.IsAny<CancellationToken>(),
+            It.IsAny<string?>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task GetFileHistory_DoesNotHashFilesAboveSizeLimit()
+    {
+        // Arrange - 1 GiB, modified between snapshots
+        SetupLs("snap0001", ReportNode(1L << 30, "2024-12-31T10:00:00Z"));
+        SetupLs("snap0002", ReportNode(1L << 30, "2025-01-01T18:00:00Z"));
+        SetupLs("snap0003", null);
+        SetupLs("snap0004", null);
+
+        // Act
+        var versions = (await _service.GetFileHistory("/docs/report.txt", RepositoryPath)).ToList();
+
+        // Assert
+        Assert.Equal(2, versions.Count);
+        Assert.All(versions, v => Assert.Null(v.Hash));
+        _clientMock.Verify(c => c.ExecuteCommandStream(
+            It.IsAny<string[]>(),
+            It.IsAny<CancellationToken>(),
+            It.IsAny<string?>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task GetFileHistory_ReturnsEmpty_WhenFileNeverBackedUp()
+    {
+        // Arrange
+        SetupLs("snap0001", null);
+        SetupLs("snap0002", null);
+        SetupLs("snap0003", null);
+        SetupLs("snap0004", null);
+
+        // Act
+        var versions = await _service.GetFileHistory("/docs/report.txt", RepositoryPath);
+
+        // Assert
+        Assert.Empty(versions);
+    }
+}
@@ -0,0 +1,104 @@
+using BackupChrono.Infrastructure.Restic;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Infrastructure.Restic;
+
+public class ResticFileMetadataTests
+{
+    private const string RepositoryPath = "./repositories/device/share";
+
+    private readonly Mock<ILogger<ResticService>> _loggerMock;
+    private readonly Mock<IResticClient> _clientMock;
+    private readonly ResticService _service;
+
+    public ResticFileMetadataTests()
+    {
+        _loggerMock = new Mock<ILogger<ResticService>>();
+        _clientMock = new Mock<IResticClient>();
+        _service = new ResticService(_clientMock.Object, _loggerMock.Object);
+
+        // version 2 header, then user::rw-, user:1000:r-x, group::r--, mask::r-x, other::---
+        var acl = Convert.ToBase64String(new byte[]
+        {
+            2, 0, 0, 0,
+            0x01, 0, 6, 0, 0xFF, 0xFF, 0xFF, 0xFF,
+            0x02, 0, 5, 0, 0xE8, 0x03, 0, 0,
+            0x04, 0, 4, 0, 0xFF, 0xFF, 0xFF, 0xFF,
+            0x10, 0, 5, 0, 0xFF, 0xFF, 0xFF, 0xFF,
+            0x20, 0, 0, 0, 0xFF, 0xFF, 0xFF, 0xFF
+        });
+        var comment = Convert.ToBase64String("quarterly figures"u8.ToArray());
+
+        var tree = $@"{{""nodes"":[
+{{""name"":""report.pdf"",""type"":""file"",""mode"":8389101,""mtime"":""2024-12-01T12:00:00Z"",""atime"":""2024-12-02T08:00:00Z"",""ctime"":""2024-12-01T12:00:00Z"",""uid"":1000,""gid"":100,""user"":""alice"",""group"":""users"",""inode"":4242,""device_id"":2049,""size"":2048,""links"":2,""content"":[""aa"",""bb""],
+  ""extended_attributes"":[{{""name"":""system.posix_acl_access"",""value"":""{acl}""}},{{""name"":""user.comment"",""value"":""{comment}""}}]}},
+{{""name"":""latest"",""type"":""symlink"",""mode"":134218239,""mtime"":""2024-12-01T12:00:00Z"",""uid"":1000,""gid"":100,""linktarget"":""report.pdf"",""links"":1,""content"":null}}
+]}}";
+
+        _clientMock
+            .Setup(c => c.ExecuteCommand(
+                It.Is<string[]>(args => args.SequenceEqual(new[] { "cat", "tree", "snap0001:docs/2024" })),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<TimeSpan?>(),
+                It.IsAny<Action<string>?>(),
+                RepositoryPath,
+                It.IsAny<Action<string>?>()))
+            .ReturnsAsync(tree);
+    }
+
+    [Fact]
+    public async Task GetFileMetadata_ReadsOwnershipModeAndHardLinksFromParentTree()
+    {
+        // Act
+        var metadata = await _service.GetFileMetadata("snap0001", "/docs/2024/report.pdf", repositoryPath: RepositoryPath);
+
+        // Assert
+        Assert.Equal("file", metadata.Type);
+        Assert.Equal("/docs/2024/report.pdf", metadata.Path);
+        Assert.Equal("4755", metadata.Mode);
+        Assert.Equal("-rwsr-xr-x", metadata.Permissions);
+        Assert.Equal(1000u, metadata.Uid);
+        Assert.Equal("alice", metadata.User);
+        Assert.Equal("users", metadata.Group);
+        Assert.Equal(2ul, metadata.HardLinks);
+        Assert.Equal(4242ul, metadata.Inode);
+        Assert.Equal(2, metadata.ContentChunks);
+        Assert.Null(metadata.ContentHash);
+    }
+
+    [Fact]
+    public async Task GetFileMetadata_DecodesPosixAclAndTextAttributes()
+    {
+        // Act
+        var metadata = await _service.GetFileMetadata("snap0001", "/docs/2024/report.pdf", repositoryPath: RepositoryPath);
+
+        // Assert
+        Assert.Equal(2, metadata.Attributes.Count);
+        Assert.Equal("user::rw-,user:1000:r-x,group::r--,mask::r-x,other::---", metadata.Attributes[0].Text);
+        Assert.Equal("user.comment", metadata.Attributes[1].Name);
+        Assert.Equal("quarterly figures", metadata.Attributes[1].Text);
+    }
+
+    [Fact]
+    public async Task GetFileMetadata_ReturnsSymlinkTarget()
+    {
+        // Act
+        var metadata = await _service.GetFileMetadata("snap0001", "/docs/2024/latest", repositoryPath: RepositoryPath);
+
+        // Assert
+        Assert.Equal("symlink", metadata.Type);
+        Assert.Equal("report.pdf", metadata.LinkTarget);
+        Assert.Equal("lrwxrwxrwx", metadata.Permissions);
+        Assert.Empty(metadata.Attributes);
+    }
+
+    [Fact]
+    public async Task GetFileMetadata_ThrowsKeyNotFound_WhenEntryIsNotInTree()
+    {
+        // Act & Assert
+        await Assert.ThrowsAsync<KeyNotFoundException>(
+            () => _service.GetFileMetadata("snap0001", "/docs/2024/missing.txt", repositoryPath: RepositoryPath));
+    }
+}
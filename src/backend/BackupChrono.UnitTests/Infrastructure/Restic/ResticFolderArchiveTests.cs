@@ -0,0 +1,217 @@
+using System.Formats.Tar;
+using System.IO.Compression;
+using BackupChrono.Core.DTOs;
+using BackupChrono.Infrastructure.Restic;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Infrastructure.Restic;
+
+public class ResticFolderArchiveTests
+{
+    private const string RepositoryPath = "./repositories/device/share";
+
+    private readonly Mock<ILogger<ResticService>> _loggerMock;
+    private readonly Mock<IResticClient> _clientMock;
+    private readonly ResticService _service;
+
+    public ResticFolderArchiveTests()
+    {
+        _loggerMock = new Mock<ILogger<ResticService>>();
+        _clientMock = new Mock<IResticClient>();
+        _service = new ResticService(_clientMock.Object, _loggerMock.Object);
+    }
+
+    private static string FileNode(string path, long size) =>
+        $@"{{""name"":""{Path.GetFileName(path)}"",""type"":""file"",""path"":""{path}"",""size"":{size},""mtime"":""2024-12-01T12:00:00Z"",""struct_type"":""node""}}";
+
+    [Fact]
+    public async Task GetFolderSizes_SumsFilesPerImmediateSubfolder()
+    {
+        // Arrange
+        var output = string.Join("\n",
+            @"{""time"":""2025-01-01T02:00:00Z"",""tree"":""abc"",""paths"":[""/""],""struct_type"":""snapshot""}",
+            FileNode("/docs/readme.txt", 5),
+            FileNode("/docs/reports/q1.pdf", 100),
+            FileNode("/docs/reports/2024/q4.pdf", 250),
+            FileNode("/docs/photos/cat.jpg", 40),
+            FileNode("/docs-archive/old.txt", 999),
+            FileNode("/other/file.txt", 1));
+
+        _clientMock
+            .Setup(c => c.ExecuteCommand(
+                It.Is<string[]>(args => args[0] == "ls" && args[1] == "snap0001"),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<TimeSpan?>(),
+                It.IsAny<Action<string>?>(),
+                RepositoryPath,
+                It.IsAny<Action<string>?>()))
+            .ReturnsAsync(output);
+
+        // Act
+        var sizes = await _service.GetFolderSizes("snap0001", "/docs/", RepositoryPath);
+
+        // Assert
+        Assert.Equal(2, sizes.Count);
+        Assert.Equal(350, sizes["/docs/reports"]);
+        Assert.Equal(40, sizes["/docs/photos"]);
+    }
+
+    [Fact]
+    public async Task GetFolderSizes_ListsSnapshotOnlyOnce_WhenBrowsingFurther()
+    {
+        // Arrange
+        var output = string.Join("\n",
+            FileNode("/docs/reports/q1.pdf", 100),
+            FileNode("/docs/reports/2024/q4.pdf", 250),
+            FileNode("/docs/photos/cat.jpg", 40));
+
+        _clientMock
+            .Setup(c => c.ExecuteCommand(
+                It.Is<string[]>(args => args[0] == "ls" && args[1] == "snap0001"),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<TimeSpan?>(),
+                It.IsAny<Action<string>?>(),
+                RepositoryPath,
+                It.IsAny<Action<string>?>()))
+            .ReturnsAsync(output);
+
+        // Act
+        var rootSizes = await _service.GetFolderSizes("snap0001", "/", RepositoryPath);
+        var reportSizes = await _service.GetFolderSizes("snap0001", "/docs/reports", RepositoryPath);
+
+        // Assert
+        Assert.Equal(390, Assert.Single(rootSizes).Value);
+        Assert.Equal(250, reportSizes["/docs/reports/2024"]);
+        _clientMock.Verify(c => c.ExecuteCommand(
+            It.Is<string[]>(args => args[0] == "ls"),
+            It.IsAny<CancellationToken>(),
+            It.IsAny<TimeSpan?>(),
+            It.IsAny<Action<string>?>(),
+            It.IsAny<string?>(),
+            It.IsAny<Action<string>?>()), Times.Once);
+    }
+
+    [Theory]
+    [InlineData(ArchiveFormat.Zip, "zip")]
+    [InlineData(ArchiveFormat.Tar, "tar")]
+    public async Task DumpFolderArchiveStream_PassesArchiveFormatToRestic(ArchiveFormat format, string expectedArchive)
+    {
+        // Arrange
+        string[]? capturedArgs = null;
+        _clientMock
+            .Setup(c => c.ExecuteCommandStream(
+                It.IsAny<string[]>(),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<string?>()))
+            .Callback<string[], CancellationToken, string?>((args, _, _) => capturedArgs = args)
+            .ReturnsAsync(new MemoryStream());
+
+        // Act
+        await _service.DumpFolderArchiveStream("snap0001", "/docs", format, RepositoryPath);
+
+        // Assert
+        Assert.Equal(new[] { "dump", "--archive", expectedArchive, "snap0001", "/docs" }, capturedArgs);
+    }
+
+    private void SetupSelectionDump()
+    {
+        _clientMock
+            .Setup(c => c.ExecuteCommand(
+                It.Is<string[]>(args => args[0] == "ls" && args[1] == "snap0001"),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<TimeSpan?>(),
+                It.IsAny<Action<string>?>(),
+                RepositoryPath,
+                It.IsAny<Action<string>?>()))
+            .ReturnsAsync(string.Join("\n",
+                FileNode("/docs/a.txt", 5),
+                FileNode("/docs/b.txt", 7),
+                @"{""name"":""photos"",""type"":""dir"",""path"":""/photos"",""mtime"":""2024-12-01T12:00:00Z"",""struct_type"":""node""}"));
+
+        // A selected file is dumped as raw content, a selected folder as a tar archive
+        _clientMock
+            .Setup(c => c.ExecuteCommandStream(
+                It.Is<string[]>(args => args.SequenceEqual(new[] { "dump", "snap0001", "/docs/a.txt" })),
+                It.IsAny<CancellationToken>(),
+                RepositoryPath))
+            .ReturnsAsync(() => new MemoryStream("hello"u8.ToArray()));
+
+        _clientMock
+            .Setup(c => c.ExecuteCommandStream(
+                It.Is<string[]>(args => args.SequenceEqual(new[] { "dump", "--archive", "tar", "snap0001", "/photos" })),
+                It.IsAny<CancellationToken>(),
+                RepositoryPath))
+            .ReturnsAsync(() =>
+            {
+                var tar = new MemoryStream();
+                using (var writer = new TarWriter(tar, TarEntryFormat.Pax, leaveOpen: true))
+                {
+                    writer.WriteEntry(new PaxTarEntry(TarEntryType.Directory, "photos/"));
+                    writer.WriteEntry(new PaxTarEntry(TarEntryType.Directory, "photos/empty/"));
+                    writer.WriteEntry(new PaxTarEntry(TarEntryType.RegularFile, "photos/cat.jpg")
+                    {
+                        DataStream = new MemoryStream("meow"u8.ToArray())
+                    });
+                }
+                tar.Position = 0;
+                return tar;
+            });
+    }
+
+    [Fact]
+    public async Task WriteSelectionArchive_StreamsSelectedFilesAndFoldersIntoZip()
+    {
+        // Arrange
+        SetupSelectionDump();
+        using var output = new MemoryStream();
+
+        // Act
+        await _service.WriteSelectionArchive("snap0001", new[] { "/docs/a.txt", "/photos" }, ArchiveFormat.Zip, output, RepositoryPath);
+
+        // Assert
+        output.Position = 0;
+        using var zip = new ZipArchive(output, ZipArchiveMode.Read);
+        Assert.Equal(
+            new[] { "docs/a.txt", "photos/", "photos/cat.jpg", "photos/empty/" },
+            zip.Entries.Select(e => e.FullName).OrderBy(n => n, StringComparer.Ordinal));
+        using var reader = new StreamReader(zip.GetEntry("photos/cat.jpg")!.Open());
+        Assert.Equal("meow", await reader.ReadToEndAsync());
+    }
+
+    [Fact]
+    public async Task WriteSelectionArchive_WritesTarWithFileContents()
+    {
+        // Arrange
+        SetupSelectionDump();
+        using var output = new MemoryStream();
+
+        // Act
+        await _service.WriteSelectionArchive("snap0001", new[] { "/docs/a.txt", "/photos" }, ArchiveFormat.Tar, output, RepositoryPath);
+
+        // Assert
+        output.Position = 0;
+        var reader = new TarReader(output);
+        var contents = new Dictionary<string, string>();
+        while (reader.GetNextEntry() is { } entry)
+        {
+            contents[entry.Name] = entry.DataStream == null ? "" : new StreamReader(entry.DataStream).ReadToEnd();
+        }
+
+        Assert.Equal("hello", contents["docs/a.txt"]);
+        Assert.Equal("meow", contents["photos/cat.jpg"]);
+        Assert.True(contents.ContainsKey("photos/empty/"));
+    }
+
+    [Fact]
+    public async Task WriteSelectionArchive_ThrowsKeyNotFound_WhenNoSelectedPathExists()
+    {
+        // Arrange
+        SetupSelectionDump();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<KeyNotFoundException>(() =>
+            _service.WriteSelectionArchive("snap0001", new[] { "/missing" }, ArchiveFormat.Zip, new MemoryStream(), RepositoryPath));
+    }
+}
@@ -0,0 +1,66 @@
+using BackupChrono.Infrastructure.Restic;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Infrastructure.Restic;
+
+public class ResticRawDataSizeTests
+{
+    private const string RepositoryPath = "./repositories/device/share";
+
+    private readonly Mock<ILogger<ResticService>> _loggerMock;
+    private readonly Mock<IResticClient> _clientMock;
+    private readonly ResticService _service;
+
+    public ResticRawDataSizeTests()
+    {
+        _loggerMock = new Mock<ILogger<ResticService>>();
+        _clientMock = new Mock<IResticClient>();
+        _service = new ResticService(_clientMock.Object, _loggerMock.Object);
+    }
+
+    [Fact]
+    public async Task GetRawDataSize_MeasuresGivenSnapshotsOnce()
+    {
+        // Arrange
+        string[]? capturedArgs = null;
+        _clientMock
+            .Setup(c => c.ExecuteCommand(
+                It.IsAny<string[]>(),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<TimeSpan?>(),
+                It.IsAny<Action<string>?>(),
+                RepositoryPath,
+                It.IsAny<Action<string>?>()))
+            .Callback((string[] args, CancellationToken _, TimeSpan? _, Action<string>? _, string? _, Action<string>? _) => capturedArgs = args)
+            .ReturnsAsync(@"{""total_size"":4096,""total_uncompressed_size"":8192,""total_blob_count"":3,""snapshots_count"":2}");
+
+        // Act
+        var size = await _service.GetRawDataSize(new[] { "snap0002", "snap0001" }, RepositoryPath);
+        var repeated = await _service.GetRawDataSize(new[] { "snap0001", "snap0002" }, RepositoryPath);
+
+        // Assert
+        Assert.Equal(4096, size);
+        Assert.Equal(4096, repeated);
+        Assert.Equal(new[] { "stats", "--json", "--mode=raw-data", "snap0001", "snap0002" }, capturedArgs);
+        _clientMock.Verify(c => c.ExecuteCommand(
+            It.IsAny<string[]>(),
+            It.IsAny<CancellationToken>(),
+            It.IsAny<TimeSpan?>(),
+            It.IsAny<Action<string>?>(),
+            It.IsAny<string?>(),
+            It.IsAny<Action<string>?>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task GetRawDataSize_ReturnsZeroWithoutRunningRestic_WhenNoSnapshots()
+    {
+        // Act
+        var size = await _service.GetRawDataSize(Array.Empty<string>(), RepositoryPath);
+
+        // Assert
+        Assert.Equal(0, size);
+        _clientMock.VerifyNoOtherCalls();
+    }
+}
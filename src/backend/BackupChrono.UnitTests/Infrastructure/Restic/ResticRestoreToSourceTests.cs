@@ -0,0 +1,168 @@
+using BackupChrono.Core.DTOs;
+using BackupChrono.Infrastructure.Restic;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Infrastructure.Restic;
+
+public class ResticRestoreToSourceTests : IDisposable
+{
+    private const string RepositoryPath = "./repositories/device/share";
+
+    private readonly Mock<ILogger<ResticService>> _loggerMock;
+    private readonly Mock<IResticClient> _clientMock;
+    private readonly ResticService _service;
+    private readonly string _mountPath;
+
+    public ResticRestoreToSourceTests()
+    {
+        _loggerMock = new Mock<ILogger<ResticService>>();
+        _clientMock = new Mock<IResticClient>();
+        _service = new ResticService(_clientMock.Object, _loggerMock.Object);
+        _mountPath = Path.Combine(Path.GetTempPath(), $"restore-to-source-{Guid.NewGuid():N}");
+        Directory.CreateDirectory(_mountPath);
+    }
+
+    public void Dispose()
+    {
+        Directory.Delete(_mountPath, recursive: true);
+    }
+
+    private void SetupRestore(Action<string[]> onRestore)
+    {
+        _clientMock
+            .Setup(c => c.ExecuteCommand(
+                It.Is<string[]>(args => args[0] == "restore"),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<TimeSpan?>(),
+                It.IsAny<Action<string>?>(),
+                RepositoryPath,
+                It.IsAny<Action<string>?>()))
+            .Callback<string[], CancellationToken, TimeSpan?, Action<string>?, string?, Action<string>?>((args, _, _, _, _, _) => onRestore(args))
+            .ReturnsAsync(string.Empty);
+    }
+
+    [Fact]
+    public async Task RestoreBackup_RunsWithoutTimeout()
+    {
+        // Arrange
+        SetupRestore(_ => { });
+
+        // Act
+        await _service.RestoreBackup("snap0001", _mountPath, repositoryPath: RepositoryPath);
+
+        // Assert
+        _clientMock.Verify(c => c.ExecuteCommand(
+            It.Is<string[]>(args => args[0] == "restore"),
+            It.IsAny<CancellationToken>(),
+            Timeout.InfiniteTimeSpan,
+            It.IsAny<Action<string>?>(),
+            RepositoryPath,
+            It.IsAny<Action<string>?>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task RestoreToSource_RestoresSnapshotRootIntoMount_WithRelativeIncludes()
+    {
+        // Arrange
+        string[]? restoreArgs = null;
+        SetupRestore(args => restoreArgs = args);
+
+        // Act
+        await _service.RestoreToSource(
+            "snap0001", "/mnt/old-mount", _mountPath, RestoreConflictMode.Skip,
+            new[] { "/mnt/old-mount/docs/a.txt" }, RepositoryPath);
+
+        // Assert
+        Assert.Equal(
+            new[] { "restore", "snap0001:/mnt/old-mount", "--target", _mountPath, "--include", "/docs/a.txt", "--overwrite", "never" },
+            restoreArgs);
+    }
+
+    [Fact]
+    public async Task RestoreToSource_RenamesRestoredCopies_WhenFilesAlreadyExist()
+    {
+        // Arrange
+        Directory.CreateDirectory(Path.Combine(_mountPath, "docs"));
+        File.WriteAllText(Path.Combine(_mountPath, "docs", "a.txt"), "current");
+
+        SetupRestore(args =>
+        {
+            // Simulate restic writing the backed-up files into the staging directory it was given
+            var target = args[Array.IndexOf(args, "--target") + 1];
+            Directory.CreateDirectory(Path.Combine(target, "docs"));
+            File.WriteAllText(Path.Combine(target, "docs", "a.txt"), "backed up");
+            File.WriteAllText(Path.Combine(target, "docs", "b.txt"), "only in backup");
+        });
+
+        // Act
+        await _service.RestoreToSource("snap0001", "/mnt/old-mount", _mountPath, RestoreConflictMode.Rename, repositoryPath: RepositoryPath);
+
+        // Assert
+        var docs = Path.Combine(_mountPath, "docs");
+        Assert.Equal("current", File.ReadAllText(Path.Combine(docs, "a.txt")));
+        Assert.Equal("only in backup", File.ReadAllText(Path.Combine(docs, "b.txt")));
+        var renamed = Assert.Single(Directory.GetFiles(docs, "a.restored-*.txt"));
+        Assert.Equal("backed up", File.ReadAllText(renamed));
+        Assert.Single(Directory.GetDirectories(_mountPath));
+    }
+
+    [Fact]
+    public async Task RestoreToSource_RestoresEverything_WhenSnapshotRootIsSelected()
+    {
+        // Arrange
+        string[]? restoreArgs = null;
+        SetupRestore(args => restoreArgs = args);
+
+        // Act
+        await _service.RestoreToSource(
+            "snap0001", "/mnt/old-mount", _mountPath, RestoreConflictMode.Overwrite,
+            new[] { "/mnt/old-mount/", "/mnt/old-mount/docs" }, RepositoryPath);
+
+        // Assert
+        Assert.Equal(
+            new[] { "restore", "snap0001:/mnt/old-mount", "--target", _mountPath, "--overwrite", "always" },
+            restoreArgs);
+    }
+
+    [Fact]
+    public async Task RestoreToSource_KeepsEveryRestoredCopy_WhenRenamedNamesAreTaken()
+    {
+        // Arrange - two restores of the same file can run within the same second
+        File.WriteAllText(Path.Combine(_mountPath, "a.txt"), "current");
+        var restoreCount = 0;
+        SetupRestore(args =>
+        {
+            var target = args[Array.IndexOf(args, "--target") + 1];
+            Directory.CreateDirectory(target);
+            File.WriteAllText(Path.Combine(target, "a.txt"), $"restore {++restoreCount}");
+        });
+
+        // Act
+        await _service.RestoreToSource("snap0001", "/mnt/old-mount", _mountPath, RestoreConflictMode.Rename, repositoryPath: RepositoryPath);
+        await _service.RestoreToSource("snap0001", "/mnt/old-mount", _mountPath, RestoreConflictMode.Rename, repositoryPath: RepositoryPath);
+
+        // Assert
+        Assert.Equal("current", File.ReadAllText(Path.Combine(_mountPath, "a.txt")));
+        var restored = Directory.GetFiles(_mountPath, "a.restored-*").Select(File.ReadAllText).OrderBy(text => text);
+        Assert.Equal(new[] { "restore 1", "restore 2" }, restored);
+    }
+
+    [Fact]
+    public async Task RestoreToSource_RecreatesEmptyDirectories_WhenRenaming()
+    {
+        // Arrange
+        SetupRestore(args =>
+        {
+            var target = args[Array.IndexOf(args, "--target") + 1];
+            Directory.CreateDirectory(Path.Combine(target, "docs", "empty"));
+        });
+
+        // Act
+        await _service.RestoreToSource("snap0001", "/mnt/old-mount", _mountPath, RestoreConflictMode.Rename, repositoryPath: RepositoryPath);
+
+        // Assert
+        Assert.True(Directory.Exists(Path.Combine(_mountPath, "docs", "empty")));
+    }
+}
@@ -0,0 +1,148 @@
+using BackupChrono.Core.DTOs;
+using BackupChrono.Infrastructure.Restic;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Infrastructure.Restic;
+
+public class ResticSnapshotDiffTests
+{
+    private const string RepositoryPath = "./repositories/device/share";
+
+    private readonly Mock<ILogger<ResticService>> _loggerMock;
+    private readonly Mock<IResticClient> _clientMock;
+    private readonly ResticService _service;
+
+    public ResticSnapshotDiffTests()
+    {
+        _loggerMock = new Mock<ILogger<ResticService>>();
+        _clientMock = new Mock<IResticClient>();
+        _service = new ResticService(_clientMock.Object, _loggerMock.Object);
+    }
+
+    private void SetupDiff(params string[] changes)
+    {
+        var output = string.Join("\n", changes) + "\n" +
+            @"{""message_type"":""statistics"",""source_snapshot"":""snap0001"",""target_snapshot"":""snap0002""}";
+
+        _clientMock
+            .Setup(c => c.ExecuteCommand(
+                It.Is<string[]>(args => args[0] == "diff" && args[1] == "snap0001" && args[2] == "snap0002" && args.Contains("--json")),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<TimeSpan?>(),
+                It.IsAny<Action<string>?>(),
+                RepositoryPath,
+                It.IsAny<Action<string>?>()))
+            .ReturnsAsync(output);
+    }
+
+    private void SetupLs(string snapshotId, params string[] nodes)
+    {
+        var output = @"{""time"":""2025-01-01T02:00:00Z"",""tree"":""abc"",""paths"":[""/""],""struct_type"":""snapshot""}
+{""name"":""docs"",""type"":""dir"",""path"":""/docs"",""mtime"":""2024-12-01T12:00:00Z"",""struct_type"":""node""}";
+        foreach (var node in nodes)
+        {
+            output += "\n" + node;
+        }
+
+        _clientMock
+            .Setup(c => c.ExecuteCommand(
+                It.Is<string[]>(args => args[0] == "ls" && args[1] == snapshotId),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<TimeSpan?>(),
+                It.IsAny<Action<string>?>(),
+                It.IsAny<string?>(),
+                It.IsAny<Action<string>?>()))
+            .ReturnsAsync(output);
+    }
+
+    private static string Change(string path, string modifier) =>
+        $@"{{""message_type"":""change"",""path"":""{path}"",""modifier"":""{modifier}""}}";
+
+    private static string FileNode(string path, long size, string mtime) =>
+        $@"{{""name"":""{Path.GetFileName(path)}"",""type"":""file"",""path"":""{path}"",""size"":{size},""mtime"":""{mtime}"",""struct_type"":""node""}}";
+
+    [Fact]
+    public async Task DiffSnapshots_ClassifiesAddedRemovedAndModifiedFiles()
+    {
+        // Arrange - touched.txt only has a new mtime, so restic reports it as a metadata change
+        SetupDiff(
+            Change("/docs/", "U"),
+            Change("/docs/deleted.txt", "-"),
+            Change("/docs/grown.txt", "M"),
+            Change("/docs/new.txt", "+"),
+            Change("/docs/rewritten.txt", "M"),
+            Change("/docs/touched.txt", "U"));
+        SetupLs("snap0001",
+            FileNode("/docs/kept.txt", 10, "2024-12-01T12:00:00Z"),
+            FileNode("/docs/grown.txt", 10, "2024-12-01T12:00:00Z"),
+            FileNode("/docs/rewritten.txt", 10, "2024-12-01T12:00:00Z"),
+            FileNode("/docs/touched.txt", 10, "2024-12-01T12:00:00Z"),
+            FileNode("/docs/deleted.txt", 40, "2024-12-01T12:00:00Z"));
+        SetupLs("snap0002",
+            FileNode("/docs/kept.txt", 10, "2024-12-01T12:00:00Z"),
+            FileNode("/docs/grown.txt", 25, "2025-01-01T12:00:00Z"),
+            FileNode("/docs/rewritten.txt", 10, "2024-12-01T12:00:00Z"),
+            FileNode("/docs/touched.txt", 10, "2025-01-01T12:00:00Z"),
+            FileNode("/docs/new.txt", 7, "2025-01-01T12:00:00Z"));
+
+        // Act
+        var diff = await _service.DiffSnapshots("snap0001", "snap0002", RepositoryPath);
+
+        // Assert
+        Assert.Equal(
+            new[] { "/docs/deleted.txt", "/docs/grown.txt", "/docs/new.txt", "/docs/rewritten.txt" },
+            diff.Changes.Select(c => c.Path));
+        Assert.Equal(1, diff.AddedCount);
+        Assert.Equal(1, diff.RemovedCount);
+        Assert.Equal(2, diff.ModifiedCount);
+        Assert.Equal(FileChangeType.Removed, diff.Changes[0].ChangeType);
+        Assert.Equal(15, diff.Changes[1].SizeDelta);
+        Assert.Equal(0, diff.Changes[3].SizeDelta);
+        Assert.Equal(15 + 7 - 40, diff.SizeDelta);
+    }
+
+    [Fact]
+    public async Task DiffSnapshots_ListsOnlyFoldersWithChanges_ForSizes()
+    {
+        // Arrange
+        SetupDiff(Change("/docs/new.txt", "+"));
+        SetupLs("snap0002", FileNode("/docs/new.txt", 7, "2025-01-01T12:00:00Z"));
+
+        // Act
+        var diff = await _service.DiffSnapshots("snap0001", "snap0002", RepositoryPath);
+
+        // Assert
+        Assert.Equal(7, Assert.Single(diff.Changes).NewSize);
+        _clientMock.Verify(c => c.ExecuteCommand(
+            new[] { "ls", "snap0002", "--json", "/docs" },
+            It.IsAny<CancellationToken>(),
+            It.IsAny<TimeSpan?>(),
+            It.IsAny<Action<string>?>(),
+            RepositoryPath,
+            It.IsAny<Action<string>?>()), Times.Once);
+        _clientMock.Verify(c => c.ExecuteCommand(
+            It.Is<string[]>(args => args[0] == "ls" && args[1] == "snap0001"),
+            It.IsAny<CancellationToken>(),
+            It.IsAny<TimeSpan?>(),
+            It.IsAny<Action<string>?>(),
+            It.IsAny<string?>(),
+            It.IsAny<Action<string>?>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task DiffSnapshots_ReturnsNoChanges_WhenSnapshotsAreIdentical()
+    {
+        // Arrange
+        SetupDiff();
+
+        // Act
+        var diff = await _service.DiffSnapshots("snap0001", "snap0002", RepositoryPath);
+
+        // Assert
+        Assert.Empty(diff.Changes);
+        Assert.Equal("snap0001", diff.FromBackupId);
+        Assert.Equal("snap0002", diff.ToBackupId);
+    }
+}
@@ -0,0 +1,208 @@
+using System.Text;
+using BackupChrono.Core.DTOs;
+using BackupChrono.Infrastructure.Restic;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Infrastructure.Restic;
+
+public class ResticSnapshotSearchTests
+{
+    private const string RepositoryPath = "./repositories/device/share";
+
+    private readonly Mock<ILogger<ResticService>> _loggerMock;
+    private readonly Mock<IResticClient> _clientMock;
+    private readonly ResticService _service;
+
+    public ResticSnapshotSearchTests()
+    {
+        _loggerMock = new Mock<ILogger<ResticService>>();
+        _clientMock = new Mock<IResticClient>();
+        _service = new ResticService(_clientMock.Object, _loggerMock.Object);
+
+        var output = string.Join("\n",
+            @"{""time"":""2025-01-01T02:00:00Z"",""tree"":""abc"",""paths"":[""/""],""struct_type"":""snapshot""}",
+            Node("/docs", "dir", 0),
+            Node("/docs/Report-2024.pdf", "file", 100),
+            Node("/docs/notes.txt", "file", 5),
+            Node("/photos", "dir", 0),
+            Node("/photos/report-cover.jpg", "file", 40),
+            "not json",
+            Node("/photos/cat.JPG", "file", 70));
+
+        _clientMock
+            .Setup(c => c.ExecuteCommandStream(
+                It.Is<string[]>(args => args[0] == "ls" && args[1] == "snap0001" && args.Contains("--json")),
+                It.IsAny<CancellationToken>(),
+                RepositoryPath))
+            .ReturnsAsync(() => new MemoryStream(Encoding.UTF8.GetBytes(output)));
+    }
+
+    private static string Node(string path, string type, long size) =>
+        $@"{{""name"":""{Path.GetFileName(path)}"",""type"":""{type}"",""path"":""{path}"",""size"":{size},""mtime"":""2024-12-01T12:00:00Z"",""mode"":420,""struct_type"":""node""}}";
+
+    private async Task<List<FileEntry>> Search(string pattern)
+    {
+        var results = new List<FileEntry>();
+        await foreach (var entry in _service.SearchSnapshot("snap0001", pattern, RepositoryPath))
+        {
+            results.Add(entry);
+        }
+        return results;
+    }
+
+    [Fact]
+    public async Task SearchSnapshot_PlainText_MatchesNameCaseInsensitively()
+    {
+        // Act
+        var results = await Search("report");
+
+        // Assert
+        Assert.Equal(new[] { "/docs/Report-2024.pdf", "/photos/report-cover.jpg" }, results.Select(r => r.Path));
+        Assert.Equal(100, results[0].Size);
+        Assert.False(results[0].IsDirectory);
+    }
+
+    [Fact]
+    public async Task SearchSnapshot_Glob_MatchesWholeName()
+    {
+        // Act
+        var results = await Search("*.jpg");
+
+        // Assert
+        Assert.Equal(new[] { "/photos/report-cover.jpg", "/photos/cat.JPG" }, results.Select(r => r.Path));
+    }
+
+    [Fact]
+    public async Task SearchSnapshot_GlobWithSlash_MatchesFullPath()
+    {
+        // Act
+        var results = await Search("/docs/*");
+
+        // Assert
+        Assert.Equal(new[] { "/docs/Report-2024.pdf", "/docs/notes.txt" }, results.Select(r => r.Path));
+    }
+
+    [Fact]
+    public async Task SearchAllSnapshots_GroupsHitsByPath_WithFirstAndLastSeenSnapshot()
+    {
+        // Arrange - report.txt exists in snap0001 and snap0002 and is deleted in snap0003
+        SetupSnapshots(("snap0001", "tree1"), ("snap0002", "tree2"), ("snap0003", "tree3"));
+        SetupListing("snap0001", Node("/docs/report.txt", "file", 10), Node("/docs/keep.txt", "file", 1));
+        SetupListing("snap0002", Node("/docs/report.txt", "file", 12), Node("/docs/keep.txt", "file", 1));
+        SetupListing("snap0003", Node("/docs/keep.txt", "file", 1));
+
+        // Act
+        var hits = await SearchAll("*.txt");
+
+        // Assert
+        Assert.Equal(new[] { "/docs/keep.txt", "/docs/report.txt" }, hits.Select(h => h.Path));
+
+        var kept = hits[0];
+        Assert.Equal(3, kept.SnapshotCount);
+        Assert.Equal("snap0003", kept.LastSeenBackupId);
+        Assert.Null(kept.RemovedInBackupId);
+
+        var deleted = hits[1];
+        Assert.Equal(2, deleted.SnapshotCount);
+        Assert.Equal("snap0001", deleted.FirstSeenBackupId);
+        Assert.Equal("snap0002", deleted.LastSeenBackupId);
+        Assert.Equal("snap0003", deleted.RemovedInBackupId);
+        Assert.Equal(12, deleted.Size);
+    }
+
+    [Fact]
+    public async Task SearchAllSnapshots_ListsEachTreeOnce()
+    {
+        // Arrange - snap0002 and snap0003 back up the same unchanged tree
+        SetupSnapshots(("snap0001", "tree1"), ("snap0002", "tree2"), ("snap0003", "tree2"));
+        SetupListing("snap0001", Node("/docs/report.txt", "file", 10));
+        SetupListing("snap0002", Node("/docs/report.txt", "file", 12));
+        SetupListing("snap0003", Node("/docs/report.txt", "file", 12));
+
+        // Act
+        var hits = await SearchAll("*.txt");
+
+        // Assert
+        var hit = Assert.Single(hits);
+        Assert.Equal(3, hit.SnapshotCount);
+        Assert.Equal("snap0001", hit.FirstSeenBackupId);
+        Assert.Equal("snap0003", hit.LastSeenBackupId);
+        _clientMock.Verify(
+            c => c.ExecuteCommandStream(It.Is<string[]>(args => args[0] == "ls" && args[1] == "snap0002"), It.IsAny<CancellationToken>(), RepositoryPath),
+            Times.Never);
+    }
+
+    [Fact]
+    public async Task SearchAllSnapshots_StopsAtLimit_WithoutListingOlderSnapshots()
+    {
+        // Arrange
+        SetupSnapshots(("snap0001", "tree1"), ("snap0002", "tree2"));
+        SetupListing("snap0001", Node("/docs/old.txt", "file", 1));
+        SetupListing("snap0002", Node("/docs/a.txt", "file", 1), Node("/docs/b.txt", "file", 1), Node("/docs/c.txt", "file", 1));
+
+        // Act
+        var hits = await SearchAll("*.txt", limit: 2);
+
+        // Assert
+        Assert.Equal(new[] { "/docs/a.txt", "/docs/b.txt" }, hits.Select(h => h.Path));
+        _clientMock.Verify(
+            c => c.ExecuteCommandStream(It.Is<string[]>(args => args[0] == "ls" && args[1] == "snap0001"), It.IsAny<CancellationToken>(), RepositoryPath),
+            Times.Never);
+    }
+
+    /// <summary>
+    /// Collects the streamed hits the way a client does: a path sent again replaces its earlier hit.
+    /// </summary>
+    private async Task<List<FileSearchHit>> SearchAll(string pattern, int limit = int.MaxValue)
+    {
+        var hits = new Dictionary<string, FileSearchHit>();
+        await foreach (var hit in _service.SearchAllSnapshots(pattern, RepositoryPath, limit))
+        {
+            hits[hit.Path] = hit;
+        }
+        return hits.Values.OrderBy(h => h.Path, StringComparer.Ordinal).ToList();
+    }
+
+    /// <summary>
+    /// Snapshots one day apart, oldest first, each with the given tree.
+    /// </summary>
+    private void SetupSnapshots(params (string Id, string Tree)[] snapshots)
+    {
+        var output = "[" + string.Join(",", snapshots.Select((s, i) =>
+            $@"{{""short_id"":""{s.Id}"",""hostname"":""server"",""tree"":""{s.Tree}"",""time"":""2025-01-0{i + 1}T02:00:00Z""}}")) + "]";
+        _clientMock
+            .Setup(c => c.ExecuteCommand(
+                It.Is<string[]>(args => args[0] == "snapshots"),
+                It.IsAny<CancellationToken>(),
+                It.IsAny<TimeSpan?>(),
+                It.IsAny<Action<string>?>(),
+                It.IsAny<string?>(),
+                It.IsAny<Action<string>?>()))
+            .ReturnsAsync(output);
+    }
+
+    private void SetupListing(string snapshotId, params string[] nodes)
+    {
+        var output = string.Join("\n", nodes);
+        _clientMock
+            .Setup(c => c.ExecuteCommandStream(
+                It.Is<string[]>(args => args[0] == "ls" && args[1] == snapshotId),
+                It.IsAny<CancellationToken>(),
+                RepositoryPath))
+            .ReturnsAsync(() => new MemoryStream(Encoding.UTF8.GetBytes(output)));
+    }
+
+    [Fact]
+    public async Task SearchSnapshot_IncludesMatchingDirectories()
+    {
+        // Act
+        var results = await Search("photos");
+
+        // Assert
+        var match = Assert.Single(results);
+        Assert.True(match.IsDirectory);
+        Assert.Equal("/photos", match.Path);
+    }
+}
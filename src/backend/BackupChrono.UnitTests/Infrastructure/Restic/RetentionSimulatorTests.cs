@@ -0,0 +1,138 @@
+using BackupChrono.Core.Entities;
+using BackupChrono.Core.ValueObjects;
+using BackupChrono.Infrastructure.Restic;
+using FluentAssertions;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Infrastructure.Restic;
+
+public class RetentionSimulatorTests
+{
+    private static Backup Snapshot(string id, DateTime timestamp, params string[] paths) => new()
+    {
+        Id = id,
+        DeviceId = Guid.NewGuid(),
+        DeviceName = "nas",
+        Timestamp = timestamp,
+        Status = BackupStatus.Success,
+        SnapshotPaths = paths.Length > 0 ? paths.ToList() : new List<string> { "/data" }
+    };
+
+    private static RetentionPolicy Policy(int latest = 0, int daily = 0, int weekly = 0, int monthly = 0, int yearly = 0) => new()
+    {
+        KeepLatest = latest,
+        KeepDaily = daily,
+        KeepWeekly = weekly,
+        KeepMonthly = monthly,
+        KeepYearly = yearly
+    };
+
+    [Fact]
+    public void Apply_KeepsLatestSnapshotsAndNewestOfEachDay()
+    {
+        // Arrange - two snapshots a day from 5 to 9 January, listed oldest first
+        var backups = Enumerable.Range(5, 5)
+            .SelectMany(day => new[]
+            {
+                Snapshot($"d{day}-am", new DateTime(2026, 1, day, 1, 0, 0, DateTimeKind.Utc)),
+                Snapshot($"d{day}-pm", new DateTime(2026, 1, day, 13, 0, 0, DateTimeKind.Utc))
+            });
+
+        // Act
+        var decisions = RetentionSimulator.Apply(backups, Policy(latest: 2, daily: 3), TimeZoneInfo.Utc);
+
+        // Assert
+        decisions.Select(d => d.Backup.Id).Should().StartWith(new[] { "d9-pm", "d9-am" });
+        decisions.Where(d => d.Keep).Select(d => (d.Backup.Id, string.Join(",", d.Reasons))).Should().Equal(
+            ("d9-pm", "latest,daily"),
+            ("d9-am", "latest"),
+            ("d8-pm", "daily"),
+            ("d7-pm", "daily"));
+        decisions.Count(d => !d.Keep).Should().Be(6);
+    }
+
+    [Fact]
+    public void Apply_UsesIsoWeeksAndSpendsEachRuleOncePerPeriod()
+    {
+        // Arrange - 30 December 2025 falls in ISO week 1 of 2026, like 2 January
+        var backups = new[]
+        {
+            Snapshot("dec20", new DateTime(2025, 12, 20, 12, 0, 0, DateTimeKind.Utc)),
+            Snapshot("dec21", new DateTime(2025, 12, 21, 12, 0, 0, DateTimeKind.Utc)),
+            Snapshot("dec30", new DateTime(2025, 12, 30, 12, 0, 0, DateTimeKind.Utc)),
+            Snapshot("jan02", new DateTime(2026, 1, 2, 12, 0, 0, DateTimeKind.Utc))
+        };
+
+        // Act
+        var decisions = RetentionSimulator.Apply(backups, Policy(weekly: 2, monthly: 1, yearly: 2), TimeZoneInfo.Utc)
+            .ToDictionary(d => d.Backup.Id);
+
+        // Assert
+        decisions["jan02"].Reasons.Should().Equal("weekly", "monthly", "yearly");
+        decisions["dec30"].Reasons.Should().Equal("yearly");
+        decisions["dec21"].Reasons.Should().Equal("weekly");
+        decisions["dec20"].Keep.Should().BeFalse();
+    }
+
+    [Fact]
+    public void Apply_BucketsByCalendarDayInTheGivenTimeZone()
+    {
+        // Arrange - an hour apart, either side of midnight UTC but on the same day at UTC+2.
+        // The older snapshot stops either of them being the oldest, which restic always keeps.
+        var backups = new[]
+        {
+            Snapshot("older", new DateTime(2026, 1, 4, 12, 0, 0, DateTimeKind.Utc)),
+            Snapshot("before", new DateTime(2026, 1, 5, 23, 30, 0, DateTimeKind.Utc)),
+            Snapshot("after", new DateTime(2026, 1, 6, 0, 30, 0, DateTimeKind.Utc))
+        };
+        var utcPlusTwo = TimeZoneInfo.CreateCustomTimeZone("UTC+2", TimeSpan.FromHours(2), "UTC+2", "UTC+2");
+
+        // Act
+        var inUtc = RetentionSimulator.Apply(backups, Policy(daily: 7), TimeZoneInfo.Utc);
+        var inUtcPlusTwo = RetentionSimulator.Apply(backups, Policy(daily: 7), utcPlusTwo);
+
+        // Assert
+        inUtc.Should().OnlyContain(d => d.Keep);
+        inUtcPlusTwo.Where(d => d.Keep).Select(d => d.Backup.Id).Should().Equal("after", "older");
+    }
+
+    [Fact]
+    public void Apply_KeepsOldestSnapshot_WhileARuleHasCountLeft()
+    {
+        // Arrange - two snapshots a day for two days, fewer days than the daily count
+        var backups = new[]
+        {
+            Snapshot("d1-am", new DateTime(2026, 1, 1, 1, 0, 0, DateTimeKind.Utc)),
+            Snapshot("d1-pm", new DateTime(2026, 1, 1, 13, 0, 0, DateTimeKind.Utc)),
+            Snapshot("d2-am", new DateTime(2026, 1, 2, 1, 0, 0, DateTimeKind.Utc)),
+            Snapshot("d2-pm", new DateTime(2026, 1, 2, 13, 0, 0, DateTimeKind.Utc))
+        };
+
+        // Act
+        var decisions = RetentionSimulator.Apply(backups, Policy(daily: 7), TimeZoneInfo.Utc);
+
+        // Assert - like restic, the first day's oldest snapshot is kept as well as its newest
+        decisions.Where(d => d.Keep).Select(d => d.Backup.Id).Should().Equal("d2-pm", "d1-pm", "d1-am");
+        decisions.Single(d => d.Backup.Id == "d1-am").Reasons.Should().Equal("daily");
+    }
+
+    [Fact]
+    public void Apply_CountsEachHostAndPathSetSeparately()
+    {
+        // Arrange - restic groups by host and by the sorted snapshot paths
+        var backups = new[]
+        {
+            Snapshot("data-old", new DateTime(2026, 1, 1, 12, 0, 0, DateTimeKind.Utc), "/data", "/etc"),
+            Snapshot("photos", new DateTime(2026, 1, 2, 12, 0, 0, DateTimeKind.Utc), "/photos"),
+            Snapshot("data-mid", new DateTime(2026, 1, 3, 12, 0, 0, DateTimeKind.Utc), "/data", "/etc"),
+            Snapshot("data-new", new DateTime(2026, 1, 4, 12, 0, 0, DateTimeKind.Utc), "/etc", "/data")
+        };
+
+        // Act
+        var decisions = RetentionSimulator.Apply(backups, Policy(latest: 1), TimeZoneInfo.Utc);
+
+        // Assert - each group keeps its newest snapshot; "photos" is also its group's oldest
+        decisions.Select(d => d.Backup.Id).Should().Equal("data-new", "data-mid", "photos", "data-old");
+        decisions.Where(d => d.Keep).Select(d => d.Backup.Id).Should().Equal("data-new", "photos");
+    }
+}
@@ -0,0 +1,88 @@
+using BackupChrono.Core.ValueObjects;
+using BackupChrono.Infrastructure.Scheduling;
+using FluentAssertions;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Infrastructure.Scheduling;
+
+public class CronScheduleTests
+{
+    [Theory]
+    [InlineData("0 0 2 * * *", "0 0 2 * * ?")]
+    [InlineData("0 0 2 ? * MON", "0 0 2 ? * MON")]
+    [InlineData("0 2 * * *", "0 2 * * *")]
+    public void Normalize_ReplacesDoubleWildcardDayFields(string input, string expected)
+    {
+        CronSchedule.Normalize(input).Should().Be(expected);
+    }
+
+    [Fact]
+    public void GetOccurrences_ListsFireTimesInRangeUpToLimit()
+    {
+        // Arrange
+        var from = new DateTimeOffset(2026, 1, 5, 0, 0, 0, TimeSpan.Zero);
+
+        // Act
+        var all = CronSchedule.GetOccurrences("0 0 * * * *", from, from.AddHours(6), 100);
+        var limited = CronSchedule.GetOccurrences("0 0 * * * *", from, from.AddHours(6), 2);
+
+        // Assert
+        all.Should().HaveCount(6);
+        all.Should().OnlyContain(o => o > from && o <= from.AddHours(6));
+        limited.Should().HaveCount(2);
+    }
+
+    [Fact]
+    public void GetOccurrences_ThrowsForInvalidExpression()
+    {
+        var act = () => CronSchedule.GetOccurrences("not-a-cron", DateTimeOffset.UtcNow, DateTimeOffset.UtcNow.AddDays(1), 10);
+
+        act.Should().Throw<FormatException>();
+    }
+
+    [Theory]
+    [InlineData(3, 2, 6, true)]
+    [InlineData(6, 2, 6, false)]
+    [InlineData(23, 22, 4, true)] // Window wrapping past midnight
+    [InlineData(12, 22, 4, false)]
+    [InlineData(12, null, 4, false)]
+    [InlineData(12, null, null, true)]
+    public void IsWithinWindow_ReadsWindowInLocalTime(int hour, int? startHour, int? endHour, bool expected)
+    {
+        // Arrange
+        var time = new DateTimeOffset(new DateTime(2026, 1, 5, hour, 0, 0, DateTimeKind.Local));
+        TimeOnly? start = startHour.HasValue ? new TimeOnly(startHour.Value, 0) : null;
+        TimeOnly? end = endHour.HasValue ? new TimeOnly(endHour.Value, 0) : null;
+
+        // Act & Assert
+        CronSchedule.IsWithinWindow(time, start, end).Should().Be(expected);
+    }
+
+    [Fact]
+    public void GetBlockedReason_AppliesRestrictionsFromEveryLevel()
+    {
+        // Arrange: Monday 5 January 2026, 03:00 server time
+        var time = new DateTimeOffset(new DateTime(2026, 1, 5, 3, 0, 0, DateTimeKind.Local));
+        var global = new Schedule
+        {
+            CronExpression = "0 2 * * *",
+            BlackoutPeriods = new List<BlackoutPeriod>
+            {
+                new() { Start = new DateOnly(2025, 12, 24), End = new DateOnly(2026, 1, 1), Reason = "Holidays" }
+            }
+        };
+        var device = new Schedule
+        {
+            CronExpression = "0 0 3 * * ?",
+            BlockedHours = new Dictionary<DayOfWeek, List<int>> { [DayOfWeek.Monday] = new() { 3, 4 } }
+        };
+        var share = new Schedule { CronExpression = "0 0 3 * * ?", TimeWindowStart = new TimeOnly(4, 0), TimeWindowEnd = new TimeOnly(6, 0) };
+
+        // Act & Assert
+        CronSchedule.GetBlockedReason(time, new Schedule?[] { global, null }).Should().BeNull();
+        CronSchedule.GetBlockedReason(time, new Schedule?[] { global, device }).Should().Be("Blocked hour (Monday 03:00)");
+        CronSchedule.GetBlockedReason(time.AddHours(2), new Schedule?[] { global, share }).Should().BeNull();
+        CronSchedule.GetBlockedReason(time, new Schedule?[] { global, share }).Should().Be("Outside the backup window");
+        CronSchedule.GetBlockedReason(time.AddDays(-5), new Schedule?[] { global }).Should().Be("Blackout period: Holidays");
+    }
+}
@@ -1,3 +1,4 @@
+using BackupChrono.Core.DTOs;
 using BackupChrono.Core.Entities;
 using BackupChrono.Core.Interfaces;
 using BackupChrono.Core.ValueObjects;
@@ -19,6 +20,7 @@ public class BackupOrchestratorTests
     private readonly Mock<IStorageMonitor> _mockStorageMonitor;
     private readonly Mock<IBackupJobRepository> _mockBackupJobRepository;
     private readonly Mock<IBackupLogService> _mockBackupLogService;
+    private readonly Mock<ISettingsService> _mockSettingsService;
     private readonly Mock<ILogger<BackupOrchestrator>> _mockLogger;
     private readonly BackupOrchestrator _orchestrator;
 
@@ -31,6 +33,8 @@ public class BackupOrchestratorTests
         _mockStorageMonitor = new Mock<IStorageMonitor>();
         _mockBackupJobRepository = new Mock<IBackupJobRepository>();
         _mockBackupLogService = new Mock<IBackupLogService>();
+        _mockSettingsService = new Mock<ISettingsService>();
+        _mockSettingsService.Setup(x => x.GetGlobalSettings()).ReturnsAsync(new GlobalSettings());
         _mockLogger = new Mock<ILogger<BackupOrchestrator>>();
 
         var resticOptions = Options.Create(new ResticOptions
@@ -46,6 +50,7 @@ public class BackupOrchestratorTests
             _mockStorageMonitor.Object,
             _mockBackupJobRepository.Object,
             _mockBackupLogService.Object,
+            _mockSettingsService.Object,
             _mockLogger.Object,
             resticOptions
         );
@@ -199,6 +204,55 @@ public class BackupOrchestratorTests
         _mockShareService.Verify(x => x.GetShare(shareId), Times.Once);
     }
 
+    [Fact]
+    public async Task ExecuteShareBackup_UsesGlobalRulesAndCompression_WhenDeviceAndShareHaveNone()
+    {
+        // Arrange
+        var deviceId = Guid.NewGuid();
+        var device = CreateTestDevice(deviceId, "test-device");
+        var share = CreateTestShare(deviceId, "test-share");
+        share.IncludeExcludeRules = null;
+        var globalRules = new IncludeExcludeRules { ExcludePatterns = new[] { "*.iso" } };
+
+        _mockDeviceService.Setup(x => x.GetDevice(deviceId)).ReturnsAsync(device);
+        _mockShareService.Setup(x => x.GetShare(share.Id)).ReturnsAsync(share);
+        _mockSettingsService.Setup(x => x.GetGlobalSettings()).ReturnsAsync(new GlobalSettings
+        {
+            IncludeExcludeRules = globalRules,
+            Compression = CompressionMode.Max
+        });
+
+        var mockPlugin = new Mock<IProtocolPlugin>();
+        mockPlugin.Setup(x => x.MountShare(device, share)).ReturnsAsync("/mnt/test-share");
+        _mockPluginLoader.Setup(x => x.GetPlugin(device.Protocol)).Returns(mockPlugin.Object);
+        _mockStorageMonitor.Setup(x => x.GetStorageStatus(It.IsAny<string>()))
+            .ReturnsAsync(new StorageStatus { Path = "/repositories", ThresholdLevel = StorageThresholdLevel.Normal });
+        _mockResticService.Setup(x => x.RepositoryExists(It.IsAny<string>())).ReturnsAsync(true);
+
+        IncludeExcludeRules? usedRules = null;
+        CompressionMode? usedCompression = null;
+        _mockResticService
+            .Setup(x => x.CreateBackup(
+                It.IsAny<string>(), device, share, "/mnt/test-share",
+                It.IsAny<IncludeExcludeRules>(), It.IsAny<CompressionMode>(),
+                It.IsAny<Action<BackupProgress>?>(), It.IsAny<Action<string>?>(), It.IsAny<Action<string>?>(),
+                It.IsAny<CancellationToken>()))
+            .Callback((string _, Device _, Share? _, string _, IncludeExcludeRules rules, CompressionMode compression,
+                Action<BackupProgress>? _, Action<string>? _, Action<string>? _, CancellationToken _) =>
+            {
+                usedRules = rules;
+                usedCompression = compression;
+            })
+            .ThrowsAsync(new Exception("Backup failed")); // Stop after the restic call
+
+        // Act
+        await _orchestrator.ExecuteShareBackup(deviceId, share.Id, BackupJobType.Manual);
+
+        // Assert
+        usedRules.Should().BeSameAs(globalRules);
+        usedCompression.Should().Be(CompressionMode.Max);
+    }
+
     [Fact]
     public async Task CancelJob_MarksJobAsCancelled()
     {
@@ -0,0 +1,229 @@
+using BackupChrono.Core.DTOs;
+using BackupChrono.Core.Entities;
+using BackupChrono.Core.Interfaces;
+using BackupChrono.Core.ValueObjects;
+using BackupChrono.Infrastructure.Services;
+using FluentAssertions;
+using Microsoft.Extensions.Logging;
+using Microsoft.Extensions.Options;
+using Moq;
+using Xunit;
+
+namespace BackupChrono.UnitTests.Infrastructure.Services;
+
+public class RestoreOrchestratorTests
+{
+    private readonly Mock<IResticService> _mockResticService;
+    private readonly Mock<IDeviceService> _mockDeviceService;
+    private readonly Mock<IShareService> _mockShareService;
+    private readonly Mock<IProtocolPluginLoader> _mockPluginLoader;
+    private readonly Mock<ILogger<RestoreOrchestrator>> _mockLogger;
+    private readonly RestoreOrchestrator _orchestrator;
+    private readonly TaskCompletionSource<RestoreProgress> _finished = new();
+
+    public RestoreOrchestratorTests()
+    {
+        _mockResticService = new Mock<IResticService>();
+        _mockDeviceService = new Mock<IDeviceService>();
+        _mockShareService = new Mock<IShareService>();
+        _mockPluginLoader = new Mock<IProtocolPluginLoader>();
+        _mockLogger = new Mock<ILogger<RestoreOrchestrator>>();
+
+        var resticOptions = Options.Create(new ResticOptions { RepositoryBasePath = "./repositories" });
+        _orchestrator = new RestoreOrchestrator(
+            _mockResticService.Object,
+            _mockDeviceService.Object,
+            _mockShareService.Object,
+            _mockPluginLoader.Object,
+            _mockLogger.Object,
+            resticOptions);
+
+        _orchestrator.ProgressUpdated += (_, progress) =>
+        {
+            if (progress.CompletedAt.HasValue)
+            {
+                _finished.TrySetResult(progress);
+            }
+        };
+    }
+
+    private void SetupRestore(Func<Action<RestoreProgress>?, Task> behaviour)
+    {
+        _mockResticService
+            .Setup(s => s.RestoreBackup(
+                It.IsAny<string>(),
+                It.IsAny<string>(),
+                It.IsAny<string[]?>(),
+                It.IsAny<string?>(),
+                It.IsAny<Action<RestoreProgress>?>(),
+                It.IsAny<CancellationToken>()))
+            .Returns((string _, string _, string[]? _, string? _, Action<RestoreProgress>? onProgress, CancellationToken _) =>
+                behaviour(onProgress));
+    }
+
+    [Fact]
+    public async Task StartRestore_ReturnsRunningRestore_AndTracksItUntilCompleted()
+    {
+        // Arrange
+        var deviceId = Guid.NewGuid();
+        var shareId = Guid.NewGuid();
+        SetupRestore(onProgress =>
+        {
+            onProgress?.Invoke(new RestoreProgress
+            {
+                RestoreId = "",
+                FilesRestored = 2,
+                TotalFiles = 4,
+                BytesRestored = 50,
+                TotalBytes = 100,
+                PercentComplete = 50
+            });
+            return Task.CompletedTask;
+        });
+
+        // Act
+        var initial = await _orchestrator.StartRestore(deviceId, shareId, "abc123", "/restores/abc123");
+        var finished = await _finished.Task.WaitAsync(TimeSpan.FromSeconds(5));
+
+        // Assert
+        initial.Status.Should().Be("Running");
+        initial.RestoreId.Should().NotBeNullOrEmpty();
+        finished.RestoreId.Should().Be(initial.RestoreId);
+        finished.Status.Should().Be("Completed");
+        finished.PercentComplete.Should().Be(100);
+        finished.FilesRestored.Should().Be(4);
+        finished.BytesRestored.Should().Be(100);
+
+        var tracked = await _orchestrator.GetRestoreProgress(initial.RestoreId);
+        tracked!.Status.Should().Be("Completed");
+        _mockResticService.Verify(s => s.RestoreBackup(
+            "abc123",
+            "/restores/abc123",
+            null,
+            It.Is<string?>(p => p!.Contains(deviceId.ToString()) && p.Contains(shareId.ToString())),
+            It.IsAny<Action<RestoreProgress>?>(),
+            It.IsAny<CancellationToken>()), Times.Once);
+    }
+
+    [Fact]
+    public async Task StartRestore_MarksRestoreFailed_WhenResticFails()
+    {
+        // Arrange
+        SetupRestore(_ => throw new InvalidOperationException("disk full"));
+
+        // Act
+        var initial = await _orchestrator.StartRestore(Guid.NewGuid(), Guid.NewGuid(), "abc123", "/restores/abc123");
+        var finished = await _finished.Task.WaitAsync(TimeSpan.FromSeconds(5));
+
+        // Assert
+        finished.RestoreId.Should().Be(initial.RestoreId);
+        finished.Status.Should().Be("Failed");
+        finished.ErrorMessage.Should().Be("disk full");
+    }
+
+    [Fact]
+    public async Task GetRestoreProgress_ReturnsNull_ForUnknownRestore()
+    {
+        // Act
+        var progress = await _orchestrator.GetRestoreProgress("missing");
+
+        // Assert
+        progress.Should().BeNull();
+    }
+
+    [Fact]
+    public async Task ListRestores_ReturnsNewestFirst()
+    {
+        // Arrange
+        var pending = new TaskCompletionSource();
+        SetupRestore(_ => pending.Task);
+
+        var first = await _orchestrator.StartRestore(Guid.NewGuid(), Guid.NewGuid(), "older", "/restores/older");
+        await Task.Delay(10);
+        var second = await _orchestrator.StartRestore(Guid.NewGuid(), Guid.NewGuid(), "newer", "/restores/newer");
+
+        // Act
+        var restores = (await _orchestrator.ListRestores()).ToList();
+
+        // Assert
+        restores.Select(r => r.RestoreId).Should().Equal(second.RestoreId, first.RestoreId);
+        pending.SetResult();
+    }
+
+    private Mock<IProtocolPlugin> SetupSource(Guid deviceId, Guid shareId, bool online)
+    {
+        var device = new Device
+        {
+            Id = deviceId,
+            Name = "nas",
+            Protocol = ProtocolType.SMB,
+            Host = "192.168.1.100",
+            Username = "testuser",
+            Password = new EncryptedCredential("testpass")
+        };
+        var share = new Share { Id = shareId, DeviceId = deviceId, Name = "docs", Path = "/docs" };
+
+        var plugin = new Mock<IProtocolPlugin>();
+        plugin.Setup(p => p.TestConnection(device)).ReturnsAsync(online);
+        plugin.Setup(p => p.MountShare(device, share)).ReturnsAsync("/mnt/nas-docs");
+
+        _mockDeviceService.Setup(s => s.GetDevice(deviceId)).ReturnsAsync(device);
+        _mockShareService.Setup(s => s.GetShare(shareId)).ReturnsAsync(share);
+        _mockPluginLoader.Setup(l => l.GetPlugin(ProtocolType.SMB)).Returns(plugin.Object);
+        return plugin;
+    }
+
+    [Fact]
+    public async Task StartSourceRestore_RestoresIntoMountedShare_AndUnmountsAfterwards()
+    {
+        // Arrange
+        var deviceId = Guid.NewGuid();
+        var shareId = Guid.NewGuid();
+        var plugin = SetupSource(deviceId, shareId, online: true);
+
+        _mockResticService
+            .Setup(s => s.GetSnapshotMetadata("abc123", It.IsAny<string?>()))
+            .ReturnsAsync(new SnapshotMetadata
+            {
+                Id = "abc123",
+                Hostname = "server",
+                Paths = new List<string> { "/mnt/backup-time-mount" },
+                Time = DateTime.UtcNow
+            });
+
+        // Act
+        var initial = await _orchestrator.StartSourceRestore(deviceId, shareId, "abc123", RestoreConflictMode.Rename, new[] { "/mnt/backup-time-mount/a.txt" });
+        var finished = await _finished.Task.WaitAsync(TimeSpan.FromSeconds(5));
+
+        // Assert
+        initial.TargetPath.Should().Be("192.168.1.100:/docs");
+        finished.Status.Should().Be("Completed");
+        _mockResticService.Verify(s => s.RestoreToSource(
+            "abc123",
+            "/mnt/backup-time-mount",
+            "/mnt/nas-docs",
+            RestoreConflictMode.Rename,
+            It.Is<string[]?>(p => p!.Single() == "/mnt/backup-time-mount/a.txt"),
+            It.IsAny<string?>(),
+            It.IsAny<Action<RestoreProgress>?>(),
+            It.IsAny<CancellationToken>()), Times.Once);
+        plugin.Verify(p => p.UnmountShare("/mnt/nas-docs"), Times.Once);
+    }
+
+    [Fact]
+    public async Task StartSourceRestore_Throws_WhenSourceIsOffline()
+    {
+        // Arrange
+        var deviceId = Guid.NewGuid();
+        var shareId = Guid.NewGuid();
+        var plugin = SetupSource(deviceId, shareId, online: false);
+
+        // Act
+        var act = () => _orchestrator.StartSourceRestore(deviceId, shareId, "abc123", RestoreConflictMode.Overwrite);
+
+        // Assert
+        await act.Should().ThrowAsync<InvalidOperationException>().WithMessage("*192.168.1.100*not reachable*");
+        plugin.Verify(p => p.MountShare(It.IsAny<Device>(), It.IsAny<Share>()), Times.Never);
+        (await _orchestrator.ListRestores()).Should().BeEmpty();
+    }
+}
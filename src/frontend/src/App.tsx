@@ -1,8 +1,9 @@
 ﻿import { BrowserRouter, Routes, Route } from 'react-router-dom';
 import { LegacyFilesRedirect } from './components/LegacyFilesRedirect';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { useEffect, useState } from 'react';
+import { useEffect } from 'react';
 import { signalRService } from './services/signalr';
+import { useLiveQueryInvalidation } from './hooks/useLiveQueryInvalidation';
 import Dashboard from './pages/Dashboard';
 import DeviceDetail from './pages/DeviceDetail';
 import { BackupsListPage } from './pages/BackupsList';
@@ -10,20 +11,36 @@ import { DevicesPage } from './pages/DevicesPage';
 import { FileBrowserPage } from './pages/FileBrowserPage';
 import { BackupLogViewerPage } from './pages/BackupLogViewerPage';
 import { BackupOverviewPage } from './pages/BackupOverviewPage';
-import { ErrorNotification } from './components/ErrorNotification';
+import { RestoreWizardPage } from './pages/RestoreWizardPage';
+import { RestoresPage } from './pages/RestoresPage';
+import { SchedulePage } from './pages/SchedulePage';
+import { SettingsPage } from './pages/SettingsPage';
+import { SnapshotDiffPage } from './pages/SnapshotDiffPage';
+import { DeviceSearchPage } from './pages/DeviceSearchPage';
+import { FileDiffPage } from './pages/FileDiffPage';
+import { ConnectionStatus } from './components/ConnectionStatus';
 import { Sidebar } from './components/Sidebar';
 import './App.css';
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+  defaultOptions: {
+    queries: {
+      // Live data is pushed in through SignalR invalidation, so cached results stay usable between events
+      staleTime: 30000,
+    },
+  },
+});
 
-function App() {
-  const [signalRError, setSignalRError] = useState<string | null>(null);
+function LiveQueryInvalidation() {
+  useLiveQueryInvalidation();
+  return null;
+}
 
+function App() {
   useEffect(() => {
-    // Connect to SignalR when app loads
+    // Connect to SignalR when app loads; failures show in the header and are retried by the service
     signalRService.connect().catch((err) => {
       console.error('Failed to connect to SignalR:', err);
-      setSignalRError('Failed to connect to real-time updates. Backup progress will not update automatically.');
     });
 
     return () => {
@@ -34,6 +51,7 @@ function App() {
 
   return (
     <QueryClientProvider client={queryClient}>
+      <LiveQueryInvalidation />
       <BrowserRouter>
         <div className="min-h-screen bg-background text-foreground flex">
           {/* Sidebar */}
@@ -41,14 +59,11 @@ function App() {
 
           {/* Main Content */}
           <div className="flex-1 ml-64 min-h-screen bg-background">
-            {signalRError && (
-              <ErrorNotification
-                message={signalRError}
-                onClose={() => setSignalRError(null)}
-              />
-            )}
+            <header className="flex items-center justify-end h-14 px-8 border-b border-border">
+              <ConnectionStatus />
+            </header>
 
-            <main className="p-8 min-h-screen">
+            <main className="p-8">
               <Routes>
                 <Route path="/" element={<Dashboard />} />
                 <Route path="/backups" element={<BackupOverviewPage />} />
@@ -56,11 +71,18 @@ function App() {
                 <Route path="/devices" element={<DevicesPage />} />
                 <Route path="/devices/:deviceId" element={<DeviceDetail />} />
                 <Route path="/devices/:deviceId/backups" element={<BackupsListPage />} />
+                <Route path="/devices/:deviceId/backups/compare" element={<SnapshotDiffPage />} />
+                <Route path="/devices/:deviceId/search" element={<DeviceSearchPage />} />
+                <Route path="/devices/:deviceId/files/diff" element={<FileDiffPage />} />
                 <Route path="/devices/:deviceId/backups/:backupId/browse" element={<FileBrowserPage />} />
                 <Route path="/backups/:backupId/browse" element={<FileBrowserPage />} />
                 {/* Legacy deep-link support */}
                 <Route path="/backups/:backupId/files" element={<LegacyFilesRedirect />} />
                 <Route path="/backups/:backupId/logs" element={<BackupLogViewerPage />} />
+                <Route path="/restore" element={<RestoreWizardPage />} />
+                <Route path="/restores" element={<RestoresPage />} />
+                <Route path="/schedule" element={<SchedulePage />} />
+                <Route path="/settings" element={<SettingsPage />} />
               </Routes>
             </main>
           </div>
@@ -15,9 +15,11 @@ interface ActiveJob {
 interface ActiveJobsTableProps {
   jobs: ActiveJob[];
   onStopJob?: (jobId: string) => void;
+  // Live updates are down, so progress is the last value received
+  stale?: boolean;
 }
 
-export function ActiveJobsTable({ jobs, onStopJob = () => {} }: ActiveJobsTableProps) {
+export function ActiveJobsTable({ jobs, onStopJob = () => {}, stale = false }: ActiveJobsTableProps) {
   if (jobs.length === 0) {
     return (
       <div className="bg-card rounded-lg shadow-sm p-8 border border-border">
@@ -86,7 +88,10 @@ export function ActiveJobsTable({ jobs, onStopJob = () => {} }: ActiveJobsTableP
               </td>
               
               <td className="px-4 py-3">
-                <div className="flex items-center gap-2">
+                <div
+                  className={`flex items-center gap-2 ${stale ? 'opacity-50' : ''}`}
+                  title={stale ? 'Last known progress - live updates are reconnecting' : undefined}
+                >
                   <div className="flex-1 bg-muted rounded-full h-2 overflow-hidden">
                     <div
                       className="bg-primary h-full transition-all duration-300"
@@ -96,6 +101,7 @@ export function ActiveJobsTable({ jobs, onStopJob = () => {} }: ActiveJobsTableP
                   <span className="text-sm font-medium text-foreground min-w-[3rem] text-right">
                     {job.progress}%
                   </span>
+                  {stale && <span className="text-xs text-status-warning">stale</span>}
                 </div>
               </td>
               
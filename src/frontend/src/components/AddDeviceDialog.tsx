@@ -6,8 +6,14 @@ import {
   ProtocolType,
   RetentionPolicy,
   Schedule,
+  ScheduleRestrictions,
 } from '../types';
 import { ErrorDisplay } from './ErrorDisplay';
+import { useGlobalSettings } from '../hooks/useGlobalSettings';
+import { validateQuartzCron } from '../utils/cron';
+import { pickRestrictions, validateRestrictions } from '../utils/scheduleRestrictions';
+import { ScheduleEditor } from './ScheduleEditor';
+import { BackupWindowEditor } from './BackupWindowEditor';
 
 interface AddDeviceDialogProps {
   open: boolean;
@@ -22,15 +28,6 @@ const protocolDefaults: Record<ProtocolType, number> = {
   [ProtocolType.Rsync]: 873,
 };
 
-const GLOBAL_DEFAULT_SCHEDULE = '0 2 * * *';
-const GLOBAL_DEFAULT_RETENTION = {
-  latest: 7,
-  daily: 7,
-  weekly: 4,
-  monthly: 12,
-  yearly: 3,
-};
-
 export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: AddDeviceDialogProps) {
   const [deviceName, setDeviceName] = useState('');
   const [showProtocolDropdown, setShowProtocolDropdown] = useState(false);
@@ -42,6 +39,7 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
   const [wolEnabled, setWolEnabled] = useState(false);
   const [macAddress, setMacAddress] = useState('');
   const [schedule, setSchedule] = useState('');
+  const [restrictions, setRestrictions] = useState<ScheduleRestrictions>({});
   const [retentionLatest, setRetentionLatest] = useState('');
   const [retentionDaily, setRetentionDaily] = useState('');
   const [retentionWeekly, setRetentionWeekly] = useState('');
@@ -56,6 +54,9 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
   const [showRetention, setShowRetention] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [loadingDevice, setLoadingDevice] = useState(false);
+  const { settings: globalSettings } = useGlobalSettings(open);
+  const globalSchedule = globalSettings.schedule.cronExpression;
+  const globalRetention = globalSettings.retentionPolicy;
   const isEditing = !!editingDeviceId;
 
   const resetForm = () => {
@@ -68,6 +69,7 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
     setWolEnabled(false);
     setMacAddress('');
     setSchedule('');
+    setRestrictions({});
     setRetentionLatest('');
     setRetentionDaily('');
     setRetentionWeekly('');
@@ -121,6 +123,7 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
     setWolEnabled(device.wakeOnLanEnabled);
     setMacAddress(device.wakeOnLanMacAddress || '');
     setSchedule(device.schedule?.cronExpression || '');
+    setRestrictions(pickRestrictions(device.schedule));
     setRetentionLatest(device.retentionPolicy?.keepLatest?.toString() || '');
     setRetentionDaily(device.retentionPolicy?.keepDaily?.toString() || '');
     setRetentionWeekly(device.retentionPolicy?.keepWeekly?.toString() || '');
@@ -190,18 +193,19 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
     return errors;
   }, [deviceName, host, port, username, password, macAddress, isEditing, touched, validateMac]);
 
-  const isFormValid = deviceName.trim() && host.trim() && username.trim() && (password.trim() || isEditing) && (!wolEnabled || macAddress.trim()) && Object.keys(validationErrors).length === 0;
+  const isFormValid = deviceName.trim() && host.trim() && username.trim() && (password.trim() || isEditing) && (!wolEnabled || macAddress.trim()) && Object.keys(validationErrors).length === 0 && !validateQuartzCron(schedule) &&
+    (!schedule.trim() || !validateRestrictions(restrictions));
 
-  const effectiveSchedule = schedule.trim() || `${GLOBAL_DEFAULT_SCHEDULE} (global)`;
+  const effectiveSchedule = schedule.trim() || `${globalSchedule} (global)`;
   const effectiveScheduleSource = schedule.trim() ? 'Device' : 'Global';
 
   const effectiveRetention = (() => {
     const parts = {
-      latest: retentionLatest.trim() || GLOBAL_DEFAULT_RETENTION.latest.toString(),
-      daily: retentionDaily.trim() || GLOBAL_DEFAULT_RETENTION.daily.toString(),
-      weekly: retentionWeekly.trim() || GLOBAL_DEFAULT_RETENTION.weekly.toString(),
-      monthly: retentionMonthly.trim() || GLOBAL_DEFAULT_RETENTION.monthly.toString(),
-      yearly: retentionYearly.trim() || GLOBAL_DEFAULT_RETENTION.yearly.toString(),
+      latest: retentionLatest.trim() || globalRetention.keepLatest.toString(),
+      daily: retentionDaily.trim() || globalRetention.keepDaily.toString(),
+      weekly: retentionWeekly.trim() || globalRetention.keepWeekly.toString(),
+      monthly: retentionMonthly.trim() || globalRetention.keepMonthly.toString(),
+      yearly: retentionYearly.trim() || globalRetention.keepYearly.toString(),
     };
     const source =
       retentionLatest || retentionDaily || retentionWeekly || retentionMonthly || retentionYearly
@@ -243,7 +247,7 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
   const buildSchedule = (): Schedule | undefined => {
     const cron = schedule.trim();
     if (!cron) return undefined;
-    return { cronExpression: cron };
+    return { ...restrictions, cronExpression: cron };
   };
 
   const buildPatterns = (value: string) =>
@@ -614,14 +618,31 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
                 {/* Schedule */}
                 <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">Device-Level Schedule</label>
-                  <input
-                    type="text"
+                  <ScheduleEditor
                     value={schedule}
-                    onChange={(e) => setSchedule(e.target.value)}
-                    placeholder={GLOBAL_DEFAULT_SCHEDULE}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-md text-sm text-gray-900 font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    onChange={setSchedule}
+                    inheritedLabel={`global default (${globalSchedule})`}
+                    restrictions={restrictions}
+                    inherited={[globalSettings.schedule]}
                   />
-                  <p className="text-xs text-gray-500 mt-1">Leave empty to use global default (2 AM daily)</p>
+                </div>
+
+                {/* Backup window and blackouts */}
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Backup Window &amp; Blackouts</label>
+                  {schedule.trim() ? (
+                    <BackupWindowEditor
+                      value={restrictions}
+                      onChange={setRestrictions}
+                      cronExpression={schedule}
+                      inherited={[{ label: 'Global', restrictions: globalSettings.schedule }]}
+                    />
+                  ) : (
+                    <p className="text-xs text-gray-500">
+                      Set a device schedule to give this device its own window, blocked hours or blackout dates.
+                      Global restrictions apply either way.
+                    </p>
+                  )}
                 </div>
 
                 {/* Retention */}
@@ -650,7 +671,7 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
                           type="number"
                           value={retentionLatest}
                           onChange={(e) => setRetentionLatest(e.target.value)}
-                          placeholder={GLOBAL_DEFAULT_RETENTION.latest.toString()}
+                          placeholder={globalRetention.keepLatest.toString()}
                           className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         />
                       </div>
@@ -660,7 +681,7 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
                           type="number"
                           value={retentionDaily}
                           onChange={(e) => setRetentionDaily(e.target.value)}
-                          placeholder={GLOBAL_DEFAULT_RETENTION.daily.toString()}
+                          placeholder={globalRetention.keepDaily.toString()}
                           className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         />
                       </div>
@@ -670,7 +691,7 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
                           type="number"
                           value={retentionWeekly}
                           onChange={(e) => setRetentionWeekly(e.target.value)}
-                          placeholder={GLOBAL_DEFAULT_RETENTION.weekly.toString()}
+                          placeholder={globalRetention.keepWeekly.toString()}
                           className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         />
                       </div>
@@ -680,7 +701,7 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
                           type="number"
                           value={retentionMonthly}
                           onChange={(e) => setRetentionMonthly(e.target.value)}
-                          placeholder={GLOBAL_DEFAULT_RETENTION.monthly.toString()}
+                          placeholder={globalRetention.keepMonthly.toString()}
                           className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         />
                       </div>
@@ -690,7 +711,7 @@ export function AddDeviceDialog({ open, onClose, onCreated, editingDeviceId }: A
                           type="number"
                           value={retentionYearly}
                           onChange={(e) => setRetentionYearly(e.target.value)}
-                          placeholder={GLOBAL_DEFAULT_RETENTION.yearly.toString()}
+                          placeholder={globalRetention.keepYearly.toString()}
                           className="w-full px-2 py-1 border border-gray-300 rounded text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
                         />
                       </div>
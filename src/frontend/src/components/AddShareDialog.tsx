@@ -1,13 +1,20 @@
 import React, { useState } from 'react';
-import cronstrue from 'cronstrue';
-import { ShareCreateDto, Schedule, RetentionPolicy } from '../types';
+import { ShareCreateDto, Schedule, ScheduleRestrictions, RetentionPolicy, IncludeExcludeRules } from '../types';
+import { GlobalSettings } from '../types/settings';
 import { shareService } from '../services/deviceService';
+import { useGlobalSettings } from '../hooks/useGlobalSettings';
+import { describeCron, validateQuartzCron } from '../utils/cron';
+import { pickRestrictions, validateRestrictions } from '../utils/scheduleRestrictions';
+import { ScheduleEditor } from './ScheduleEditor';
+import { BackupWindowEditor } from './BackupWindowEditor';
+import { RetentionSimulator } from './RetentionSimulator';
 
 interface DeviceLike {
   id: string;
   name: string;
   schedule?: Schedule;
   retentionPolicy?: RetentionPolicy;
+  includeExcludeRules?: IncludeExcludeRules;
 }
 
 interface ShareLike {
@@ -33,18 +40,41 @@ interface AddShareDialogProps {
   editingShare?: ShareLike | null;
 }
 
-// Mock device-level inherited config
-const getDeviceConfig = (device: DeviceLike) => ({
-  schedule: device.schedule || '0 2 * * *',
-  scheduleDesc: device.schedule ? 'Device schedule' : '2 AM daily (global)',
-  retention: {
-    latest: device.retentionPolicy?.keepLatest ?? 7,
-    daily: device.retentionPolicy?.keepDaily ?? 7,
-    weekly: device.retentionPolicy?.keepWeekly ?? 4,
-    monthly: 12,
-    yearly: 3,
-  },
-});
+type ConfigSource = 'Global' | 'Device' | 'Share';
+
+// Configuration inherited by the share (device overrides > global defaults)
+const getInheritedConfig = (device: DeviceLike, global: GlobalSettings) => {
+  const rules = device.includeExcludeRules ?? global.includeExcludeRules;
+  return {
+    cronExpression: device.schedule?.cronExpression ?? global.schedule.cronExpression,
+    scheduleDesc: device.schedule
+      ? `${device.schedule.cronExpression} (device)`
+      : `${global.schedule.cronExpression} (global)`,
+    scheduleSource: (device.schedule ? 'Device' : 'Global') as ConfigSource,
+    retention: {
+      latest: device.retentionPolicy?.keepLatest ?? global.retentionPolicy.keepLatest,
+      daily: device.retentionPolicy?.keepDaily ?? global.retentionPolicy.keepDaily,
+      weekly: device.retentionPolicy?.keepWeekly ?? global.retentionPolicy.keepWeekly,
+      monthly: device.retentionPolicy?.keepMonthly ?? global.retentionPolicy.keepMonthly,
+      yearly: device.retentionPolicy?.keepYearly ?? global.retentionPolicy.keepYearly,
+    },
+    retentionSource: (device.retentionPolicy ? 'Device' : 'Global') as ConfigSource,
+    includeCount: rules.includeOnlyRegex?.length ?? 0,
+    excludeCount: (rules.excludePatterns?.length ?? 0) + (rules.excludeRegex?.length ?? 0),
+    patternsSource: (device.includeExcludeRules ? 'Device' : 'Global') as ConfigSource,
+  };
+};
+
+const sourceBadgeClass = (source: ConfigSource) => {
+  switch (source) {
+    case 'Share':
+      return 'bg-green-100 border-green-300 text-green-700';
+    case 'Device':
+      return 'bg-blue-100 border-blue-300 text-blue-700';
+    default:
+      return 'bg-white border-gray-300 text-gray-700';
+  }
+};
 
 export function AddShareDialog({ open, onClose, device, onCreated, editingShare }: AddShareDialogProps) {
   // Basic fields (initialize from editingShare if present)
@@ -54,6 +84,7 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
 
   // Configuration overrides
   const [schedule, setSchedule] = useState(() => editingShare?.schedule?.cronExpression ?? '');
+  const [restrictions, setRestrictions] = useState<ScheduleRestrictions>(() => pickRestrictions(editingShare?.schedule));
   const [retentionLatest, setRetentionLatest] = useState(() => editingShare?.retentionPolicy?.keepLatest?.toString() ?? '');
   const [retentionDaily, setRetentionDaily] = useState(() => editingShare?.retentionPolicy?.keepDaily?.toString() ?? '');
   const [retentionWeekly, setRetentionWeekly] = useState(() => editingShare?.retentionPolicy?.keepWeekly?.toString() ?? '');
@@ -71,6 +102,8 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
   const [touched, setTouched] = useState<Record<string, boolean>>({});
   const [error, setError] = useState<string | null>(null);
 
+  const { settings: globalSettings } = useGlobalSettings(open);
+
   const isEditing = !!editingShare;
 
   const resetForm = () => {
@@ -78,6 +111,7 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
     setSharePath('');
     setDescription('');
     setSchedule('');
+    setRestrictions({});
     setRetentionLatest('');
     setRetentionDaily('');
     setRetentionWeekly('');
@@ -96,7 +130,7 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
 
   if (!device) return null;
 
-  const deviceConfig = getDeviceConfig(device);
+  const deviceConfig = getInheritedConfig(device, globalSettings);
 
   const validateShareName = (value: string) => {
     const trimmed = value.trim();
@@ -112,71 +146,17 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
     return '';
   };
 
-  const validateCronExpression = (value: string) => {
-    const trimmed = value.trim();
-    if (!trimmed) return '';
-
-    const parts = trimmed.split(/\s+/);
-    if (parts.length < 6 || parts.length > 7) return 'Use 6 or 7-part Quartz cron (sec min hour day month day-of-week [year])';
-
-    const secondsMinutes = /^([0-5]?\d|\*|\*\/[1-9]\d*|[0-5]?\d\/[1-9]\d*|[0-5]?\d-[0-5]?\d|([0-5]?\d,)+[0-5]?\d)$/;
-    const hours = /^([01]?\d|2[0-3]|\*|\*\/[1-9]\d*|([01]?\d|2[0-3])\/[1-9]\d*|([01]?\d|2[0-3])-([01]?\d|2[0-3])|(([01]?\d|2[0-3]),)+([01]?\d|2[0-3]))$/;
-    const dayOfMonth = /^([1-9]|[12]\d|3[01]|\*|\?|L|LW|L-[1-9]|[1-9]W|[12]\dW|3[01]W|([1-9]|[12]\d|3[01])-([1-9]|[12]\d|3[01])|([1-9]|[12]\d|3[01])\/[1-9]\d*|(([1-9]|[12]\d|3[01]),)+([1-9]|[12]\d|3[01]))$/;
-    const month = /^(1[0-2]|0?[1-9]|JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC|\*|\*\/[1-9]\d*|(1[0-2]|0?[1-9])-(1[0-2]|0?[1-9])|(1[0-2]|0?[1-9])\/[1-9]\d*|((1[0-2]|0?[1-9]),)+(1[0-2]|0?[1-9]))$/i;
-    const dayOfWeek = /^(SUN|MON|TUE|WED|THU|FRI|SAT|[0-6]|\?|\*|\*\/[1-9]\d*|[0-6]\/[1-9]\d*|[0-6]-[0-6]|(SUN|MON|TUE|WED|THU|FRI|SAT)-[0-6]|(SUN|MON|TUE|WED|THU|FRI|SAT)(,(SUN|MON|TUE|WED|THU|FRI|SAT|[0-6]))+|[0-6](,[0-6])+|[0-6]#[1-5]|L|LW)$/i;
-    const year = /^([12]\d{3}|\*|\*\/[1-9]\d*|[12]\d{3}\/[1-9]\d*|[12]\d{3}-[12]\d{3}|([12]\d{3},)+[12]\d{3})$/;
-
-    const [sec, min, hr, dom, mon, dow, yr] = parts;
-
-    if (!secondsMinutes.test(sec)) return 'Second field is invalid';
-    if (!secondsMinutes.test(min)) return 'Minute field is invalid';
-    if (!hours.test(hr)) return 'Hour field is invalid';
-    if (!dayOfMonth.test(dom)) return 'Day-of-month field is invalid';
-    if (!month.test(mon)) return 'Month field is invalid';
-    if (!dayOfWeek.test(dow)) return 'Day-of-week field is invalid';
-
-    if (yr && !year.test(yr)) return 'Year field is invalid';
-
-    // Quartz requires either day-of-month or day-of-week to be '?' (not both can be * or both specific)
-    const domSpecific = dom !== '*' && dom !== '?';
-    const dowSpecific = dow !== '*' && dow !== '?';
-    if (domSpecific && dowSpecific) return "Use '?' in day-of-month or day-of-week (only one can be specific)";
-    if (dom === '*' && dow === '*') return "Use '?' for day-of-week (cannot have both day-of-month and day-of-week as '*')";
-
-    return '';
-  };
-
-  const describeCron = (value: string) => {
-    const trimmed = value.trim();
-    if (!trimmed) return '';
-    
-    try {
-      // cronstrue expects 5-part standard cron; Quartz uses 6 parts (includes seconds)
-      // Convert Quartz (sec min hr dom mon dow [year]) to standard (min hr dom mon dow)
-      const parts = trimmed.split(/\s+/);
-      if (parts.length < 6) return '';
-      
-      // Skip seconds (first field), take min hr dom mon dow
-      // Normalize Quartz '?' to '*' for cronstrue compatibility
-      const standardCron = parts.slice(1, 6).map(p => p === '?' ? '*' : p).join(' ');
-      return cronstrue.toString(standardCron);
-    } catch {
-      return '';
-    }
-  };
-
   // Compute validation errors for display (touched-gated)
   const validationErrors = {
     shareName: touched.shareName ? validateShareName(shareName) : '',
     sharePath: touched.sharePath ? validateSharePath(sharePath) : '',
-    schedule: touched.schedule ? validateCronExpression(schedule) : '',
   };
 
   // Compute raw validation for form validity (not touched-gated)
   const rawErrors = {
     shareName: validateShareName(shareName),
     sharePath: validateSharePath(sharePath),
-    schedule: validateCronExpression(schedule),
+    schedule: validateQuartzCron(schedule) || (schedule.trim() ? validateRestrictions(restrictions) : ''),
   };
 
   const isFormValid = Boolean(
@@ -184,13 +164,19 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
     !rawErrors.shareName && !rawErrors.sharePath && !rawErrors.schedule
   );
 
-  const cronDescription = schedule && !validationErrors.schedule ? describeCron(schedule) : '';
+  const cronDescription = schedule && !validateQuartzCron(schedule) ? describeCron(schedule) : '';
+
+  // Global and device restrictions keep applying on top of the share's own
+  const inheritedSchedules = [
+    { label: 'Global', schedule: globalSettings.schedule },
+    ...(device.schedule ? [{ label: 'Device', schedule: device.schedule }] : []),
+  ];
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
     if (!isFormValid) {
-      setTouched(prev => ({ ...prev, shareName: true, sharePath: true, schedule: !!schedule }));
+      setTouched(prev => ({ ...prev, shareName: true, sharePath: true }));
       return;
     }
 
@@ -201,7 +187,7 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
     };
 
     if (schedule.trim()) {
-      payload.schedule = { cronExpression: schedule.trim() };
+      payload.schedule = { ...restrictions, cronExpression: schedule.trim() };
     }
 
     if (retentionLatest || retentionDaily || retentionWeekly || retentionMonthly || retentionYearly) {
@@ -249,16 +235,28 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
 
   // Effective configuration calculations
   const effectiveSchedule = schedule || deviceConfig.scheduleDesc;
-  const effectiveScheduleSource = schedule ? 'Share' : 'Device';
+  const effectiveScheduleSource: ConfigSource = schedule ? 'Share' : deviceConfig.scheduleSource;
 
   const hasRetentionOverride = retentionLatest || retentionDaily || retentionWeekly || retentionMonthly || retentionYearly;
   const effectiveRetention = `${retentionLatest || deviceConfig.retention.latest}/${retentionDaily || deviceConfig.retention.daily}/${retentionWeekly || deviceConfig.retention.weekly}/${retentionMonthly || deviceConfig.retention.monthly}/${retentionYearly || deviceConfig.retention.yearly}`;
-  const effectiveRetentionSource = hasRetentionOverride ? 'Share' : 'Device';
+  const effectiveRetentionSource: ConfigSource = hasRetentionOverride ? 'Share' : deviceConfig.retentionSource;
+  const retentionCount = (value: string, inherited: number) => (value.trim() ? Number(value) : inherited);
+  const effectiveRetentionPolicy = {
+    keepLatest: retentionCount(retentionLatest, deviceConfig.retention.latest),
+    keepDaily: retentionCount(retentionDaily, deviceConfig.retention.daily),
+    keepWeekly: retentionCount(retentionWeekly, deviceConfig.retention.weekly),
+    keepMonthly: retentionCount(retentionMonthly, deviceConfig.retention.monthly),
+    keepYearly: retentionCount(retentionYearly, deviceConfig.retention.yearly),
+  };
 
   const hasPatternsOverride = includePatterns || excludePatterns;
-  const effectiveIncludeCount = includePatterns ? includePatterns.split('\n').filter(p => p.trim()).length : 1;
-  const effectiveExcludeCount = excludePatterns ? excludePatterns.split('\n').filter(p => p.trim()).length : 0;
-  const effectivePatternsSource = hasPatternsOverride ? 'Share' : 'Device';
+  const effectiveIncludeCount = hasPatternsOverride
+    ? includePatterns.split('\n').filter(p => p.trim()).length
+    : deviceConfig.includeCount;
+  const effectiveExcludeCount = hasPatternsOverride
+    ? excludePatterns.split('\n').filter(p => p.trim()).length
+    : deviceConfig.excludeCount;
+  const effectivePatternsSource: ConfigSource = hasPatternsOverride ? 'Share' : deviceConfig.patternsSource;
 
   if (!open) return null;
 
@@ -371,20 +369,26 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
                   {showSchedule && (
                     <div className="mt-3 pl-6 border-l-2 border-gray-200 space-y-2">
                       <label className="block text-sm font-medium text-gray-700">Share-Level Schedule</label>
-                      <input
-                        type="text"
+                      <ScheduleEditor
                         value={schedule}
-                        onChange={(e) => setSchedule(e.target.value)}
-                        onBlur={() => setTouched(prev => ({ ...prev, schedule: true }))}
-                        placeholder="Daily at 2:00 AM"
-                        className={`w-full px-3 py-2 border rounded-md text-sm text-gray-900 font-mono focus:ring-2 focus:border-transparent ${validationErrors.schedule ? 'border-red-500 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'}`}
+                        onChange={setSchedule}
+                        inheritedLabel={`${deviceConfig.scheduleSource.toLowerCase()} schedule (${deviceConfig.cronExpression})`}
+                        restrictions={restrictions}
+                        inherited={inheritedSchedules.map(level => level.schedule)}
                       />
-                      <p className="text-xs text-gray-500">Leave empty to use device schedule. Use cron expression format.</p>
-                      {cronDescription && !validationErrors.schedule && (
-                        <p className="text-xs text-gray-600">Meaning: {cronDescription}</p>
-                      )}
-                      {validationErrors.schedule && (
-                        <p className="text-xs text-red-600 mt-1">{validationErrors.schedule}</p>
+                      <label className="block text-sm font-medium text-gray-700 pt-2">Backup Window &amp; Blackouts</label>
+                      {schedule.trim() ? (
+                        <BackupWindowEditor
+                          value={restrictions}
+                          onChange={setRestrictions}
+                          cronExpression={schedule}
+                          inherited={inheritedSchedules.map(level => ({ label: level.label, restrictions: level.schedule }))}
+                        />
+                      ) : (
+                        <p className="text-xs text-gray-500">
+                          Set a share schedule to give this share its own window, blocked hours or blackout dates.
+                          Device and global restrictions apply either way.
+                        </p>
                       )}
                     </div>
                   )}
@@ -463,6 +467,11 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
                         </div>
                       </div>
                       <p className="text-xs text-gray-500 mt-2">Leave empty to use device defaults</p>
+                      {editingShare && (
+                        <div className="mt-3">
+                          <RetentionSimulator deviceId={device.id} shareId={editingShare.id} policy={effectiveRetentionPolicy} />
+                        </div>
+                      )}
                     </div>
                   )}
                 </div>
@@ -540,11 +549,7 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
                 <div>
                   <div className="flex items-center gap-2 mb-1">
                     <div className="text-xs font-medium text-gray-600">Schedule</div>
-                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium border ${
-                      effectiveScheduleSource === 'Share' 
-                        ? 'bg-green-100 border-green-300 text-green-700'
-                        : 'bg-blue-100 border-blue-300 text-blue-700'
-                    }`}>
+                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium border ${sourceBadgeClass(effectiveScheduleSource)}`}>
                       {effectiveScheduleSource}
                     </span>
                   </div>
@@ -556,11 +561,7 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
                 <div>
                   <div className="flex items-center gap-2 mb-1">
                     <div className="text-xs font-medium text-gray-600">Retention</div>
-                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium border ${
-                      effectiveRetentionSource === 'Share'
-                        ? 'bg-green-100 border-green-300 text-green-700'
-                        : 'bg-blue-100 border-blue-300 text-blue-700'
-                    }`}>
+                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium border ${sourceBadgeClass(effectiveRetentionSource)}`}>
                       {effectiveRetentionSource}
                     </span>
                   </div>
@@ -572,11 +573,7 @@ export function AddShareDialog({ open, onClose, device, onCreated, editingShare
                 <div>
                   <div className="flex items-center gap-2 mb-1">
                     <div className="text-xs font-medium text-gray-600">Patterns</div>
-                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium border ${
-                      effectivePatternsSource === 'Share'
-                        ? 'bg-green-100 border-green-300 text-green-700'
-                        : 'bg-blue-100 border-blue-300 text-blue-700'
-                    }`}>
+                    <span className={`inline-block px-2 py-0.5 rounded text-xs font-medium border ${sourceBadgeClass(effectivePatternsSource)}`}>
                       {effectivePatternsSource}
                     </span>
                   </div>
@@ -0,0 +1,258 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { RefreshCw, X } from 'lucide-react';
+import { useBackupJobs } from '../hooks/queries';
+import { dashboardService } from '../services/dashboardService';
+import { BackupJob, BackupJobStatus } from '../types';
+import { runsOnDay } from '../utils/cron';
+
+export interface CalendarShare {
+  id: string;
+  name: string;
+  enabled: boolean;
+  schedule?: string | null; // Effective cron expression
+  inheritsDeviceSchedule: boolean;
+}
+
+export interface CalendarDevice {
+  id: string;
+  name: string;
+  shares: CalendarShare[];
+}
+
+interface BackupCalendarProps {
+  devices: CalendarDevice[];
+  weeks?: number;
+}
+
+type Outcome = 'success' | 'partial' | 'missed' | 'failed';
+
+// Later entries are worse; a day shows the worst outcome of its runs
+const SEVERITY: Outcome[] = ['success', 'partial', 'missed', 'failed'];
+
+const OUTCOME_STYLES: Record<Outcome | 'none', { label: string; className: string }> = {
+  none: { label: 'No backup due', className: 'bg-muted' },
+  success: { label: 'Success', className: 'bg-status-success' },
+  partial: { label: 'Partial', className: 'bg-status-warning' },
+  missed: { label: 'Missed', className: 'bg-muted-foreground' },
+  failed: { label: 'Failed', className: 'bg-status-error' },
+};
+
+// Cancelled runs leave the day without a backup, so they count as missed rather than failed
+const JOB_OUTCOMES: Partial<Record<BackupJobStatus, Outcome>> = {
+  [BackupJobStatus.Completed]: 'success',
+  [BackupJobStatus.PartiallyCompleted]: 'partial',
+  [BackupJobStatus.Failed]: 'failed',
+  [BackupJobStatus.Cancelled]: 'missed',
+};
+
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const worst = (a: Outcome | undefined, b: Outcome) =>
+  a === undefined || SEVERITY.indexOf(b) > SEVERITY.indexOf(a) ? b : a;
+
+interface CalendarDay {
+  outcome?: Outcome;
+  jobs: BackupJob[];
+}
+
+interface CalendarRow {
+  key: string;
+  deviceId: string;
+  label: string;
+  isDevice: boolean;
+  days: Map<string, CalendarDay>;
+}
+
+/**
+ * Buckets a share's finished jobs by local day and marks scheduled days without any run as missed.
+ * Gaps are only reported from the share's first loaded run onwards, and never for today, whose run
+ * may still be to come.
+ */
+function buildShareDays(share: CalendarShare, jobs: BackupJob[], today: Date): Map<string, CalendarDay> {
+  const days = new Map<string, CalendarDay>();
+
+  for (const job of jobs) {
+    const outcome = JOB_OUTCOMES[job.status];
+    if (!outcome || !job.startedAt) continue;
+
+    const key = dayKey(new Date(job.startedAt));
+    const day = days.get(key) ?? { jobs: [] };
+    day.outcome = worst(day.outcome, outcome);
+    day.jobs.push(job);
+    days.set(key, day);
+  }
+
+  const firstRun = jobs.reduce<Date | null>((first, job) => {
+    if (!job.startedAt) return first;
+    const started = new Date(job.startedAt);
+    return first === null || started < first ? started : first;
+  }, null);
+
+  if (share.enabled && share.schedule && firstRun) {
+    const day = new Date(firstRun.getFullYear(), firstRun.getMonth(), firstRun.getDate());
+    for (; day < today; day.setDate(day.getDate() + 1)) {
+      const key = dayKey(day);
+      if (!days.has(key) && runsOnDay(share.schedule, day) === true) {
+        days.set(key, { outcome: 'missed', jobs: [] });
+      }
+    }
+  }
+
+  return days;
+}
+
+/**
+ * GitHub-style calendar of backup outcomes: one cell per day for each device and share, coloured
+ * by the worst result that day, so gaps in coverage stand out. Device rows combine their shares.
+ */
+export function BackupCalendar({ devices, weeks = 13 }: BackupCalendarProps) {
+  const navigate = useNavigate();
+  const { data: jobs = [], isPending } = useBackupJobs();
+  const [selected, setSelected] = useState<{ rowKey: string; day: string } | null>(null);
+
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+  // Columns are whole weeks starting on Sunday, ending with the current week
+  const start = new Date(today);
+  start.setDate(today.getDate() - today.getDay() - (weeks - 1) * 7);
+  const cells: Date[] = [];
+  for (let day = new Date(start); cells.length < weeks * 7; day.setDate(day.getDate() + 1)) {
+    cells.push(new Date(day));
+  }
+
+  const rows: CalendarRow[] = devices.flatMap(device => {
+    const deviceJobs = jobs.filter(job => job.deviceId === device.id);
+    const inheritingShareIds = new Set(device.shares.filter(s => s.inheritsDeviceSchedule).map(s => s.id));
+
+    const shareRows = device.shares.map(share => {
+      // Device-level runs back up every share but record only the last one, so any of them
+      // counts for a share that runs on the device schedule
+      const shareJobs = deviceJobs.filter(job =>
+        job.shareId === share.id ||
+        (share.inheritsDeviceSchedule && (!job.shareId || inheritingShareIds.has(job.shareId)))
+      );
+      return {
+        key: `share-${share.id}`,
+        deviceId: device.id,
+        label: share.name,
+        isDevice: false,
+        days: buildShareDays(share, shareJobs, today),
+      };
+    });
+
+    const deviceDays = new Map<string, CalendarDay>();
+    for (const row of shareRows) {
+      row.days.forEach((day, key) => {
+        const combined = deviceDays.get(key) ?? { jobs: [] };
+        if (day.outcome) combined.outcome = worst(combined.outcome, day.outcome);
+        combined.jobs.push(...day.jobs.filter(job => !combined.jobs.includes(job)));
+        deviceDays.set(key, combined);
+      });
+    }
+
+    return [
+      { key: `device-${device.id}`, deviceId: device.id, label: device.name, isDevice: true, days: deviceDays },
+      ...shareRows,
+    ];
+  });
+
+  const selectedRow = selected ? rows.find(row => row.key === selected.rowKey) : undefined;
+  const selectedDay = selected && selectedRow ? selectedRow.days.get(selected.day) : undefined;
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border">
+      <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+        <h2 className="font-semibold text-foreground">Backup Calendar</h2>
+        <div className="flex flex-wrap gap-3 text-xs text-muted-foreground">
+          {(['success', 'partial', 'failed', 'missed', 'none'] as const).map(outcome => (
+            <span key={outcome} className="flex items-center gap-1">
+              <span className={`w-2.5 h-2.5 rounded-sm ${OUTCOME_STYLES[outcome].className}`} />
+              {OUTCOME_STYLES[outcome].label}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {isPending ? (
+        <div className="flex justify-center py-8">
+          <RefreshCw className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : rows.length === 0 ? (
+        <p className="px-4 py-6 text-sm text-center text-muted-foreground">No devices to show.</p>
+      ) : (
+        <div className="overflow-x-auto px-4 py-3 space-y-2">
+          {rows.map(row => (
+            <div key={row.key} className="flex items-center gap-4">
+              <div className={`w-48 shrink-0 truncate text-sm ${row.isDevice ? 'font-semibold text-foreground' : 'pl-4 text-muted-foreground'}`}>
+                {row.isDevice ? (
+                  <Link to={`/devices/${row.deviceId}`} className="hover:underline">{row.label}</Link>
+                ) : (
+                  row.label
+                )}
+              </div>
+              <div className="grid grid-flow-col grid-rows-7 gap-0.5">
+                {cells.map(cell => {
+                  const key = dayKey(cell);
+                  if (cell > today) return <div key={key} className="w-3 h-3" />;
+
+                  const day = row.days.get(key);
+                  const style = OUTCOME_STYLES[day?.outcome ?? 'none'];
+                  const isSelected = selected?.rowKey === row.key && selected.day === key;
+                  return (
+                    <button
+                      key={key}
+                      type="button"
+                      title={`${cell.toLocaleDateString()}: ${style.label}${day?.jobs.length ? ` (${day.jobs.length} runs)` : ''}`}
+                      onClick={() => setSelected(isSelected ? null : { rowKey: row.key, day: key })}
+                      className={`w-3 h-3 rounded-sm ${style.className} ${isSelected ? 'ring-2 ring-primary' : 'hover:ring-1 hover:ring-foreground'}`}
+                    />
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selected && selectedRow && (
+        <div className="border-t border-border">
+          <div className="flex items-center justify-between px-4 py-2">
+            <h3 className="text-sm font-semibold text-foreground">
+              {selectedRow.label} on {new Date(`${selected.day}T00:00:00`).toLocaleDateString()}
+            </h3>
+            <button onClick={() => setSelected(null)} className="text-muted-foreground hover:text-foreground" aria-label="Close">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          {!selectedDay?.jobs.length ? (
+            <p className="px-4 pb-3 text-sm text-muted-foreground">
+              {selectedDay?.outcome === 'missed' ? 'A backup was scheduled but did not run.' : 'No backups ran on this day.'}
+            </p>
+          ) : (
+            <ul className="divide-y divide-border border-t border-border">
+              {selectedDay.jobs.map(job => (
+                <li key={job.id}>
+                  <button
+                    onClick={() => navigate(dashboardService.backupLogsUrl({ ...job, jobId: job.id }))}
+                    className="w-full flex items-center gap-4 px-4 py-2 text-sm text-left hover:bg-muted"
+                  >
+                    <span className="w-16 text-muted-foreground">
+                      {job.startedAt && new Date(job.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </span>
+                    <span className="flex-1 text-foreground">{job.shareName || 'All shares'}</span>
+                    <span className={`font-medium ${job.status === BackupJobStatus.Failed ? 'text-status-error' : 'text-muted-foreground'}`}>
+                      {job.status}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,285 @@
+import { useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { RefreshCw, TrendingUp, X } from 'lucide-react';
+import { useDashboardHistory } from '../hooks/queries';
+import { dashboardService, JobLogLink } from '../services/dashboardService';
+import { HistoryRange, ShareTrendDto } from '../types';
+import { ChartCard, ChartSegment, LineChart, StackedBarChart } from './HistoryCharts';
+
+const RANGES: HistoryRange[] = [7, 30, 90];
+
+const STATUS_SEGMENTS: ChartSegment[] = [
+  { name: 'Succeeded', colorClass: 'bg-status-success' },
+  { name: 'Partial', colorClass: 'bg-status-warning' },
+  { name: 'Failed', colorClass: 'bg-status-error' },
+  { name: 'Cancelled', colorClass: 'bg-muted-foreground' },
+];
+
+const STATUS_TEXT: Record<string, string> = {
+  Completed: 'text-status-success',
+  PartiallyCompleted: 'text-status-warning',
+  Failed: 'text-status-error',
+  Cancelled: 'text-muted-foreground',
+};
+
+// History days are UTC calendar days, so they are labelled in UTC to match the buckets
+const formatDay = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
+const formatSeconds = (seconds: number) => {
+  const rounded = Math.round(seconds);
+  const hours = Math.floor(rounded / 3600);
+  const minutes = Math.floor((rounded % 3600) / 60);
+  if (hours > 0) return `${hours}h ${minutes}m`;
+  if (minutes > 0) return `${minutes}m ${rounded % 60}s`;
+  return `${rounded}s`;
+};
+
+const formatCount = (value: number) => `${value}`;
+
+const formatChange = (percent?: number | null) =>
+  percent === null || percent === undefined ? '-' : `${percent > 0 ? '+' : ''}${Math.round(percent)}%`;
+
+/**
+ * Backup history over a selectable range: runs per day by outcome, data added per day,
+ * repository growth and per-share duration and size trends, with shares whose recent runs
+ * are noticeably slower or larger than earlier ones listed first.
+ */
+export function BackupHistorySection() {
+  const navigate = useNavigate();
+  const [days, setDays] = useState<HistoryRange>(30);
+  const [selectedDay, setSelectedDay] = useState<number | null>(null);
+  const { data: history, isPending, isError, refetch } = useDashboardHistory(days);
+
+  const changeRange = (range: HistoryRange) => {
+    setDays(range);
+    setSelectedDay(null);
+  };
+
+  const daily = history?.daily ?? [];
+  const labels = daily.map(day => formatDay(day.date));
+  const selected = selectedDay !== null ? daily[selectedDay] : undefined;
+  const creepingCount = history?.shares.filter(share => share.isCreeping).length ?? 0;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-3">
+          <h2 className="text-xl font-semibold text-foreground">Backup History</h2>
+          {creepingCount > 0 && (
+            <span className="flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium bg-status-warning-bg text-status-warning-fg">
+              <TrendingUp className="w-3.5 h-3.5" />
+              {creepingCount} {creepingCount === 1 ? 'share' : 'shares'} trending up
+            </span>
+          )}
+        </div>
+        <div className="flex rounded-lg border border-border overflow-hidden text-sm">
+          {RANGES.map(range => (
+            <button
+              key={range}
+              onClick={() => changeRange(range)}
+              className={`px-3 py-1.5 ${
+                days === range ? 'bg-primary text-primary-foreground' : 'bg-card text-muted-foreground hover:bg-muted'
+              }`}
+            >
+              {range} days
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {isPending ? (
+        <div className="flex items-center justify-center h-40 bg-card rounded-lg border border-border">
+          <RefreshCw className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : isError ? (
+        <div className="flex items-center justify-between px-4 py-3 rounded-lg border bg-status-error-bg border-status-error text-status-error-fg text-sm">
+          Failed to load backup history.
+          <button onClick={() => refetch()} className="underline hover:no-underline">
+            Retry
+          </button>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            <ChartCard title="Backups per day" subtitle="Click a day to list its runs" legend={STATUS_SEGMENTS}>
+              <StackedBarChart
+                labels={labels}
+                segments={STATUS_SEGMENTS}
+                values={daily.map(day => [day.succeeded, day.partial, day.failed, day.cancelled])}
+                formatValue={formatCount}
+                selectedIndex={selectedDay}
+                onSelect={setSelectedDay}
+              />
+            </ChartCard>
+
+            <ChartCard title="Data added per day" subtitle="New data stored after deduplication">
+              <StackedBarChart
+                labels={labels}
+                segments={[{ name: 'Added', colorClass: 'bg-primary' }]}
+                values={daily.map(day => [day.dataAdded])}
+                formatValue={dashboardService.formatBytes}
+                selectedIndex={selectedDay}
+                onSelect={setSelectedDay}
+              />
+            </ChartCard>
+
+            <ChartCard title="Repository growth" subtitle="Running total of data added">
+              <LineChart
+                labels={labels}
+                values={daily.map(day => day.repositorySize)}
+                formatValue={dashboardService.formatBytes}
+                selectedIndex={selectedDay}
+                onSelect={setSelectedDay}
+              />
+            </ChartCard>
+          </div>
+
+          {selected && (
+            <div className="bg-card rounded-lg shadow-sm border border-border">
+              <div className="flex items-center justify-between px-4 py-3 border-b border-border">
+                <h3 className="text-sm font-semibold text-foreground">
+                  Runs on {formatDay(selected.date)} ({selected.jobs.length})
+                </h3>
+                <button
+                  onClick={() => setSelectedDay(null)}
+                  className="text-muted-foreground hover:text-foreground"
+                  aria-label="Close"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              {selected.jobs.length === 0 ? (
+                <p className="px-4 py-3 text-sm text-muted-foreground">No backups ran on this day.</p>
+              ) : (
+                <ul className="divide-y divide-border">
+                  {selected.jobs.map(job => (
+                    <li key={job.jobId}>
+                      <button
+                        onClick={() => navigate(dashboardService.backupLogsUrl(job))}
+                        className="w-full flex items-center gap-4 px-4 py-2 text-sm text-left hover:bg-muted"
+                      >
+                        <span className="w-16 text-muted-foreground">
+                          {new Date(job.startedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                        </span>
+                        <span className="flex-1 text-foreground">
+                          {job.deviceName || 'Unknown Device'}
+                          {job.shareName && <span className="text-muted-foreground"> / {job.shareName}</span>}
+                        </span>
+                        <span className={`font-medium ${STATUS_TEXT[job.status] ?? 'text-foreground'}`}>
+                          {job.status === 'PartiallyCompleted' ? 'Partial' : job.status}
+                        </span>
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          <ShareTrendsTable shares={history?.shares ?? []} onOpen={job => navigate(dashboardService.backupLogsUrl(job))} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ShareTrendsTableProps {
+  shares: ShareTrendDto[];
+  onOpen: (job: JobLogLink) => void;
+}
+
+function ShareTrendsTable({ shares, onOpen }: ShareTrendsTableProps) {
+  if (shares.length === 0) {
+    return (
+      <div className="bg-card rounded-lg shadow-sm border border-border px-4 py-6 text-center text-sm text-muted-foreground">
+        No completed share backups in this range.
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+      <table className="w-full text-sm">
+        <thead className="bg-muted text-xs text-muted-foreground uppercase tracking-wide">
+          <tr>
+            <th className="px-4 py-2 text-left font-medium">Share</th>
+            <th className="px-4 py-2 text-left font-medium">Duration</th>
+            <th className="px-4 py-2 text-left font-medium">Size</th>
+            <th className="px-4 py-2 text-right font-medium">Runs</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {shares.map(share => {
+            const runLabels = share.points.map(point => new Date(point.startedAt).toLocaleString());
+            const openRun = (index: number) =>
+              onOpen({ ...share.points[index], deviceId: share.deviceId, shareId: share.shareId });
+
+            return (
+              <tr key={share.shareId} className={share.isCreeping ? 'bg-status-warning-bg' : ''}>
+                <td className="px-4 py-3">
+                  <div className="flex items-center gap-2 font-medium text-foreground">
+                    {share.isCreeping && <TrendingUp className="w-4 h-4 text-status-warning" />}
+                    {share.shareName}
+                  </div>
+                  <div className="text-xs text-muted-foreground">{share.deviceName}</div>
+                </td>
+                <TrendCell
+                  labels={runLabels}
+                  values={share.points.map(point => point.durationSeconds)}
+                  formatValue={formatSeconds}
+                  change={share.durationChangePercent}
+                  onSelect={openRun}
+                />
+                <TrendCell
+                  labels={runLabels}
+                  values={share.points.map(point => point.size)}
+                  formatValue={dashboardService.formatBytes}
+                  change={share.sizeChangePercent}
+                  onSelect={openRun}
+                />
+                <td className="px-4 py-3 text-right text-muted-foreground">{share.points.length}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+interface TrendCellProps {
+  labels: string[];
+  values: number[];
+  formatValue: (value: number) => string;
+  change?: number | null;
+  onSelect: (index: number) => void;
+}
+
+function TrendCell({ labels, values, formatValue, change, onSelect }: TrendCellProps) {
+  const latest = values[values.length - 1];
+  const rising = (change ?? 0) > 0;
+
+  return (
+    <td className="px-4 py-3">
+      <div className="flex items-center gap-3">
+        <div className="w-32">
+          <LineChart
+            labels={labels}
+            values={values}
+            formatValue={formatValue}
+            onSelect={onSelect}
+            heightClass="h-8"
+            showAxis={false}
+          />
+        </div>
+        <div>
+          <div className="text-foreground">{latest !== undefined ? formatValue(latest) : '-'}</div>
+          <div className={`text-xs ${rising ? 'text-status-warning' : 'text-muted-foreground'}`}>
+            {formatChange(change)}
+          </div>
+        </div>
+      </div>
+    </td>
+  );
+}
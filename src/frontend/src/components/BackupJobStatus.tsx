@@ -1,14 +1,16 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { BackupJob, BackupJobStatus as JobStatus } from '../types';
 import { backupService } from '../services/deviceService';
 import { RefreshCw, CheckCircle, XCircle, Clock, Loader, ChevronDown, ChevronRight, Trash2, StopCircle, FolderOpen } from 'lucide-react';
 import BackupProgressBar from './BackupProgressBar';
+import { invalidateBackupQueries, useBackupJobs } from '../hooks/queries';
 
 export default function BackupJobStatusList() {
   const navigate = useNavigate();
-  const [jobs, setJobs] = useState<BackupJob[]>([]);
-  const [loading, setLoading] = useState(true);
+  const queryClient = useQueryClient();
+  const { data: jobs = [], isPending: loading } = useBackupJobs();
   const [expandedErrors, setExpandedErrors] = useState<Set<string>>(new Set());
   const [expandedCommands, setExpandedCommands] = useState<Set<string>>(new Set());
 
@@ -36,16 +38,7 @@ export default function BackupJobStatusList() {
     });
   };
 
-  const loadJobs = async () => {
-    try {
-      const data = await backupService.listJobs();
-      setJobs(data);
-    } catch (error) {
-      console.error('Failed to load backup jobs:', error);
-    } finally {
-      setLoading(false);
-    }
-  };
+  const loadJobs = () => invalidateBackupQueries(queryClient);
 
   const handleDeleteJob = async (jobId: string) => {
     if (!confirm('Are you sure you want to delete this backup job?')) {
@@ -80,12 +73,6 @@ export default function BackupJobStatusList() {
     navigate(`/devices/${job.deviceId}/backups/${job.backupId}/browse`);
   };
 
-  useEffect(() => {
-    loadJobs();
-    const interval = setInterval(loadJobs, 5000);
-    return () => clearInterval(interval);
-  }, []);
-
   const getStatusIcon = (status: JobStatus) => {
     switch (status) {
       case JobStatus.Running:
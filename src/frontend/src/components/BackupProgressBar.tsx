@@ -1,4 +1,5 @@
 import { useState, useEffect, useRef } from 'react';import { BackupProgress, signalRService } from '../services/signalr';import { BackupJob } from '../types';
+import { useConnectionState } from '../hooks/useConnectionState';
 import { Loader, CheckCircle, XCircle, FileText } from 'lucide-react';
 
 interface BackupProgressBarProps {
@@ -13,6 +14,7 @@ export default function BackupProgressBar({ jobId, initialStatus, job }: BackupP
   const [transferRate, setTransferRate] = useState<number>(0);
 
   const lastBytesRef = useRef<{ bytes: number; timestamp: number } | null>(null);
+  const connectionState = useConnectionState();
 
   useEffect(() => {
     const handleProgress = (p: BackupProgress) => {
@@ -39,11 +41,7 @@ export default function BackupProgressBar({ jobId, initialStatus, job }: BackupP
       }
     };
 
-    signalRService.subscribe(jobId, handleProgress);
-
-    return () => {
-      signalRService.unsubscribe(jobId);
-    };
+    return signalRService.on('jobProgress', handleProgress, { jobId });
   }, [jobId]);
   if (!progress && initialStatus !== 'Running') {
     return null;
@@ -60,6 +58,8 @@ export default function BackupProgressBar({ jobId, initialStatus, job }: BackupP
   const isRunning = currentProgress.status === 'Running';
   const isCompleted = currentProgress.status === 'Completed';
   const isFailed = currentProgress.status === 'Failed';
+  // Progress only arrives over the hub, so while it is down the bar shows the last value received
+  const isStale = isRunning && connectionState !== 'connected';
 
   const formatBytes = (bytes?: number) => {
     if (!bytes) return '0 B';
@@ -70,7 +70,10 @@ export default function BackupProgressBar({ jobId, initialStatus, job }: BackupP
   };
 
   return (
-    <div className="space-y-1">
+    <div
+      className={`space-y-1 ${isStale ? 'opacity-60' : ''}`}
+      title={isStale ? 'Last known progress - live updates are reconnecting' : undefined}
+    >
       {/* Progress Bar */}
       <div className="flex items-center gap-2">
         {isRunning && <Loader className="h-4 w-4 animate-spin text-blue-500 flex-shrink-0" />}
@@ -93,6 +96,7 @@ export default function BackupProgressBar({ jobId, initialStatus, job }: BackupP
         <span className="text-xs font-medium text-gray-700 min-w-[2.5rem] text-right">
           {Math.round(currentProgress.percentComplete || 0)}%
         </span>
+        {isStale && <span className="text-xs text-amber-600">stale</span>}
       </div>
 
       {/* Details */}
@@ -0,0 +1,292 @@
+import { useEffect, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { BlackoutPeriod, ScheduleRestrictions, Weekday } from '../types';
+import { getCronWeeklyHours } from '../utils/cron';
+import {
+  WEEKDAYS,
+  fromTimeInput,
+  hourInWindow,
+  isHourBlocked,
+  toTimeInput,
+  validateRestrictions,
+} from '../utils/scheduleRestrictions';
+
+export interface InheritedRestrictions {
+  label: string; // Level the restrictions come from, e.g. "Global"
+  restrictions: ScheduleRestrictions;
+}
+
+interface BackupWindowEditorProps {
+  value: ScheduleRestrictions;
+  onChange: (value: ScheduleRestrictions) => void;
+  cronExpression?: string; // Effective schedule, drawn over the grid
+  inherited?: InheritedRestrictions[];
+}
+
+type CellState = 'allowed' | 'blocked' | 'outside' | 'inherited';
+
+const CELL_STYLES: Record<CellState, { label: string; className: string }> = {
+  allowed: { label: 'Allowed', className: 'bg-status-success-bg' },
+  blocked: { label: 'Blocked here', className: 'bg-status-error' },
+  outside: { label: 'Outside the daily window', className: 'bg-status-warning' },
+  inherited: { label: 'Blocked at another level', className: 'bg-muted-foreground' },
+};
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const todayKey = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${pad(now.getMonth() + 1)}-${pad(now.getDate())}`;
+};
+
+const formatPeriod = (period: BlackoutPeriod) =>
+  period.start === period.end
+    ? new Date(`${period.start}T00:00:00`).toLocaleDateString()
+    : `${new Date(`${period.start}T00:00:00`).toLocaleDateString()} – ${new Date(`${period.end}T00:00:00`).toLocaleDateString()}`;
+
+/**
+ * Weekly grid of the hours in which scheduled backups may start, with the daily window and one-off
+ * blackout dates. Blocked hours are painted by dragging across cells. Restrictions inherited from
+ * other levels and the slots the cron schedule fires in are drawn over the grid, so the combined
+ * effect is visible at a glance. All times are server time.
+ */
+export function BackupWindowEditor({ value, onChange, cronExpression, inherited = [] }: BackupWindowEditorProps) {
+  // While dragging, whether cells are being blocked (true) or allowed (false)
+  const [painting, setPainting] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (painting === null) return;
+    const stop = () => setPainting(null);
+    window.addEventListener('mouseup', stop);
+    return () => window.removeEventListener('mouseup', stop);
+  }, [painting]);
+
+  const firesAt = cronExpression ? getCronWeeklyHours(cronExpression) : null;
+  const error = validateRestrictions(value);
+
+  const cellState = (day: Weekday, hour: number): { state: CellState; source?: string } => {
+    if (isHourBlocked(value, day, hour)) return { state: 'blocked' };
+    if (!hourInWindow(hour, value)) return { state: 'outside' };
+    const blocking = inherited.find(level => isHourBlocked(level.restrictions, day, hour) || !hourInWindow(hour, level.restrictions));
+    return blocking ? { state: 'inherited', source: blocking.label } : { state: 'allowed' };
+  };
+
+  const setBlocked = (cells: [Weekday, number][], blocked: boolean) => {
+    const blockedHours = { ...(value.blockedHours ?? {}) };
+    for (const [day, hour] of cells) {
+      const hours = new Set(blockedHours[day] ?? []);
+      if (blocked) hours.add(hour);
+      else hours.delete(hour);
+      blockedHours[day] = Array.from(hours).sort((a, b) => a - b);
+    }
+    onChange({ ...value, blockedHours });
+  };
+
+  const toggleDay = (day: Weekday) => {
+    const allBlocked = HOURS.every(hour => isHourBlocked(value, day, hour));
+    setBlocked(HOURS.map(hour => [day, hour]), !allBlocked);
+  };
+
+  const toggleHour = (hour: number) => {
+    const allBlocked = WEEKDAYS.every(day => isHourBlocked(value, day, hour));
+    setBlocked(WEEKDAYS.map(day => [day, hour]), !allBlocked);
+  };
+
+  const periods = value.blackoutPeriods ?? [];
+  const setPeriods = (blackoutPeriods: BlackoutPeriod[]) => onChange({ ...value, blackoutPeriods });
+  const updatePeriod = (index: number, changes: Partial<BlackoutPeriod>) =>
+    setPeriods(periods.map((period, i) => (i === index ? { ...period, ...changes } : period)));
+
+  const today = todayKey();
+  const inheritedPeriods = inherited.flatMap(level =>
+    (level.restrictions.blackoutPeriods ?? [])
+      .filter(period => period.end >= today)
+      .map(period => ({ ...period, source: level.label }))
+  );
+
+  const gridColumns = { gridTemplateColumns: '2.5rem repeat(24, minmax(0, 1fr))' };
+
+  return (
+    <div className="space-y-4 text-sm">
+      {/* Daily window */}
+      <div>
+        <div className="font-medium text-foreground mb-1">Daily window</div>
+        <div className="flex items-center gap-2">
+          <input
+            type="time"
+            value={toTimeInput(value.timeWindowStart)}
+            onChange={(e) => onChange({ ...value, timeWindowStart: fromTimeInput(e.target.value) })}
+            className="px-2 py-1 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          <span className="text-muted-foreground">to</span>
+          <input
+            type="time"
+            value={toTimeInput(value.timeWindowEnd)}
+            onChange={(e) => onChange({ ...value, timeWindowEnd: fromTimeInput(e.target.value) })}
+            className="px-2 py-1 bg-background border border-border rounded-md text-foreground focus:outline-none focus:ring-2 focus:ring-primary"
+          />
+          {(value.timeWindowStart || value.timeWindowEnd) && (
+            <button
+              type="button"
+              onClick={() => onChange({ ...value, timeWindowStart: undefined, timeWindowEnd: undefined })}
+              className="text-xs text-muted-foreground hover:text-foreground"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground mt-1">Optional. Scheduled runs only start inside this window.</p>
+      </div>
+
+      {/* Weekly grid */}
+      <div>
+        <div className="font-medium text-foreground">Blocked hours</div>
+        <p className="text-xs text-muted-foreground mb-2">
+          Drag across the grid to block or allow hours. Click a day or hour label to toggle it everywhere.
+          {firesAt && ' Dots mark when the schedule fires; runs in blocked cells are skipped.'}
+        </p>
+        <div className="select-none" onMouseLeave={() => setPainting(null)}>
+          <div className="grid gap-px text-[10px] text-muted-foreground" style={gridColumns}>
+            <span />
+            {HOURS.map(hour => (
+              <button
+                key={hour}
+                type="button"
+                onClick={() => toggleHour(hour)}
+                className="text-left hover:text-foreground"
+                title={`Toggle ${pad(hour)}:00 on every day`}
+              >
+                {hour % 3 === 0 ? pad(hour) : ''}
+              </button>
+            ))}
+          </div>
+          {WEEKDAYS.map((day, dayIndex) => (
+            <div key={day} className="grid gap-px mt-px" style={gridColumns}>
+              <button
+                type="button"
+                onClick={() => toggleDay(day)}
+                className="text-left text-xs text-muted-foreground hover:text-foreground"
+                title={`Toggle all of ${day}`}
+              >
+                {day.slice(0, 3)}
+              </button>
+              {HOURS.map(hour => {
+                const { state, source } = cellState(day, hour);
+                const fires = firesAt?.[dayIndex][hour] ?? false;
+                const title = [
+                  `${day} ${pad(hour)}:00-${pad(hour + 1)}:00`,
+                  state === 'inherited' ? `Blocked by ${source}` : CELL_STYLES[state].label,
+                  fires ? (state === 'allowed' ? 'Scheduled run' : 'Scheduled run will be skipped') : null,
+                ].filter(Boolean).join(' · ');
+
+                return (
+                  <div
+                    key={hour}
+                    title={title}
+                    onMouseDown={() => {
+                      const blocked = !isHourBlocked(value, day, hour);
+                      setPainting(blocked);
+                      setBlocked([[day, hour]], blocked);
+                    }}
+                    onMouseEnter={() => {
+                      if (painting !== null && isHourBlocked(value, day, hour) !== painting) {
+                        setBlocked([[day, hour]], painting);
+                      }
+                    }}
+                    className={`h-5 rounded-sm cursor-pointer flex items-center justify-center ${CELL_STYLES[state].className}`}
+                  >
+                    {fires && (
+                      <span className={`w-1.5 h-1.5 rounded-full ${state === 'allowed' ? 'bg-foreground' : 'bg-background'}`} />
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-3 mt-2 text-xs text-muted-foreground">
+          {(Object.keys(CELL_STYLES) as CellState[])
+            .filter(state => state !== 'inherited' || inherited.length > 0)
+            .map(state => (
+              <span key={state} className="flex items-center gap-1">
+                <span className={`w-2.5 h-2.5 rounded-sm ${CELL_STYLES[state].className}`} />
+                {CELL_STYLES[state].label}
+              </span>
+            ))}
+        </div>
+      </div>
+
+      {/* Blackout periods */}
+      <div>
+        <div className="flex items-center justify-between">
+          <div className="font-medium text-foreground">Blackout dates</div>
+          <button
+            type="button"
+            onClick={() => setPeriods([...periods, { start: today, end: today, reason: '' }])}
+            className="flex items-center gap-1 text-xs text-primary hover:underline"
+          >
+            <Plus className="w-3.5 h-3.5" />
+            Add blackout
+          </button>
+        </div>
+        <p className="text-xs text-muted-foreground mb-2">No scheduled backups run on these days, e.g. holidays or maintenance.</p>
+        {periods.length === 0 && inheritedPeriods.length === 0 ? (
+          <p className="text-xs text-muted-foreground italic">No blackout dates.</p>
+        ) : (
+          <ul className="space-y-1.5">
+            {periods.map((period, index) => (
+              <li key={index} className="flex items-center gap-2">
+                <input
+                  type="date"
+                  value={period.start}
+                  onChange={(e) => updatePeriod(index, { start: e.target.value, end: period.end < e.target.value ? e.target.value : period.end })}
+                  className="px-2 py-1 bg-background border border-border rounded-md text-foreground text-xs"
+                />
+                <span className="text-muted-foreground text-xs">to</span>
+                <input
+                  type="date"
+                  value={period.end}
+                  min={period.start}
+                  onChange={(e) => updatePeriod(index, { end: e.target.value })}
+                  className="px-2 py-1 bg-background border border-border rounded-md text-foreground text-xs"
+                />
+                <input
+                  type="text"
+                  value={period.reason ?? ''}
+                  onChange={(e) => updatePeriod(index, { reason: e.target.value })}
+                  placeholder="Reason (optional)"
+                  className="flex-1 min-w-0 px-2 py-1 bg-background border border-border rounded-md text-foreground text-xs"
+                />
+                <button
+                  type="button"
+                  onClick={() => setPeriods(periods.filter((_, i) => i !== index))}
+                  className="text-muted-foreground hover:text-status-error"
+                  aria-label="Remove blackout"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+            {inheritedPeriods.map((period, index) => (
+              <li key={`inherited-${index}`} className="text-xs text-muted-foreground">
+                {formatPeriod(period)}
+                {period.reason && ` · ${period.reason}`}
+                <span className="ml-1 px-1.5 py-0.5 rounded bg-muted">{period.source}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {inherited.length > 0 && (
+        <p className="text-xs text-muted-foreground">
+          Restrictions add up: scheduled runs must also be allowed by the {inherited.map(level => level.label.toLowerCase()).join(' and ')} settings,
+          shown in grey. Manual backups are never blocked.
+        </p>
+      )}
+      {error && <p className="text-xs text-status-error">{error}</p>}
+    </div>
+  );
+}
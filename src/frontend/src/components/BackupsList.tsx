@@ -6,10 +6,21 @@ interface BackupsListProps {
   backups: Backup[];
   onBackupClick?: (backup: Backup) => void;
   onBrowseClick?: (backup: Backup) => void;
+  selectedIds?: string[];
+  onSelectToggle?: (backup: Backup) => void;
+  canSelect?: (backup: Backup) => boolean;
   loading?: boolean;
 }
 
-export const BackupsList: React.FC<BackupsListProps> = ({ backups, onBackupClick, onBrowseClick, loading }) => {
+export const BackupsList: React.FC<BackupsListProps> = ({
+  backups,
+  onBackupClick,
+  onBrowseClick,
+  selectedIds,
+  onSelectToggle,
+  canSelect,
+  loading
+}) => {
   const formatDate = (dateString: string) => {
     const date = new Date(dateString);
     return date.toLocaleString();
@@ -64,88 +75,104 @@ export const BackupsList: React.FC<BackupsListProps> = ({ backups, onBackupClick
 
   return (
     <div className="space-y-3">
-      {backups.map((backup) => (
-        <div
-          key={backup.id}
-          className={`bg-white dark:bg-slate-800 rounded-lg shadow-sm border border-slate-200 dark:border-slate-700 p-5 ${
-            onBackupClick ? 'cursor-pointer hover:shadow-md hover:border-slate-300 dark:hover:border-slate-600 transition-all' : ''
-          }`}
-          onClick={() => onBackupClick?.(backup)}
-        >
-          <div className="flex items-start justify-between">
-            <div className="flex items-start space-x-4 flex-1">
-              <div className="mt-0.5">
-                {getStatusIcon(backup.status)}
-              </div>
-              <div className="flex-1 min-w-0">
-                <div className="flex items-center gap-2 mb-2">
-                  <h3 className="font-semibold text-slate-900 dark:text-white">
-                    {backup.deviceName}
-                    {backup.shareName && <span className="text-slate-500 dark:text-slate-400"> / {backup.shareName}</span>}
-                  </h3>
-                  <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
-                    backup.status === 'Success' 
-                      ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
-                      : backup.status === 'Failed'
-                      ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
-                      : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400'
-                  }`}>
-                    {backup.status}
-                  </span>
-                </div>
-                
-                <div className="flex items-center text-sm text-slate-600 dark:text-slate-400 mb-3">
-                  <Calendar size={14} className="mr-1.5" />
-                  {formatDate(backup.timestamp)}
+      {backups.map((backup) => {
+        const selected = selectedIds?.includes(backup.id) ?? false;
+        return (
+          <div
+            key={backup.id}
+            className={`bg-white dark:bg-slate-800 rounded-lg shadow-sm border p-5 ${
+              selected ? 'border-blue-500 dark:border-blue-400' : 'border-slate-200 dark:border-slate-700'
+            } ${
+              onBackupClick ? 'cursor-pointer hover:shadow-md hover:border-slate-300 dark:hover:border-slate-600 transition-all' : ''
+            }`}
+            onClick={() => onBackupClick?.(backup)}
+          >
+            <div className="flex items-start justify-between">
+              <div className="flex items-start space-x-4 flex-1">
+                {onSelectToggle && (
+                  <input
+                    type="checkbox"
+                    checked={selected}
+                    disabled={!selected && canSelect ? !canSelect(backup) : false}
+                    onClick={(e) => e.stopPropagation()}
+                    onChange={() => onSelectToggle(backup)}
+                    className="mt-1 h-4 w-4 rounded border-slate-300 dark:border-slate-600 disabled:opacity-40"
+                    aria-label={`Select backup ${backup.id} for comparison`}
+                  />
+                )}
+                <div className="mt-0.5">
+                  {getStatusIcon(backup.status)}
                 </div>
-
-                <div className="grid grid-cols-2 gap-4 text-sm">
-                  <div>
-                    <span className="text-slate-500 dark:text-slate-400">Files:</span>{' '}
-                    <span className="font-medium text-slate-900 dark:text-white">
-                      {backup.filesNew || 0} new, {backup.filesChanged || 0} changed
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2 mb-2">
+                    <h3 className="font-semibold text-slate-900 dark:text-white">
+                      {backup.deviceName}
+                      {backup.shareName && <span className="text-slate-500 dark:text-slate-400"> / {backup.shareName}</span>}
+                    </h3>
+                    <span className={`px-2 py-0.5 text-xs font-medium rounded-full ${
+                      backup.status === 'Success' 
+                        ? 'bg-green-100 dark:bg-green-900/30 text-green-700 dark:text-green-400'
+                        : backup.status === 'Failed'
+                        ? 'bg-red-100 dark:bg-red-900/30 text-red-700 dark:text-red-400'
+                        : 'bg-yellow-100 dark:bg-yellow-900/30 text-yellow-700 dark:text-yellow-400'
+                    }`}>
+                      {backup.status}
                     </span>
                   </div>
-                  <div>
-                    <span className="text-slate-500 dark:text-slate-400">Data:</span>{' '}
-                    <span className="font-medium text-slate-900 dark:text-white">{formatSize(backup.dataAdded)}</span>
+                  
+                  <div className="flex items-center text-sm text-slate-600 dark:text-slate-400 mb-3">
+                    <Calendar size={14} className="mr-1.5" />
+                    {formatDate(backup.timestamp)}
                   </div>
-                </div>
 
-                {backup.errorMessage && (
-                  <div className="mt-3 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-2.5 rounded border border-red-200 dark:border-red-800">
-                    {backup.errorMessage}
+                  <div className="grid grid-cols-2 gap-4 text-sm">
+                    <div>
+                      <span className="text-slate-500 dark:text-slate-400">Files:</span>{' '}
+                      <span className="font-medium text-slate-900 dark:text-white">
+                        {backup.filesNew || 0} new, {backup.filesChanged || 0} changed
+                      </span>
+                    </div>
+                    <div>
+                      <span className="text-slate-500 dark:text-slate-400">Data:</span>{' '}
+                      <span className="font-medium text-slate-900 dark:text-white">{formatSize(backup.dataAdded)}</span>
+                    </div>
                   </div>
-                )}
-              </div>
-            </div>
-            
-            <div className="text-right text-sm ml-4 flex flex-col items-end gap-2">
-              <div className="text-slate-500 dark:text-slate-400 font-mono text-xs bg-slate-100 dark:bg-slate-700/50 px-2 py-1 rounded">
-                {backup.id}
+
+                  {backup.errorMessage && (
+                    <div className="mt-3 text-sm text-red-600 dark:text-red-400 bg-red-50 dark:bg-red-900/20 p-2.5 rounded border border-red-200 dark:border-red-800">
+                      {backup.errorMessage}
+                    </div>
+                  )}
+                </div>
               </div>
-              {onBrowseClick && (
-                <button
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    onBrowseClick(backup);
-                  }}
-                  className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50 rounded-md transition-colors"
-                  title="Browse Files"
-                >
-                  <FolderOpen size={14} />
-                  Browse Files
-                </button>
-              )}
-              {backup.duration && (
-                <div className="text-slate-400 dark:text-slate-500 text-xs">
-                  {backup.duration}
+              
+              <div className="text-right text-sm ml-4 flex flex-col items-end gap-2">
+                <div className="text-slate-500 dark:text-slate-400 font-mono text-xs bg-slate-100 dark:bg-slate-700/50 px-2 py-1 rounded">
+                  {backup.id}
                 </div>
-              )}
+                {onBrowseClick && (
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onBrowseClick(backup);
+                    }}
+                    className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-blue-600 dark:text-blue-400 bg-blue-50 dark:bg-blue-900/30 hover:bg-blue-100 dark:hover:bg-blue-900/50 rounded-md transition-colors"
+                    title="Browse Files"
+                  >
+                    <FolderOpen size={14} />
+                    Browse Files
+                  </button>
+                )}
+                {backup.duration && (
+                  <div className="text-slate-400 dark:text-slate-500 text-xs">
+                    {backup.duration}
+                  </div>
+                )}
+              </div>
             </div>
           </div>
-        </div>
-      ))}
+        );
+      })}
     </div>
   );
 };
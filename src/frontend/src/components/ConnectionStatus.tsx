@@ -0,0 +1,78 @@
+import { Loader2, RefreshCw } from 'lucide-react';
+import { useHealthStatus } from '../hooks/queries';
+import { useConnectionState } from '../hooks/useConnectionState';
+import { ConnectionState, signalRService } from '../services/signalr';
+
+type Tone = 'success' | 'warning' | 'error' | 'muted';
+
+const toneClasses: Record<Tone, { badge: string; dot: string }> = {
+  success: { badge: 'bg-status-success-bg text-status-success-fg', dot: 'bg-status-success animate-pulse' },
+  warning: { badge: 'bg-status-warning-bg text-status-warning-fg', dot: 'bg-status-warning' },
+  error: { badge: 'bg-status-error-bg text-status-error-fg', dot: 'bg-status-error' },
+  muted: { badge: 'bg-muted text-muted-foreground', dot: 'bg-muted-foreground' },
+};
+
+interface StatusDescription {
+  tone: Tone;
+  label: string;
+  detail: string;
+  canRetry: boolean;
+}
+
+const describe = (state: ConnectionState, apiUnreachable: boolean): StatusDescription => {
+  if (apiUnreachable) {
+    return { tone: 'error', label: 'Server unreachable', detail: 'The API health check is failing. Retrying automatically.', canRetry: true };
+  }
+
+  switch (state) {
+    case 'connected':
+      return { tone: 'success', label: 'Live', detail: 'Receiving live updates', canRetry: false };
+    case 'connecting':
+      return { tone: 'muted', label: 'Connecting...', detail: 'Connecting to live updates', canRetry: false };
+    case 'reconnecting':
+      return { tone: 'warning', label: 'Reconnecting...', detail: 'Live updates were interrupted; progress shown may be out of date', canRetry: false };
+    case 'disconnected':
+      return { tone: 'warning', label: 'Live updates offline', detail: 'Data refreshes every 30 seconds until live updates reconnect', canRetry: true };
+  }
+};
+
+/**
+ * Header badge combining the live-update hub's connection state with the API health check,
+ * so a hub outage (data still loads, just not live) reads differently from the server being down.
+ */
+export function ConnectionStatus() {
+  const connectionState = useConnectionState();
+  const { isError: apiUnreachable, refetch } = useHealthStatus(false);
+
+  const retry = () => {
+    signalRService.reconnectNow();
+    refetch();
+  };
+
+  const { tone, label, detail, canRetry } = describe(connectionState, apiUnreachable);
+
+  return (
+    <div
+      className={`flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm font-medium ${toneClasses[tone].badge}`}
+      title={detail}
+      role="status"
+      aria-live="polite"
+    >
+      {connectionState === 'reconnecting' && !apiUnreachable ? (
+        <Loader2 className="w-3.5 h-3.5 animate-spin" />
+      ) : (
+        <div className={`w-2 h-2 rounded-full ${toneClasses[tone].dot}`} />
+      )}
+      <span>{label}</span>
+      {canRetry && (
+        <button
+          onClick={retry}
+          className="inline-flex items-center gap-1 ml-1 underline hover:no-underline"
+        >
+          <RefreshCw className="w-3.5 h-3.5" />
+          Retry
+        </button>
+      )}
+    </div>
+  );
+}
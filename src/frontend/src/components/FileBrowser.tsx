@@ -1,172 +1,310 @@
-import React from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { FileEntry } from '../types';
-import { Folder, File, Download, ChevronRight, Home } from 'lucide-react';
+import { Folder, File, Download, History, Eye, ArrowUp, ArrowDown, Info, Link2 } from 'lucide-react';
+import { useVirtualRows } from '../hooks/useVirtualRows';
+import { filterAndSortFiles, FileListView, SortKey } from '../utils/fileList';
+import { parentFolder } from '../utils/paths';
+import { formatFileSize } from '../utils/timeFormat';
+
+// Rows have a fixed height so only the visible window needs to be rendered
+const ROW_HEIGHT = 53;
+const HEADER_HEIGHT = 45;
 
 interface FileBrowserProps {
-  backupId: string;
   files: FileEntry[];
   currentPath: string;
+  view: FileListView; // Owned by the caller, e.g. kept in the URL
+  onSort: (key: SortKey) => void;
   onNavigate: (path: string) => void;
   onDownload?: (file: FileEntry) => void;
+  onHistory?: (file: FileEntry) => void;
+  onPreview?: (file: FileEntry) => void;
+  onDetails?: (file: FileEntry) => void;
+  onDownloadFolder?: (folder: FileEntry) => void;
+  folderSizes?: Record<string, number> | null;
+  highlightedPath?: string | null;
+  selectedPaths?: Set<string>;
+  onToggleSelect?: (file: FileEntry) => void;
+  onToggleSelectAll?: (files: FileEntry[], select: boolean) => void;
   loading?: boolean;
 }
 
+/**
+ * Folder listing that only renders the rows in view, so folders with 100k entries stay responsive.
+ * Focus the list to move with the arrow keys, open with Enter, go up with Backspace and select with Space.
+ */
 export const FileBrowser: React.FC<FileBrowserProps> = ({
   files,
   currentPath,
+  view,
+  onSort,
   onNavigate,
   onDownload,
+  onHistory,
+  onPreview,
+  onDetails,
+  onDownloadFolder,
+  folderSizes,
+  highlightedPath,
+  selectedPaths,
+  onToggleSelect,
+  onToggleSelectAll,
   loading
 }) => {
-  const formatSize = (bytes: number) => {
-    const units = ['B', 'KB', 'MB', 'GB', 'TB'];
-    let size = bytes;
-    let unitIndex = 0;
-    
-    while (size >= 1024 && unitIndex < units.length - 1) {
-      size /= 1024;
-      unitIndex++;
-    }
-    
-    return `${size.toFixed(2)} ${units[unitIndex]}`;
-  };
+  const [activeIndex, setActiveIndex] = useState(0);
+  const { sortKey, sortDescending } = view;
+
+  const visibleFiles = useMemo(() => filterAndSortFiles(files, view), [files, view]);
+
+  const { containerRef, onScroll, scrollToIndex, resetScroll, start, end, paddingTop, paddingBottom } =
+    useVirtualRows(visibleFiles.length, ROW_HEIGHT);
+
+  // A new folder or filter starts at the top with the first row active
+  const listKey = `${currentPath}\n${view.typeFilter}\n${view.nameFilter}`;
+  const [listedKey, setListedKey] = useState(listKey);
+  if (listedKey !== listKey) {
+    setListedKey(listKey);
+    setActiveIndex(0);
+  }
+
+  useEffect(() => {
+    resetScroll();
+  }, [listKey, resetScroll]);
 
-  const formatDate = (dateString: string) => {
-    const date = new Date(dateString);
-    return date.toLocaleString();
+  const selectable = !!onToggleSelect;
+  const allSelected = visibleFiles.length > 0 && visibleFiles.every(f => selectedPaths?.has(f.path));
+
+  const moveActive = (index: number) => {
+    const next = Math.max(0, Math.min(visibleFiles.length - 1, index));
+    setActiveIndex(next);
+    scrollToIndex(next, HEADER_HEIGHT);
   };
 
   const handleFileClick = (file: FileEntry) => {
-    if (file.isDirectory) {
+    if (file.isSymlink) {
+      onDetails?.(file);
+    } else if (file.isDirectory) {
       onNavigate(file.path);
+    } else {
+      onPreview?.(file);
     }
   };
 
-  const handleDownloadClick = (e: React.MouseEvent, file: FileEntry) => {
-    e.stopPropagation();
-    onDownload?.(file);
-  };
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (loading || e.target !== e.currentTarget) return;
+    const pageSize = Math.max(1, end - start - 20);
 
-  // Build breadcrumb path segments
-  const getBreadcrumbs = () => {
-    const normalizedPath = currentPath.replace(/\\/g, '/').replace(/\/+/g, '/');
-    if (normalizedPath === '/' || normalizedPath === '') {
-      return [{ label: 'Root', path: '/' }];
+    switch (e.key) {
+      case 'ArrowDown':
+        moveActive(activeIndex + 1);
+        break;
+      case 'ArrowUp':
+        moveActive(activeIndex - 1);
+        break;
+      case 'PageDown':
+        moveActive(activeIndex + pageSize);
+        break;
+      case 'PageUp':
+        moveActive(activeIndex - pageSize);
+        break;
+      case 'Home':
+        moveActive(0);
+        break;
+      case 'End':
+        moveActive(visibleFiles.length - 1);
+        break;
+      case 'Enter':
+        if (visibleFiles[activeIndex]) handleFileClick(visibleFiles[activeIndex]);
+        break;
+      case 'Backspace':
+        if (currentPath !== '/') onNavigate(parentFolder(currentPath));
+        break;
+      case ' ':
+        if (selectable && visibleFiles[activeIndex]) onToggleSelect?.(visibleFiles[activeIndex]);
+        break;
+      default:
+        return;
     }
+    e.preventDefault();
+  };
 
-    const segments = normalizedPath.split('/').filter(s => s);
-    const breadcrumbs = [{ label: 'Root', path: '/' }];
-    
-    let currentBreadcrumbPath = '';
-    for (const segment of segments) {
-      currentBreadcrumbPath += '/' + segment;
-      breadcrumbs.push({
-        label: segment,
-        path: currentBreadcrumbPath
-      });
-    }
-    
-    return breadcrumbs;
+  // Row buttons must not also trigger the row click
+  const action = (handler: (file: FileEntry) => void, file: FileEntry) => (e: React.MouseEvent) => {
+    e.stopPropagation();
+    handler(file);
   };
 
-  const breadcrumbs = getBreadcrumbs();
+  const secondaryButton =
+    'inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors whitespace-nowrap';
+  const primaryButton =
+    'inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors whitespace-nowrap';
 
+  // The scroll container stays mounted through every state so its size is always measured
   return (
-    <div className="bg-white rounded-lg shadow">
-      {/* Breadcrumb Navigation */}
-      <div className="border-b border-gray-200 p-4">
-        <div className="flex items-center space-x-2 text-sm">
-          <Home size={16} className="text-gray-400" />
-          {breadcrumbs.map((crumb, index) => (
-            <React.Fragment key={crumb.path}>
-              {index > 0 && <ChevronRight size={14} className="text-gray-400" />}
-              <button
-                onClick={() => onNavigate(crumb.path)}
-                className={`hover:text-blue-600 ${
-                  index === breadcrumbs.length - 1
-                    ? 'font-semibold text-gray-900'
-                    : 'text-gray-600'
-                }`}
-                disabled={loading}
-              >
-                {crumb.label}
-              </button>
-            </React.Fragment>
-          ))}
-        </div>
-      </div>
-
-      {/* File List */}
-      <div className="overflow-x-auto">
-        {loading ? (
-          <div className="flex justify-center items-center p-8">
-            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-500"></div>
-          </div>
-        ) : files.length === 0 ? (
-          <div className="text-center p-8 text-gray-500">
-            <Folder className="mx-auto mb-4 text-gray-400" size={48} />
-            <p>This folder is empty</p>
-          </div>
-        ) : (
-          <table className="min-w-full divide-y divide-gray-200">
-            <thead className="bg-gray-50">
-              <tr>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Name
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Size
-                </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Modified
+    <div
+      ref={containerRef}
+      onScroll={onScroll}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+      className="overflow-auto max-h-[70vh] focus:outline-none focus:ring-2 focus:ring-primary focus:ring-inset"
+      role="grid"
+      aria-rowcount={visibleFiles.length}
+      aria-label="Files"
+    >
+      {loading ? (
+        <div className="p-8 text-center text-muted-foreground">Loading files...</div>
+      ) : files.length === 0 ? (
+        <div className="p-8 text-center text-muted-foreground">This folder is empty</div>
+      ) : visibleFiles.length === 0 ? (
+        <div className="p-8 text-center text-muted-foreground">Nothing in this folder matches the filter</div>
+      ) : (
+        <table className="w-full table-fixed">
+          <thead className="bg-muted sticky top-0 z-10 border-b border-border">
+            <tr>
+              {selectable && (
+                <th className="pl-4 py-3 w-10">
+                  <input
+                    type="checkbox"
+                    checked={allSelected}
+                    onChange={() => onToggleSelectAll?.(visibleFiles, !allSelected)}
+                    className="h-4 w-4 rounded border-border text-primary focus:ring-primary"
+                    aria-label="Select all shown in this folder"
+                  />
                 </th>
-                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
-                  Actions
+              )}
+              {([['name', 'Name'], ['size', 'Size'], ['mtime', 'Modified']] as const).map(([key, label]) => (
+                <th
+                  key={key}
+                  className={`text-left px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide ${
+                    key === 'name' ? '' : key === 'size' ? 'w-32' : 'w-52'
+                  }`}
+                  aria-sort={sortKey === key ? (sortDescending ? 'descending' : 'ascending') : 'none'}
+                >
+                  <button
+                    onClick={() => onSort(key)}
+                    className="inline-flex items-center gap-1 uppercase tracking-wide hover:text-foreground transition-colors"
+                  >
+                    {label}
+                    {sortKey === key && (sortDescending ? <ArrowDown className="w-3.5 h-3.5" /> : <ArrowUp className="w-3.5 h-3.5" />)}
+                  </button>
                 </th>
-              </tr>
-            </thead>
-            <tbody className="bg-white divide-y divide-gray-200">
-              {files.map((file) => (
+              ))}
+              <th className="text-right px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide w-96">
+                Actions
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {paddingTop > 0 && <tr style={{ height: paddingTop }} aria-hidden="true" />}
+            {visibleFiles.slice(start, end).map((file, offset) => {
+              const index = start + offset;
+              const selected = selectedPaths?.has(file.path) ?? false;
+              return (
                 <tr
                   key={file.path}
-                  className={`${file.isDirectory ? 'cursor-pointer hover:bg-gray-50' : ''}`}
-                  onClick={() => handleFileClick(file)}
+                  style={{ height: ROW_HEIGHT }}
+                  className={`border-b border-border cursor-pointer hover:bg-muted/50 transition-colors ${
+                    selected || file.path === highlightedPath ? 'bg-primary/5' : ''
+                  } ${index === activeIndex ? 'outline outline-2 -outline-offset-2 outline-primary/60' : ''}`}
+                  onClick={() => {
+                    setActiveIndex(index);
+                    handleFileClick(file);
+                  }}
+                  aria-rowindex={index + 1}
+                  aria-selected={index === activeIndex}
                 >
-                  <td className="px-6 py-4 whitespace-nowrap">
-                    <div className="flex items-center space-x-2">
-                      {file.isDirectory ? (
-                        <Folder className="text-blue-500" size={20} />
+                  {selectable && (
+                    <td className="pl-4 py-2 w-10" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        type="checkbox"
+                        checked={selected}
+                        onChange={() => onToggleSelect?.(file)}
+                        className="h-4 w-4 rounded border-border text-primary focus:ring-primary"
+                        aria-label={`Select ${file.name}`}
+                      />
+                    </td>
+                  )}
+                  <td className="px-4 py-2 whitespace-nowrap overflow-hidden">
+                    <div className="flex items-center gap-2 min-w-0">
+                      {file.isSymlink ? (
+                        <Link2 className="w-4 h-4 text-primary shrink-0" />
+                      ) : file.isDirectory ? (
+                        <Folder className="w-4 h-4 text-blue-500 shrink-0" />
                       ) : (
-                        <File className="text-gray-400" size={20} />
+                        <File className="w-4 h-4 text-muted-foreground shrink-0" />
                       )}
-                      <span className="text-sm font-medium text-gray-900">
+                      <span
+                        className={`font-medium truncate ${file.isSymlink ? 'italic text-primary' : 'text-foreground'}`}
+                        title={file.isSymlink ? `${file.name} (symbolic link - show target)` : file.name}
+                      >
                         {file.name}
                       </span>
                     </div>
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {file.isDirectory ? '-' : formatSize(file.size)}
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-muted-foreground">
+                    {file.isDirectory
+                      ? folderSizes ? `~${formatFileSize(folderSizes[file.path] ?? 0)}` : '-'
+                      : formatFileSize(file.size)}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
-                    {formatDate(file.modifiedAt)}
+                  <td className="px-4 py-2 whitespace-nowrap text-sm text-muted-foreground">
+                    {new Date(file.modifiedAt).toLocaleString()}
                   </td>
-                  <td className="px-6 py-4 whitespace-nowrap text-sm">
-                    {!file.isDirectory && onDownload && (
-                      <button
-                        onClick={(e) => handleDownloadClick(e, file)}
-                        className="inline-flex items-center px-3 py-1 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50"
-                      >
-                        <Download size={14} className="mr-1" />
-                        Download
-                      </button>
-                    )}
+                  <td className="px-4 py-2">
+                    <div className="flex items-center justify-end gap-2">
+                      {onDetails && (
+                        <button
+                          onClick={action(onDetails, file)}
+                          className="p-1.5 text-muted-foreground hover:text-foreground hover:bg-muted rounded-md transition-colors"
+                          aria-label={`Details of ${file.name}`}
+                          title="Permissions, ownership and attributes"
+                        >
+                          <Info className="w-4 h-4" />
+                        </button>
+                      )}
+                      {file.isSymlink ? null : file.isDirectory ? (
+                        <>
+                          <button onClick={action(f => onNavigate(f.path), file)} className={secondaryButton}>
+                            <Folder className="w-3.5 h-3.5" />
+                            Browse
+                          </button>
+                          {onDownloadFolder && (
+                            <button onClick={action(onDownloadFolder, file)} className={primaryButton}>
+                              <Download className="w-3.5 h-3.5" />
+                              Download
+                            </button>
+                          )}
+                        </>
+                      ) : (
+                        <>
+                          {onPreview && (
+                            <button onClick={action(onPreview, file)} className={secondaryButton}>
+                              <Eye className="w-3.5 h-3.5" />
+                              Preview
+                            </button>
+                          )}
+                          {onHistory && (
+                            <button onClick={action(onHistory, file)} className={secondaryButton}>
+                              <History className="w-3.5 h-3.5" />
+                              History
+                            </button>
+                          )}
+                          {onDownload && (
+                            <button onClick={action(onDownload, file)} className={primaryButton}>
+                              <Download className="w-3.5 h-3.5" />
+                              Download
+                            </button>
+                          )}
+                        </>
+                      )}
+                    </div>
                   </td>
                 </tr>
-              ))}
-            </tbody>
-          </table>
-        )}
-      </div>
+              );
+            })}
+            {paddingBottom > 0 && <tr style={{ height: paddingBottom }} aria-hidden="true" />}
+          </tbody>
+        </table>
+      )}
     </div>
   );
 };
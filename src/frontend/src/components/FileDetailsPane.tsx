@@ -0,0 +1,263 @@
+import { useEffect, useState } from 'react';
+import { Fingerprint, Info, Link2, RefreshCw, X } from 'lucide-react';
+import { backupService } from '../services/backupService';
+import { FileEntry, FileMetadata } from '../types';
+import { formatFileSize } from '../utils/timeFormat';
+
+interface FileDetailsPaneProps {
+  file: FileEntry | null;
+  backupId: string;
+  deviceId: string;
+  shareId: string;
+  onClose: () => void;
+  // Opens the folder containing a symlink's target with the target selected
+  onOpenPath?: (folderPath: string, path: string) => void;
+}
+
+const typeLabels: Record<string, string> = {
+  file: 'File',
+  dir: 'Folder',
+  symlink: 'Symbolic link',
+  dev: 'Block device',
+  chardev: 'Character device',
+  fifo: 'Named pipe',
+  socket: 'Socket',
+};
+
+const parentOf = (path: string) => {
+  const parts = path.split('/').filter(Boolean);
+  parts.pop();
+  return parts.length > 0 ? '/' + parts.join('/') : '/';
+};
+
+// Relative targets are resolved against the link's own folder, the way the filesystem would
+const resolveLinkTarget = (linkPath: string, target: string) => {
+  const base = target.startsWith('/') ? [] : parentOf(linkPath).split('/').filter(Boolean);
+  for (const part of target.split('/')) {
+    if (part === '' || part === '.') continue;
+    if (part === '..') {
+      base.pop();
+    } else {
+      base.push(part);
+    }
+  }
+  return '/' + base.join('/');
+};
+
+const formatTimestamp = (value?: string) => (value ? new Date(value).toLocaleString() : undefined);
+
+export function FileDetailsPane({ file, backupId, deviceId, shareId, onClose, onOpenPath }: FileDetailsPaneProps) {
+  const [metadata, setMetadata] = useState<FileMetadata | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [hashing, setHashing] = useState(false);
+  const [hashError, setHashError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    const loadMetadata = async () => {
+      setLoading(true);
+      setError(null);
+      setMetadata(null);
+      setHashError(null);
+      try {
+        const result = await backupService.getFileMetadata(backupId, deviceId, shareId, file.path);
+        if (!cancelled) setMetadata(result);
+      } catch (err) {
+        if (cancelled) return;
+        console.error('Failed to load file metadata:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load file details');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadMetadata();
+    return () => {
+      cancelled = true;
+    };
+  }, [file, backupId, deviceId, shareId]);
+
+  if (!file) return null;
+
+  const computeHash = async () => {
+    setHashing(true);
+    setHashError(null);
+    try {
+      const result = await backupService.getFileMetadata(backupId, deviceId, shareId, file.path, true);
+      setMetadata(result);
+    } catch (err) {
+      console.error('Failed to compute content hash:', err);
+      setHashError(err instanceof Error ? err.message : 'Failed to compute hash');
+    } finally {
+      setHashing(false);
+    }
+  };
+
+  const renderRow = (label: string, value: React.ReactNode) => (
+    <div key={label} className="grid grid-cols-3 gap-4 py-2 border-b border-border last:border-0">
+      <dt className="text-sm text-muted-foreground">{label}</dt>
+      <dd className="col-span-2 text-sm text-foreground font-mono break-all">{value}</dd>
+    </div>
+  );
+
+  // Rows restic did not record are left out, and so is a section with nothing in it
+  const renderSection = (title: string, rows: [string, React.ReactNode][]) => {
+    const present = rows.filter(([, value]) => value !== undefined && value !== null && value !== '');
+    return present.length > 0 && (
+      <section>
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">{title}</h3>
+        <dl>{present.map(([label, value]) => renderRow(label, value))}</dl>
+      </section>
+    );
+  };
+
+  const renderLinkTarget = (meta: FileMetadata) => {
+    if (!meta.linkTarget) return undefined;
+    const resolved = resolveLinkTarget(meta.path, meta.linkTarget);
+    return (
+      <span className="flex flex-col gap-1">
+        <span>{meta.linkTarget}</span>
+        {onOpenPath && (
+          <button
+            onClick={() => onOpenPath(parentOf(resolved), resolved)}
+            className="inline-flex items-center gap-1 self-start font-sans text-primary hover:underline"
+          >
+            <Link2 className="w-3.5 h-3.5" />
+            Go to {resolved}
+          </button>
+        )}
+      </span>
+    );
+  };
+
+  const renderOwner = (name?: string, id?: number) =>
+    name && id !== undefined ? `${name} (${id})` : name ?? (id !== undefined ? String(id) : undefined);
+
+  const renderDetails = (meta: FileMetadata) => (
+    <div className="space-y-6">
+      {renderSection('General', [
+        ['Type', typeLabels[meta.type] ?? meta.type],
+        ['Size', meta.type === 'file' ? `${formatFileSize(meta.size)} (${meta.size.toLocaleString()} bytes)` : undefined],
+        ['Link target', renderLinkTarget(meta)],
+        ['Modified', formatTimestamp(meta.modifiedAt)],
+        ['Accessed', formatTimestamp(meta.accessedAt)],
+        ['Changed', formatTimestamp(meta.changedAt)],
+      ])}
+
+      {renderSection('Permissions', [
+        ['Mode', meta.permissions && meta.mode ? `${meta.permissions} (${meta.mode.padStart(4, '0')})` : meta.permissions ?? meta.mode],
+        ['Owner', renderOwner(meta.user, meta.uid)],
+        ['Group', renderOwner(meta.group, meta.gid)],
+      ])}
+
+      {renderSection('Filesystem', [
+        ['Hard links', meta.hardLinks !== undefined && meta.hardLinks > 1 ? `${meta.hardLinks} names share this inode` : meta.hardLinks],
+        ['Inode', meta.inode],
+        ['Device', meta.deviceId],
+      ])}
+
+      <section>
+        <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">
+          ACLs and extended attributes
+        </h3>
+        {meta.attributes.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-2">None recorded in this snapshot</p>
+        ) : (
+          <dl>
+            {meta.attributes.map(attribute => (
+              <div key={attribute.name} className="py-2 border-b border-border last:border-0">
+                <dt className="text-sm text-foreground font-mono">{attribute.name}</dt>
+                <dd className="mt-1 text-xs font-mono break-all">
+                  {attribute.text !== undefined && attribute.text !== null ? (
+                    <span className="text-foreground whitespace-pre-wrap">
+                      {attribute.name.startsWith('system.posix_acl')
+                        ? attribute.text.split(',').join('\n')
+                        : attribute.text}
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground" title="Binary value, base64 encoded">
+                      {attribute.value.length > 120 ? `${attribute.value.substring(0, 120)}…` : attribute.value}
+                    </span>
+                  )}
+                </dd>
+              </div>
+            ))}
+          </dl>
+        )}
+      </section>
+
+      {meta.type === 'file' && (
+        <section>
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-muted-foreground mb-1">Content</h3>
+          <dl>
+            {renderRow('Chunks', meta.contentChunks)}
+            {meta.contentHash && renderRow('SHA-256', meta.contentHash)}
+          </dl>
+          {!meta.contentHash && (
+            <div className="mt-2">
+              <button
+                onClick={computeHash}
+                disabled={hashing}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors disabled:opacity-50"
+              >
+                {hashing ? <RefreshCw className="w-3.5 h-3.5 animate-spin" /> : <Fingerprint className="w-3.5 h-3.5" />}
+                {hashing ? 'Reading file...' : 'Compute SHA-256'}
+              </button>
+              <p className="text-xs text-muted-foreground mt-1">Reads the whole file from the repository.</p>
+              {hashError && <p className="text-xs text-status-error mt-1">{hashError}</p>}
+            </div>
+          )}
+        </section>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/50" onClick={onClose}>
+      <div
+        className="w-full max-w-xl h-full bg-card border-l border-border shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between px-6 py-4 border-b border-border">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              {file.isSymlink ? <Link2 className="w-5 h-5 text-primary" /> : <Info className="w-5 h-5 text-muted-foreground" />}
+              <h2 className="text-lg font-semibold text-foreground truncate">{file.name}</h2>
+            </div>
+            <p className="text-sm text-muted-foreground font-mono truncate mt-1" title={file.path}>
+              {file.path} · snapshot {backupId.substring(0, 8)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-muted-foreground hover:text-foreground transition-colors shrink-0"
+            aria-label="Close details"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto px-6 py-4">
+          {loading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <RefreshCw className="w-6 h-6 animate-spin" />
+              <span className="text-sm">Loading details...</span>
+            </div>
+          ) : error ? (
+            <div className="py-12 text-center">
+              <p className="text-status-error font-semibold mb-1">Error loading details</p>
+              <p className="text-sm text-muted-foreground">{error}</p>
+            </div>
+          ) : metadata && (
+            renderDetails(metadata)
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
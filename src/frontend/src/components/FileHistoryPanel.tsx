@@ -0,0 +1,173 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { X, History, Download, FolderOpen, RefreshCw, FileDiff } from 'lucide-react';
+import { backupService } from '../services/backupService';
+import { FileEntry, FileVersion } from '../types';
+import { formatFileSize } from '../utils/timeFormat';
+
+interface FileHistoryPanelProps {
+  file: FileEntry | null;
+  backupId: string;
+  deviceId: string;
+  shareId: string;
+  onClose: () => void;
+  onOpenSnapshot: (backupId: string) => void;
+}
+
+export function FileHistoryPanel({ file, backupId, deviceId, shareId, onClose, onOpenSnapshot }: FileHistoryPanelProps) {
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!file) return;
+
+    let cancelled = false;
+    const loadHistory = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const history = await backupService.getFileHistory(deviceId, shareId, file.path);
+        if (!cancelled) setVersions(history);
+      } catch (err) {
+        console.error('Failed to load file history:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load file history');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [file, deviceId, shareId]);
+
+  if (!file) return null;
+
+  const diffLink = (from: FileVersion, to: FileVersion) => {
+    const params = new URLSearchParams({ shareId, path: file.path, from: from.backupId, to: to.backupId });
+    return `/devices/${deviceId}/files/diff?${params}`;
+  };
+
+  const downloadVersion = (version: FileVersion) => {
+    window.open(backupService.getDownloadUrl(version.backupId, deviceId, shareId, file.path), '_blank');
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/50" onClick={onClose}>
+      <div
+        className="w-full max-w-lg h-full bg-card border-l border-border shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between px-6 py-4 border-b border-border">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <History className="w-5 h-5 text-muted-foreground" />
+              <h2 className="text-lg font-semibold text-foreground">Version History</h2>
+            </div>
+            <p className="text-sm text-muted-foreground font-mono truncate mt-1" title={file.path}>{file.path}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+            aria-label="Close history"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Timeline */}
+        <div className="flex-1 overflow-y-auto px-6 py-4">
+          {loading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <RefreshCw className="w-6 h-6 animate-spin" />
+              <span className="text-sm">Scanning snapshots...</span>
+            </div>
+          ) : error ? (
+            <div className="py-12 text-center">
+              <p className="text-status-error font-semibold mb-1">Error loading history</p>
+              <p className="text-sm text-muted-foreground">{error}</p>
+            </div>
+          ) : versions.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">No versions found for this file</div>
+          ) : (
+            <ol className="relative border-l border-border ml-2">
+              {versions.map((version, index) => {
+                const older = versions[index + 1];
+                // Without both hashes, fall back to the metadata restic itself compares
+                const changed =
+                  !older ||
+                  (older.hash && version.hash
+                    ? older.hash !== version.hash
+                    : older.size !== version.size || older.modifiedAt !== version.modifiedAt);
+                const isCurrent = version.backupId === backupId;
+                return (
+                  <li key={version.backupId} className="mb-6 ml-6">
+                    <span
+                      className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border-2 border-card ${
+                        changed ? 'bg-primary' : 'bg-muted-foreground'
+                      }`}
+                    />
+                    <div className="flex items-center gap-2 flex-wrap">
+                      <span className="font-medium text-foreground">{new Date(version.timestamp).toLocaleString()}</span>
+                      {isCurrent && (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-primary/10 text-primary">Viewing</span>
+                      )}
+                      <span className="px-2 py-0.5 rounded text-xs font-medium bg-muted text-muted-foreground">
+                        {!older ? 'First seen' : changed ? 'Changed' : 'Unchanged'}
+                      </span>
+                    </div>
+                    <dl className="mt-1 grid grid-cols-[5rem_1fr] gap-x-2 text-xs text-muted-foreground">
+                      <dt>Size</dt>
+                      <dd className="text-foreground">{formatFileSize(version.size)}</dd>
+                      <dt>Modified</dt>
+                      <dd className="text-foreground">{new Date(version.modifiedAt).toLocaleString()}</dd>
+                      <dt>SHA-256</dt>
+                      {version.hash ? (
+                        <dd className="font-mono text-foreground truncate" title={version.hash}>{version.hash.substring(0, 16)}</dd>
+                      ) : (
+                        <dd className="text-muted-foreground">Not computed for large files</dd>
+                      )}
+                      <dt>Snapshot</dt>
+                      <dd className="font-mono text-foreground">{version.backupId.substring(0, 8)}</dd>
+                    </dl>
+                    <div className="flex items-center gap-2 mt-2">
+                      <button
+                        onClick={() => downloadVersion(version)}
+                        className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors"
+                      >
+                        <Download className="w-3.5 h-3.5" />
+                        Download
+                      </button>
+                      {older && changed && (
+                        <Link
+                          to={diffLink(older, version)}
+                          onClick={onClose}
+                          className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors"
+                        >
+                          <FileDiff className="w-3.5 h-3.5" />
+                          Diff with previous
+                        </Link>
+                      )}
+                      {!isCurrent && (
+                        <button
+                          onClick={() => onOpenSnapshot(version.backupId)}
+                          className="inline-flex items-center gap-1.5 px-2.5 py-1 text-xs font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors"
+                        >
+                          <FolderOpen className="w-3.5 h-3.5" />
+                          Open this snapshot here
+                        </button>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
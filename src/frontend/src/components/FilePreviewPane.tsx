@@ -0,0 +1,246 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Download, Eye, RefreshCw, X } from 'lucide-react';
+import { backupService } from '../services/backupService';
+import { FileEntry } from '../types';
+import { formatFileSize } from '../utils/timeFormat';
+import {
+  MAX_HEX_PREVIEW_BYTES,
+  MAX_MEDIA_PREVIEW_BYTES,
+  MAX_TEXT_PREVIEW_BYTES,
+  PreviewKind,
+  TokenType,
+  getMimeType,
+  getPreviewKind,
+  highlightLine,
+  isLogFile,
+  looksLikeText,
+  toHexRows,
+} from '../utils/filePreview';
+
+interface FilePreviewPaneProps {
+  file: FileEntry | null;
+  backupId: string;
+  deviceId: string;
+  shareId: string;
+  onClose: () => void;
+}
+
+interface PreviewContent {
+  kind: PreviewKind;
+  bytes: Uint8Array;
+  truncated: boolean;
+}
+
+const tokenClass: Record<TokenType, string> = {
+  plain: '',
+  keyword: 'text-primary font-medium',
+  string: 'text-status-success-fg',
+  comment: 'text-muted-foreground italic',
+  number: 'text-status-warning-fg',
+  error: 'text-status-error-fg bg-status-error-bg',
+  warning: 'text-status-warning-fg bg-status-warning-bg',
+  info: 'text-foreground',
+};
+
+export function FilePreviewPane({ file, backupId, deviceId, shareId, onClose }: FilePreviewPaneProps) {
+  const [content, setContent] = useState<PreviewContent | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const expectedKind = file ? getPreviewKind(file.name) : 'binary';
+  const tooLarge = !!file && (expectedKind === 'image' || expectedKind === 'pdf') && file.size > MAX_MEDIA_PREVIEW_BYTES;
+
+  useEffect(() => {
+    if (!file || tooLarge) return;
+
+    const controller = new AbortController();
+    const loadPreview = async () => {
+      setLoading(true);
+      setError(null);
+      setContent(null);
+      try {
+        const maxBytes = expectedKind === 'image' || expectedKind === 'pdf'
+          ? MAX_MEDIA_PREVIEW_BYTES
+          : MAX_TEXT_PREVIEW_BYTES;
+        const { bytes, truncated } = await backupService.fetchFileBytes(
+          backupId, deviceId, shareId, file.path, maxBytes, controller.signal
+        );
+
+        // Unknown extensions are shown as text when the content looks like text
+        const kind = expectedKind === 'binary' && looksLikeText(bytes) ? 'text'
+          : expectedKind === 'text' && !looksLikeText(bytes) ? 'binary'
+          : expectedKind;
+        setContent({ kind, bytes, truncated: truncated || bytes.length < file.size });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load preview:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load preview');
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    loadPreview();
+    return () => controller.abort();
+  }, [file, backupId, deviceId, shareId, expectedKind, tooLarge]);
+
+  // Images and PDFs are handed to the browser through an object URL with the right MIME type
+  const objectUrl = useMemo(() => {
+    if (!file || !content || (content.kind !== 'image' && content.kind !== 'pdf')) return null;
+    return URL.createObjectURL(new Blob([content.bytes as BlobPart], { type: getMimeType(file.name) }));
+  }, [file, content]);
+
+  useEffect(() => () => {
+    if (objectUrl) URL.revokeObjectURL(objectUrl);
+  }, [objectUrl]);
+
+  if (!file) return null;
+
+  const downloadFile = () => {
+    window.open(backupService.getDownloadUrl(backupId, deviceId, shareId, file.path), '_blank');
+  };
+
+  const renderText = (bytes: Uint8Array) => {
+    const asLog = isLogFile(file.name);
+    const lines = new TextDecoder().decode(bytes).split(/\r?\n/);
+    return (
+      <pre className="text-xs font-mono leading-5 text-foreground">
+        {lines.map((line, index) => (
+          <div key={index} className="flex">
+            <span className="select-none w-12 shrink-0 pr-3 text-right text-muted-foreground">{index + 1}</span>
+            <code className="whitespace-pre-wrap break-all">
+              {highlightLine(line, asLog).map((token, tokenIndex) => (
+                <span key={tokenIndex} className={tokenClass[token.type]}>{token.text}</span>
+              ))}
+            </code>
+          </div>
+        ))}
+      </pre>
+    );
+  };
+
+  const renderHex = (bytes: Uint8Array) => (
+    <pre className="text-xs font-mono leading-5 text-foreground">
+      {toHexRows(bytes.subarray(0, MAX_HEX_PREVIEW_BYTES)).map(row => (
+        <div key={row.offset} className="flex gap-4">
+          <span className="text-muted-foreground select-none">{row.offset}</span>
+          <span className="w-[24rem] shrink-0">{row.hex}</span>
+          <span className="text-muted-foreground">{row.ascii}</span>
+        </div>
+      ))}
+    </pre>
+  );
+
+  const renderContent = () => {
+    if (tooLarge) {
+      return (
+        <div className="py-12 text-center text-muted-foreground">
+          <p>This file is {formatFileSize(file.size)}, which is too large to preview.</p>
+          <p className="text-sm mt-1">Previews are limited to {formatFileSize(MAX_MEDIA_PREVIEW_BYTES)}.</p>
+        </div>
+      );
+    }
+    if (loading) {
+      return (
+        <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+          <RefreshCw className="w-6 h-6 animate-spin" />
+          <span className="text-sm">Loading preview...</span>
+        </div>
+      );
+    }
+    if (error) {
+      return (
+        <div className="py-12 text-center">
+          <p className="text-status-error font-semibold mb-1">Error loading preview</p>
+          <p className="text-sm text-muted-foreground">{error}</p>
+        </div>
+      );
+    }
+    if (!content) return null;
+
+    switch (content.kind) {
+      case 'image':
+        return objectUrl && (
+          <div className="flex items-center justify-center bg-muted rounded-md p-4">
+            <img src={objectUrl} alt={file.name} className="max-w-full max-h-[70vh] object-contain" />
+          </div>
+        );
+      case 'pdf':
+        return objectUrl && (
+          <iframe src={objectUrl} title={file.name} className="w-full h-[75vh] rounded-md border border-border" />
+        );
+      case 'text':
+        return renderText(content.bytes);
+      default:
+        return renderHex(content.bytes);
+    }
+  };
+
+  const shownBytes = content?.kind === 'binary' ? Math.min(content.bytes.length, MAX_HEX_PREVIEW_BYTES) : content?.bytes.length;
+  const isPartial = !!content && (content.truncated || (shownBytes ?? 0) < content.bytes.length);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end bg-black/50" onClick={onClose}>
+      <div
+        className="w-full max-w-4xl h-full bg-card border-l border-border shadow-xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between px-6 py-4 border-b border-border">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <Eye className="w-5 h-5 text-muted-foreground" />
+              <h2 className="text-lg font-semibold text-foreground truncate">{file.name}</h2>
+            </div>
+            <p className="text-sm text-muted-foreground font-mono truncate mt-1" title={file.path}>
+              {file.path} · {formatFileSize(file.size)} · snapshot {backupId.substring(0, 8)}
+            </p>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <button
+              onClick={downloadFile}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors"
+            >
+              <Download className="w-3.5 h-3.5" />
+              Download
+            </button>
+            <button
+              onClick={onClose}
+              className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+              aria-label="Close preview"
+            >
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {isPartial && (
+          <div className="flex items-center justify-between gap-4 px-6 py-2 text-sm bg-status-warning-bg text-status-warning-fg border-b border-border">
+            <span>
+              Showing the first {formatFileSize(shownBytes ?? 0)} of {formatFileSize(file.size)}.
+            </span>
+            <button onClick={downloadFile} className="font-medium underline whitespace-nowrap">
+              Download anyway
+            </button>
+          </div>
+        )}
+
+        {/* Content */}
+        <div className="flex-1 overflow-auto px-6 py-4">
+          {renderContent()}
+          {tooLarge && (
+            <div className="text-center">
+              <button
+                onClick={downloadFile}
+                className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors"
+              >
+                <Download className="w-4 h-4" />
+                Download anyway
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
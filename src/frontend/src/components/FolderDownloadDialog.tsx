@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import { X, Download, FileArchive } from 'lucide-react';
+import { backupService } from '../services/backupService';
+import { ArchiveFormat } from '../types';
+import { formatFileSize } from '../utils/timeFormat';
+
+interface FolderDownloadDialogProps {
+  folderPath: string | null;
+  estimatedSize?: number;
+  backupId: string;
+  deviceId: string;
+  shareId: string;
+  onClose: () => void;
+}
+
+const FORMATS: { value: ArchiveFormat; label: string; description: string }[] = [
+  { value: 'zip', label: 'ZIP', description: 'Opens natively on Windows and macOS' },
+  { value: 'tar.gz', label: 'tar.gz', description: 'Compressed tarball, keeps Unix permissions' },
+];
+
+export function FolderDownloadDialog({ folderPath, estimatedSize, backupId, deviceId, shareId, onClose }: FolderDownloadDialogProps) {
+  const [format, setFormat] = useState<ArchiveFormat>('zip');
+
+  if (folderPath === null) return null;
+
+  const folderName = folderPath === '/' ? 'root' : folderPath.split('/').filter(Boolean).pop();
+
+  const startDownload = () => {
+    // The archive is streamed by the server, so the browser's download manager shows progress
+    window.open(backupService.getArchiveUrl(backupId, deviceId, shareId, folderPath, format), '_blank');
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-md bg-card border border-border rounded-lg shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between px-6 py-4 border-b border-border">
+          <div className="min-w-0">
+            <div className="flex items-center gap-2">
+              <FileArchive className="w-5 h-5 text-muted-foreground" />
+              <h2 className="text-lg font-semibold text-foreground">Download "{folderName}"</h2>
+            </div>
+            <p className="text-sm text-muted-foreground font-mono truncate mt-1" title={folderPath}>{folderPath}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+            aria-label="Close download dialog"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Format picker */}
+        <div className="px-6 py-4 space-y-3">
+          <p className="text-sm font-medium text-foreground">Archive format</p>
+          {FORMATS.map(option => (
+            <label
+              key={option.value}
+              className={`flex items-start gap-3 p-3 rounded-md border cursor-pointer transition-colors ${
+                format === option.value ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+              }`}
+            >
+              <input
+                type="radio"
+                name="archive-format"
+                value={option.value}
+                checked={format === option.value}
+                onChange={() => setFormat(option.value)}
+                className="mt-1"
+              />
+              <div>
+                <div className="text-sm font-medium text-foreground">{option.label}</div>
+                <div className="text-xs text-muted-foreground">{option.description}</div>
+              </div>
+            </label>
+          ))}
+          <p className="text-sm text-muted-foreground">
+            Estimated size:{' '}
+            <span className="text-foreground font-medium">
+              {estimatedSize !== undefined ? `~${formatFileSize(estimatedSize)}` : 'calculating...'}
+            </span>
+            <span className="block text-xs mt-1">Before compression; the archive streams directly from the snapshot.</span>
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-border">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={startDownload}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors"
+          >
+            <Download className="w-4 h-4" />
+            Download {FORMATS.find(f => f.value === format)?.label}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
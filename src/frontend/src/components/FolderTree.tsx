@@ -0,0 +1,141 @@
+import { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronRight, Folder, FolderOpen, Loader2 } from 'lucide-react';
+import { backupService } from '../services/backupService';
+import { FileEntry } from '../types';
+
+// Caches are per snapshot, so callers key the tree by backup and share to start afresh
+interface FolderTreeProps {
+  backupId: string;
+  deviceId: string;
+  shareId: string;
+  currentPath: string;
+  // The main listing's entries for currentPath, reused so a listed folder is never fetched twice
+  currentFiles?: FileEntry[];
+  // The listing is still fetching currentPath, so the tree waits for it instead of fetching too
+  currentLoading?: boolean;
+  onNavigate: (path: string) => void;
+}
+
+const ancestorsOf = (path: string) => {
+  const parts = path.split('/').filter(Boolean);
+  return ['/', ...parts.map((_, index) => '/' + parts.slice(0, index + 1).join('/'))];
+};
+
+// The chevron only shows or hides a folder's subfolders; clicking the name opens it in the listing
+export function FolderTree({ backupId, deviceId, shareId, currentPath, currentFiles, currentLoading, onNavigate }: FolderTreeProps) {
+  // Subfolders per loaded directory; survives collapsing so re-expanding is instant
+  const [cache, setCache] = useState<Record<string, FileEntry[]>>({});
+  const [seededFiles, setSeededFiles] = useState<FileEntry[]>();
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [expanded, setExpanded] = useState<Set<string>>(() => new Set(ancestorsOf(currentPath)));
+  const [syncedPath, setSyncedPath] = useState(currentPath);
+  const requested = useRef(new Set<string>());
+
+  // Navigating in the listing opens the tree down to the new folder
+  if (syncedPath !== currentPath) {
+    setSyncedPath(currentPath);
+    setExpanded(prev => new Set([...prev, ...ancestorsOf(currentPath)]));
+  }
+
+  // Every folder the listing shows goes into the cache, so going back to it later needs no fetch
+  if (currentFiles && currentFiles !== seededFiles) {
+    setSeededFiles(currentFiles);
+    setCache(prev => ({ ...prev, [currentPath]: currentFiles.filter(e => e.isDirectory) }));
+  }
+
+  const subfoldersOf = (path: string): FileEntry[] | undefined =>
+    cache[path]?.slice().sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+  useEffect(() => {
+    expanded.forEach(path => {
+      if (cache[path] || errors[path] || (path === currentPath && currentLoading) || requested.current.has(path)) return;
+      requested.current.add(path);
+
+      backupService.browseBackupFiles(backupId, deviceId, shareId, path)
+        .then(entries => setCache(prev => ({ ...prev, [path]: entries.filter(e => e.isDirectory) })))
+        .catch(err => {
+          console.error('Failed to load folder tree:', err);
+          requested.current.delete(path);
+          setErrors(prev => ({ ...prev, [path]: err instanceof Error ? err.message : 'Failed to load' }));
+        });
+    });
+  }, [expanded, cache, errors, currentPath, currentLoading, backupId, deviceId, shareId]);
+
+  const toggle = (path: string) => {
+    setErrors(prev => {
+      const next = { ...prev };
+      delete next[path];
+      return next;
+    });
+    setExpanded(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const openFolder = (path: string) => {
+    if (!expanded.has(path)) toggle(path);
+    onNavigate(path);
+  };
+
+  const renderNode = (path: string, name: string, depth: number) => {
+    const isExpanded = expanded.has(path);
+    const isCurrent = path === currentPath;
+    const children = isExpanded ? subfoldersOf(path) : undefined;
+
+    return (
+      <li key={path}>
+        <div
+          className={`flex items-center gap-1 pr-2 py-1 rounded-md text-sm ${
+            isCurrent ? 'bg-primary/10 text-primary font-medium' : 'text-foreground hover:bg-muted'
+          }`}
+          style={{ paddingLeft: `${depth * 0.75 + 0.25}rem` }}
+        >
+          <button
+            onClick={() => toggle(path)}
+            className="p-0.5 text-muted-foreground hover:text-foreground shrink-0"
+            aria-label={isExpanded ? `Collapse ${name}` : `Expand ${name}`}
+            aria-expanded={isExpanded}
+            title={isExpanded ? 'Hide subfolders' : 'Show subfolders without opening the folder'}
+          >
+            {isExpanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+          </button>
+          <button onClick={() => openFolder(path)} className="flex items-center gap-1.5 min-w-0 text-left" title={`Open ${path}`}>
+            {isExpanded ? (
+              <FolderOpen className="w-4 h-4 text-blue-500 shrink-0" />
+            ) : (
+              <Folder className="w-4 h-4 text-blue-500 shrink-0" />
+            )}
+            <span className="truncate">{name}</span>
+          </button>
+        </div>
+
+        {isExpanded && (
+          errors[path] ? (
+            <p className="text-xs text-status-error py-1" style={{ paddingLeft: `${(depth + 1) * 0.75 + 1}rem` }}>
+              {errors[path]}
+            </p>
+          ) : !children ? (
+            <div className="flex items-center gap-1.5 text-xs text-muted-foreground py-1" style={{ paddingLeft: `${(depth + 1) * 0.75 + 1}rem` }}>
+              <Loader2 className="w-3 h-3 animate-spin" />
+              Loading...
+            </div>
+          ) : children.length > 0 && (
+            <ul>{children.map(child => renderNode(child.path, child.name, depth + 1))}</ul>
+          )
+        )}
+      </li>
+    );
+  };
+
+  return (
+    <nav className="bg-card rounded-lg shadow-sm border border-border p-2 overflow-auto max-h-[75vh]" aria-label="Folder tree">
+      <ul>{renderNode('/', 'root', 0)}</ul>
+    </nav>
+  );
+}
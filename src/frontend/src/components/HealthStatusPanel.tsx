@@ -1,6 +1,5 @@
-import { useState, useEffect } from 'react';
-import { healthService } from '../services/healthService';
-import { HealthStatus } from '../types/health';
+import { useState } from 'react';
+import { useHealthStatus } from '../hooks/queries';
 import { 
   Activity, 
   CheckCircle, 
@@ -14,36 +13,16 @@ import {
 } from 'lucide-react';
 
 export function HealthStatusPanel() {
-  const [health, setHealth] = useState<HealthStatus | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [isExpanded, setIsExpanded] = useState(false);
   const [expandedChecks, setExpandedChecks] = useState<Set<string>>(new Set());
   const [autoRefresh, setAutoRefresh] = useState(true);
+  const { data: health, isFetching: loading, isError, refetch } = useHealthStatus(autoRefresh);
+  const error = isError ? 'Failed to load health status' : null;
 
-  const loadHealth = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await healthService.getStatus();
-      setHealth(data);
-    } catch (err) {
-      setError('Failed to load health status');
-      console.error(err);
-    } finally {
-      setLoading(false);
-    }
+  const loadHealth = () => {
+    refetch();
   };
 
-  useEffect(() => {
-    loadHealth();
-    
-    if (autoRefresh) {
-      const interval = setInterval(loadHealth, 30000); // Refresh every 30 seconds
-      return () => clearInterval(interval);
-    }
-  }, [autoRefresh]);
-
   const toggleCheckExpanded = (checkName: string) => {
     setExpandedChecks(prev => {
       const newSet = new Set(prev);
@@ -0,0 +1,188 @@
+import { ReactNode } from 'react';
+
+export interface ChartSegment {
+  name: string;
+  colorClass: string;
+}
+
+interface ChartCardProps {
+  title: string;
+  subtitle?: string;
+  legend?: ChartSegment[];
+  children: ReactNode;
+}
+
+export function ChartCard({ title, subtitle, legend, children }: ChartCardProps) {
+  return (
+    <div className="bg-card rounded-lg shadow-sm p-4 border border-border">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="text-sm font-semibold text-foreground">{title}</h3>
+          {subtitle && <p className="text-xs text-muted-foreground">{subtitle}</p>}
+        </div>
+        {legend && (
+          <div className="flex flex-wrap justify-end gap-3 text-xs text-muted-foreground">
+            {legend.map(segment => (
+              <span key={segment.name} className="flex items-center gap-1">
+                <span className={`w-2.5 h-2.5 rounded-sm ${segment.colorClass}`} />
+                {segment.name}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+      {children}
+    </div>
+  );
+}
+
+interface ColumnProps {
+  labels: string[];
+  formatValue: (value: number) => string;
+  selectedIndex?: number | null;
+  onSelect?: (index: number) => void;
+}
+
+// Only the first, middle and last labels fit under a 90 day chart
+function AxisLabels({ labels }: { labels: string[] }) {
+  const shown = labels.length > 2 ? [labels[0], labels[Math.floor(labels.length / 2)], labels[labels.length - 1]] : labels;
+  return (
+    <div className="flex justify-between mt-2 text-xs text-muted-foreground">
+      {shown.map((label, index) => <span key={index}>{label}</span>)}
+    </div>
+  );
+}
+
+interface StackedBarChartProps extends ColumnProps {
+  segments: ChartSegment[];
+  values: number[][]; // One array per column, one value per segment
+  heightClass?: string;
+}
+
+/**
+ * Column chart with one clickable bar per label, each bar stacking the segment values bottom-up.
+ */
+export function StackedBarChart({
+  labels,
+  segments,
+  values,
+  formatValue,
+  selectedIndex,
+  onSelect,
+  heightClass = 'h-40',
+}: StackedBarChartProps) {
+  const max = Math.max(1, ...values.map(column => column.reduce((sum, value) => sum + value, 0)));
+
+  return (
+    <div>
+      <div className="flex justify-between text-xs text-muted-foreground mb-1">
+        <span>{formatValue(max)}</span>
+      </div>
+      <div className={`flex items-end gap-px border-b border-border ${heightClass}`}>
+        {values.map((column, index) => {
+          const title = [
+            labels[index],
+            ...segments.map((segment, s) => `${segment.name}: ${formatValue(column[s] ?? 0)}`),
+          ].join('\n');
+
+          return (
+            <button
+              key={index}
+              type="button"
+              title={title}
+              onClick={() => onSelect?.(index)}
+              className={`flex-1 h-full flex flex-col-reverse rounded-t-sm hover:bg-muted ${
+                selectedIndex === index ? 'bg-muted ring-1 ring-primary' : ''
+              }`}
+            >
+              {column.map((value, s) =>
+                value > 0 ? (
+                  <div
+                    key={s}
+                    className={`w-full ${segments[s].colorClass}`}
+                    style={{ height: `${(value / max) * 100}%` }}
+                  />
+                ) : null
+              )}
+            </button>
+          );
+        })}
+      </div>
+      <AxisLabels labels={labels} />
+    </div>
+  );
+}
+
+interface LineChartProps extends ColumnProps {
+  values: number[];
+  strokeClass?: string;
+  heightClass?: string;
+  showAxis?: boolean;
+}
+
+/**
+ * Line chart drawn as a stretched SVG polyline over a row of clickable columns, one per point.
+ */
+export function LineChart({
+  labels,
+  values,
+  formatValue,
+  selectedIndex,
+  onSelect,
+  strokeClass = 'stroke-primary',
+  heightClass = 'h-40',
+  showAxis = true,
+}: LineChartProps) {
+  const max = Math.max(...values, 0);
+  const min = Math.min(...values, max);
+  const span = max - min || 1;
+
+  // Points sit in the middle of their column, with a little headroom above and below the line
+  const points = values
+    .map((value, index) => {
+      const x = ((index + 0.5) / values.length) * 100;
+      const y = 95 - ((value - min) / span) * 90;
+      return `${x},${y}`;
+    })
+    .join(' ');
+
+  return (
+    <div>
+      {showAxis && (
+        <div className="flex justify-between text-xs text-muted-foreground mb-1">
+          <span>{formatValue(max)}</span>
+        </div>
+      )}
+      <div className={`relative ${showAxis ? 'border-b border-border' : ''} ${heightClass}`}>
+        <div className="absolute inset-0 flex">
+          {values.map((value, index) => (
+            <button
+              key={index}
+              type="button"
+              title={`${labels[index]}\n${formatValue(value)}`}
+              onClick={() => onSelect?.(index)}
+              className={`flex-1 h-full hover:bg-muted ${selectedIndex === index ? 'bg-muted' : ''}`}
+            />
+          ))}
+        </div>
+        <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+          {values.length > 1 && (
+            <polyline
+              points={points}
+              fill="none"
+              className={strokeClass}
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            />
+          )}
+        </svg>
+      </div>
+      {showAxis && (
+        <>
+          <AxisLabels labels={labels} />
+          {min > 0 && <div className="text-xs text-muted-foreground">from {formatValue(min)}</div>}
+        </>
+      )}
+    </div>
+  );
+}
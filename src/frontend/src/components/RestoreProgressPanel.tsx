@@ -0,0 +1,90 @@
+import { CheckCircle, FileText, FolderOutput, Loader2, XCircle } from 'lucide-react';
+import { RestoreProgress } from '../services/signalr';
+import { formatFileSize } from '../utils/timeFormat';
+
+interface RestoreProgressPanelProps {
+  restores: RestoreProgress[];
+  highlightId?: string | null;
+  emptyMessage?: string;
+}
+
+export function RestoreProgressPanel({ restores, highlightId, emptyMessage = 'No restores in the last hour' }: RestoreProgressPanelProps) {
+  if (restores.length === 0) {
+    return (
+      <div className="bg-card rounded-lg shadow-sm border border-border p-8 text-center text-muted-foreground">
+        {emptyMessage}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {restores.map(restore => {
+        const isRunning = restore.status === 'Running';
+        const isCompleted = restore.status === 'Completed';
+        const isFailed = restore.status === 'Failed';
+        const percent = Math.round(restore.percentComplete || 0);
+
+        return (
+          <div
+            key={restore.restoreId}
+            className={`bg-card rounded-lg shadow-sm border p-4 space-y-3 ${
+              restore.restoreId === highlightId ? 'border-primary' : 'border-border'
+            }`}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <div className="flex items-center gap-2 min-w-0">
+                {isRunning && <Loader2 className="w-5 h-5 animate-spin text-primary shrink-0" />}
+                {isCompleted && <CheckCircle className="w-5 h-5 text-status-success shrink-0" />}
+                {isFailed && <XCircle className="w-5 h-5 text-status-error shrink-0" />}
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground">
+                    Snapshot <span className="font-mono">{restore.backupId?.substring(0, 8)}</span>
+                  </p>
+                  <p className="text-xs text-muted-foreground flex items-center gap-1 min-w-0">
+                    <FolderOutput className="w-3.5 h-3.5 shrink-0" />
+                    <span className="font-mono truncate" title={restore.targetPath}>{restore.targetPath}</span>
+                  </p>
+                </div>
+              </div>
+              <div className="text-right text-xs text-muted-foreground shrink-0">
+                <div>Started {new Date(restore.startedAt).toLocaleString()}</div>
+                {restore.completedAt && <div>Finished {new Date(restore.completedAt).toLocaleString()}</div>}
+              </div>
+            </div>
+
+            <div className="flex items-center gap-2">
+              <div className="flex-1 bg-muted rounded-full h-2">
+                <div
+                  className={`h-2 rounded-full transition-all duration-300 ${
+                    isCompleted ? 'bg-status-success' : isFailed ? 'bg-status-error' : 'bg-primary'
+                  }`}
+                  style={{ width: `${percent}%` }}
+                />
+              </div>
+              <span className="text-xs font-medium text-foreground min-w-[2.5rem] text-right">{percent}%</span>
+            </div>
+
+            <div className="flex items-center gap-4 text-xs text-muted-foreground">
+              <span className="flex items-center gap-1">
+                <FileText className="w-3.5 h-3.5" />
+                Files: {(restore.filesRestored || 0).toLocaleString()}
+                {restore.totalFiles ? ` / ${restore.totalFiles.toLocaleString()}` : ''}
+              </span>
+              <span>
+                Data: {formatFileSize(restore.bytesRestored)}
+                {restore.totalBytes ? ` / ${formatFileSize(restore.totalBytes)}` : ''}
+              </span>
+            </div>
+
+            {isFailed && restore.errorMessage && (
+              <div className="text-sm text-status-error-fg bg-status-error-bg border border-status-error/30 rounded-md px-3 py-2">
+                {restore.errorMessage}
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,115 @@
+import { useState } from 'react';
+import { X, RotateCcw } from 'lucide-react';
+import { backupService } from '../services/backupService';
+import { RestoreProgress } from '../services/signalr';
+import { getErrorMessage } from '../utils/errors';
+
+interface RestoreSelectionDialogProps {
+  paths: string[] | null; // Selected snapshot paths; null keeps the dialog closed
+  backupId: string;
+  deviceId: string;
+  shareId: string;
+  onClose: () => void;
+  onStarted: (restore: RestoreProgress) => void;
+}
+
+export function RestoreSelectionDialog({ paths, backupId, deviceId, shareId, onClose, onStarted }: RestoreSelectionDialogProps) {
+  const [targetPath, setTargetPath] = useState('');
+  const [restoring, setRestoring] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (paths === null) return null;
+
+  const close = () => {
+    if (restoring) return;
+    setError(null);
+    onClose();
+  };
+
+  const startRestore = async () => {
+    setRestoring(true);
+    setError(null);
+    try {
+      // The server queues the restore and reports progress over SignalR
+      const started = await backupService.restoreBackup(backupId, deviceId, shareId, {
+        targetPath: targetPath.trim(),
+        includePaths: paths
+      });
+      setTargetPath('');
+      onStarted(started);
+    } catch (err) {
+      console.error('Failed to start restore:', err);
+      setError(getErrorMessage(err, 'Failed to start restore'));
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 p-4" onClick={close}>
+      <div
+        className="w-full max-w-md bg-card border border-border rounded-lg shadow-xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex items-start justify-between px-6 py-4 border-b border-border">
+          <div className="flex items-center gap-2">
+            <RotateCcw className="w-5 h-5 text-muted-foreground" />
+            <h2 className="text-lg font-semibold text-foreground">
+              Restore {paths.length} selected {paths.length === 1 ? 'item' : 'items'}
+            </h2>
+          </div>
+          <button
+            onClick={close}
+            className="p-1 text-muted-foreground hover:text-foreground transition-colors"
+            aria-label="Close restore dialog"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="px-6 py-4 space-y-3">
+          <ul className="max-h-32 overflow-y-auto text-xs font-mono text-muted-foreground space-y-0.5">
+            {paths.map(path => (
+              <li key={path} className="truncate" title={path}>{path}</li>
+            ))}
+          </ul>
+          <label className="block">
+            <span className="text-sm font-medium text-foreground">Target path (on server)</span>
+            <input
+              type="text"
+              value={targetPath}
+              onChange={(e) => setTargetPath(e.target.value)}
+              placeholder="/tmp/restored-files"
+              className="mt-1 w-full px-3 py-2 text-sm bg-card text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              disabled={restoring}
+            />
+            <span className="block text-xs text-muted-foreground mt-1">
+              Items keep their folder structure below this path on the server where BackupChrono is running.
+            </span>
+          </label>
+          {error && <div className="px-3 py-2 text-sm text-status-error-fg bg-status-error-bg rounded-md">{error}</div>}
+        </div>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-6 py-4 border-t border-border">
+          <button
+            onClick={close}
+            className="px-4 py-2 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors"
+            disabled={restoring}
+          >
+            Cancel
+          </button>
+          <button
+            onClick={startRestore}
+            className="inline-flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            disabled={restoring || !targetPath.trim()}
+          >
+            <RotateCcw className="w-4 h-4" />
+            {restoring ? 'Starting...' : 'Restore'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,136 @@
+import { useState } from 'react';
+import { isAxiosError } from 'axios';
+import { useRetentionPreview } from '../hooks/queries';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { dashboardService } from '../services/dashboardService';
+import { RetentionPolicy, RetentionRule } from '../types';
+
+interface RetentionSimulatorProps {
+  deviceId: string;
+  shareId: string;
+  policy: Required<RetentionPolicy>; // Effective policy, with inherited values filled in
+}
+
+type SnapshotFilter = 'all' | 'keep' | 'forget';
+
+const FILTERS: { filter: SnapshotFilter; label: string }[] = [
+  { filter: 'all', label: 'All' },
+  { filter: 'keep', label: 'Kept' },
+  { filter: 'forget', label: 'Forgotten' },
+];
+
+const RULES: Record<RetentionRule, { label: string; className: string }> = {
+  latest: { label: 'Latest', className: 'bg-blue-100 text-blue-800' },
+  daily: { label: 'Daily', className: 'bg-green-100 text-green-800' },
+  weekly: { label: 'Weekly', className: 'bg-purple-100 text-purple-800' },
+  monthly: { label: 'Monthly', className: 'bg-amber-100 text-amber-800' },
+  yearly: { label: 'Yearly', className: 'bg-pink-100 text-pink-800' },
+};
+
+// Waits for typing to pause before asking the server to re-run the policy
+const PREVIEW_DELAY_MS = 400;
+
+const validatePolicy = (policy: Required<RetentionPolicy>) => {
+  const counts = Object.values(policy);
+  if (counts.some(count => !Number.isInteger(count) || count < 0)) return 'Keep counts must be whole numbers of 0 or more.';
+  if (counts.every(count => count === 0)) return 'At least one keep count must be above 0, or every snapshot would be forgotten.';
+  return '';
+};
+
+/**
+ * Runs a proposed retention policy against the share's current snapshots, the way restic's forget
+ * will, and lists which snapshots survive and by which rule. Nothing is changed on the server.
+ */
+export function RetentionSimulator({ deviceId, shareId, policy }: RetentionSimulatorProps) {
+  const [filter, setFilter] = useState<SnapshotFilter>('all');
+
+  const validationError = validatePolicy(policy);
+  // Debounced as JSON so that a new but equal policy object does not restart the timer
+  const debounced = useDebouncedValue(validationError ? null : JSON.stringify(policy), PREVIEW_DELAY_MS);
+  const preview = useRetentionPreview(deviceId, shareId, debounced ? (JSON.parse(debounced) as RetentionPolicy) : null);
+  const previewError = isAxiosError<{ error?: string; detail?: string }>(preview.error)
+    ? preview.error.response?.data?.detail || preview.error.response?.data?.error || preview.error.message
+    : null;
+
+  const data = preview.data;
+  const snapshots = data?.snapshots.filter(s => filter === 'all' || (filter === 'keep') === s.keep) ?? [];
+
+  return (
+    <div className="rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-xs space-y-2">
+      <div className="font-medium text-gray-700">Effect on current snapshots</div>
+
+      {validationError ? (
+        <div className="text-red-600">{validationError}</div>
+      ) : previewError ? (
+        <div className="text-red-600">{previewError}</div>
+      ) : !data || debounced === null ? (
+        <div className="text-gray-500">Simulating…</div>
+      ) : data.snapshots.length === 0 ? (
+        <div className="text-gray-500">This share has no snapshots yet.</div>
+      ) : (
+        <>
+          <div className="text-gray-700">
+            Keeps <span className="font-semibold">{data.keepCount}</span> of {data.snapshots.length} snapshots and forgets{' '}
+            <span className={`font-semibold ${data.forgetCount > 0 ? 'text-red-600' : ''}`}>{data.forgetCount}</span>
+            {data.forgetCount > 0 && (
+              <>, freeing <span className="font-semibold">{dashboardService.formatBytes(data.bytesReclaimed)}</span></>
+            )}
+            .
+          </div>
+          {data.forgetCount > 0 && (
+            <div className="text-gray-500">
+              Only data no kept snapshot still uses is freed, once prune has run.
+            </div>
+          )}
+
+          {/* Oldest to newest, one cell per snapshot */}
+          <div className="flex flex-wrap gap-0.5">
+            {[...data.snapshots].reverse().map(snapshot => (
+              <span
+                key={snapshot.id}
+                title={`${new Date(snapshot.timestamp).toLocaleString()}: ${snapshot.keep ? `kept (${snapshot.reasons.map(r => RULES[r].label.toLowerCase()).join(', ')})` : 'forgotten'}`}
+                className={`w-2 h-3 rounded-sm ${snapshot.keep ? 'bg-blue-500' : 'bg-red-300'}`}
+              />
+            ))}
+          </div>
+
+          <div className="flex rounded-md border border-gray-300 overflow-hidden w-fit">
+            {FILTERS.map(item => (
+              <button
+                key={item.filter}
+                type="button"
+                onClick={() => setFilter(item.filter)}
+                className={`px-2 py-0.5 ${filter === item.filter ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+              >
+                {item.label}
+              </button>
+            ))}
+          </div>
+
+          <ul className="max-h-56 overflow-y-auto divide-y divide-gray-200 border border-gray-200 rounded bg-white">
+            {snapshots.map(snapshot => (
+              <li key={snapshot.id} className="flex items-center gap-3 px-2 py-1">
+                <span className={`w-40 ${snapshot.keep ? 'text-gray-900' : 'text-gray-400 line-through'}`}>
+                  {new Date(snapshot.timestamp).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' })}
+                </span>
+                <span className="w-16 font-mono text-gray-500">{snapshot.id.slice(0, 8)}</span>
+                <span className="flex-1 flex flex-wrap gap-1">
+                  {snapshot.keep ? (
+                    snapshot.reasons.map(rule => (
+                      <span key={rule} className={`px-1.5 rounded ${RULES[rule].className}`}>{RULES[rule].label}</span>
+                    ))
+                  ) : (
+                    <span className="px-1.5 rounded bg-red-100 text-red-800">Forget</span>
+                  )}
+                </span>
+                <span className="w-16 text-right text-gray-500">
+                  {snapshot.dataAdded != null ? dashboardService.formatBytes(snapshot.dataAdded) : '–'}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+import { useState } from 'react';
+import { isAxiosError } from 'axios';
+import { useSchedulePreview } from '../hooks/queries';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { Schedule, SchedulePreviewRequest, ScheduleRestrictions } from '../types';
+import {
+  DAY_NAMES,
+  QUARTZ_FIELDS,
+  SchedulePreset,
+  buildPresetCron,
+  describeCron,
+  parsePresetCron,
+  validateQuartzCron,
+} from '../utils/cron';
+
+interface ScheduleEditorProps {
+  value: string;
+  onChange: (cron: string) => void;
+  inheritedLabel: string; // What an empty schedule falls back to, e.g. "device schedule (0 0 2 * * ?)"
+  restrictions?: ScheduleRestrictions; // Window, blocked hours and blackouts set alongside this schedule
+  inherited?: Schedule[]; // Global and device schedules whose restrictions also apply
+}
+
+type EditorMode = 'presets' | 'builder' | 'raw';
+
+const MODES: { mode: EditorMode; label: string }[] = [
+  { mode: 'presets', label: 'Presets' },
+  { mode: 'builder', label: 'Builder' },
+  { mode: 'raw', label: 'Expression' },
+];
+
+const PRESET_LABELS: Record<SchedulePreset['kind'], string> = {
+  hourly: 'Hourly',
+  daily: 'Nightly',
+  weekly: 'Weekly',
+};
+
+const DEFAULT_FIELDS = ['0', '0', '2', '*', '*', '?', ''];
+
+// Waits for typing to pause before asking the server for a preview
+const PREVIEW_DELAY_MS = 400;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+// Windows servers report zone ids such as "W. Europe Standard Time", which Intl does not understand
+const isKnownTimeZone = (timeZone: string) => {
+  try {
+    new Intl.DateTimeFormat([], { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const formatRun = (iso: string, timeZone?: string) =>
+  new Date(iso).toLocaleString([], {
+    weekday: 'short',
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZone,
+  });
+
+function PresetPicker({ value, onChange }: { value: string; onChange: (cron: string) => void }) {
+  const preset = parsePresetCron(value);
+  const hour = preset && preset.kind !== 'hourly' ? preset.hour : 2;
+  const minute = preset?.minute ?? 0;
+
+  const select = (kind: SchedulePreset['kind']) => {
+    if (preset?.kind === kind) return;
+    // Keep the chosen time when switching between presets
+    const next: SchedulePreset =
+      kind === 'hourly' ? { kind, minute }
+        : kind === 'daily' ? { kind, hour, minute }
+          : { kind, hour, minute, days: ['SUN'] };
+    onChange(buildPresetCron(next));
+  };
+
+  const setTime = (time: string) => {
+    const [h, m] = time.split(':').map(Number);
+    if (!preset || preset.kind === 'hourly' || isNaN(h) || isNaN(m)) return;
+    onChange(buildPresetCron({ ...preset, hour: h, minute: m }));
+  };
+
+  const toggleDay = (day: string) => {
+    if (preset?.kind !== 'weekly') return;
+    const days = preset.days.includes(day) ? preset.days.filter(d => d !== day) : [...preset.days, day];
+    if (days.length === 0) return; // A weekly schedule needs at least one day
+    onChange(buildPresetCron({ ...preset, days }));
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        {(Object.keys(PRESET_LABELS) as SchedulePreset['kind'][]).map(kind => (
+          <button
+            key={kind}
+            type="button"
+            onClick={() => select(kind)}
+            className={`px-3 py-1.5 text-sm rounded-md border ${
+              preset?.kind === kind ? 'bg-blue-50 border-blue-500 text-blue-700' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            {PRESET_LABELS[kind]}
+          </button>
+        ))}
+      </div>
+
+      {!preset && value.trim() && (
+        <p className="text-xs text-gray-500">The current expression is not one of the presets. Choosing a preset replaces it.</p>
+      )}
+
+      {preset?.kind === 'hourly' && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          At minute
+          <input
+            type="number"
+            min={0}
+            max={59}
+            value={preset.minute}
+            onChange={(e) => {
+              const next = Number.parseInt(e.target.value);
+              if (!isNaN(next) && next >= 0 && next <= 59) onChange(buildPresetCron({ ...preset, minute: next }));
+            }}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          past every hour
+        </label>
+      )}
+
+      {preset && preset.kind !== 'hourly' && (
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          At
+          <input
+            type="time"
+            value={`${pad(preset.hour)}:${pad(preset.minute)}`}
+            onChange={(e) => setTime(e.target.value)}
+            className="px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          server time
+        </label>
+      )}
+
+      {preset?.kind === 'weekly' && (
+        <div className="flex gap-1">
+          {DAY_NAMES.map(day => (
+            <button
+              key={day}
+              type="button"
+              onClick={() => toggleDay(day)}
+              className={`w-11 py-1 text-xs font-medium rounded-md border ${
+                preset.days.includes(day) ? 'bg-blue-600 border-blue-600 text-white' : 'bg-white border-gray-300 text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {day.charAt(0) + day.slice(1).toLowerCase()}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Mounted fresh each time the builder is opened, so its fields start from the current expression
+function FieldBuilder({ value, onChange }: { value: string; onChange: (cron: string) => void }) {
+  const [fields, setFields] = useState(() => {
+    const parts = value.trim() ? value.trim().split(/\s+/) : [];
+    return parts.length === 6 || parts.length === 7 ? [...parts, ''].slice(0, 7) : DEFAULT_FIELDS;
+  });
+
+  const setField = (index: number, text: string) => {
+    const next = fields.map((field, i) => (i === index ? text.trim() : field));
+    setFields(next);
+    // Year is optional; the other fields are kept even when blank so validation can name them
+    onChange((next[6] ? next : next.slice(0, 6)).map(field => field || '_').join(' '));
+  };
+
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      {QUARTZ_FIELDS.map((field, index) => (
+        <label key={field.key} className="block">
+          <span className="block text-xs font-medium text-gray-600">{field.label}</span>
+          <input
+            type="text"
+            value={fields[index]}
+            onChange={(e) => setField(index, e.target.value)}
+            placeholder={index === 6 ? 'Any' : undefined}
+            className="w-full mt-0.5 px-2 py-1 border border-gray-300 rounded-md text-sm text-gray-900 font-mono focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          />
+          <span className="block text-[11px] text-gray-400">{field.hint}</span>
+        </label>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Edits a Quartz cron schedule through presets, a field-by-field builder or the raw expression,
+ * and previews the next runs as the server will compute them, marking those that restrictions
+ * will skip. An empty value means "inherit".
+ */
+export function ScheduleEditor({ value, onChange, inheritedLabel, restrictions, inherited = [] }: ScheduleEditorProps) {
+  const [mode, setMode] = useState<EditorMode>(() => (!value.trim() || parsePresetCron(value) ? 'presets' : 'raw'));
+  const [rawTouched, setRawTouched] = useState(false);
+
+  const cron = value.trim();
+  const validationError = validateQuartzCron(cron);
+  const showError = validationError && (mode !== 'raw' || rawTouched);
+
+  // Debounced as JSON so that a new but equal request object does not restart the timer
+  const request: SchedulePreviewRequest | null = cron && !validationError
+    ? { schedule: { ...restrictions, cronExpression: cron }, inherited }
+    : null;
+  const debounced = useDebouncedValue(JSON.stringify(request), PREVIEW_DELAY_MS);
+  const preview = useSchedulePreview(JSON.parse(debounced) as SchedulePreviewRequest | null);
+  const previewError = isAxiosError<{ error?: string; detail?: string }>(preview.error)
+    ? preview.error.response?.data?.detail || preview.error.response?.data?.error || preview.error.message
+    : null;
+
+  const serverTimeZone = preview.data?.serverTimeZone;
+  const knownZone = serverTimeZone ? isKnownTimeZone(serverTimeZone) : false;
+  const description = cron && !validationError ? describeCron(cron) : '';
+  const skipped = preview.data?.runs.filter(run => run.blockedReason).length ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex rounded-md border border-gray-300 overflow-hidden text-xs">
+          {MODES.map(item => (
+            <button
+              key={item.mode}
+              type="button"
+              onClick={() => setMode(item.mode)}
+              className={`px-3 py-1 ${mode === item.mode ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'}`}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+        {cron && (
+          <button type="button" onClick={() => onChange('')} className="text-xs text-blue-600 hover:text-blue-800">
+            Use {inheritedLabel}
+          </button>
+        )}
+      </div>
+
+      {mode === 'presets' && <PresetPicker value={value} onChange={onChange} />}
+      {mode === 'builder' && <FieldBuilder value={value} onChange={onChange} />}
+      {mode === 'raw' && (
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          onBlur={() => setRawTouched(true)}
+          placeholder="0 0 2 * * ?"
+          className={`w-full px-3 py-2 border rounded-md text-sm text-gray-900 font-mono focus:ring-2 focus:border-transparent ${showError ? 'border-red-500 focus:ring-red-500' : 'border-gray-300 focus:ring-blue-500'}`}
+        />
+      )}
+
+      {!cron ? (
+        <p className="text-xs text-gray-500">No schedule set; the {inheritedLabel} is used.</p>
+      ) : validationError ? (
+        showError && <p className="text-xs text-red-600">{validationError}</p>
+      ) : (
+        <div className="rounded-md border border-gray-200 bg-gray-50 px-3 py-2 text-xs space-y-1">
+          <div className="font-mono text-gray-900">{cron}</div>
+          {description && <div className="text-gray-600">{description}</div>}
+          {previewError ? (
+            <div className="text-red-600">{previewError}</div>
+          ) : preview.data ? (
+            <>
+              <div className="pt-1 font-medium text-gray-700">
+                Next {preview.data.runs.length} runs ({knownZone ? `server time, ${serverTimeZone}` : 'your local time'})
+              </div>
+              {skipped > 0 && (
+                <div className="text-gray-500">{skipped} of them fall in a blocked time and will be skipped.</div>
+              )}
+              {preview.data.runs.length === 0 ? (
+                <div className="text-gray-500">This schedule will not run again.</div>
+              ) : (
+                <ol className="grid grid-cols-2 gap-x-4 text-gray-700">
+                  {preview.data.runs.map(run => (
+                    <li
+                      key={run.startsAt}
+                      title={run.blockedReason ?? undefined}
+                      className={run.blockedReason ? 'line-through text-gray-400' : undefined}
+                    >
+                      {formatRun(run.startsAt, knownZone ? serverTimeZone : undefined)}
+                    </li>
+                  ))}
+                </ol>
+              )}
+            </>
+          ) : (
+            <div className="text-gray-500">Calculating next runs…</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,159 @@
+import { Link } from 'react-router-dom';
+import { AlertTriangle } from 'lucide-react';
+import { ScheduleLaneDto, ScheduledRunDto, UpcomingScheduleDto } from '../types';
+
+interface ScheduleTimelineProps {
+  schedule: UpcomingScheduleDto;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+// Narrow enough to read hour labels over a day, wide enough to keep a week to seven ticks
+const tickStepHours = (rangeHours: number) => (rangeHours <= 24 ? 3 : rangeHours <= 72 ? 12 : 24);
+
+const formatTick = (time: Date, stepHours: number) =>
+  stepHours >= 24
+    ? time.toLocaleDateString([], { weekday: 'short', day: 'numeric' })
+    : time.getHours() === 0
+      ? time.toLocaleDateString([], { weekday: 'short', day: 'numeric' })
+      : time.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatDuration = (seconds: number) => {
+  const minutes = Math.round(seconds / 60);
+  if (minutes < 60) return `${Math.max(minutes, 1)}m`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const formatWindow = (lane: ScheduleLaneDto) =>
+  lane.timeWindowStart || lane.timeWindowEnd
+    ? `${lane.timeWindowStart?.slice(0, 5) ?? '00:00'}-${lane.timeWindowEnd?.slice(0, 5) ?? '24:00'}`
+    : null;
+
+const runClasses = (run: ScheduledRunDto, hasHistory: boolean) => {
+  const colour = run.blockedReason ? 'bg-status-warning' : run.overlaps ? 'bg-status-error' : 'bg-primary';
+  return `${colour} ${hasHistory ? '' : 'opacity-50'}`;
+};
+
+const runTitle = (lane: ScheduleLaneDto, run: ScheduledRunDto) => {
+  const start = new Date(run.startsAt).toLocaleString();
+  const expected = lane.expectedDurationSeconds != null
+    ? `expected ${formatDuration(lane.expectedDurationSeconds)}`
+    : 'no history to estimate duration';
+  return [
+    `${lane.deviceName} / ${lane.shareName ?? 'all shares'}`,
+    `${start} (${expected})`,
+    run.overlaps ? 'Overlaps another run on this device' : null,
+    run.blockedReason ? `Will be skipped: ${run.blockedReason}` : null,
+  ].filter(Boolean).join('\n');
+};
+
+/**
+ * Gantt-style view of planned runs, one row per scheduled job grouped by device. Bars span the
+ * expected duration taken from history; runs competing for the same device are shown in red.
+ */
+export function ScheduleTimeline({ schedule }: ScheduleTimelineProps) {
+  const from = new Date(schedule.from).getTime();
+  const to = new Date(schedule.to).getTime();
+  const span = to - from;
+  const stepHours = tickStepHours(span / HOUR);
+
+  // Ticks fall on whole local hours (or midnights) so the labels read naturally
+  const ticks: Date[] = [];
+  const firstTick = new Date(from);
+  firstTick.setMinutes(0, 0, 0);
+  firstTick.setHours(Math.ceil((firstTick.getHours() + 1) / stepHours) * stepHours);
+  for (let tick = firstTick; tick.getTime() < to; tick = new Date(tick.getTime() + stepHours * HOUR)) {
+    ticks.push(tick);
+  }
+
+  const position = (time: number) => `${((time - from) / span) * 100}%`;
+  const width = (start: number, end: number) => `${Math.max(((Math.min(end, to) - start) / span) * 100, 0.3)}%`;
+
+  const devices = schedule.lanes.reduce<Map<string, ScheduleLaneDto[]>>((groups, lane) => {
+    groups.set(lane.deviceId, [...(groups.get(lane.deviceId) ?? []), lane]);
+    return groups;
+  }, new Map());
+
+  if (schedule.lanes.length === 0) {
+    return (
+      <div className="bg-card rounded-lg shadow-sm border border-border px-4 py-8 text-center text-sm text-muted-foreground">
+        No devices or shares have a backup schedule.
+      </div>
+    );
+  }
+
+  const gridLines = ticks.map(tick => (
+    <div key={tick.getTime()} className="absolute inset-y-0 border-l border-border" style={{ left: position(tick.getTime()) }} />
+  ));
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+      <div className="flex border-b border-border bg-muted text-xs text-muted-foreground">
+        <div className="w-56 shrink-0 px-4 py-2 font-medium uppercase tracking-wide">Schedule</div>
+        <div className="relative flex-1 h-8">
+          {ticks.map(tick => (
+            <span
+              key={tick.getTime()}
+              className="absolute top-2 -translate-x-1/2 whitespace-nowrap"
+              style={{ left: position(tick.getTime()) }}
+            >
+              {formatTick(tick, stepHours)}
+            </span>
+          ))}
+        </div>
+      </div>
+
+      {Array.from(devices.entries()).map(([deviceId, lanes]) => (
+        <div key={deviceId} className="border-b border-border last:border-b-0">
+          <div className="px-4 py-2 text-sm font-semibold text-foreground">
+            <Link to={`/devices/${deviceId}`} className="hover:underline">{lanes[0].deviceName}</Link>
+          </div>
+          {lanes.map(lane => {
+            const timeWindow = formatWindow(lane);
+            const hasHistory = lane.expectedDurationSeconds != null;
+
+            return (
+              <div key={lane.shareId ?? `device-${deviceId}`} className="flex items-stretch">
+                <div className="w-56 shrink-0 px-4 py-2 text-sm">
+                  <div className="text-foreground truncate" title={lane.shareNames.join(', ')}>
+                    {lane.shareName ?? `All shares (${lane.shareNames.length})`}
+                  </div>
+                  <div className="text-xs text-muted-foreground font-mono truncate" title={lane.cronExpression}>
+                    {lane.cronExpression}
+                    {timeWindow && <span className="font-sans"> · window {timeWindow}</span>}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {hasHistory ? `~${formatDuration(lane.expectedDurationSeconds!)} per run` : 'No run history'}
+                    {lane.truncated && ` · first ${lane.runs.length} runs`}
+                  </div>
+                </div>
+                <div className="relative flex-1 my-2 bg-muted rounded">
+                  {gridLines}
+                  {lane.error ? (
+                    <div className="absolute inset-0 flex items-center gap-1 px-2 text-xs text-status-error">
+                      <AlertTriangle className="w-3.5 h-3.5" />
+                      Invalid schedule: {lane.error}
+                    </div>
+                  ) : (
+                    lane.runs.map(run => {
+                      const start = new Date(run.startsAt).getTime();
+                      const end = new Date(run.expectedEndAt).getTime();
+                      return (
+                        <div
+                          key={run.startsAt}
+                          title={runTitle(lane, run)}
+                          className={`absolute top-1 bottom-1 rounded-sm ${runClasses(run, hasHistory)}`}
+                          style={{ left: position(start), width: width(start, end) }}
+                        />
+                      );
+                    })
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,74 @@
+import React from 'react';
+import { CheckSquare, Download, RotateCcw, X } from 'lucide-react';
+import { ArchiveFormat } from '../types';
+import { formatFileSize } from '../utils/timeFormat';
+
+interface SelectionSummaryBarProps {
+  count: number;
+  totalSize: number;
+  sizeIsEstimate?: boolean;
+  format: ArchiveFormat;
+  onFormatChange: (format: ArchiveFormat) => void;
+  onDownload: () => void;
+  onRestore: () => void;
+  onClear: () => void;
+}
+
+export const SelectionSummaryBar: React.FC<SelectionSummaryBarProps> = ({
+  count,
+  totalSize,
+  sizeIsEstimate,
+  format,
+  onFormatChange,
+  onDownload,
+  onRestore,
+  onClear
+}) => {
+  if (count === 0) return null;
+
+  return (
+    <div className="sticky bottom-4 z-40 mt-4 bg-card border border-border rounded-lg shadow-lg px-4 py-3 flex items-center justify-between gap-4">
+      <div className="flex items-center gap-2 text-sm text-foreground">
+        <CheckSquare className="w-4 h-4 text-primary" />
+        <span className="font-medium">
+          {count} {count === 1 ? 'item' : 'items'} selected
+        </span>
+        <span className="text-muted-foreground">
+          · {sizeIsEstimate ? '~' : ''}{formatFileSize(totalSize)}
+        </span>
+      </div>
+      <div className="flex items-center gap-2">
+        <select
+          value={format}
+          onChange={(e) => onFormatChange(e.target.value as ArchiveFormat)}
+          className="px-2 py-1.5 text-sm bg-card text-foreground border border-border rounded-md"
+          aria-label="Archive format"
+        >
+          <option value="zip">ZIP</option>
+          <option value="tar.gz">tar.gz</option>
+        </select>
+        <button
+          onClick={onDownload}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors"
+        >
+          <Download className="w-3.5 h-3.5" />
+          Download
+        </button>
+        <button
+          onClick={onRestore}
+          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors"
+        >
+          <RotateCcw className="w-3.5 h-3.5" />
+          Restore selected
+        </button>
+        <button
+          onClick={onClear}
+          className="p-1.5 text-muted-foreground hover:text-foreground transition-colors"
+          aria-label="Clear selection"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 ﻿import { Link, useLocation } from 'react-router-dom';
-import { LayoutDashboard, Server, RotateCcw, Settings, Database, Sun, Moon, Activity } from 'lucide-react';
+import { LayoutDashboard, Server, RotateCcw, Settings, Database, Sun, Moon, Activity, CalendarClock } from 'lucide-react';
 import { useTheme } from '../hooks/useTheme';
 
 export function Sidebar() {
@@ -10,6 +10,7 @@ export function Sidebar() {
     { name: 'Overview', href: '/', icon: LayoutDashboard },
     { name: 'All Backups', href: '/backups', icon: Activity },
     { name: 'Devices', href: '/devices', icon: Server },
+    { name: 'Schedule', href: '/schedule', icon: CalendarClock },
     { name: 'Restore', href: '/restore', icon: RotateCcw },
     { name: 'Settings', href: '/settings', icon: Settings },
   ];
@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from 'react';
+import { File, Folder, Loader2, Search, X } from 'lucide-react';
+import { backupService } from '../services/backupService';
+import { FileEntry } from '../types';
+import { formatFileSize } from '../utils/timeFormat';
+import { parentFolder } from '../utils/paths';
+
+interface SnapshotSearchProps {
+  backupId: string;
+  deviceId: string;
+  shareId: string;
+  onOpenFolder: (folderPath: string) => void;
+}
+
+// Broad queries such as * can match the whole snapshot; only this many are listed
+const MAX_RENDERED_RESULTS = 500;
+
+export function SnapshotSearch({ backupId, deviceId, shareId, onOpenFolder }: SnapshotSearchProps) {
+  const [query, setQuery] = useState('');
+  const [activeQuery, setActiveQuery] = useState<string | null>(null);
+  const [results, setResults] = useState<FileEntry[]>([]);
+  const [matchCount, setMatchCount] = useState(0);
+  // The server stops at its own limit; this says there were more matches than it sent
+  const [truncated, setTruncated] = useState(false);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Streamed matches wait here and are rendered at most once per animation frame
+  const pendingRef = useRef<FileEntry[]>([]);
+  const frameRef = useRef<number | null>(null);
+
+  const flushResults = () => {
+    frameRef.current = null;
+    const batch = pendingRef.current;
+    if (batch.length === 0) return;
+    pendingRef.current = [];
+
+    setMatchCount(count => count + batch.length);
+    setResults(prev =>
+      prev.length >= MAX_RENDERED_RESULTS ? prev : prev.concat(batch.slice(0, MAX_RENDERED_RESULTS - prev.length))
+    );
+  };
+
+  const discardPending = () => {
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    frameRef.current = null;
+    pendingRef.current = [];
+  };
+
+  // Stop any running search when leaving the page or switching snapshots
+  useEffect(
+    () => () => {
+      abortRef.current?.abort();
+      discardPending();
+    },
+    [backupId]
+  );
+
+  const startSearch = async () => {
+    const term = query.trim();
+    if (!term) return;
+
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    discardPending();
+
+    setActiveQuery(term);
+    setResults([]);
+    setMatchCount(0);
+    setTruncated(false);
+    setError(null);
+    setSearching(true);
+
+    try {
+      const stopped = await backupService.searchBackupFiles(
+        backupId,
+        deviceId,
+        shareId,
+        term,
+        entry => {
+          pendingRef.current.push(entry);
+          frameRef.current ??= requestAnimationFrame(flushResults);
+        },
+        controller.signal
+      );
+      if (abortRef.current === controller) {
+        if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+        flushResults();
+        setTruncated(stopped);
+      }
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error('Failed to search snapshot:', err);
+      setError(err instanceof Error ? err.message : 'Search failed');
+    } finally {
+      if (abortRef.current === controller) setSearching(false);
+    }
+  };
+
+  const stopSearch = () => {
+    abortRef.current?.abort();
+    // Keep what already arrived
+    if (frameRef.current !== null) cancelAnimationFrame(frameRef.current);
+    flushResults();
+    setSearching(false);
+  };
+
+  const clearSearch = () => {
+    stopSearch();
+    discardPending();
+    setQuery('');
+    setActiveQuery(null);
+    setResults([]);
+    setMatchCount(0);
+    setTruncated(false);
+    setError(null);
+  };
+
+  const openResult = (entry: FileEntry) => {
+    onOpenFolder(entry.isDirectory ? entry.path : parentFolder(entry.path));
+    clearSearch();
+  };
+
+  return (
+    <div className="bg-card rounded-lg shadow-sm border border-border">
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          startSearch();
+        }}
+        className="flex items-center gap-2 p-4"
+      >
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search this snapshot by name, e.g. report or *.pdf"
+            className="w-full pl-9 pr-3 py-2 text-sm bg-card text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+            aria-label="Search files in snapshot"
+          />
+        </div>
+        <button
+          type="submit"
+          disabled={!query.trim()}
+          className="px-4 py-2 text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Search
+        </button>
+        {activeQuery !== null && (
+          <button
+            type="button"
+            onClick={clearSearch}
+            className="p-2 text-muted-foreground hover:text-foreground transition-colors"
+            aria-label="Clear search"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        )}
+      </form>
+
+      {activeQuery !== null && (
+        <div className="border-t border-border">
+          <div className="flex items-center justify-between px-4 py-2 text-sm text-muted-foreground bg-muted">
+            <span className="flex items-center gap-2">
+              {searching && <Loader2 className="w-4 h-4 animate-spin" />}
+              {searching ? 'Searching' : truncated ? 'Found more than' : 'Found'} {matchCount.toLocaleString()}{' '}
+              {matchCount === 1 ? 'match' : 'matches'} for "{activeQuery}"
+            </span>
+            {searching && (
+              <button onClick={stopSearch} className="text-primary hover:underline">
+                Stop
+              </button>
+            )}
+          </div>
+
+          {error ? (
+            <div className="px-4 py-3 text-sm text-status-error-fg bg-status-error-bg">{error}</div>
+          ) : !searching && matchCount === 0 ? (
+            <div className="px-4 py-6 text-center text-sm text-muted-foreground">No files match this search</div>
+          ) : (
+            <ul className="max-h-96 overflow-y-auto">
+              {results.map(entry => (
+                <li key={entry.path} className="border-b border-border last:border-0">
+                  <button
+                    onClick={() => openResult(entry)}
+                    className="w-full flex items-center justify-between gap-4 px-4 py-2 text-left hover:bg-muted/50 transition-colors"
+                    title={entry.isDirectory ? 'Open this folder' : 'Open the folder containing this file'}
+                  >
+                    <span className="flex items-center gap-2 min-w-0">
+                      {entry.isDirectory ? (
+                        <Folder className="w-4 h-4 text-blue-500 shrink-0" />
+                      ) : (
+                        <File className="w-4 h-4 text-muted-foreground shrink-0" />
+                      )}
+                      <span className="text-sm font-medium text-foreground shrink-0">{entry.name}</span>
+                      <span className="text-xs text-muted-foreground font-mono truncate">{parentFolder(entry.path)}</span>
+                    </span>
+                    <span className="flex items-center gap-4 shrink-0 text-sm text-muted-foreground">
+                      <span className="w-20 text-right">{entry.isDirectory ? '-' : formatFileSize(entry.size)}</span>
+                      <span className="w-44 text-right">{new Date(entry.modifiedAt).toLocaleString()}</span>
+                    </span>
+                  </button>
+                </li>
+              ))}
+              {(matchCount > results.length || truncated) && (
+                <li className="px-4 py-2 text-sm text-muted-foreground">
+                  Showing the first {results.length.toLocaleString()} matches; narrow the search to see the rest.
+                </li>
+              )}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
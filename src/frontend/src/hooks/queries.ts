@@ -0,0 +1,117 @@
+import { QueryClient, useQuery } from '@tanstack/react-query';
+import { backupService as jobService, shareService } from '../services/deviceService';
+import { dashboardService } from '../services/dashboardService';
+import { devicesService } from '../services/devicesService';
+import { healthService } from '../services/healthService';
+import { HistoryRange, RetentionPolicy, SchedulePreviewRequest } from '../types';
+import { useConnectionState } from './useConnectionState';
+
+// Enough history for the recently completed table and for the backup calendars' last few months
+const JOB_HISTORY_LIMIT = 500;
+
+// Hub events keep these queries current; polling only fills in while the hub is unreachable
+const FALLBACK_POLL_INTERVAL = 30000;
+
+// Read during render so that losing or regaining the hub restarts or stops the polling straight away
+function useFallbackPolling() {
+  return useConnectionState() === 'connected' ? false : FALLBACK_POLL_INTERVAL;
+}
+
+/**
+ * Cache keys shared by every component reading the same server data, so a page
+ * and a panel showing the same jobs or devices make one request between them.
+ */
+export const queryKeys = {
+  jobs: ['backup-jobs'] as const,
+  dashboardSummary: ['dashboard', 'summary'] as const,
+  dashboardHistory: ['dashboard', 'history'] as const,
+  upcomingSchedule: ['dashboard', 'upcoming'] as const,
+  schedulePreview: ['dashboard', 'schedule-preview'] as const,
+  retentionPreview: ['shares', 'retention-preview'] as const,
+  devices: ['devices'] as const,
+  health: ['health'] as const,
+};
+
+export function useBackupJobs() {
+  return useQuery({
+    queryKey: queryKeys.jobs,
+    queryFn: () => jobService.listJobs(JOB_HISTORY_LIMIT),
+    refetchInterval: useFallbackPolling(),
+  });
+}
+
+export function useDashboardSummary() {
+  return useQuery({
+    queryKey: queryKeys.dashboardSummary,
+    queryFn: () => dashboardService.getSummary(),
+    refetchInterval: useFallbackPolling(),
+  });
+}
+
+// Only finished jobs change the history, and job lifecycle events refetch it, so it never polls
+export function useDashboardHistory(days: HistoryRange) {
+  return useQuery({
+    queryKey: [...queryKeys.dashboardHistory, days],
+    queryFn: () => dashboardService.getHistory(days),
+  });
+}
+
+// The range starts at "now", so it is refreshed every few minutes to keep the timeline moving
+export function useUpcomingSchedule(hours: number) {
+  return useQuery({
+    queryKey: [...queryKeys.upcomingSchedule, hours],
+    queryFn: () => dashboardService.getUpcoming(hours),
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
+
+// Invalid expressions come back as 400s, which retrying will not fix
+export function useSchedulePreview(request: SchedulePreviewRequest | null) {
+  return useQuery({
+    queryKey: [...queryKeys.schedulePreview, request],
+    queryFn: () => dashboardService.previewSchedule(request!),
+    enabled: request !== null,
+    retry: false,
+    staleTime: 60 * 1000,
+  });
+}
+
+// Snapshots only come and go with backups and prunes, so a preview stays good for a while
+export function useRetentionPreview(deviceId: string, shareId: string, policy: RetentionPolicy | null) {
+  return useQuery({
+    queryKey: [...queryKeys.retentionPreview, deviceId, shareId, policy],
+    queryFn: () => shareService.previewRetention(deviceId, shareId, policy!),
+    enabled: policy !== null,
+    retry: false,
+    staleTime: 60 * 1000,
+  });
+}
+
+export function useDevices() {
+  return useQuery({
+    queryKey: queryKeys.devices,
+    queryFn: () => devicesService.getDevices(),
+  });
+}
+
+// Status changes are pushed by the hub; the opt-in refresh keeps uptime and resource figures current,
+// and while the hub is down the health check doubles as the API reachability probe
+export function useHealthStatus(autoRefresh: boolean) {
+  const fallbackPolling = useFallbackPolling();
+  return useQuery({
+    queryKey: queryKeys.health,
+    queryFn: () => healthService.getStatus(),
+    refetchInterval: autoRefresh ? 30000 : fallbackPolling,
+  });
+}
+
+/**
+ * Refetches everything that changes when a backup job is started, cancelled or finishes.
+ */
+export function invalidateBackupQueries(queryClient: QueryClient) {
+  return Promise.all(
+    [queryKeys.jobs, queryKeys.dashboardSummary, queryKeys.dashboardHistory, queryKeys.devices, queryKeys.retentionPreview].map(queryKey =>
+      queryClient.invalidateQueries({ queryKey })
+    )
+  );
+}
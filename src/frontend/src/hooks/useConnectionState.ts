@@ -0,0 +1,12 @@
+import { useSyncExternalStore } from 'react';
+import { signalRService } from '../services/signalr';
+
+const subscribe = (onChange: () => void) => signalRService.onStateChange(onChange);
+const getState = () => signalRService.state;
+
+/**
+ * The live-update hub's connection state, re-rendering the caller whenever it changes.
+ */
+export function useConnectionState() {
+  return useSyncExternalStore(subscribe, getState);
+}
@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * The value as it was once it stopped changing for the given delay, so typing does not
+ * fire a request per keystroke.
+ */
+export function useDebouncedValue<T>(value: T, delayMs: number): T {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+  return debounced;
+}
@@ -0,0 +1,35 @@
+import { useCallback, useEffect, useState } from 'react';
+import { settingsService, BUILT_IN_GLOBAL_SETTINGS } from '../services/settingsService';
+import { GlobalSettings } from '../types/settings';
+
+/**
+ * Loads the effective global defaults. Falls back to the built-in defaults
+ * (and reports `isFallback`) when the settings endpoint is unavailable.
+ */
+export function useGlobalSettings(enabled: boolean = true) {
+  const [settings, setSettings] = useState<GlobalSettings>(BUILT_IN_GLOBAL_SETTINGS);
+  const [loading, setLoading] = useState(false);
+  const [isFallback, setIsFallback] = useState(false);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSettings(await settingsService.getGlobalSettings());
+      setIsFallback(false);
+    } catch (err) {
+      console.error('Failed to load global settings, using built-in defaults:', err);
+      setSettings(BUILT_IN_GLOBAL_SETTINGS);
+      setIsFallback(true);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (enabled) {
+      reload();
+    }
+  }, [enabled, reload]);
+
+  return { settings, loading, isFallback, reload };
+}
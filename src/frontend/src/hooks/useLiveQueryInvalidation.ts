@@ -0,0 +1,55 @@
+import { useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { signalRService } from '../services/signalr';
+import { BackupJob, BackupJobStatus } from '../types';
+import { invalidateBackupQueries, queryKeys } from './queries';
+
+/**
+ * Keeps cached server data current from SignalR instead of polling: progress ticks
+ * update the cached job in place, job lifecycle events refetch the queries that depend
+ * on the job, health changes replace the cached health status and configuration changes
+ * refetch devices and schedules. After a reconnect everything is refetched, since events
+ * sent while disconnected are lost.
+ */
+export function useLiveQueryInvalidation() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const refetchJobs = () => invalidateBackupQueries(queryClient);
+
+    const unsubscribers = [
+      signalRService.on('jobProgress', (progress) => {
+        queryClient.setQueryData<BackupJob[]>(queryKeys.jobs, jobs =>
+          jobs?.map(job =>
+            job.id === progress.jobId
+              ? {
+                  ...job,
+                  status: progress.status as BackupJobStatus,
+                  filesProcessed: progress.filesProcessed ?? job.filesProcessed,
+                  bytesTransferred: progress.bytesProcessed ?? job.bytesTransferred,
+                  errorMessage: progress.errorMessage ?? job.errorMessage,
+                }
+              : job
+          )
+        );
+      }),
+      signalRService.on('jobStarted', refetchJobs),
+      signalRService.on('jobCompleted', refetchJobs),
+      signalRService.on('jobFailed', refetchJobs),
+      signalRService.on('jobCancelled', refetchJobs),
+      signalRService.on('healthChanged', (health) => {
+        queryClient.setQueryData(queryKeys.health, health);
+      }),
+      signalRService.on('configChanged', () => {
+        queryClient.invalidateQueries({ queryKey: queryKeys.devices });
+        queryClient.invalidateQueries({ queryKey: queryKeys.dashboardSummary });
+        queryClient.invalidateQueries({ queryKey: queryKeys.upcomingSchedule });
+      }),
+      signalRService.onReconnected(() => {
+        queryClient.invalidateQueries();
+      }),
+    ];
+
+    return () => unsubscribers.forEach(unsubscribe => unsubscribe());
+  }, [queryClient]);
+}
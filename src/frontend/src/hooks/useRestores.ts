@@ -0,0 +1,46 @@
+import { useCallback, useEffect, useState } from 'react';
+import { backupService } from '../services/backupService';
+import { RestoreProgress, signalRService } from '../services/signalr';
+
+/**
+ * Tracks running and recently finished restores: loads the server's list once,
+ * then keeps it current from RestoreProgress events on the restore hub.
+ */
+export function useRestores() {
+  const [restores, setRestores] = useState<RestoreProgress[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      setRestores(await backupService.listRestores());
+    } catch (err) {
+      console.error('Failed to load restores:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load restores');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  useEffect(() => {
+    return signalRService.on('restoreProgress', (progress) => {
+      setRestores(prev => {
+        const index = prev.findIndex(r => r.restoreId === progress.restoreId);
+        if (index === -1) {
+          return [progress, ...prev];
+        }
+        const next = [...prev];
+        next[index] = progress;
+        return next;
+      });
+    });
+  }, []);
+
+  return { restores, loading, error, reload };
+}
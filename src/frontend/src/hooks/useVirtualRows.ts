@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * Windowing for fixed-height rows: only the rows inside the scroll viewport (plus a small
+ * overscan) are rendered, and padding above and below keeps the scrollbar the full height.
+ */
+export function useVirtualRows(count: number, rowHeight: number, overscan = 10) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    setViewportHeight(container.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  const onScroll = useCallback((e: React.UIEvent<HTMLDivElement>) => {
+    setScrollTop(e.currentTarget.scrollTop);
+  }, []);
+
+  // Brings a row into view without moving the viewport when it is already visible
+  const scrollToIndex = useCallback((index: number, headerOffset = 0) => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const top = index * rowHeight;
+    const visibleTop = container.scrollTop;
+    const visibleBottom = visibleTop + container.clientHeight - headerOffset;
+    if (top < visibleTop) {
+      container.scrollTop = top;
+    } else if (top + rowHeight > visibleBottom) {
+      container.scrollTop = top + rowHeight - container.clientHeight + headerOffset;
+    }
+  }, [rowHeight]);
+
+  const resetScroll = useCallback(() => {
+    if (containerRef.current) containerRef.current.scrollTop = 0;
+    setScrollTop(0);
+  }, []);
+
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+
+  return {
+    containerRef,
+    onScroll,
+    scrollToIndex,
+    resetScroll,
+    start,
+    end,
+    paddingTop: start * rowHeight,
+    paddingBottom: Math.max(0, (count - end) * rowHeight),
+  };
+}
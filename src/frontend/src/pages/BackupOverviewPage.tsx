@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import {
   Server,
   HardDrive,
@@ -16,41 +17,18 @@ import {
   History
 } from 'lucide-react';
 import { Link } from 'react-router-dom';
-import { dashboardService } from '../services/dashboardService';
 import { backupService } from '../services/deviceService';
-import { DashboardSummaryDto } from '../types';
+import { invalidateBackupQueries, useDashboardSummary } from '../hooks/queries';
+import { BackupCalendar } from '../components/BackupCalendar';
 
 export function BackupOverviewPage() {
-  const [data, setData] = useState<DashboardSummaryDto | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [refreshing, setRefreshing] = useState(false);
+  const queryClient = useQueryClient();
+  const { data, isPending: loading, isError, isFetching: refreshing, refetch } = useDashboardSummary();
   const [cancellingJobId, setCancellingJobId] = useState<string | null>(null);
-
-  const loadData = async () => {
-    try {
-      setError(null);
-      const summary = await dashboardService.getSummary();
-      setData(summary);
-    } catch (err) {
-      setError('Failed to load dashboard data');
-      console.error(err);
-    } finally {
-      setLoading(false);
-      setRefreshing(false);
-    }
-  };
-
-  useEffect(() => {
-    loadData();
-    // Refresh every 10 seconds
-    const interval = setInterval(loadData, 10000);
-    return () => clearInterval(interval);
-  }, []);
+  const error = isError ? 'Failed to load dashboard data' : null;
 
   const handleRefresh = () => {
-    setRefreshing(true);
-    loadData();
+    refetch();
   };
 
   const handleCancelJob = async (jobId: string) => {
@@ -59,8 +37,7 @@ export function BackupOverviewPage() {
     try {
       setCancellingJobId(jobId);
       await backupService.cancelJob(jobId);
-      // Wait a bit then refresh
-      setTimeout(handleRefresh, 1000);
+      await invalidateBackupQueries(queryClient);
     } catch (err) {
       alert('Failed to cancel job');
       console.error(err);
@@ -72,8 +49,8 @@ export function BackupOverviewPage() {
   const handleTriggerBackup = async (deviceId: string, shareId: string) => {
     try {
       await backupService.triggerShareBackup(deviceId, shareId);
-      // Wait a bit then refresh
-      setTimeout(handleRefresh, 1000);
+      // The job's status events refresh the table as it runs
+      await invalidateBackupQueries(queryClient);
     } catch (err) {
       alert('Failed to trigger backup');
       console.error(err);
@@ -343,6 +320,22 @@ export function BackupOverviewPage() {
           </table>
         </div>
       </div>
+
+      {data && (
+        <BackupCalendar
+          devices={data.devices.map(device => ({
+            id: device.id,
+            name: device.name,
+            shares: device.shares.map(share => ({
+              id: share.id,
+              name: share.name,
+              enabled: share.status !== 'Disabled',
+              schedule: share.schedule,
+              inheritsDeviceSchedule: share.inheritsDeviceSchedule,
+            })),
+          }))}
+        />
+      )}
     </div>
   );
 }
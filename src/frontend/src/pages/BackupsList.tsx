@@ -2,7 +2,7 @@ import React, { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Backup } from '../types';
 import { BackupsList as BackupsListComponent } from '../components/BackupsList';
-import { ChevronLeft, HardDrive } from 'lucide-react';
+import { ChevronLeft, HardDrive, GitCompare, FileSearch } from 'lucide-react';
 import { apiClient } from '../services/api';
 
 export const BackupsListPage: React.FC = () => {
@@ -12,6 +12,7 @@ export const BackupsListPage: React.FC = () => {
   const [backups, setBackups] = useState<Backup[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<string[]>([]);
 
   useEffect(() => {
     if (!deviceId) return;
@@ -52,6 +53,34 @@ export const BackupsListPage: React.FC = () => {
     navigate(`/devices/${deviceId}/backups/${backup.id}/browse?${params}`);
   };
 
+  const compareBackups = compareIds
+    .map(id => backups.find(b => b.id === id))
+    .filter((b): b is Backup => b !== undefined);
+
+  // Only snapshots of the same share live in the same repository and can be compared
+  const canSelectForCompare = (backup: Backup) =>
+    compareBackups.length < 2 &&
+    (compareBackups.length === 0 || compareBackups[0].shareId === backup.shareId);
+
+  const handleCompareToggle = (backup: Backup) => {
+    setCompareIds(prev =>
+      prev.includes(backup.id) ? prev.filter(id => id !== backup.id) : [...prev, backup.id]
+    );
+  };
+
+  const handleCompare = () => {
+    if (compareBackups.length !== 2) return;
+    const [older, newer] = [...compareBackups].sort(
+      (a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime()
+    );
+    const params = new URLSearchParams({
+      shareId: older.shareId || '',
+      from: older.id,
+      to: newer.id
+    });
+    navigate(`/devices/${deviceId}/backups/compare?${params}`);
+  };
+
   const handleBack = () => {
     navigate('/');
   };
@@ -93,13 +122,38 @@ export const BackupsListPage: React.FC = () => {
 
         {/* Content */}
         <div>
-          <h2 className="text-lg font-semibold text-slate-900 dark:text-white mb-4">
-            Available Backups
-          </h2>
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-lg font-semibold text-slate-900 dark:text-white">
+              Available Backups
+            </h2>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => navigate(`/devices/${deviceId}/search`)}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-slate-700 dark:text-slate-200 bg-white dark:bg-slate-800 border border-slate-300 dark:border-slate-600 hover:bg-slate-50 dark:hover:bg-slate-700 rounded-md transition-colors"
+              >
+                <FileSearch size={16} />
+                Search all snapshots
+              </button>
+              <span className="text-sm text-slate-600 dark:text-slate-400">
+                {compareIds.length}/2 selected for comparison
+              </span>
+              <button
+                onClick={handleCompare}
+                disabled={compareBackups.length !== 2}
+                className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                <GitCompare size={16} />
+                Compare
+              </button>
+            </div>
+          </div>
           <BackupsListComponent
             backups={backups}
             onBackupClick={handleBackupSelect}
             onBrowseClick={handleBrowseBackup}
+            selectedIds={compareIds}
+            onSelectToggle={handleCompareToggle}
+            canSelect={canSelectForCompare}
             loading={loading}
           />
         </div>
@@ -1,81 +1,32 @@
-﻿import { useState, useEffect, useRef } from 'react';
+﻿import { useState } from 'react';
 import { RefreshCw, AlertTriangle } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
 import { dashboardService } from '../services/dashboardService';
 import { backupService } from '../services/deviceService';
 import { DashboardHeader } from '../components/DashboardHeader';
 import { DashboardMetrics } from '../components/DashboardMetrics';
 import { ActiveJobsTable } from '../components/ActiveJobsTable';
 import { RecentlyCompletedTable } from '../components/RecentlyCompletedTable';
-import { BackupJob, Backup, BackupStatus } from '../types';
+import { BackupHistorySection } from '../components/BackupHistorySection';
+import { BackupStatus } from '../types';
+import { invalidateBackupQueries, useBackupJobs } from '../hooks/queries';
+import { useConnectionState } from '../hooks/useConnectionState';
 
 export default function Dashboard() {
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  const [backendOffline, setBackendOffline] = useState(false);
-  const [lastUpdated, setLastUpdated] = useState(() => new Date().toLocaleTimeString());
-  const lastUpdateTimeRef = useRef(Date.now());
-  const [isConnected, setIsConnected] = useState(true);
-  
-  // Dashboard data
-  const [stats, setStats] = useState({
-    activeJobs: 0,
-    queuedJobs: 0,
-    completedJobs: 0,
-    failedJobs: 0,
-    avgSpeed: '0 MB/s',
-    dataToday: '0 B',
-  });
-  const [activeJobs, setActiveJobs] = useState<BackupJob[]>([]);
-  const [recentBackups, setRecentBackups] = useState<Backup[]>([]);
+  const queryClient = useQueryClient();
+  const [actionError, setActionError] = useState<string | null>(null);
+  // Progress only moves through hub events, so while the hub is down the figures shown are stale
+  const live = useConnectionState() === 'connected';
 
-  const loadDashboardData = async () => {
-    try {
-      setError(null);
-      
-      // Load all dashboard data - if this fails, backend is down
-      const [statsData, jobsData, backupsData] = await Promise.all([
-        dashboardService.getStats(),
-        dashboardService.getActiveJobs(),
-        dashboardService.getRecentBackups(10),
-      ]);
-      
-      setStats(statsData);
-      setActiveJobs(jobsData);
-      setRecentBackups(backupsData);
-      setLastUpdated(new Date().toLocaleTimeString());
-      lastUpdateTimeRef.current = Date.now();
-      setIsConnected(true);
-      setBackendOffline(false);
-      setLoading(false);
-    } catch (err) {
-      setError('Failed to load dashboard data. Backend server may not be running.');
-      setBackendOffline(true);
-      setIsConnected(false);
-      console.error(err);
-      setLoading(false);
-    }
-  };
-
-  useEffect(() => {
-    // eslint-disable-next-line react-hooks/set-state-in-effect
-    loadDashboardData();
-    
-    // Refresh data every 5 seconds
-    const dataInterval = setInterval(() => {
-      loadDashboardData();
-    }, 5000);
-
-    // Check connection status every second
-    const connectionCheckInterval = setInterval(() => {
-      const timeSinceLastUpdate = Date.now() - lastUpdateTimeRef.current;
-      setIsConnected(timeSinceLastUpdate < 5000);
-    }, 1000);
-
-    return () => {
-      clearInterval(dataInterval);
-      clearInterval(connectionCheckInterval);
-    };
-  }, []); // Empty dependency array - only run once on mount
+  // Running jobs, queued jobs and recent completions all come from the one shared jobs query
+  const { data: jobs = [], isPending: loading, isError: backendOffline, dataUpdatedAt, refetch } = useBackupJobs();
+  const activeJobs = jobs.filter(job => dashboardService.isActiveJob(job));
+  const recentBackups = dashboardService.toRecentBackups(jobs, 10);
+  const stats = dashboardService.calculateStats(activeJobs, dashboardService.toRecentBackups(jobs, jobs.length));
+  const lastUpdated = dataUpdatedAt ? new Date(dataUpdatedAt).toLocaleTimeString() : '-';
+  const error = backendOffline
+    ? 'Failed to load dashboard data. Backend server may not be running.'
+    : actionError;
 
   if (loading) {
     return (
@@ -121,11 +72,12 @@ export default function Dashboard() {
       const job = activeJobs.find(j => j.id === jobId);
       if (!job) return;
       
+      setActionError(null);
       await backupService.cancelJob(jobId);
-      await loadDashboardData();
+      await invalidateBackupQueries(queryClient);
     } catch (err) {
       console.error('Failed to stop job:', err);
-      setError('Failed to cancel job. Please try again.');
+      setActionError('Failed to cancel job. Please try again.');
     }
   };
 
@@ -135,7 +87,7 @@ export default function Dashboard() {
         title="Live Monitoring Dashboard"
         subtitle="Real-time backup job status and performance metrics"
         lastUpdated={lastUpdated}
-        isConnected={isConnected}
+        isConnected={live && !backendOffline}
       />
 
       {error && (
@@ -161,7 +113,7 @@ export default function Dashboard() {
                   </code>
                   <br />
                   <button
-                    onClick={loadDashboardData}
+                    onClick={() => refetch()}
                     className="mt-2 underline hover:no-underline"
                   >
                     Retry connection
@@ -186,7 +138,7 @@ export default function Dashboard() {
       {/* Active Backup Jobs Section */}
       <div>
         <h2 className="text-xl font-semibold text-foreground mb-4">Active Backup Jobs</h2>
-        <ActiveJobsTable jobs={activeJobsData} onStopJob={handleStopJob} />
+        <ActiveJobsTable jobs={activeJobsData} onStopJob={handleStopJob} stale={!live} />
       </div>
 
       {/* Recently Completed Section */}
@@ -194,6 +146,9 @@ export default function Dashboard() {
         <h2 className="text-xl font-semibold text-foreground mb-4">Recently Completed</h2>
         <RecentlyCompletedTable backups={completedBackupsData} />
       </div>
+
+      {/* History Section */}
+      <BackupHistorySection />
     </div>
   );
 }
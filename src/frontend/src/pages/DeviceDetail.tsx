@@ -5,6 +5,7 @@ import { deviceService, shareService } from '../services/deviceService';
 import { ArrowLeft, RefreshCw, HardDrive } from 'lucide-react';
 import { ShareList } from '../components/ShareList';
 import { AddShareDialog } from '../components/AddShareDialog';
+import { BackupCalendar } from '../components/BackupCalendar';
 import { useNavigate } from 'react-router-dom';
 
 export default function DeviceDetail() {
@@ -123,6 +124,22 @@ export default function DeviceDetail() {
         />
       )}
 
+      <div className="mt-6">
+        <BackupCalendar
+          devices={[{
+            id: device.id,
+            name: device.name,
+            shares: shares.map(share => ({
+              id: share.id,
+              name: share.name,
+              enabled: share.enabled,
+              schedule: share.schedule?.cronExpression ?? device.schedule?.cronExpression,
+              inheritsDeviceSchedule: !share.schedule && !!device.schedule,
+            })),
+          }]}
+        />
+      </div>
+
       <AddShareDialog
         open={showAddShareDialog}
         onClose={() => setShowAddShareDialog(false)}
@@ -0,0 +1,330 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, File, FileSearch, Folder, FolderOpen, History, RefreshCw, Search } from 'lucide-react';
+import { backupService } from '../services/backupService';
+import { apiClient } from '../services/api';
+import { FileHistoryPanel } from '../components/FileHistoryPanel';
+import { Backup, FileEntry, FileSearchHit } from '../types';
+import { formatFileSize } from '../utils/timeFormat';
+import { getErrorMessage } from '../utils/errors';
+import { parentFolder } from '../utils/paths';
+
+const formatDate = (dateString?: string) => (dateString ? new Date(dateString).toLocaleString() : '-');
+const hitKey = (hit: FileSearchHit) => `${hit.shareId}:${hit.path}`;
+
+export function DeviceSearchPage() {
+  const { deviceId } = useParams<{ deviceId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const activeQuery = searchParams.get('q') || '';
+  const shareFilter = searchParams.get('shareId') || '';
+
+  const [query, setQuery] = useState(activeQuery);
+  const [backups, setBackups] = useState<Backup[]>([]);
+  // Keyed by share and path: the server sends a path again once its first-seen snapshot is settled
+  const [hitsByPath, setHitsByPath] = useState<Map<string, FileSearchHit>>(new Map());
+  const [truncated, setTruncated] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [deletedOnly, setDeletedOnly] = useState(false);
+  const [historyHit, setHistoryHit] = useState<FileSearchHit | null>(null);
+
+  // The backup list supplies share names and a snapshot to anchor the history panel on
+  useEffect(() => {
+    if (!deviceId) return;
+    apiClient.get<Backup[]>(`/api/devices/${deviceId}/backups`)
+      .then(response => setBackups(response.data))
+      .catch(err => console.error('Error loading backups:', err));
+  }, [deviceId]);
+
+  useEffect(() => {
+    setHitsByPath(new Map());
+    setTruncated(false);
+    if (!deviceId || !activeQuery) return;
+
+    const controller = new AbortController();
+    const runSearch = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const stopped = await backupService.searchDeviceFiles(
+          deviceId,
+          activeQuery,
+          shareFilter || undefined,
+          hit => setHitsByPath(prev => new Map(prev).set(hitKey(hit), hit)),
+          controller.signal
+        );
+        setTruncated(stopped);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to search backups:', err);
+        setError(getErrorMessage(err, 'Failed to search backups'));
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    runSearch();
+    return () => controller.abort();
+  }, [deviceId, activeQuery, shareFilter]);
+
+  // Most recently seen first, so files that just went missing are at the top
+  const hits = useMemo(
+    () => Array.from(hitsByPath.values()).sort((a, b) =>
+      new Date(b.lastSeenAt).getTime() - new Date(a.lastSeenAt).getTime() || (a.path < b.path ? -1 : a.path > b.path ? 1 : 0)),
+    [hitsByPath]
+  );
+
+  const shareNames = useMemo(() => {
+    const names = new Map<string, string>();
+    backups.forEach(b => {
+      if (b.shareId) names.set(b.shareId, b.shareName || b.shareId.substring(0, 8));
+    });
+    return names;
+  }, [backups]);
+
+  const visibleHits = deletedOnly ? hits.filter(h => h.removedInBackupId) : hits;
+  const deletedCount = hits.filter(h => h.removedInBackupId).length;
+
+  const submitSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    const next = new URLSearchParams(searchParams);
+    if (query.trim()) {
+      next.set('q', query.trim());
+    } else {
+      next.delete('q');
+    }
+    setSearchParams(next);
+  };
+
+  const changeShareFilter = (value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set('shareId', value);
+    } else {
+      next.delete('shareId');
+    }
+    setSearchParams(next);
+  };
+
+  const browseSnapshot = (hit: FileSearchHit, backupId: string) => {
+    const params = new URLSearchParams({
+      deviceId: deviceId || '',
+      shareId: hit.shareId || '',
+      path: hit.isDirectory ? hit.path : parentFolder(hit.path),
+    });
+    navigate(`/devices/${deviceId}/backups/${backupId}/browse?${params}`);
+  };
+
+  const historyFile: FileEntry | null = historyHit
+    ? {
+        name: historyHit.name,
+        path: historyHit.path,
+        isDirectory: false,
+        size: historyHit.size,
+        modifiedAt: historyHit.modifiedAt,
+      }
+    : null;
+
+  if (!deviceId) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <p className="text-muted-foreground">Missing device information</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+            <FileSearch className="w-7 h-7" />
+            Search Backups
+          </h1>
+          <p className="text-muted-foreground mt-1">
+            Find a file across every snapshot of this device and see when it was last backed up
+          </p>
+        </div>
+        <button
+          onClick={() => navigate(`/devices/${deviceId}/backups`)}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+      </div>
+
+      {/* Search form */}
+      <form onSubmit={submitSearch} className="bg-card rounded-lg shadow-sm border border-border p-4 flex items-center gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="File name or pattern, e.g. budget.xlsx or *.psd"
+            className="w-full pl-9 pr-3 py-2 text-sm bg-card text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+            aria-label="Search all snapshots"
+          />
+        </div>
+        <select
+          value={shareFilter}
+          onChange={(e) => changeShareFilter(e.target.value)}
+          className="px-3 py-2 text-sm bg-card text-foreground border border-border rounded-md"
+          aria-label="Share"
+        >
+          <option value="">All shares</option>
+          {Array.from(shareNames.entries()).map(([id, name]) => (
+            <option key={id} value={id}>{name}</option>
+          ))}
+        </select>
+        <button
+          type="submit"
+          disabled={!query.trim() || loading}
+          className="px-4 py-2 text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Search
+        </button>
+      </form>
+
+      {/* Results */}
+      {activeQuery && (
+        <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-border bg-muted text-sm">
+            <span className="text-muted-foreground">
+              {loading
+                ? `Searching snapshots for "${activeQuery}", ${hits.length.toLocaleString()} ${hits.length === 1 ? 'path' : 'paths'} so far...`
+                : `${hits.length.toLocaleString()} ${hits.length === 1 ? 'path' : 'paths'} matching "${activeQuery}", ${deletedCount.toLocaleString()} no longer in the latest backup`}
+            </span>
+            <label className="flex items-center gap-2 text-foreground cursor-pointer">
+              <input type="checkbox" checked={deletedOnly} onChange={(e) => setDeletedOnly(e.target.checked)} />
+              Only deleted
+            </label>
+          </div>
+
+          {truncated && !loading && (
+            <div className="px-4 py-2 border-b border-border text-sm bg-status-warning-bg text-status-warning-fg">
+              Showing the first {hits.length.toLocaleString()} paths found in the newest snapshots. Older snapshots were
+              not searched, so first-seen dates may be later than the real ones. Narrow the search to see more.
+            </div>
+          )}
+
+          {loading && hits.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 p-8 text-muted-foreground">
+              <RefreshCw className="w-6 h-6 animate-spin" />
+              <span>This lists every snapshot and can take a while on large devices</span>
+            </div>
+          ) : error ? (
+            <div className="p-8 text-center">
+              <p className="text-status-error font-semibold mb-2">Error searching backups</p>
+              <p className="text-sm text-muted-foreground">{error}</p>
+            </div>
+          ) : visibleHits.length === 0 ? (
+            <div className="p-8 text-center text-muted-foreground">
+              {hits.length > 0 ? 'None of the matches have been deleted' : 'No snapshot contains a matching file'}
+            </div>
+          ) : (
+            <table className="w-full">
+              <thead className="border-b border-border">
+                <tr>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">Path</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">First seen</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">Last seen</th>
+                  <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">Status</th>
+                  <th className="text-right px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleHits.map(hit => (
+                  <tr
+                    key={hitKey(hit)}
+                    className="border-b border-border last:border-0 hover:bg-muted/50 transition-colors"
+                  >
+                    <td className="px-4 py-3 max-w-md">
+                      <div className="flex items-center gap-2 min-w-0">
+                        {hit.isDirectory ? (
+                          <Folder className="w-4 h-4 text-blue-500 shrink-0" />
+                        ) : (
+                          <File className="w-4 h-4 text-muted-foreground shrink-0" />
+                        )}
+                        <span className="font-medium text-foreground truncate" title={hit.path}>{hit.name}</span>
+                        {!hit.isDirectory && (
+                          <span className="text-xs text-muted-foreground shrink-0">{formatFileSize(hit.size)}</span>
+                        )}
+                      </div>
+                      <div className="text-xs text-muted-foreground font-mono truncate mt-0.5" title={hit.path}>
+                        {hit.shareId && shareNames.has(hit.shareId) ? `${shareNames.get(hit.shareId)}: ` : ''}
+                        {parentFolder(hit.path)}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">
+                      <div>{formatDate(hit.firstSeenAt)}</div>
+                      <div className="font-mono text-xs">{hit.firstSeenBackupId.substring(0, 8)}</div>
+                    </td>
+                    <td className="px-4 py-3 text-sm text-muted-foreground">
+                      <div>{formatDate(hit.lastSeenAt)}</div>
+                      <div className="font-mono text-xs">
+                        {hit.lastSeenBackupId.substring(0, 8)} · {hit.snapshotCount} {hit.snapshotCount === 1 ? 'snapshot' : 'snapshots'}
+                      </div>
+                    </td>
+                    <td className="px-4 py-3">
+                      {hit.removedInBackupId ? (
+                        <span
+                          className="px-2 py-0.5 rounded text-xs font-medium bg-status-error-bg text-status-error-fg"
+                          title={`Missing from snapshot ${hit.removedInBackupId.substring(0, 8)} onwards`}
+                        >
+                          Deleted before {formatDate(hit.removedAt)}
+                        </span>
+                      ) : (
+                        <span className="px-2 py-0.5 rounded text-xs font-medium bg-status-success-bg text-status-success-fg">
+                          In latest backup
+                        </span>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      <div className="flex items-center justify-end gap-2">
+                        {!hit.isDirectory && hit.shareId && (
+                          <button
+                            onClick={() => setHistoryHit(hit)}
+                            className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors whitespace-nowrap"
+                          >
+                            <History className="w-3.5 h-3.5" />
+                            History
+                          </button>
+                        )}
+                        <button
+                          onClick={() => browseSnapshot(hit, hit.lastSeenBackupId)}
+                          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors whitespace-nowrap"
+                          title="Open the last snapshot containing this path"
+                        >
+                          <FolderOpen className="w-3.5 h-3.5" />
+                          Open last copy
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+
+      {historyHit && (
+        <FileHistoryPanel
+          file={historyFile}
+          backupId={historyHit.lastSeenBackupId}
+          deviceId={deviceId}
+          shareId={historyHit.shareId || ''}
+          onClose={() => setHistoryHit(null)}
+          onOpenSnapshot={(backupId) => {
+            setHistoryHit(null);
+            browseSnapshot(historyHit, backupId);
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,4 +1,5 @@
-﻿import { useState, useEffect } from 'react';
+﻿import { useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useNavigate } from 'react-router-dom';
 import { Plus, HardDrive, AlertTriangle, RefreshCw } from 'lucide-react';
 import { DeviceCard } from '../components/DeviceCard';
@@ -6,37 +7,27 @@ import { AddDeviceDialog } from '../components/AddDeviceDialog';
 import { AddShareDialog } from '../components/AddShareDialog';
 import { Device, Share } from '../types/devices';
 import { devicesService } from '../services/devicesService';
+import { invalidateBackupQueries, queryKeys, useDevices } from '../hooks/queries';
 
 // Devices management page
 export function DevicesPage() {
   const navigate = useNavigate();
-  const [devices, setDevices] = useState<Device[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const queryClient = useQueryClient();
+  const { data: devices = [], isPending: loading, isError } = useDevices();
+  const [actionError, setActionError] = useState<string | null>(null);
   const [showAddDialog, setShowAddDialog] = useState(false);
   const [editingDeviceId, setEditingDeviceId] = useState<string | undefined>();
   const [showAddShareDialog, setShowAddShareDialog] = useState(false);
   const [selectedDeviceForShare, setSelectedDeviceForShare] = useState<Device | null>(null);
   const [editingShare, setEditingShare] = useState<Share | null>(null);
 
+  const error = isError ? 'Failed to load devices. Please try again.' : actionError;
+
   const loadDevices = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-      const data = await devicesService.getDevices();
-      setDevices(data);
-    } catch (err) {
-      console.error('Failed to load devices:', err);
-      setError('Failed to load devices. Please try again.');
-    } finally {
-      setLoading(false);
-    }
+    setActionError(null);
+    await queryClient.invalidateQueries({ queryKey: queryKeys.devices });
   };
 
-  useEffect(() => {
-    loadDevices();
-  }, []);
-
   const handleAddDevice = () => {
     setEditingDeviceId(undefined);
     setShowAddDialog(true);
@@ -46,11 +37,10 @@ export function DevicesPage() {
     try {
       console.log('Start backup for device:', deviceId);
       await devicesService.triggerBackup(deviceId);
-      // Reload to get updated status
-      await loadDevices();
+      await invalidateBackupQueries(queryClient);
     } catch (err) {
       console.error('Failed to start backup:', err);
-      setError('Failed to start backup. Please try again.');
+      setActionError('Failed to start backup. Please try again.');
     }
   };
 
@@ -73,7 +63,7 @@ export function DevicesPage() {
       await loadDevices();
     } catch (err) {
       console.error('Failed to delete device:', err);
-      setError('Failed to delete device. Please try again.');
+      setActionError('Failed to delete device. Please try again.');
     }
   };
 
@@ -99,7 +89,7 @@ export function DevicesPage() {
       await loadDevices();
     } catch (err) {
       console.error('Failed to toggle share:', err);
-      setError('Failed to update share. Please try again.');
+      setActionError('Failed to update share. Please try again.');
     }
   };
 
@@ -107,11 +97,10 @@ export function DevicesPage() {
     try {
       console.log('Starting backup for share:', shareId, 'on device:', deviceId);
       await devicesService.triggerShareBackup(deviceId, shareId);
-      // Reload to get updated status
-      await loadDevices();
+      await invalidateBackupQueries(queryClient);
     } catch (err) {
       console.error('Failed to start share backup:', err);
-      setError('Failed to start backup. Please try again.');
+      setActionError('Failed to start backup. Please try again.');
     }
   };
 
@@ -139,7 +128,7 @@ export function DevicesPage() {
       await loadDevices();
     } catch (err) {
       console.error('Failed to delete share:', err);
-      setError('Failed to delete share. Please try again.');
+      setActionError('Failed to delete share. Please try again.');
     }
   };
 
@@ -1,33 +1,121 @@
-﻿import { useState, useEffect, useCallback } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
-import { Folder, File, Download, ChevronRight, Home, ArrowLeft } from 'lucide-react';
+﻿import { useState, useEffect, useCallback, useMemo } from 'react';
+import { Link, useParams, useNavigate, useSearchParams } from 'react-router-dom';
+import { ChevronRight, Home, ArrowLeft, FileArchive, PanelLeft } from 'lucide-react';
 import { backupService } from '../services/backupService';
-import { FileEntry } from '../types';
+import { RestoreProgress } from '../services/signalr';
+import { ArchiveFormat, FileEntry } from '../types';
+import { FileBrowser } from '../components/FileBrowser';
+import { FileHistoryPanel } from '../components/FileHistoryPanel';
+import { FolderDownloadDialog } from '../components/FolderDownloadDialog';
+import { FilePreviewPane } from '../components/FilePreviewPane';
+import { FileDetailsPane } from '../components/FileDetailsPane';
+import { SnapshotSearch } from '../components/SnapshotSearch';
+import { FolderTree } from '../components/FolderTree';
+import { RestoreProgressPanel } from '../components/RestoreProgressPanel';
+import { RestoreSelectionDialog } from '../components/RestoreSelectionDialog';
+import { SelectionSummaryBar } from '../components/SelectionSummaryBar';
+import { useRestores } from '../hooks/useRestores';
+import { parentFolder } from '../utils/paths';
+import { SORT_KEYS, SortKey, TYPE_FILTERS, TypeFilter } from '../utils/fileList';
+
+interface SelectedItem {
+  entry: FileEntry;
+  size?: number;
+}
+
+// Drops paths that are already covered by a selected parent folder. Comparing with '/' as the lowest
+// character sorts every folder directly before its contents, so one pass over the sorted paths is enough.
+const topLevelPaths = (paths: string[]) => {
+  const sortKey = (path: string) => path.replaceAll('/', '\0');
+  const sorted = paths.map(path => [sortKey(path), path] as const).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+  const kept: string[] = [];
+  for (const [, path] of sorted) {
+    const parent = kept[kept.length - 1];
+    if (parent === undefined || !path.startsWith(parent === '/' ? '/' : parent + '/')) kept.push(path);
+  }
+  return kept;
+};
 
 export function FileBrowserPage() {
   const { backupId } = useParams<{ backupId: string }>();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const [files, setFiles] = useState<FileEntry[]>([]);
-  const [currentPath, setCurrentPath] = useState('/');
+  // Folder the last listing attempt was for; files lag behind the URL until it completes
+  const [filesPath, setFilesPath] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [deviceId, setDeviceId] = useState<string>('');
-  const [shareId, setShareId] = useState<string>('');
+  const [locateError, setLocateError] = useState<string | null>(null);
+  const [historyFile, setHistoryFile] = useState<FileEntry | null>(null);
+  const [detailsFile, setDetailsFile] = useState<FileEntry | null>(null);
+  const [folderSizes, setFolderSizes] = useState<Record<string, number> | null>(null);
+  const [archiveFolder, setArchiveFolder] = useState<string | null>(null);
+  const [showTree, setShowTree] = useState(true);
+  // Keyed by path so the selection survives navigating between folders. It stays out of the URL,
+  // where selecting a large folder would add one parameter per entry.
+  const [selection, setSelection] = useState<Map<string, SelectedItem>>(new Map());
+  const [selectionFormat, setSelectionFormat] = useState<ArchiveFormat>('zip');
+  const [restorePaths, setRestorePaths] = useState<string[] | null>(null);
+  const [startedRestore, setStartedRestore] = useState<RestoreProgress | null>(null);
+  const { restores } = useRestores();
+
+  // Everything needed to reproduce the view lives in the URL, so refresh, back/forward and shared links work
+  const deviceId = searchParams.get('deviceId') || '';
+  const shareId = searchParams.get('shareId') || '';
+  const currentPath = searchParams.get('path') || '/';
+  const sortParam = searchParams.get('sort') as SortKey | null;
+  const sortKey: SortKey = sortParam && SORT_KEYS.includes(sortParam) ? sortParam : 'name';
+  const sortDescending = searchParams.get('dir') === 'desc';
+  const typeParam = searchParams.get('type') as TypeFilter | null;
+  const typeFilter: TypeFilter = typeParam && TYPE_FILTERS.includes(typeParam) ? typeParam : 'all';
+  const nameFilter = searchParams.get('q') || '';
+  const selectedPath = searchParams.get('file');
 
-  // Get deviceId and shareId from URL params or state
+  const updateParams = useCallback((changes: Record<string, string | null>, options?: { replace?: boolean }) => {
+    setSearchParams(prev => {
+      const next = new URLSearchParams(prev);
+      Object.entries(changes).forEach(([key, value]) => {
+        if (value) {
+          next.set(key, value);
+        } else {
+          next.delete(key);
+        }
+      });
+      return next;
+    }, options);
+  }, [setSearchParams]);
+
+  // Links that only carry the backup ID are completed with the device and share that own it
   useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const device = params.get('deviceId') || '';
-    const share = params.get('shareId') || '';
-    setDeviceId(device);
-    setShareId(share);
-  }, []);
+    if (!backupId || (deviceId && shareId)) return;
+
+    let cancelled = false;
+    backupService.getBackupLocation(backupId)
+      .then(location => {
+        if (!cancelled) updateParams({ deviceId: location.deviceId, shareId: location.shareId }, { replace: true });
+      })
+      .catch(err => {
+        console.error('Failed to locate backup:', err);
+        if (!cancelled) setLocateError(err instanceof Error ? err.message : 'Failed to locate backup');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [backupId, deviceId, shareId, updateParams]);
 
   const loadFiles = useCallback(async (path: string) => {
     if (!backupId || !deviceId || !shareId) return;
     
     setLoading(true);
     setError(null);
+    setFolderSizes(null);
+
+    // Folder sizes need a full snapshot listing, so fetch them alongside without blocking the listing
+    backupService.getFolderSizes(backupId, deviceId, shareId, path)
+      .then(setFolderSizes)
+      .catch(err => console.error('Failed to load folder sizes:', err));
+
     try {
       const fileList = await backupService.browseBackupFiles(backupId, deviceId, shareId, path);
       setFiles(fileList);
@@ -35,6 +123,7 @@ export function FileBrowserPage() {
       console.error('Failed to load files:', err);
       setError(err instanceof Error ? err.message : 'Failed to load files');
     } finally {
+      setFilesPath(path);
       setLoading(false);
     }
   }, [backupId, deviceId, shareId]);
@@ -45,15 +134,78 @@ export function FileBrowserPage() {
     }
   }, [backupId, deviceId, shareId, currentPath, loadFiles]);
 
+  // Each folder change is a history entry, so the browser's back button moves up the tree
   const navigateToFolder = (folderPath: string) => {
-    setCurrentPath(folderPath);
+    updateParams({ path: folderPath === '/' ? null : folderPath, file: null, q: null });
   };
 
   const navigateUp = () => {
     if (currentPath === '/') return;
-    const parts = currentPath.split('/').filter(Boolean);
-    parts.pop();
-    setCurrentPath(parts.length > 0 ? '/' + parts.join('/') : '/');
+    navigateToFolder(parentFolder(currentPath));
+  };
+
+  const previewFile = useMemo(
+    () => (selectedPath ? files.find(f => f.path === selectedPath && !f.isDirectory && !f.isSymlink) ?? null : null),
+    [files, selectedPath]
+  );
+
+  const setPreviewFile = (file: FileEntry | null) => {
+    updateParams({ file: file?.path ?? null });
+  };
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) {
+      updateParams({ dir: sortDescending ? null : 'desc' }, { replace: true });
+    } else {
+      updateParams({ sort: key === 'name' ? null : key, dir: null }, { replace: true });
+    }
+  };
+
+  const view = useMemo(
+    () => ({ sortKey, sortDescending, typeFilter, nameFilter }),
+    [sortKey, sortDescending, typeFilter, nameFilter]
+  );
+
+  // Selected paths belong to one snapshot, so start over when another one is opened
+  const snapshotKey = `${backupId}:${shareId}`;
+  const [selectionSnapshot, setSelectionSnapshot] = useState(snapshotKey);
+  if (selectionSnapshot !== snapshotKey) {
+    setSelectionSnapshot(snapshotKey);
+    setSelection(new Map());
+  }
+
+  const selectedPaths = useMemo(() => new Set(selection.keys()), [selection]);
+
+  const selectionSummary = useMemo(() => {
+    const paths = topLevelPaths(Array.from(selection.keys()));
+    const items = paths.map(path => selection.get(path)!);
+    return {
+      paths,
+      totalSize: items.reduce((sum, item) => sum + (item.size ?? 0), 0),
+      // Folder sizes come from the snapshot listing and are only an estimate
+      sizeIsEstimate: items.some(item => item.entry.isDirectory)
+    };
+  }, [selection]);
+
+  const toggleSelectAll = (folderFiles: FileEntry[], select: boolean) => {
+    setSelection(prev => {
+      const next = new Map(prev);
+      for (const file of folderFiles) {
+        if (select) {
+          next.set(file.path, { entry: file, size: file.isDirectory ? folderSizes?.[file.path] : file.size });
+        } else {
+          next.delete(file.path);
+        }
+      }
+      return next;
+    });
+  };
+
+  const toggleSelect = (file: FileEntry) => toggleSelectAll([file], !selection.has(file.path));
+
+  const downloadSelection = () => {
+    if (!backupId || selectionSummary.paths.length === 0) return;
+    backupService.downloadSelectionArchive(backupId, deviceId, shareId, selectionSummary.paths, selectionFormat);
   };
 
   const downloadFile = (file: FileEntry) => {
@@ -62,6 +214,23 @@ export function FileBrowserPage() {
     window.open(downloadUrl, '_blank');
   };
 
+  const estimateFolderSize = (folderPath: string): number | undefined => {
+    if (!folderSizes) return undefined;
+    if (folderPath !== currentPath) return folderSizes[folderPath] ?? 0;
+
+    // The current folder is its subfolders plus the files listed directly in it
+    const subfolderTotal = Object.values(folderSizes).reduce((sum, size) => sum + size, 0);
+    return files.filter(f => !f.isDirectory).reduce((sum, f) => sum + f.size, subfolderTotal);
+  };
+
+  // Jump to another snapshot, staying in the folder that holds the file being inspected
+  const openSnapshot = (snapshotId: string) => {
+    if (!historyFile) return;
+    setHistoryFile(null);
+    const params = new URLSearchParams({ deviceId, shareId, path: parentFolder(historyFile.path) });
+    navigate(`/backups/${snapshotId}/browse?${params.toString()}`);
+  };
+
   const renderBreadcrumb = () => {
     if (currentPath === '/') {
       return (
@@ -76,7 +245,7 @@ export function FileBrowserPage() {
     return (
       <div className="flex items-center gap-2 text-sm">
         <button
-          onClick={() => setCurrentPath('/')}
+          onClick={() => navigateToFolder('/')}
           className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
         >
           <Home className="w-4 h-4" />
@@ -92,7 +261,7 @@ export function FileBrowserPage() {
                 <span className="font-medium text-foreground">{part}</span>
               ) : (
                 <button
-                  onClick={() => setCurrentPath(path)}
+                  onClick={() => navigateToFolder(path)}
                   className="text-muted-foreground hover:text-foreground transition-colors"
                 >
                   {part}
@@ -105,24 +274,20 @@ export function FileBrowserPage() {
     );
   };
 
-  const formatFileSize = (bytes?: number) => {
-    if (!bytes || bytes === 0) return '-';
-    const k = 1024;
-    const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
-    const i = Math.floor(Math.log(bytes) / Math.log(k));
-    return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`;
-  };
-
-  const formatDate = (dateString?: string) => {
-    if (!dateString) return '-';
-    return new Date(dateString).toLocaleString();
-  };
+  if (backupId && (!deviceId || !shareId) && !locateError) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px] text-muted-foreground">
+        Locating backup {backupId.substring(0, 8)}...
+      </div>
+    );
+  }
 
   if (!backupId || !deviceId || !shareId) {
     return (
       <div className="flex items-center justify-center min-h-[400px]">
         <div className="text-center">
           <p className="text-muted-foreground">Missing backup information</p>
+          {locateError && <p className="text-sm text-muted-foreground mt-1">{locateError}</p>}
           <button
             onClick={() => navigate('/dashboard')}
             className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
@@ -151,134 +316,203 @@ export function FileBrowserPage() {
         </button>
       </div>
 
+      {/* Restore started from the selection */}
+      {startedRestore && (
+        <div className="space-y-2" role="status">
+          <RestoreProgressPanel
+            restores={[restores.find(r => r.restoreId === startedRestore.restoreId) ?? startedRestore]}
+          />
+          <Link to={`/restores?restoreId=${startedRestore.restoreId}`} className="text-sm text-primary hover:underline">
+            View in Restore Activity
+          </Link>
+        </div>
+      )}
+
+      {/* Search */}
+      <SnapshotSearch
+        backupId={backupId}
+        deviceId={deviceId}
+        shareId={shareId}
+        onOpenFolder={navigateToFolder}
+      />
+
       {/* Breadcrumb and Navigation */}
       <div className="bg-card rounded-lg shadow-sm border border-border p-4">
         <div className="flex items-center justify-between">
-          {renderBreadcrumb()}
-          {currentPath !== '/' && (
+          <div className="flex items-center gap-3">
             <button
-              onClick={navigateUp}
-              className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-foreground bg-secondary hover:bg-secondary-hover rounded-md transition-colors"
+              onClick={() => setShowTree(!showTree)}
+              className={`p-1.5 rounded-md transition-colors ${showTree ? 'text-primary bg-primary/10' : 'text-muted-foreground hover:bg-muted'}`}
+              aria-label={showTree ? 'Hide folder tree' : 'Show folder tree'}
+              aria-pressed={showTree}
             >
-              <ArrowLeft className="w-3.5 h-3.5" />
-              Up
+              <PanelLeft className="w-4 h-4" />
             </button>
-          )}
-        </div>
-      </div>
-
-      {/* File List */}
-      <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
-        {loading ? (
-          <div className="p-8 text-center text-muted-foreground">
-            Loading files...
+            {renderBreadcrumb()}
           </div>
-        ) : error ? (
-          <div className="p-8">
-            <div className="text-center mb-4">
-              <p className="text-destructive font-semibold mb-2">Error loading files</p>
-              <p className="text-sm text-muted-foreground mb-4">{error}</p>
-              <div className="text-xs text-muted-foreground bg-muted p-3 rounded mb-4">
-                <div>Backup ID: {backupId}</div>
-                <div>Device ID: {deviceId}</div>
-                <div>Share ID: {shareId}</div>
-                <div>Path: {currentPath}</div>
-              </div>
-            </div>
-            <div className="text-center">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={nameFilter}
+              onChange={(e) => updateParams({ q: e.target.value || null }, { replace: true })}
+              placeholder="Filter this folder"
+              className="w-44 px-3 py-1.5 text-sm bg-card text-foreground border border-border rounded-md focus:outline-none focus:ring-2 focus:ring-primary"
+              aria-label="Filter this folder by name"
+            />
+            <select
+              value={typeFilter}
+              onChange={(e) => updateParams({ type: e.target.value === 'all' ? null : e.target.value }, { replace: true })}
+              className="px-2 py-1.5 text-sm bg-card text-foreground border border-border rounded-md"
+              aria-label="Show"
+            >
+              <option value="all">Files and folders</option>
+              <option value="files">Files only</option>
+              <option value="folders">Folders only</option>
+            </select>
+            <button
+              onClick={() => setArchiveFolder(currentPath)}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors"
+            >
+              <FileArchive className="w-3.5 h-3.5" />
+              Download folder
+            </button>
+            {currentPath !== '/' && (
               <button
-                onClick={() => loadFiles(currentPath)}
-                className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+                onClick={navigateUp}
+                className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-foreground bg-secondary hover:bg-secondary-hover rounded-md transition-colors"
               >
-                Retry
+                <ArrowLeft className="w-3.5 h-3.5" />
+                Up
               </button>
-            </div>
+            )}
           </div>
-        ) : files.length === 0 ? (
-          <div className="p-8 text-center text-muted-foreground">
-            This folder is empty
+        </div>
+      </div>
+
+      <div className="flex gap-4 items-start">
+        {showTree && (
+          <div className="w-64 shrink-0 sticky top-4">
+            <FolderTree
+              key={`${backupId}:${shareId}`}
+              backupId={backupId}
+              deviceId={deviceId}
+              shareId={shareId}
+              currentPath={currentPath}
+              currentFiles={loading || error || filesPath !== currentPath ? undefined : files}
+              currentLoading={loading || filesPath !== currentPath}
+              onNavigate={navigateToFolder}
+            />
           </div>
-        ) : (
-          <table className="w-full">
-            <thead className="bg-muted border-b border-border">
-              <tr>
-                <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">
-                  Name
-                </th>
-                <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">
-                  Size
-                </th>
-                <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">
-                  Modified
-                </th>
-                <th className="text-right px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">
-                  Actions
-                </th>
-              </tr>
-            </thead>
-            <tbody>
-              {files.map((file, index) => (
-                <tr
-                  key={`${file.path}-${index}`}
-                  className="border-b border-border last:border-0 hover:bg-muted/50 transition-colors"
-                >
-                  <td className="px-4 py-3">
-                    <div className="flex items-center gap-2">
-                      {file.isDirectory ? (
-                        <Folder className="w-4 h-4 text-blue-500" />
-                      ) : (
-                        <File className="w-4 h-4 text-muted-foreground" />
-                      )}
-                      {file.isDirectory ? (
-                        <button
-                          onClick={() => navigateToFolder(file.path)}
-                          className="font-medium text-foreground hover:text-primary transition-colors"
-                        >
-                          {file.name}
-                        </button>
-                      ) : (
-                        <span className="font-medium text-foreground">{file.name}</span>
-                      )}
-                    </div>
-                  </td>
-                  
-                  <td className="px-4 py-3">
-                    <span className="text-sm text-muted-foreground">
-                      {file.isDirectory ? '-' : formatFileSize(file.size)}
-                    </span>
-                  </td>
-                  
-                  <td className="px-4 py-3">
-                    <span className="text-sm text-muted-foreground">{formatDate(file.modifiedAt)}</span>
-                  </td>
-                  
-                  <td className="px-4 py-3">
-                    <div className="flex items-center justify-end gap-2">
-                      {file.isDirectory ? (
-                        <button
-                          onClick={() => navigateToFolder(file.path)}
-                          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors whitespace-nowrap"
-                        >
-                          <Folder className="w-3.5 h-3.5" />
-                          Browse
-                        </button>
-                      ) : (
-                        <button
-                          onClick={() => downloadFile(file)}
-                          className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors whitespace-nowrap"
-                        >
-                          <Download className="w-3.5 h-3.5" />
-                          Download
-                        </button>
-                      )}
-                    </div>
-                  </td>
-                </tr>
-              ))}
-            </tbody>
-          </table>
         )}
+
+        <div className="flex-1 min-w-0">
+          {/* File List */}
+          <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+            {error ? (
+              <div className="p-8">
+                <div className="text-center mb-4">
+                  <p className="text-destructive font-semibold mb-2">Error loading files</p>
+                  <p className="text-sm text-muted-foreground mb-4">{error}</p>
+                  <div className="text-xs text-muted-foreground bg-muted p-3 rounded mb-4">
+                    <div>Backup ID: {backupId}</div>
+                    <div>Device ID: {deviceId}</div>
+                    <div>Share ID: {shareId}</div>
+                    <div>Path: {currentPath}</div>
+                  </div>
+                </div>
+                <div className="text-center">
+                  <button
+                    onClick={() => loadFiles(currentPath)}
+                    className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+                  >
+                    Retry
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <FileBrowser
+                files={files}
+                currentPath={currentPath}
+                view={view}
+                onSort={toggleSort}
+                onNavigate={navigateToFolder}
+                onDownload={downloadFile}
+                onHistory={setHistoryFile}
+                onPreview={setPreviewFile}
+                onDetails={setDetailsFile}
+                onDownloadFolder={folder => setArchiveFolder(folder.path)}
+                folderSizes={folderSizes}
+                highlightedPath={selectedPath}
+                selectedPaths={selectedPaths}
+                onToggleSelect={toggleSelect}
+                onToggleSelectAll={toggleSelectAll}
+                loading={loading}
+              />
+            )}
+          </div>
+
+          <SelectionSummaryBar
+            count={selectionSummary.paths.length}
+            totalSize={selectionSummary.totalSize}
+            sizeIsEstimate={selectionSummary.sizeIsEstimate}
+            format={selectionFormat}
+            onFormatChange={setSelectionFormat}
+            onDownload={downloadSelection}
+            onRestore={() => setRestorePaths(selectionSummary.paths)}
+            onClear={() => setSelection(new Map())}
+          />
+        </div>
       </div>
+
+      <FileHistoryPanel
+        file={historyFile}
+        backupId={backupId}
+        deviceId={deviceId}
+        shareId={shareId}
+        onClose={() => setHistoryFile(null)}
+        onOpenSnapshot={openSnapshot}
+      />
+
+      <FileDetailsPane
+        file={detailsFile}
+        backupId={backupId}
+        deviceId={deviceId}
+        shareId={shareId}
+        onClose={() => setDetailsFile(null)}
+        onOpenPath={(folderPath, path) => {
+          setDetailsFile(null);
+          updateParams({ path: folderPath === '/' ? null : folderPath, file: path, q: null });
+        }}
+      />
+
+      <FilePreviewPane
+        file={previewFile}
+        backupId={backupId}
+        deviceId={deviceId}
+        shareId={shareId}
+        onClose={() => setPreviewFile(null)}
+      />
+
+      <RestoreSelectionDialog
+        paths={restorePaths}
+        backupId={backupId}
+        deviceId={deviceId}
+        shareId={shareId}
+        onClose={() => setRestorePaths(null)}
+        onStarted={restore => {
+          setRestorePaths(null);
+          setStartedRestore(restore);
+        }}
+      />
+
+      <FolderDownloadDialog
+        folderPath={archiveFolder}
+        estimatedSize={archiveFolder !== null ? estimateFolderSize(archiveFolder) : undefined}
+        backupId={backupId}
+        deviceId={deviceId}
+        shareId={shareId}
+        onClose={() => setArchiveFolder(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Columns2, FileDiff, RefreshCw, Rows2 } from 'lucide-react';
+import { backupService } from '../services/backupService';
+import { FileVersion } from '../types';
+import { formatFileSize } from '../utils/timeFormat';
+import { looksLikeText } from '../utils/filePreview';
+import { DiffLine, diffLines, splitLines, toHunks, toSplitRows } from '../utils/textDiff';
+import { parentFolder } from '../utils/paths';
+
+type DiffView = 'unified' | 'split';
+
+// Both versions are held in memory and diffed in the browser
+const MAX_DIFF_BYTES = 2 * 1024 * 1024;
+
+const lineClass: Record<DiffLine['type'], string> = {
+  equal: '',
+  insert: 'bg-status-success-bg text-status-success-fg',
+  delete: 'bg-status-error-bg text-status-error-fg',
+};
+
+const linePrefix: Record<DiffLine['type'], string> = {
+  equal: ' ',
+  insert: '+',
+  delete: '-',
+};
+
+export function FileDiffPage() {
+  const { deviceId } = useParams<{ deviceId: string }>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const shareId = searchParams.get('shareId') || '';
+  const filePath = searchParams.get('path') || '';
+  const fromId = searchParams.get('from') || '';
+  const toId = searchParams.get('to') || '';
+  const view: DiffView = searchParams.get('view') === 'split' ? 'split' : 'unified';
+  const ignoreTrailing = searchParams.get('ws') === 'trailing';
+  const ignoreAll = searchParams.get('ws') === 'all';
+
+  const [versions, setVersions] = useState<FileVersion[]>([]);
+  const [texts, setTexts] = useState<{ from: string; to: string } | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // The version list lets the user pick any other pair without leaving the page
+  useEffect(() => {
+    if (!deviceId || !shareId || !filePath) return;
+    backupService.getFileHistory(deviceId, shareId, filePath)
+      .then(setVersions)
+      .catch(err => console.error('Failed to load file history:', err));
+  }, [deviceId, shareId, filePath]);
+
+  useEffect(() => {
+    if (!deviceId || !shareId || !filePath || !fromId || !toId) return;
+
+    const controller = new AbortController();
+    const loadVersions = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const [from, to] = await Promise.all([fromId, toId].map(id =>
+          backupService.fetchFileBytes(id, deviceId, shareId, filePath, MAX_DIFF_BYTES + 1, controller.signal)
+        ));
+
+        if (from.bytes.length > MAX_DIFF_BYTES || to.bytes.length > MAX_DIFF_BYTES) {
+          throw new Error(`Files larger than ${formatFileSize(MAX_DIFF_BYTES)} cannot be compared in the browser`);
+        }
+        if (!looksLikeText(from.bytes) || !looksLikeText(to.bytes)) {
+          throw new Error('This file is not a text file, so a line diff is not available');
+        }
+
+        const decoder = new TextDecoder();
+        setTexts({ from: decoder.decode(from.bytes), to: decoder.decode(to.bytes) });
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error('Failed to load file versions:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load file versions');
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    };
+
+    loadVersions();
+    return () => controller.abort();
+  }, [deviceId, shareId, filePath, fromId, toId]);
+
+  const diff = useMemo(() => {
+    if (!texts) return [];
+    return diffLines(splitLines(texts.from), splitLines(texts.to), { ignoreTrailing, ignoreAll });
+  }, [texts, ignoreTrailing, ignoreAll]);
+
+  const hunks = useMemo(() => toHunks(diff), [diff]);
+  const added = diff.filter(l => l.type === 'insert').length;
+  const removed = diff.filter(l => l.type === 'delete').length;
+
+  const updateParam = (key: string, value: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    setSearchParams(next, { replace: key === 'view' || key === 'ws' });
+  };
+
+  const versionLabel = (version: FileVersion) =>
+    `${new Date(version.timestamp).toLocaleString()} (${version.backupId.substring(0, 8)})`;
+
+  const renderNumber = (value?: number) => (
+    <span className="select-none w-12 shrink-0 pr-2 text-right text-muted-foreground">{value ?? ''}</span>
+  );
+
+  const renderUnified = () => (
+    <div className="font-mono text-xs leading-5">
+      {hunks.map(hunk => (
+        <div key={`${hunk.oldStart}-${hunk.newStart}`} className="border-b border-border last:border-0">
+          <div className="px-4 py-1 bg-muted text-muted-foreground">
+            @@ -{hunk.oldStart} +{hunk.newStart} @@
+          </div>
+          {hunk.lines.map((line, index) => (
+            <div key={index} className={`flex ${lineClass[line.type]}`}>
+              {renderNumber(line.oldNumber)}
+              {renderNumber(line.newNumber)}
+              <span className="select-none w-4 shrink-0">{linePrefix[line.type]}</span>
+              <code className="whitespace-pre-wrap break-all text-foreground">{line.text}</code>
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+
+  const renderSplit = () => (
+    <div className="font-mono text-xs leading-5">
+      {hunks.map(hunk => (
+        <div key={`${hunk.oldStart}-${hunk.newStart}`} className="border-b border-border last:border-0">
+          <div className="px-4 py-1 bg-muted text-muted-foreground">
+            @@ -{hunk.oldStart} +{hunk.newStart} @@
+          </div>
+          {toSplitRows(hunk.lines).map((row, index) => (
+            <div key={index} className="grid grid-cols-2">
+              {[row.left, row.right].map((line, side) => (
+                <div
+                  key={side}
+                  className={`flex min-w-0 ${side === 0 ? 'border-r border-border' : ''} ${
+                    line && line.type !== 'equal' ? lineClass[line.type] : ''
+                  } ${!line ? 'bg-muted/50' : ''}`}
+                >
+                  {renderNumber(side === 0 ? line?.oldNumber : line?.newNumber)}
+                  <code className="whitespace-pre-wrap break-all text-foreground">{line?.text}</code>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+
+  if (!deviceId || !shareId || !filePath || !fromId || !toId) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <p className="text-muted-foreground">Select two versions of a file to compare</p>
+          <button
+            onClick={() => navigate(deviceId ? `/devices/${deviceId}/backups` : '/devices')}
+            className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+          >
+            Back to Backups
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="min-w-0">
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+            <FileDiff className="w-7 h-7" />
+            Compare File Versions
+          </h1>
+          <p className="text-muted-foreground mt-1 font-mono text-sm truncate" title={filePath}>{filePath}</p>
+        </div>
+        <button
+          onClick={() => {
+            const params = new URLSearchParams({ deviceId, shareId, path: parentFolder(filePath) });
+            navigate(`/devices/${deviceId}/backups/${toId}/browse?${params}`);
+          }}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back to folder
+        </button>
+      </div>
+
+      {/* Version pickers and options */}
+      <div className="bg-card rounded-lg shadow-sm border border-border p-4 space-y-3">
+        <div className="grid grid-cols-2 gap-4">
+          {([['from', fromId, 'Old version'], ['to', toId, 'New version']] as const).map(([key, value, label]) => (
+            <label key={key} className="text-sm text-muted-foreground">
+              {label}
+              <select
+                value={value}
+                onChange={(e) => updateParam(key, e.target.value)}
+                className="mt-1 block w-full px-3 py-2 text-sm bg-card text-foreground border border-border rounded-md"
+              >
+                {!versions.some(v => v.backupId === value) && <option value={value}>{value.substring(0, 8)}</option>}
+                {versions.map(version => (
+                  <option key={version.backupId} value={version.backupId}>{versionLabel(version)}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            {([['unified', Rows2, 'Unified'], ['split', Columns2, 'Split']] as const).map(([value, Icon, label]) => (
+              <button
+                key={value}
+                onClick={() => updateParam('view', value === 'unified' ? null : value)}
+                className={`inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-medium rounded-md border transition-colors ${
+                  view === value
+                    ? 'bg-primary text-primary-foreground border-primary'
+                    : 'bg-card text-foreground border-border hover:bg-muted'
+                }`}
+              >
+                <Icon className="w-4 h-4" />
+                {label}
+              </button>
+            ))}
+          </div>
+          <div className="flex items-center gap-4 text-sm text-foreground">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={ignoreTrailing || ignoreAll}
+                disabled={ignoreAll}
+                onChange={(e) => updateParam('ws', e.target.checked ? 'trailing' : null)}
+              />
+              Ignore trailing whitespace
+            </label>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={ignoreAll}
+                onChange={(e) => updateParam('ws', e.target.checked ? 'all' : null)}
+              />
+              Ignore all whitespace
+            </label>
+            {texts && (
+              <span className="font-mono">
+                <span className="text-status-success-fg">+{added}</span>{' '}
+                <span className="text-status-error-fg">-{removed}</span>
+              </span>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Diff */}
+      <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+        {loading ? (
+          <div className="flex flex-col items-center gap-2 p-8 text-muted-foreground">
+            <RefreshCw className="w-6 h-6 animate-spin" />
+            <span>Loading both versions...</span>
+          </div>
+        ) : error ? (
+          <div className="p-8 text-center">
+            <p className="text-status-error font-semibold mb-2">Cannot compare these versions</p>
+            <p className="text-sm text-muted-foreground">{error}</p>
+          </div>
+        ) : !texts ? null : hunks.length === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            {fromId === toId ? 'Both sides are the same snapshot' : 'These versions are identical'}
+          </div>
+        ) : view === 'split' ? (
+          renderSplit()
+        ) : (
+          renderUnified()
+        )}
+      </div>
+    </div>
+  );
+}
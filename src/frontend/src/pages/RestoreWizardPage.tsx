@@ -0,0 +1,799 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Link } from 'react-router-dom';
+import {
+  Server,
+  FolderOpen,
+  Folder,
+  File,
+  History,
+  HardDrive,
+  Home,
+  ChevronRight,
+  ArrowLeft,
+  ArrowRight,
+  Check,
+  RotateCcw,
+  Loader2,
+  AlertTriangle,
+  Download,
+} from 'lucide-react';
+import { devicesService } from '../services/devicesService';
+import { backupService } from '../services/backupService';
+import { RestoreProgress } from '../services/signalr';
+import { Backup, FileEntry, RestoreConflictMode, RestoreSourceTarget } from '../types';
+import { Device, Share } from '../types/devices';
+import { RestoreProgressPanel } from '../components/RestoreProgressPanel';
+import { useRestores } from '../hooks/useRestores';
+import { getErrorMessage } from '../utils/errors';
+import { formatFileSize } from '../utils/timeFormat';
+
+type WizardStep = 'source' | 'snapshot' | 'files' | 'target' | 'confirm';
+type RestoreTarget = 'server' | 'source';
+
+const STEPS: { id: WizardStep; label: string }[] = [
+  { id: 'source', label: 'Device & Share' },
+  { id: 'snapshot', label: 'Snapshot' },
+  { id: 'files', label: 'Files' },
+  { id: 'target', label: 'Target' },
+  { id: 'confirm', label: 'Confirm' },
+];
+
+const CONFLICT_MODES: { value: RestoreConflictMode; label: string; description: string }[] = [
+  { value: 'Rename', label: 'Keep both', description: 'Restored copies get a timestamp suffix, e.g. report.restored-20250101-120000.pdf' },
+  { value: 'Skip', label: 'Skip existing', description: 'Only files missing on the source are restored' },
+  { value: 'Overwrite', label: 'Overwrite', description: 'Existing files are replaced with the backed-up version' },
+];
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return '-';
+  return new Date(dateString).toLocaleString();
+};
+
+// Default server-side target: restores are only allowed below ./restores
+const buildDefaultTargetPath = (device: Device, share: Share) => {
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const slug = (value: string) => value.replace(/[^a-zA-Z0-9_-]+/g, '_');
+  return `./restores/${slug(device.name)}-${slug(share.name)}-${stamp}`;
+};
+
+export function RestoreWizardPage() {
+  const [step, setStep] = useState<WizardStep>('source');
+
+  // Step 1: device and share
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [devicesLoading, setDevicesLoading] = useState(true);
+  const [selectedDevice, setSelectedDevice] = useState<Device | null>(null);
+  const [selectedShare, setSelectedShare] = useState<Share | null>(null);
+
+  // Step 2: snapshot
+  const [snapshots, setSnapshots] = useState<Backup[]>([]);
+  const [snapshotsLoading, setSnapshotsLoading] = useState(false);
+  const [selectedSnapshot, setSelectedSnapshot] = useState<Backup | null>(null);
+
+  // Step 3: files and folders
+  const [currentPath, setCurrentPath] = useState('/');
+  const [files, setFiles] = useState<FileEntry[]>([]);
+  const [filesLoading, setFilesLoading] = useState(false);
+  const [selectedPaths, setSelectedPaths] = useState<Set<string>>(new Set());
+
+  // Step 4: target
+  const [target, setTarget] = useState<RestoreTarget>('server');
+  const [targetPath, setTargetPath] = useState('');
+  const [sourceTarget, setSourceTarget] = useState<RestoreSourceTarget | null>(null);
+  const [sourceTargetLoading, setSourceTargetLoading] = useState(false);
+  const [conflictMode, setConflictMode] = useState<RestoreConflictMode>('Rename');
+  const [sourceConfirmed, setSourceConfirmed] = useState(false);
+  const [sourceUnavailable, setSourceUnavailable] = useState(false);
+
+  // Step 5: confirm
+  const [restoring, setRestoring] = useState(false);
+  const [result, setResult] = useState<RestoreProgress | null>(null);
+  const { restores } = useRestores();
+
+  const [error, setError] = useState<string | null>(null);
+
+  const loadDevices = useCallback(async () => {
+    setDevicesLoading(true);
+    setError(null);
+    try {
+      setDevices(await devicesService.getDevices());
+    } catch (err) {
+      console.error('Failed to load devices:', err);
+      setError(getErrorMessage(err, 'Failed to load devices'));
+    } finally {
+      setDevicesLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const loadSnapshots = useCallback(async (device: Device, share: Share) => {
+    setSnapshotsLoading(true);
+    setError(null);
+    try {
+      const backups = await backupService.getBackupsForShare(device.id, share.id);
+      setSnapshots(
+        [...backups].sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      );
+    } catch (err) {
+      console.error('Failed to load snapshots:', err);
+      setError(getErrorMessage(err, 'Failed to load snapshots'));
+    } finally {
+      setSnapshotsLoading(false);
+    }
+  }, []);
+
+  const loadFiles = useCallback(async (path: string) => {
+    if (!selectedDevice || !selectedShare || !selectedSnapshot) return;
+
+    setFilesLoading(true);
+    setError(null);
+    try {
+      setFiles(await backupService.browseBackupFiles(selectedSnapshot.id, selectedDevice.id, selectedShare.id, path));
+    } catch (err) {
+      console.error('Failed to load files:', err);
+      setError(getErrorMessage(err, 'Failed to load files'));
+    } finally {
+      setFilesLoading(false);
+    }
+  }, [selectedDevice, selectedShare, selectedSnapshot]);
+
+  useEffect(() => {
+    if (step === 'files') {
+      loadFiles(currentPath);
+    }
+  }, [step, currentPath, loadFiles]);
+
+  const selectDevice = (device: Device) => {
+    setSelectedDevice(device);
+    setSelectedShare(null);
+    setSelectedSnapshot(null);
+    setSelectedPaths(new Set());
+    setTargetPath('');
+  };
+
+  const selectShare = (share: Share) => {
+    setSelectedShare(share);
+    setSelectedSnapshot(null);
+    setSelectedPaths(new Set());
+    setTargetPath('');
+  };
+
+  const selectSnapshot = (snapshot: Backup) => {
+    if (selectedSnapshot?.id !== snapshot.id) {
+      setSelectedPaths(new Set());
+      setCurrentPath('/');
+    }
+    setSelectedSnapshot(snapshot);
+  };
+
+  const togglePath = (path: string) => {
+    setSelectedPaths(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const stepIndex = STEPS.findIndex(s => s.id === step);
+
+  const canContinue = (() => {
+    switch (step) {
+      case 'source':
+        return !!selectedDevice && !!selectedShare;
+      case 'snapshot':
+        return !!selectedSnapshot;
+      case 'files':
+        return true; // Empty selection restores the whole snapshot
+      case 'target':
+        return target === 'server' ? targetPath.trim().length > 0 : !!sourceTarget;
+      default:
+        return false;
+    }
+  })();
+
+  const goNext = () => {
+    if (!canContinue) return;
+    setError(null);
+
+    if (step === 'source' && selectedDevice && selectedShare) {
+      loadSnapshots(selectedDevice, selectedShare);
+      // A different share means a different source; make the user pick and confirm it again
+      if (sourceTarget && sourceTarget.shareId !== selectedShare.id) {
+        setSourceTarget(null);
+        setTarget('server');
+      }
+    }
+    if (step === 'files' && selectedDevice && selectedShare && !targetPath) {
+      setTargetPath(buildDefaultTargetPath(selectedDevice, selectedShare));
+    }
+    setStep(STEPS[stepIndex + 1].id);
+  };
+
+  const chooseSourceTarget = async () => {
+    setTarget('source');
+    setSourceConfirmed(false);
+    if (!selectedDevice || !selectedShare || sourceTarget?.shareId === selectedShare.id) return;
+
+    setSourceTargetLoading(true);
+    setError(null);
+    try {
+      setSourceTarget(await backupService.getRestoreTarget(selectedDevice.id, selectedShare.id));
+    } catch (err) {
+      console.error('Failed to resolve restore target:', err);
+      setError(getErrorMessage(err, 'Failed to resolve restore target'));
+    } finally {
+      setSourceTargetLoading(false);
+    }
+  };
+
+  const goBack = () => {
+    if (stepIndex === 0) return;
+    setError(null);
+    setSourceUnavailable(false);
+    setStep(STEPS[stepIndex - 1].id);
+  };
+
+  const startOver = () => {
+    setStep('source');
+    setSelectedDevice(null);
+    setSelectedShare(null);
+    setSelectedSnapshot(null);
+    setSnapshots([]);
+    setFiles([]);
+    setCurrentPath('/');
+    setSelectedPaths(new Set());
+    setTarget('server');
+    setTargetPath('');
+    setSourceTarget(null);
+    setConflictMode('Rename');
+    setSourceConfirmed(false);
+    setSourceUnavailable(false);
+    setResult(null);
+    setError(null);
+  };
+
+  const handleRestore = async () => {
+    if (!selectedDevice || !selectedShare || !selectedSnapshot) return;
+
+    setRestoring(true);
+    setError(null);
+    setSourceUnavailable(false);
+    try {
+      const includePaths = Array.from(selectedPaths);
+      const restoreResult = await backupService.restoreBackup(
+        selectedSnapshot.id,
+        selectedDevice.id,
+        selectedShare.id,
+        target === 'source'
+          ? {
+              targetPath: '',
+              includePaths: includePaths.length > 0 ? includePaths : undefined,
+              restoreToSource: true,
+              conflictMode,
+            }
+          : {
+              targetPath: targetPath.trim(),
+              includePaths: includePaths.length > 0 ? includePaths : undefined,
+            }
+      );
+      setResult(restoreResult);
+    } catch (err) {
+      console.error('Error restoring backup:', err);
+      setError(getErrorMessage(err, 'Failed to restore backup'));
+      // 409 means the source device could not be reached; offer a download instead
+      const status = (err as { response?: { status?: number } }).response?.status;
+      setSourceUnavailable(target === 'source' && status === 409);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const renderStepIndicator = () => (
+    <div className="bg-card rounded-lg shadow-sm border border-border p-4">
+      <ol className="flex items-center gap-2">
+        {STEPS.map((s, index) => {
+          const isDone = index < stepIndex || (s.id === 'confirm' && !!result);
+          const isCurrent = index === stepIndex && !result;
+          return (
+            <li key={s.id} className="flex items-center gap-2 flex-1 last:flex-none">
+              <span
+                className={`flex items-center justify-center w-7 h-7 rounded-full text-xs font-semibold ${
+                  isDone
+                    ? 'bg-primary text-primary-foreground'
+                    : isCurrent
+                    ? 'border-2 border-primary text-primary'
+                    : 'bg-muted text-muted-foreground'
+                }`}
+              >
+                {isDone ? <Check className="w-4 h-4" /> : index + 1}
+              </span>
+              <span className={`text-sm ${isCurrent ? 'font-medium text-foreground' : 'text-muted-foreground'}`}>
+                {s.label}
+              </span>
+              {index < STEPS.length - 1 && <div className="flex-1 h-px bg-border mx-2" />}
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+
+  const renderSourceStep = () => {
+    if (devicesLoading) {
+      return <div className="p-8 text-center text-muted-foreground">Loading devices...</div>;
+    }
+    if (devices.length === 0) {
+      return (
+        <div className="p-8 text-center text-muted-foreground">
+          No devices configured. <Link to="/devices" className="text-primary hover:underline">Add a device</Link> first.
+        </div>
+      );
+    }
+
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 p-6">
+        <div>
+          <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-3">Device</h3>
+          <div className="space-y-2">
+            {devices.map(device => (
+              <button
+                key={device.id}
+                onClick={() => selectDevice(device)}
+                className={`w-full flex items-center gap-3 px-4 py-3 rounded-md border text-left transition-colors ${
+                  selectedDevice?.id === device.id
+                    ? 'border-primary bg-primary/10'
+                    : 'border-border hover:bg-muted'
+                }`}
+              >
+                <Server className="w-4 h-4 text-muted-foreground" />
+                <div className="min-w-0">
+                  <div className="font-medium text-foreground truncate">{device.name}</div>
+                  <div className="text-xs text-muted-foreground">{device.host} &middot; {device.protocol}</div>
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <h3 className="text-sm font-medium text-muted-foreground uppercase tracking-wide mb-3">Share</h3>
+          {!selectedDevice ? (
+            <p className="text-sm text-muted-foreground">Select a device to see its shares.</p>
+          ) : selectedDevice.shares.length === 0 ? (
+            <p className="text-sm text-muted-foreground">This device has no shares.</p>
+          ) : (
+            <div className="space-y-2">
+              {selectedDevice.shares.map(share => (
+                <button
+                  key={share.id}
+                  onClick={() => selectShare(share)}
+                  className={`w-full flex items-center gap-3 px-4 py-3 rounded-md border text-left transition-colors ${
+                    selectedShare?.id === share.id
+                      ? 'border-primary bg-primary/10'
+                      : 'border-border hover:bg-muted'
+                  }`}
+                >
+                  <FolderOpen className="w-4 h-4 text-muted-foreground" />
+                  <div className="min-w-0">
+                    <div className="font-medium text-foreground truncate">{share.name}</div>
+                    <div className="text-xs text-muted-foreground font-mono truncate">{share.path}</div>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const renderSnapshotStep = () => {
+    if (snapshotsLoading) {
+      return <div className="p-8 text-center text-muted-foreground">Loading snapshots...</div>;
+    }
+    if (snapshots.length === 0) {
+      return <div className="p-8 text-center text-muted-foreground">No snapshots found for this share.</div>;
+    }
+
+    return (
+      <div className="divide-y divide-border">
+        {snapshots.map(snapshot => (
+          <label
+            key={snapshot.id}
+            className={`flex items-center gap-4 px-6 py-3 cursor-pointer transition-colors ${
+              selectedSnapshot?.id === snapshot.id ? 'bg-primary/10' : 'hover:bg-muted/50'
+            }`}
+          >
+            <input
+              type="radio"
+              name="snapshot"
+              checked={selectedSnapshot?.id === snapshot.id}
+              onChange={() => selectSnapshot(snapshot)}
+            />
+            <History className="w-4 h-4 text-muted-foreground" />
+            <div className="flex-1">
+              <div className="font-medium text-foreground">{formatDate(snapshot.timestamp)}</div>
+              <div className="text-xs text-muted-foreground font-mono">{snapshot.id.substring(0, 8)}</div>
+            </div>
+            <span className="text-sm text-muted-foreground">{snapshot.status}</span>
+          </label>
+        ))}
+      </div>
+    );
+  };
+
+  const renderBreadcrumb = () => {
+    const parts = currentPath.split('/').filter(Boolean);
+    return (
+      <div className="flex items-center gap-2 text-sm">
+        <button
+          onClick={() => setCurrentPath('/')}
+          className="flex items-center gap-1 text-muted-foreground hover:text-foreground transition-colors"
+        >
+          <Home className="w-4 h-4" />
+          <span>root</span>
+        </button>
+        {parts.map((part, index) => {
+          const path = '/' + parts.slice(0, index + 1).join('/');
+          return (
+            <div key={path} className="flex items-center gap-2">
+              <ChevronRight className="w-4 h-4 text-muted-foreground" />
+              <button
+                onClick={() => setCurrentPath(path)}
+                className="text-muted-foreground hover:text-foreground transition-colors"
+              >
+                {part}
+              </button>
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const renderFilesStep = () => (
+    <div>
+      <div className="flex items-center justify-between px-6 py-3 border-b border-border">
+        {renderBreadcrumb()}
+        <span className="text-sm text-muted-foreground">
+          {selectedPaths.size === 0
+            ? 'Nothing selected: the entire snapshot will be restored'
+            : `${selectedPaths.size} item${selectedPaths.size === 1 ? '' : 's'} selected`}
+        </span>
+      </div>
+
+      {filesLoading ? (
+        <div className="p-8 text-center text-muted-foreground">Loading files...</div>
+      ) : files.length === 0 ? (
+        <div className="p-8 text-center text-muted-foreground">This folder is empty</div>
+      ) : (
+        <table className="w-full">
+          <thead className="bg-muted border-b border-border">
+            <tr>
+              <th className="w-10 px-4 py-3" />
+              <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">Name</th>
+              <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">Size</th>
+              <th className="text-left px-4 py-3 text-sm font-medium text-muted-foreground uppercase tracking-wide">Modified</th>
+            </tr>
+          </thead>
+          <tbody>
+            {files.map((file, index) => (
+              <tr
+                key={`${file.path}-${index}`}
+                className="border-b border-border last:border-0 hover:bg-muted/50 transition-colors"
+              >
+                <td className="px-4 py-3">
+                  <input
+                    type="checkbox"
+                    checked={selectedPaths.has(file.path)}
+                    onChange={() => togglePath(file.path)}
+                    aria-label={`Select ${file.name}`}
+                  />
+                </td>
+                <td className="px-4 py-3">
+                  <div className="flex items-center gap-2">
+                    {file.isDirectory ? (
+                      <>
+                        <Folder className="w-4 h-4 text-blue-500" />
+                        <button
+                          onClick={() => setCurrentPath(file.path)}
+                          className="font-medium text-foreground hover:text-primary transition-colors"
+                        >
+                          {file.name}
+                        </button>
+                      </>
+                    ) : (
+                      <>
+                        <File className="w-4 h-4 text-muted-foreground" />
+                        <span className="font-medium text-foreground">{file.name}</span>
+                      </>
+                    )}
+                  </div>
+                </td>
+                <td className="px-4 py-3 text-sm text-muted-foreground">
+                  {file.isDirectory ? '-' : formatFileSize(file.size)}
+                </td>
+                <td className="px-4 py-3 text-sm text-muted-foreground">{formatDate(file.modifiedAt)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+
+  const renderTargetStep = () => (
+    <div className="p-6 space-y-4">
+      <label
+        className={`flex items-start gap-3 p-4 rounded-md border cursor-pointer ${
+          target === 'server' ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+        }`}
+      >
+        <input
+          type="radio"
+          name="target"
+          className="mt-1"
+          checked={target === 'server'}
+          onChange={() => setTarget('server')}
+        />
+        <div className="flex-1">
+          <div className="flex items-center gap-2 font-medium text-foreground">
+            <HardDrive className="w-4 h-4" />
+            Restore to a folder on the BackupChrono server
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            The path must be inside the server's <code className="font-mono">./restores</code> directory.
+          </p>
+          {target === 'server' && (
+            <input
+              type="text"
+              value={targetPath}
+              onChange={(e) => setTargetPath(e.target.value)}
+              placeholder="./restores/my-restore"
+              className="mt-3 w-full px-3 py-2 bg-background border border-border rounded-md text-foreground font-mono text-sm focus:outline-none focus:ring-2 focus:ring-primary"
+            />
+          )}
+        </div>
+      </label>
+
+      <label
+        className={`flex items-start gap-3 p-4 rounded-md border cursor-pointer ${
+          target === 'source' ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+        }`}
+      >
+        <input
+          type="radio"
+          name="target"
+          className="mt-1"
+          checked={target === 'source'}
+          onChange={chooseSourceTarget}
+        />
+        <div className="flex-1">
+          <div className="flex items-center gap-2 font-medium text-foreground">
+            <Server className="w-4 h-4" />
+            Restore back to the source
+            {sourceTargetLoading && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+          </div>
+          <p className="text-sm text-muted-foreground mt-1">
+            {selectedDevice?.host}:<span className="font-mono">{selectedShare?.path}</span>
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            Files are written back to their original paths over {selectedDevice?.protocol ?? 'the device protocol'}.
+          </p>
+          {target === 'source' && (
+            <fieldset className="mt-3 space-y-2">
+              <legend className="text-sm font-medium text-foreground mb-2">When a file already exists</legend>
+              {CONFLICT_MODES.map(mode => (
+                <label key={mode.value} className="flex items-start gap-2 text-sm">
+                  <input
+                    type="radio"
+                    name="conflictMode"
+                    className="mt-1"
+                    checked={conflictMode === mode.value}
+                    onChange={() => setConflictMode(mode.value)}
+                  />
+                  <span>
+                    <span className="font-medium text-foreground">{mode.label}</span>
+                    <span className="block text-xs text-muted-foreground">{mode.description}</span>
+                  </span>
+                </label>
+              ))}
+            </fieldset>
+          )}
+        </div>
+      </label>
+    </div>
+  );
+
+  const downloadInstead = () => {
+    if (!selectedDevice || !selectedShare || !selectedSnapshot) return;
+
+    const includePaths = Array.from(selectedPaths);
+    if (includePaths.length === 0) {
+      window.open(backupService.getArchiveUrl(selectedSnapshot.id, selectedDevice.id, selectedShare.id, '/', 'zip'), '_blank');
+      return;
+    }
+
+    backupService.downloadSelectionArchive(selectedSnapshot.id, selectedDevice.id, selectedShare.id, includePaths, 'zip');
+  };
+
+  const renderConfirmStep = () => {
+    if (result) {
+      // Prefer the live copy pushed over SignalR; fall back to what the POST returned
+      const live = restores.find(r => r.restoreId === result.restoreId) ?? result;
+      return (
+        <div className="p-6 space-y-4">
+          <p className="text-sm text-muted-foreground">
+            The restore runs on the server. You can leave this page and follow it under{' '}
+            <Link to={`/restores?restoreId=${live.restoreId}`} className="text-primary hover:underline">
+              Restore Activity
+            </Link>
+            .
+          </p>
+          <RestoreProgressPanel restores={[live]} />
+          <div className="text-center">
+            <button
+              onClick={startOver}
+              className="px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+            >
+              Start another restore
+            </button>
+          </div>
+        </div>
+      );
+    }
+
+    const includePaths = Array.from(selectedPaths);
+    return (
+      <dl className="p-6 grid grid-cols-[10rem_1fr] gap-y-3 text-sm">
+        <dt className="text-muted-foreground">Device</dt>
+        <dd className="text-foreground">{selectedDevice?.name} ({selectedDevice?.host})</dd>
+        <dt className="text-muted-foreground">Share</dt>
+        <dd className="text-foreground">{selectedShare?.name} <span className="font-mono text-muted-foreground">{selectedShare?.path}</span></dd>
+        <dt className="text-muted-foreground">Snapshot</dt>
+        <dd className="text-foreground">
+          {formatDate(selectedSnapshot?.timestamp)}{' '}
+          <span className="font-mono text-muted-foreground">{selectedSnapshot?.id.substring(0, 8)}</span>
+        </dd>
+        <dt className="text-muted-foreground">Items</dt>
+        <dd className="text-foreground">
+          {includePaths.length === 0 ? (
+            'Entire snapshot'
+          ) : (
+            <ul className="space-y-1">
+              {includePaths.map(path => (
+                <li key={path} className="font-mono">{path}</li>
+              ))}
+            </ul>
+          )}
+        </dd>
+        <dt className="text-muted-foreground">Target</dt>
+        {target === 'source' && sourceTarget ? (
+          <dd className="space-y-3">
+            <div className="text-foreground">
+              <span className="font-mono">{sourceTarget.host}:{sourceTarget.sharePath}</span>{' '}
+              <span className="text-muted-foreground">
+                ({sourceTarget.deviceName}, {sourceTarget.protocol})
+              </span>
+            </div>
+            <div className="text-foreground">
+              If a file exists: {CONFLICT_MODES.find(m => m.value === conflictMode)?.label}
+            </div>
+            <label className="flex items-start gap-2 p-3 rounded-md border border-status-warning/30 bg-status-warning-bg text-status-warning-fg">
+              <input
+                type="checkbox"
+                className="mt-0.5"
+                checked={sourceConfirmed}
+                onChange={(e) => setSourceConfirmed(e.target.checked)}
+              />
+              <span>
+                I understand files will be written to <span className="font-mono">{sourceTarget.host}:{sourceTarget.sharePath}</span>
+                {conflictMode === 'Overwrite' && ' and existing files will be overwritten'}.
+              </span>
+            </label>
+          </dd>
+        ) : (
+          <dd className="text-foreground font-mono">{targetPath.trim()}</dd>
+        )}
+      </dl>
+    );
+  };
+
+  const renderStep = () => {
+    switch (step) {
+      case 'source':
+        return renderSourceStep();
+      case 'snapshot':
+        return renderSnapshotStep();
+      case 'files':
+        return renderFilesStep();
+      case 'target':
+        return renderTargetStep();
+      case 'confirm':
+        return renderConfirmStep();
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Restore</h1>
+          <p className="text-muted-foreground mt-1">Restore files and folders from a backup snapshot</p>
+        </div>
+        <Link
+          to="/restores"
+          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors"
+        >
+          <History className="w-4 h-4" />
+          Restore Activity
+        </Link>
+      </div>
+
+      {renderStepIndicator()}
+
+      {error && (
+        <div className="bg-status-error-bg border border-status-error/30 rounded-lg p-4 flex items-center justify-between gap-4">
+          <p className="text-sm text-status-error-fg flex items-center gap-2">
+            {sourceUnavailable && <AlertTriangle className="w-4 h-4 shrink-0" />}
+            {error}
+          </p>
+          {sourceUnavailable && (
+            <button
+              onClick={downloadInstead}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors shrink-0"
+            >
+              <Download className="w-4 h-4" />
+              Download instead
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+        {renderStep()}
+      </div>
+
+      {/* Navigation */}
+      {!result && (
+        <div className="flex items-center justify-between">
+          <button
+            onClick={goBack}
+            disabled={stepIndex === 0 || restoring}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <ArrowLeft className="w-4 h-4" />
+            Back
+          </button>
+          {step === 'confirm' ? (
+            <button
+              onClick={handleRestore}
+              disabled={restoring || (target === 'source' && !sourceConfirmed)}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {restoring ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+              {restoring ? 'Starting...' : 'Start Restore'}
+            </button>
+          ) : (
+            <button
+              onClick={goNext}
+              disabled={!canContinue}
+              className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Next
+              <ArrowRight className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
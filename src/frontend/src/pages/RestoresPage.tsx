@@ -0,0 +1,47 @@
+import { Link, useSearchParams } from 'react-router-dom';
+import { RefreshCw, RotateCcw } from 'lucide-react';
+import { RestoreProgressPanel } from '../components/RestoreProgressPanel';
+import { useRestores } from '../hooks/useRestores';
+
+export function RestoresPage() {
+  const [searchParams] = useSearchParams();
+  const { restores, loading, error, reload } = useRestores();
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Restore Activity</h1>
+          <p className="text-muted-foreground mt-1">
+            Running and recently finished restores. Progress keeps updating while you are away.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={reload}
+            disabled={loading}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+          <Link
+            to="/restore"
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-primary-foreground bg-primary hover:bg-primary/90 rounded-md transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            New Restore
+          </Link>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-status-error-bg border border-status-error/30 text-status-error-fg px-4 py-3 rounded-md">
+          {error}
+        </div>
+      )}
+
+      <RestoreProgressPanel restores={restores} highlightId={searchParams.get('restoreId')} />
+    </div>
+  );
+}
@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { ScheduleTimeline } from '../components/ScheduleTimeline';
+import { useUpcomingSchedule } from '../hooks/queries';
+
+const RANGES = [
+  { hours: 24, label: '24 hours' },
+  { hours: 72, label: '3 days' },
+  { hours: 168, label: '7 days' },
+];
+
+const LEGEND = [
+  { label: 'Planned run', className: 'bg-primary' },
+  { label: 'Overlaps another run on the device', className: 'bg-status-error' },
+  { label: 'Skipped by a window, blocked hour or blackout', className: 'bg-status-warning' },
+  { label: 'No history, length assumed', className: 'bg-primary opacity-50' },
+];
+
+export function SchedulePage() {
+  const [hours, setHours] = useState(24);
+  const { data: schedule, isPending, isError, isFetching, refetch } = useUpcomingSchedule(hours);
+
+  const overlapping = schedule?.lanes.reduce((count, lane) => count + lane.runs.filter(run => run.overlaps).length, 0) ?? 0;
+  const skipped = schedule?.lanes.reduce((count, lane) => count + lane.runs.filter(run => run.blockedReason).length, 0) ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Upcoming Schedule</h1>
+          <p className="text-muted-foreground mt-1">
+            Planned backup runs for every device and share, sized by how long they usually take.
+            {schedule && ` Schedules run in the server's time zone (${schedule.serverTimeZone}); times are shown in yours.`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <div className="flex rounded-lg border border-border overflow-hidden text-sm">
+            {RANGES.map(range => (
+              <button
+                key={range.hours}
+                onClick={() => setHours(range.hours)}
+                className={`px-3 py-1.5 ${
+                  hours === range.hours ? 'bg-primary text-primary-foreground' : 'bg-card text-muted-foreground hover:bg-muted'
+                }`}
+              >
+                {range.label}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => refetch()}
+            disabled={isFetching}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${isFetching ? 'animate-spin' : ''}`} />
+            Refresh
+          </button>
+        </div>
+      </div>
+
+      {isError && (
+        <div className="bg-status-error-bg border border-status-error/30 text-status-error-fg px-4 py-3 rounded-md">
+          Failed to load the upcoming schedule.
+        </div>
+      )}
+
+      {(overlapping > 0 || skipped > 0) && (
+        <div className="flex items-start gap-2 bg-status-warning-bg border border-status-warning text-status-warning-fg px-4 py-3 rounded-md text-sm">
+          <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+          <div>
+            {overlapping > 0 && <div>{overlapping} runs are expected to overlap another run on the same device.</div>}
+            {skipped > 0 && <div>{skipped} runs fall in a blocked time and will be skipped.</div>}
+          </div>
+        </div>
+      )}
+
+      <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+        {LEGEND.map(item => (
+          <span key={item.label} className="flex items-center gap-1.5">
+            <span className={`w-3 h-3 rounded-sm ${item.className}`} />
+            {item.label}
+          </span>
+        ))}
+      </div>
+
+      {isPending ? (
+        <div className="flex items-center justify-center h-40">
+          <RefreshCw className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : (
+        schedule && <ScheduleTimeline schedule={schedule} />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,343 @@
+import { useState, useEffect, useCallback } from 'react';
+import cronstrue from 'cronstrue';
+import { Save, RefreshCw, Clock, Archive, Filter, Package, AlertTriangle } from 'lucide-react';
+import { settingsService } from '../services/settingsService';
+import { SuccessNotification } from '../components/SuccessNotification';
+import { BackupWindowEditor } from '../components/BackupWindowEditor';
+import { CompressionMode, GlobalSettings, GlobalSettingsUpdate } from '../types/settings';
+import { ScheduleRestrictions } from '../types';
+import { pickRestrictions, validateRestrictions } from '../utils/scheduleRestrictions';
+import { getErrorMessage } from '../utils/errors';
+
+const RETENTION_FIELDS = [
+  { key: 'keepLatest', label: 'Latest', hint: 'Most recent snapshots' },
+  { key: 'keepDaily', label: 'Daily', hint: 'One per day' },
+  { key: 'keepWeekly', label: 'Weekly', hint: 'One per week' },
+  { key: 'keepMonthly', label: 'Monthly', hint: 'One per month' },
+  { key: 'keepYearly', label: 'Yearly', hint: 'One per year' },
+] as const;
+
+type RetentionKey = typeof RETENTION_FIELDS[number]['key'];
+
+const COMPRESSION_OPTIONS: { value: CompressionMode; label: string; description: string }[] = [
+  { value: 'Auto', label: 'Auto', description: 'Fast compression, good balance of speed and size' },
+  { value: 'Max', label: 'Max', description: 'Smallest repository, slower backups' },
+  { value: 'Off', label: 'Off', description: 'No compression, fastest backups' },
+];
+
+const toLines = (values?: string[]) => (values ?? []).join('\n');
+const fromLines = (value: string) => value.split('\n').map(line => line.trim()).filter(Boolean);
+
+const describeCron = (value: string) => {
+  try {
+    return cronstrue.toString(value);
+  } catch {
+    return '';
+  }
+};
+
+export function SettingsPage() {
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [successMessage, setSuccessMessage] = useState<string | null>(null);
+  const [updatedAt, setUpdatedAt] = useState<string | undefined>();
+
+  const [cronExpression, setCronExpression] = useState('');
+  const [restrictions, setRestrictions] = useState<ScheduleRestrictions>({});
+  const [retention, setRetention] = useState<Record<RetentionKey, string>>({
+    keepLatest: '',
+    keepDaily: '',
+    keepWeekly: '',
+    keepMonthly: '',
+    keepYearly: '',
+  });
+  const [excludePatterns, setExcludePatterns] = useState('');
+  const [excludeRegex, setExcludeRegex] = useState('');
+  const [includeOnlyRegex, setIncludeOnlyRegex] = useState('');
+  const [excludeIfPresent, setExcludeIfPresent] = useState('');
+  const [compression, setCompression] = useState<CompressionMode>('Auto');
+
+  const populateForm = (settings: GlobalSettings) => {
+    setCronExpression(settings.schedule.cronExpression);
+    setRestrictions(pickRestrictions(settings.schedule));
+    setRetention({
+      keepLatest: settings.retentionPolicy.keepLatest.toString(),
+      keepDaily: settings.retentionPolicy.keepDaily.toString(),
+      keepWeekly: settings.retentionPolicy.keepWeekly.toString(),
+      keepMonthly: settings.retentionPolicy.keepMonthly.toString(),
+      keepYearly: settings.retentionPolicy.keepYearly.toString(),
+    });
+    setExcludePatterns(toLines(settings.includeExcludeRules.excludePatterns));
+    setExcludeRegex(toLines(settings.includeExcludeRules.excludeRegex));
+    setIncludeOnlyRegex(toLines(settings.includeExcludeRules.includeOnlyRegex));
+    setExcludeIfPresent(toLines(settings.includeExcludeRules.excludeIfPresent));
+    setCompression(settings.compression);
+    setUpdatedAt(settings.updatedAt);
+  };
+
+  const loadSettings = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      populateForm(await settingsService.getGlobalSettings());
+    } catch (err) {
+      console.error('Failed to load settings:', err);
+      setError('Failed to load global settings. Please try again.');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadSettings();
+  }, [loadSettings]);
+
+  const validationErrors = (() => {
+    const errors: Record<string, string> = {};
+    if (!cronExpression.trim()) {
+      errors.schedule = 'A cron expression is required';
+    } else if (!describeCron(cronExpression.trim())) {
+      errors.schedule = 'Invalid cron expression';
+    }
+    const restrictionsError = validateRestrictions(restrictions);
+    if (restrictionsError) {
+      errors.restrictions = restrictionsError;
+    }
+    const values = RETENTION_FIELDS.map(f => Number(retention[f.key]));
+    if (values.some(v => !Number.isInteger(v) || v < 0)) {
+      errors.retention = 'Retention values must be whole numbers of 0 or more';
+    } else if (values.every(v => v === 0)) {
+      errors.retention = 'At least one retention value must be greater than 0';
+    }
+    if (fromLines(excludeRegex).length > 0 && fromLines(includeOnlyRegex).length > 0) {
+      errors.rules = 'Exclude regex and include-only regex cannot be combined';
+    }
+    return errors;
+  })();
+
+  const isValid = Object.keys(validationErrors).length === 0;
+
+  const handleSave = async () => {
+    if (!isValid) return;
+
+    const update: GlobalSettingsUpdate = {
+      schedule: {
+        ...restrictions,
+        cronExpression: cronExpression.trim(),
+      },
+      retentionPolicy: {
+        keepLatest: Number(retention.keepLatest),
+        keepDaily: Number(retention.keepDaily),
+        keepWeekly: Number(retention.keepWeekly),
+        keepMonthly: Number(retention.keepMonthly),
+        keepYearly: Number(retention.keepYearly),
+      },
+      includeExcludeRules: {
+        excludePatterns: fromLines(excludePatterns),
+        excludeRegex: fromLines(excludeRegex),
+        includeOnlyRegex: fromLines(includeOnlyRegex),
+        excludeIfPresent: fromLines(excludeIfPresent),
+      },
+      compression,
+    };
+
+    setSaving(true);
+    setError(null);
+    try {
+      populateForm(await settingsService.updateGlobalSettings(update));
+      setSuccessMessage('Global settings saved');
+    } catch (err) {
+      console.error('Failed to save settings:', err);
+      setError(getErrorMessage(err, 'Failed to save global settings'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-background border border-border rounded-md text-sm text-foreground focus:outline-none focus:ring-2 focus:ring-primary';
+  const cronDescription = cronExpression.trim() ? describeCron(cronExpression.trim()) : '';
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <RefreshCw className="w-8 h-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {successMessage && (
+        <SuccessNotification message={successMessage} onClose={() => setSuccessMessage(null)} />
+      )}
+
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Settings</h1>
+          <p className="text-muted-foreground mt-1">
+            Global defaults inherited by every device and share unless overridden
+          </p>
+        </div>
+        <div className="flex items-center gap-3">
+          {updatedAt && (
+            <span className="text-xs text-muted-foreground">
+              Last updated {new Date(updatedAt).toLocaleString()}
+            </span>
+          )}
+          <button
+            onClick={handleSave}
+            disabled={!isValid || saving}
+            className="flex items-center gap-2 px-4 py-2 text-sm font-medium bg-primary text-primary-foreground rounded-md hover:bg-primary/90 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {saving ? <RefreshCw className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            {saving ? 'Saving...' : 'Save Changes'}
+          </button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-status-error-bg border border-status-error/30 rounded-lg p-4 flex items-start gap-3">
+          <AlertTriangle className="w-5 h-5 text-status-error flex-shrink-0" />
+          <p className="text-sm text-status-error-fg">{error}</p>
+        </div>
+      )}
+
+      {/* Schedule */}
+      <section className="bg-card rounded-lg shadow-sm border border-border p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Clock className="w-5 h-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold text-foreground">Default Schedule</h2>
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-foreground mb-1">Cron Expression</label>
+          <input
+            type="text"
+            value={cronExpression}
+            onChange={(e) => setCronExpression(e.target.value)}
+            className={`${inputClass} font-mono`}
+          />
+          {validationErrors.schedule ? (
+            <p className="text-xs text-status-error mt-1">{validationErrors.schedule}</p>
+          ) : (
+            cronDescription && <p className="text-xs text-muted-foreground mt-1">{cronDescription}</p>
+          )}
+        </div>
+        <div>
+          <h3 className="text-sm font-medium text-foreground mb-1">Backup Window &amp; Blackouts</h3>
+          <p className="text-xs text-muted-foreground mb-3">
+            Apply to every device and share on top of their own restrictions. Times are in the server's time zone.
+          </p>
+          <BackupWindowEditor value={restrictions} onChange={setRestrictions} cronExpression={cronExpression.trim()} />
+        </div>
+      </section>
+
+      {/* Retention */}
+      <section className="bg-card rounded-lg shadow-sm border border-border p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Archive className="w-5 h-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold text-foreground">Default Retention</h2>
+        </div>
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {RETENTION_FIELDS.map(field => (
+            <div key={field.key}>
+              <label className="block text-sm font-medium text-foreground mb-1">{field.label}</label>
+              <input
+                type="number"
+                min={0}
+                value={retention[field.key]}
+                onChange={(e) => setRetention(prev => ({ ...prev, [field.key]: e.target.value }))}
+                className={inputClass}
+              />
+              <p className="text-xs text-muted-foreground mt-1">{field.hint}</p>
+            </div>
+          ))}
+        </div>
+        {validationErrors.retention && (
+          <p className="text-xs text-status-error">{validationErrors.retention}</p>
+        )}
+      </section>
+
+      {/* Include / Exclude */}
+      <section className="bg-card rounded-lg shadow-sm border border-border p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Filter className="w-5 h-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold text-foreground">Include / Exclude Rules</h2>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          Baseline rules for every device. Device patterns are added to these; share patterns replace them. One entry per line.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">Exclude Patterns</label>
+            <textarea
+              value={excludePatterns}
+              onChange={(e) => setExcludePatterns(e.target.value)}
+              placeholder="*.tmp&#10;node_modules/"
+              className={`${inputClass} font-mono h-28`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">Exclude If Present</label>
+            <textarea
+              value={excludeIfPresent}
+              onChange={(e) => setExcludeIfPresent(e.target.value)}
+              placeholder=".nobackup"
+              className={`${inputClass} font-mono h-28`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">Exclude Regex</label>
+            <textarea
+              value={excludeRegex}
+              onChange={(e) => setExcludeRegex(e.target.value)}
+              className={`${inputClass} font-mono h-28`}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-foreground mb-1">Include Only Regex</label>
+            <textarea
+              value={includeOnlyRegex}
+              onChange={(e) => setIncludeOnlyRegex(e.target.value)}
+              className={`${inputClass} font-mono h-28`}
+            />
+          </div>
+        </div>
+        {validationErrors.rules && (
+          <p className="text-xs text-status-error">{validationErrors.rules}</p>
+        )}
+      </section>
+
+      {/* Compression */}
+      <section className="bg-card rounded-lg shadow-sm border border-border p-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Package className="w-5 h-5 text-muted-foreground" />
+          <h2 className="text-lg font-semibold text-foreground">Compression</h2>
+        </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          {COMPRESSION_OPTIONS.map(option => (
+            <label
+              key={option.value}
+              className={`flex items-start gap-3 p-4 rounded-md border cursor-pointer transition-colors ${
+                compression === option.value ? 'border-primary bg-primary/10' : 'border-border hover:bg-muted'
+              }`}
+            >
+              <input
+                type="radio"
+                name="compression"
+                className="mt-1"
+                checked={compression === option.value}
+                onChange={() => setCompression(option.value)}
+              />
+              <div>
+                <div className="font-medium text-foreground">{option.label}</div>
+                <div className="text-xs text-muted-foreground">{option.description}</div>
+              </div>
+            </label>
+          ))}
+        </div>
+      </section>
+    </div>
+  );
+}
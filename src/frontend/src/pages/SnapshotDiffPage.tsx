@@ -0,0 +1,298 @@
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import { Link, useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, ChevronDown, ChevronRight, File, Folder, GitCompare, RefreshCw } from 'lucide-react';
+import { backupService } from '../services/backupService';
+import { FileChangeType, SnapshotDiff, SnapshotDiffEntry } from '../types';
+import { formatFileSize } from '../utils/timeFormat';
+import { getErrorMessage } from '../utils/errors';
+import { parentFolder } from '../utils/paths';
+
+type ChangeFilter = 'All' | FileChangeType;
+
+interface DiffTreeNode {
+  name: string;
+  path: string;
+  children: Map<string, DiffTreeNode>;
+  entry?: SnapshotDiffEntry;
+  sizeDelta: number;
+  changeCount: number;
+}
+
+const FILTERS: ChangeFilter[] = ['All', 'Added', 'Removed', 'Modified'];
+
+const changeBadgeClass: Record<FileChangeType, string> = {
+  Added: 'bg-status-success-bg text-status-success-fg',
+  Removed: 'bg-status-error-bg text-status-error-fg',
+  Modified: 'bg-status-warning-bg text-status-warning-fg',
+};
+
+const formatSizeDelta = (delta: number) => {
+  if (delta === 0) return '0 B';
+  return `${delta > 0 ? '+' : '-'}${formatFileSize(Math.abs(delta))}`;
+};
+
+// Folds the flat list of changed paths into a directory tree with per-folder totals
+const buildTree = (entries: SnapshotDiffEntry[]): DiffTreeNode => {
+  const root: DiffTreeNode = { name: '', path: '/', children: new Map(), sizeDelta: 0, changeCount: 0 };
+
+  for (const entry of entries) {
+    const parts = entry.path.split('/').filter(Boolean);
+    let node = root;
+    node.sizeDelta += entry.sizeDelta;
+    node.changeCount++;
+
+    parts.forEach((part, index) => {
+      let child = node.children.get(part);
+      if (!child) {
+        child = {
+          name: part,
+          path: '/' + parts.slice(0, index + 1).join('/'),
+          children: new Map(),
+          sizeDelta: 0,
+          changeCount: 0,
+        };
+        node.children.set(part, child);
+      }
+      child.sizeDelta += entry.sizeDelta;
+      child.changeCount++;
+      node = child;
+    });
+
+    node.entry = entry;
+  }
+
+  return root;
+};
+
+const sortedChildren = (node: DiffTreeNode) =>
+  Array.from(node.children.values()).sort((a, b) => {
+    const aIsDir = !a.entry;
+    const bIsDir = !b.entry;
+    if (aIsDir !== bIsDir) return aIsDir ? -1 : 1;
+    return a.name.localeCompare(b.name);
+  });
+
+export function SnapshotDiffPage() {
+  const { deviceId } = useParams<{ deviceId: string }>();
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const shareId = searchParams.get('shareId') || '';
+  const fromId = searchParams.get('from') || '';
+  const toId = searchParams.get('to') || '';
+
+  const [diff, setDiff] = useState<SnapshotDiff | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<ChangeFilter>('All');
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  useEffect(() => {
+    if (!deviceId || !shareId || !fromId || !toId) return;
+
+    let cancelled = false;
+    const loadDiff = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await backupService.diffSnapshots(deviceId, shareId, fromId, toId);
+        if (!cancelled) setDiff(result);
+      } catch (err) {
+        console.error('Failed to compare snapshots:', err);
+        if (!cancelled) setError(getErrorMessage(err, 'Failed to compare snapshots'));
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    loadDiff();
+    return () => {
+      cancelled = true;
+    };
+  }, [deviceId, shareId, fromId, toId]);
+
+  const tree = useMemo(() => {
+    const changes = diff?.changes ?? [];
+    return buildTree(filter === 'All' ? changes : changes.filter(c => c.changeType === filter));
+  }, [diff, filter]);
+
+  const toggleFolder = (path: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev);
+      if (next.has(path)) {
+        next.delete(path);
+      } else {
+        next.add(path);
+      }
+      return next;
+    });
+  };
+
+  const browseLink = (backupId: string, filePath: string) => {
+    const params = new URLSearchParams({ deviceId: deviceId || '', shareId, path: parentFolder(filePath) });
+    return `/backups/${backupId}/browse?${params}`;
+  };
+
+  const filterCount = (value: ChangeFilter) => {
+    if (!diff) return 0;
+    switch (value) {
+      case 'Added':
+        return diff.addedCount;
+      case 'Removed':
+        return diff.removedCount;
+      case 'Modified':
+        return diff.modifiedCount;
+      default:
+        return diff.changes.length;
+    }
+  };
+
+  const renderNode = (node: DiffTreeNode, depth: number): ReactNode => {
+    const indent = { paddingLeft: `${depth * 1.25 + 1}rem` };
+
+    if (node.entry) {
+      const entry = node.entry;
+      return (
+        <div
+          key={node.path}
+          className="flex items-center justify-between gap-4 py-2 pr-4 border-b border-border last:border-0 hover:bg-muted/50"
+          style={indent}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            <File className="w-4 h-4 text-muted-foreground shrink-0" />
+            <span className="text-sm text-foreground truncate" title={entry.path}>{node.name}</span>
+            <span className={`px-2 py-0.5 rounded text-xs font-medium ${changeBadgeClass[entry.changeType]}`}>
+              {entry.changeType}
+            </span>
+          </div>
+          <div className="flex items-center gap-4 shrink-0 text-sm">
+            <span className="text-muted-foreground w-40 text-right">
+              {formatFileSize(entry.oldSize)} → {formatFileSize(entry.newSize)}
+            </span>
+            <span className="font-mono w-24 text-right text-foreground">{formatSizeDelta(entry.sizeDelta)}</span>
+            <div className="flex items-center gap-2 w-44 justify-end">
+              {entry.changeType !== 'Added' && (
+                <Link to={browseLink(fromId, entry.path)} className="text-primary hover:underline">
+                  Old version
+                </Link>
+              )}
+              {entry.changeType !== 'Removed' && (
+                <Link to={browseLink(toId, entry.path)} className="text-primary hover:underline">
+                  New version
+                </Link>
+              )}
+            </div>
+          </div>
+        </div>
+      );
+    }
+
+    const isCollapsed = collapsed.has(node.path);
+    return (
+      <div key={node.path}>
+        <button
+          onClick={() => toggleFolder(node.path)}
+          className="w-full flex items-center justify-between gap-4 py-2 pr-4 border-b border-border hover:bg-muted/50 text-left"
+          style={indent}
+        >
+          <div className="flex items-center gap-2 min-w-0">
+            {isCollapsed ? (
+              <ChevronRight className="w-4 h-4 text-muted-foreground shrink-0" />
+            ) : (
+              <ChevronDown className="w-4 h-4 text-muted-foreground shrink-0" />
+            )}
+            <Folder className="w-4 h-4 text-blue-500 shrink-0" />
+            <span className="text-sm font-medium text-foreground truncate">{node.name}</span>
+            <span className="text-xs text-muted-foreground">{node.changeCount} changed</span>
+          </div>
+          <span className="font-mono text-sm text-muted-foreground">{formatSizeDelta(node.sizeDelta)}</span>
+        </button>
+        {!isCollapsed && sortedChildren(node).map(child => renderNode(child, depth + 1))}
+      </div>
+    );
+  };
+
+  if (!deviceId || !shareId || !fromId || !toId) {
+    return (
+      <div className="flex items-center justify-center min-h-[400px]">
+        <div className="text-center">
+          <p className="text-muted-foreground">Select two snapshots to compare</p>
+          <button
+            onClick={() => navigate(deviceId ? `/devices/${deviceId}/backups` : '/devices')}
+            className="mt-4 px-4 py-2 bg-primary text-primary-foreground rounded-md hover:bg-primary/90"
+          >
+            Back to Backups
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground flex items-center gap-3">
+            <GitCompare className="w-7 h-7" />
+            Compare Snapshots
+          </h1>
+          <p className="text-muted-foreground mt-1 font-mono text-sm">
+            {fromId.substring(0, 8)} → {toId.substring(0, 8)}
+          </p>
+        </div>
+        <button
+          onClick={() => navigate(`/devices/${deviceId}/backups`)}
+          className="flex items-center gap-2 px-4 py-2 text-sm font-medium text-foreground bg-card hover:bg-muted border border-border rounded-md transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4" />
+          Back
+        </button>
+      </div>
+
+      {/* Summary and filters */}
+      <div className="bg-card rounded-lg shadow-sm border border-border p-4 flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          {FILTERS.map(value => (
+            <button
+              key={value}
+              onClick={() => setFilter(value)}
+              className={`px-3 py-1.5 text-sm font-medium rounded-md border transition-colors ${
+                filter === value
+                  ? 'bg-primary text-primary-foreground border-primary'
+                  : 'bg-card text-foreground border-border hover:bg-muted'
+              }`}
+            >
+              {value} ({filterCount(value)})
+            </button>
+          ))}
+        </div>
+        {diff && (
+          <span className="text-sm text-muted-foreground">
+            Net size change: <span className="font-mono text-foreground">{formatSizeDelta(diff.sizeDelta)}</span>
+          </span>
+        )}
+      </div>
+
+      {/* Diff tree */}
+      <div className="bg-card rounded-lg shadow-sm border border-border overflow-hidden">
+        {loading ? (
+          <div className="flex flex-col items-center gap-2 p-8 text-muted-foreground">
+            <RefreshCw className="w-6 h-6 animate-spin" />
+            <span>Comparing snapshots...</span>
+          </div>
+        ) : error ? (
+          <div className="p-8 text-center">
+            <p className="text-status-error font-semibold mb-2">Error comparing snapshots</p>
+            <p className="text-sm text-muted-foreground">{error}</p>
+          </div>
+        ) : tree.changeCount === 0 ? (
+          <div className="p-8 text-center text-muted-foreground">
+            {diff && diff.changes.length > 0 ? 'No changes of this type' : 'These snapshots contain identical files'}
+          </div>
+        ) : (
+          <div>{sortedChildren(tree).map(child => renderNode(child, 0))}</div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,35 @@
 ﻿import { apiClient } from './api';
-import { FileEntry, Backup } from '../types';
+import { ArchiveFormat, FileEntry, FileMetadata, FileSearchHit, FileVersion, Backup, RestoreRequest, RestoreSourceTarget, SnapshotDiff } from '../types';
+import { RestoreProgress } from './signalr';
+
+// Reads a newline-delimited JSON response line by line as it arrives; axios buffers whole
+// responses, so this uses fetch
+async function readNdjson(url: string, signal: AbortSignal | undefined, onLine: (value: unknown) => void): Promise<void> {
+  const baseURL = apiClient.defaults.baseURL || window.location.origin;
+  const response = await fetch(`${baseURL}${url}`, { signal });
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => null);
+    throw new Error(error?.detail || error?.error || `Search failed (${response.status})`);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (line.trim()) onLine(JSON.parse(line));
+    }
+
+    if (done) break;
+  }
+}
 
 export const backupService = {
   async getBackupsForShare(
@@ -32,6 +62,174 @@ export const backupService = {
     return response.data;
   },
 
+  async getBackupLocation(backupId: string): Promise<{ deviceId: string; shareId: string }> {
+    const response = await apiClient.get<{ deviceId: string; shareId: string }>(`/api/backups/${backupId}/location`, {
+      timeout: 60000 // Checks every repository until the snapshot is found
+    });
+    return response.data;
+  },
+
+  async getFileMetadata(
+    backupId: string,
+    deviceId: string,
+    shareId: string,
+    filePath: string,
+    includeHash: boolean = false
+  ): Promise<FileMetadata> {
+    const response = await apiClient.get<FileMetadata>(`/api/backups/${backupId}/metadata`, {
+      params: {
+        deviceId,
+        shareId,
+        filePath,
+        includeHash
+      },
+      timeout: includeHash ? 600000 : 60000 // Hashing reads the whole file out of the repository
+    });
+    return response.data;
+  },
+
+  async getFileHistory(
+    deviceId: string,
+    shareId: string,
+    filePath: string
+  ): Promise<FileVersion[]> {
+    const response = await apiClient.get<FileVersion[]>('/api/backups/files/history', {
+      params: {
+        deviceId,
+        shareId,
+        filePath
+      },
+      timeout: 120000 // 2 minutes - one restic call per snapshot
+    });
+    return response.data;
+  },
+
+  // Streams hits as each snapshot is searched, newest first. A path can arrive again with its final
+  // first-seen snapshot and count, so callers replace earlier hits by path. Resolves to true when
+  // the server stopped at its limit before searching every snapshot
+  async searchDeviceFiles(
+    deviceId: string,
+    query: string,
+    shareId: string | undefined,
+    onHit: (hit: FileSearchHit) => void,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const params = new URLSearchParams({ deviceId, query });
+    if (shareId) params.set('shareId', shareId);
+
+    let truncated = false;
+    await readNdjson(`/api/backups/files/search?${params}`, signal, line => {
+      const value = line as FileSearchHit | { truncated: boolean };
+      if ('truncated' in value) {
+        truncated = value.truncated;
+      } else {
+        onHit(value);
+      }
+    });
+    return truncated;
+  },
+
+  async restoreBackup(
+    backupId: string,
+    deviceId: string,
+    shareId: string,
+    request: RestoreRequest
+  ): Promise<RestoreProgress> {
+    // Returns as soon as the restore is queued; progress arrives over SignalR
+    const response = await apiClient.post<RestoreProgress>(`/api/backups/${backupId}/restore`, request, {
+      params: {
+        deviceId,
+        shareId
+      }
+    });
+    return response.data;
+  },
+
+  async getRestoreTarget(deviceId: string, shareId: string): Promise<RestoreSourceTarget> {
+    const response = await apiClient.get<RestoreSourceTarget>('/api/backups/restore-target', {
+      params: {
+        deviceId,
+        shareId
+      }
+    });
+    return response.data;
+  },
+
+  async listRestores(): Promise<RestoreProgress[]> {
+    const response = await apiClient.get<RestoreProgress[]>('/api/restores');
+    return response.data;
+  },
+
+  async getRestoreProgress(restoreId: string): Promise<RestoreProgress> {
+    const response = await apiClient.get<RestoreProgress>(`/api/restores/${restoreId}`);
+    return response.data;
+  },
+
+  async diffSnapshots(
+    deviceId: string,
+    shareId: string,
+    fromBackupId: string,
+    toBackupId: string
+  ): Promise<SnapshotDiff> {
+    const response = await apiClient.get<SnapshotDiff>('/api/backups/diff', {
+      params: {
+        deviceId,
+        shareId,
+        from: fromBackupId,
+        to: toBackupId
+      },
+      timeout: 120000 // 2 minutes - lists both snapshots in full
+    });
+    return response.data;
+  },
+
+  async getFolderSizes(
+    backupId: string,
+    deviceId: string,
+    shareId: string,
+    path: string = '/'
+  ): Promise<Record<string, number>> {
+    const response = await apiClient.get<Record<string, number>>(`/api/backups/${backupId}/folder-sizes`, {
+      params: {
+        deviceId,
+        shareId,
+        path
+      },
+      timeout: 120000 // 2 minutes - lists the whole snapshot
+    });
+    return response.data;
+  },
+
+  // Posts a plain form so the browser saves the streamed archive straight to disk instead of
+  // holding it in memory; errors open in the new tab like any other download link
+  downloadSelectionArchive(
+    backupId: string,
+    deviceId: string,
+    shareId: string,
+    paths: string[],
+    format: ArchiveFormat
+  ): void {
+    const params = new URLSearchParams({ deviceId, shareId });
+    const baseURL = apiClient.defaults.baseURL || window.location.origin;
+    const form = document.createElement('form');
+    form.method = 'POST';
+    form.action = `${baseURL}/api/backups/${backupId}/archive?${params}`;
+    form.target = '_blank';
+
+    const fields: [string, string][] = [...paths.map(path => ['paths', path] as [string, string]), ['format', format]];
+    for (const [name, value] of fields) {
+      const input = document.createElement('input');
+      input.type = 'hidden';
+      input.name = name;
+      input.value = value;
+      form.appendChild(input);
+    }
+
+    document.body.appendChild(form);
+    form.submit();
+    form.remove();
+  },
+
   getDownloadUrl(
     backupId: string,
     deviceId: string,
@@ -45,5 +243,94 @@ export const backupService = {
     });
     const baseURL = apiClient.defaults.baseURL || window.location.origin;
     return `${baseURL}/api/backups/${backupId}/download?${params}`;
+  },
+
+  // Reads at most maxBytes of a file from the download endpoint, then stops the transfer
+  async fetchFileBytes(
+    backupId: string,
+    deviceId: string,
+    shareId: string,
+    filePath: string,
+    maxBytes: number,
+    signal?: AbortSignal
+  ): Promise<{ bytes: Uint8Array; truncated: boolean }> {
+    const response = await fetch(this.getDownloadUrl(backupId, deviceId, shareId, filePath), { signal });
+
+    if (!response.ok || !response.body) {
+      const error = await response.json().catch(() => null);
+      throw new Error(error?.detail || error?.error || `Download failed (${response.status})`);
+    }
+
+    const reader = response.body.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+    let truncated = false;
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      chunks.push(value);
+      received += value.length;
+      if (received >= maxBytes) {
+        truncated = true;
+        await reader.cancel();
+        break;
+      }
+    }
+
+    const bytes = new Uint8Array(Math.min(received, maxBytes));
+    let offset = 0;
+    for (const chunk of chunks) {
+      const part = chunk.subarray(0, bytes.length - offset);
+      bytes.set(part, offset);
+      offset += part.length;
+    }
+    return { bytes, truncated };
+  },
+
+  getArchiveUrl(
+    backupId: string,
+    deviceId: string,
+    shareId: string,
+    folderPath: string,
+    format: ArchiveFormat
+  ): string {
+    const params = new URLSearchParams({
+      deviceId,
+      shareId,
+      folderPath,
+      format
+    });
+    const baseURL = apiClient.defaults.baseURL || window.location.origin;
+    return `${baseURL}/api/backups/${backupId}/archive?${params}`;
+  },
+
+  // Streams matches as they are found in the snapshot. Resolves to true when the server stopped
+  // at its limit with more matches left
+  async searchBackupFiles(
+    backupId: string,
+    deviceId: string,
+    shareId: string,
+    query: string,
+    onResult: (entry: FileEntry) => void,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const params = new URLSearchParams({
+      deviceId,
+      shareId,
+      query
+    });
+
+    let truncated = false;
+    await readNdjson(`/api/backups/${backupId}/search?${params}`, signal, line => {
+      const value = line as FileEntry | { truncated: boolean };
+      if ('truncated' in value) {
+        truncated = value.truncated;
+      } else {
+        onResult(value);
+      }
+    });
+    return truncated;
   }
 };
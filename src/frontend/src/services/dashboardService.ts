@@ -1,5 +1,5 @@
 ﻿import { apiClient } from './api';
-import { BackupJob, Backup, BackupStatus, BackupJobStatus, DashboardSummaryDto } from '../types';
+import { BackupJob, Backup, BackupStatus, BackupJobStatus, DashboardSummaryDto, DashboardHistoryDto, HistoryRange, SchedulePreviewDto, SchedulePreviewRequest, UpcomingScheduleDto } from '../types';
 
 export interface DashboardStats {
   activeJobs: number;
@@ -10,52 +10,39 @@ export interface DashboardStats {
   dataToday: string;
 }
 
+// Identifies the run whose logs to open; finished jobs and history entries both carry these
+export interface JobLogLink {
+  jobId: string;
+  backupId?: string | null;
+  deviceId: string;
+  shareId?: string | null;
+}
+
 export const dashboardService = {
   async getSummary(): Promise<DashboardSummaryDto> {
     const response = await apiClient.get<DashboardSummaryDto>('/api/dashboard/summary');
     return response.data;
   },
 
+  async getHistory(days: HistoryRange): Promise<DashboardHistoryDto> {
+    const response = await apiClient.get<DashboardHistoryDto>('/api/dashboard/history', { params: { days } });
+    return response.data;
+  },
+
+  async getUpcoming(hours: number): Promise<UpcomingScheduleDto> {
+    const response = await apiClient.get<UpcomingScheduleDto>('/api/dashboard/upcoming', { params: { hours } });
+    return response.data;
+  },
+
+  async previewSchedule(request: SchedulePreviewRequest): Promise<SchedulePreviewDto> {
+    const response = await apiClient.post<SchedulePreviewDto>('/api/dashboard/schedule-preview', request);
+    return response.data;
+  },
+
   async getStats(): Promise<DashboardStats> {
-    // TODO: Replace with actual API endpoint when available
-    // For now, calculate from available endpoints
     try {
-      const jobs = await this.getActiveJobs();
-      const recentBackups = await this.getRecentBackups();
-
-      const activeJobs = jobs.filter(j => j.status === BackupJobStatus.Running).length;
-      const queuedJobs = jobs.filter(j => j.status === BackupJobStatus.Pending).length;
-      const completedToday = recentBackups.filter(b =>
-        b.status === BackupStatus.Success &&
-        new Date(b.timestamp).toDateString() === new Date().toDateString()
-      ).length;
-      const failedToday = recentBackups.filter(b =>
-        b.status === BackupStatus.Failed &&
-        new Date(b.timestamp).toDateString() === new Date().toDateString()
-      ).length;
-
-      // Calculate total data transferred today
-      const totalBytesToday = recentBackups
-        .filter(b => new Date(b.timestamp).toDateString() === new Date().toDateString())
-        .reduce((sum, b) => sum + (b.dataAdded || 0), 0);
-
-      // Calculate average speed from active jobs
-      const runningJobs = jobs.filter(j => j.status === 'Running' && j.bytesTransferred && j.startedAt);
-      const avgSpeedMBs = runningJobs
-        .map(j => {
-          const elapsed = (new Date().getTime() - new Date(j.startedAt!).getTime()) / 1000;
-          return elapsed > 0 ? (j.bytesTransferred! / elapsed / 1024 / 1024) : 0;
-        })
-        .reduce((sum, speed) => sum + speed, 0) / Math.max(runningJobs.length, 1);
-
-      return {
-        activeJobs,
-        queuedJobs,
-        completedJobs: completedToday,
-        failedJobs: failedToday,
-        avgSpeed: avgSpeedMBs > 0 ? `${Math.round(avgSpeedMBs)} MB/s` : '0 MB/s',
-        dataToday: this.formatBytes(totalBytesToday),
-      };
+      const [jobs, recentBackups] = await Promise.all([this.getActiveJobs(), this.getRecentBackups()]);
+      return this.calculateStats(jobs, recentBackups);
     } catch (error) {
       console.error('Failed to fetch dashboard stats:', error);
       return {
@@ -69,11 +56,46 @@ export const dashboardService = {
     }
   },
 
+  // Derives the dashboard counters from already loaded jobs and completed backups
+  calculateStats(jobs: BackupJob[], recentBackups: Backup[]): DashboardStats {
+    const activeJobs = jobs.filter(j => j.status === BackupJobStatus.Running).length;
+    const queuedJobs = jobs.filter(j => j.status === BackupJobStatus.Pending).length;
+    const completedToday = recentBackups.filter(b =>
+      b.status === BackupStatus.Success &&
+      new Date(b.timestamp).toDateString() === new Date().toDateString()
+    ).length;
+    const failedToday = recentBackups.filter(b =>
+      b.status === BackupStatus.Failed &&
+      new Date(b.timestamp).toDateString() === new Date().toDateString()
+    ).length;
+
+    // Calculate total data transferred today
+    const totalBytesToday = recentBackups
+      .filter(b => new Date(b.timestamp).toDateString() === new Date().toDateString())
+      .reduce((sum, b) => sum + (b.dataAdded || 0), 0);
+
+    // Calculate average speed from active jobs
+    const runningJobs = jobs.filter(j => j.status === 'Running' && j.bytesTransferred && j.startedAt);
+    const avgSpeedMBs = runningJobs
+      .map(j => {
+        const elapsed = (new Date().getTime() - new Date(j.startedAt!).getTime()) / 1000;
+        return elapsed > 0 ? (j.bytesTransferred! / elapsed / 1024 / 1024) : 0;
+      })
+      .reduce((sum, speed) => sum + speed, 0) / Math.max(runningJobs.length, 1);
+
+    return {
+      activeJobs,
+      queuedJobs,
+      completedJobs: completedToday,
+      failedJobs: failedToday,
+      avgSpeed: avgSpeedMBs > 0 ? `${Math.round(avgSpeedMBs)} MB/s` : '0 MB/s',
+      dataToday: this.formatBytes(totalBytesToday),
+    };
+  },
+
   async getActiveJobs(): Promise<BackupJob[]> {
     const response = await apiClient.get<BackupJob[]>('/api/backup-jobs');
-    return response.data.filter(job =>
-      job.status === 'Running' || job.status === 'Pending'
-    );
+    return response.data.filter(job => this.isActiveJob(job));
   },
 
   async getRecentBackups(limit: number = 10): Promise<Backup[]> {
@@ -82,13 +104,18 @@ export const dashboardService = {
     const response = await apiClient.get<BackupJob[]>('/api/backup-jobs', {
       params: { limit: 100 } // Fetch more jobs to ensure we get completed ones
     });
+    return this.toRecentBackups(response.data, limit);
+  },
+
+  isActiveJob(job: BackupJob): boolean {
+    return job.status === 'Running' || job.status === 'Pending';
+  },
 
+  // Maps finished jobs, newest first, to the Backup shape the dashboard tables use
+  toRecentBackups(jobs: BackupJob[], limit: number = 10): Backup[] {
     // Filter for completed jobs (Success, Failed, Cancelled - not Running/Pending)
-    const completedJobs = response.data
-      .filter(job =>
-        job.status !== 'Running' &&
-        job.status !== 'Pending'
-      )
+    const completedJobs = jobs
+      .filter(job => !this.isActiveJob(job))
       .sort((a, b) => {
         const aTime = new Date(a.completedAt || a.startedAt || 0).getTime();
         const bTime = new Date(b.completedAt || b.startedAt || 0).getTime();
@@ -130,6 +157,13 @@ export const dashboardService = {
     });
   },
 
+  // Failed runs have no snapshot, so their logs are stored under the job ID instead
+  backupLogsUrl(job: JobLogLink): string {
+    const params = new URLSearchParams({ deviceId: job.deviceId });
+    if (job.shareId) params.append('shareId', job.shareId);
+    return `/backups/${job.backupId || job.jobId}/logs?${params}`;
+  },
+
   formatBytes(bytes: number): string {
     if (!isFinite(bytes) || bytes <= 0) return '0 B';
     const k = 1024;
@@ -1,6 +1,6 @@
 import { apiClient } from './api';
 // import { Device, DeviceCreateDto, Share, ShareCreateDto, BackupJob } from '../types';
-import { Device, DeviceCreateDto, Share, ShareCreateDto } from '../types';
+import { Device, DeviceCreateDto, RetentionPolicy, RetentionPreview, Share, ShareCreateDto } from '../types';
 import type { BackupJob } from '../types';
 
 export const deviceService = {
@@ -66,11 +66,18 @@ export const shareService = {
   setEnabled: async (deviceId: string, shareId: string, enabled: boolean): Promise<void> => {
     await apiClient.patch(`/api/devices/${deviceId}/shares/${shareId}/enabled`, { enabled });
   },
+
+  previewRetention: async (deviceId: string, shareId: string, policy: RetentionPolicy): Promise<RetentionPreview> => {
+    const response = await apiClient.post(`/api/devices/${deviceId}/shares/${shareId}/retention-preview`, policy, {
+      timeout: 120000 // 2 minutes - measures the data kept and forgotten snapshots reference
+    });
+    return response.data;
+  },
 };
 
 export const backupService = {
-  listJobs: async (): Promise<BackupJob[]> => {
-    const response = await apiClient.get('/api/backup-jobs');
+  listJobs: async (limit?: number): Promise<BackupJob[]> => {
+    const response = await apiClient.get('/api/backup-jobs', { params: limit ? { limit } : undefined });
     return response.data;
   },
 
@@ -0,0 +1,42 @@
+import { apiClient } from './api';
+import { GlobalSettings, GlobalSettingsUpdate } from '../types/settings';
+
+/**
+ * Built-in defaults, mirroring the backend's GlobalSettings.
+ * Only used when the settings endpoint cannot be reached.
+ */
+export const BUILT_IN_GLOBAL_SETTINGS: GlobalSettings = {
+  schedule: { cronExpression: '0 2 * * *' },
+  retentionPolicy: {
+    keepLatest: 7,
+    keepDaily: 7,
+    keepWeekly: 4,
+    keepMonthly: 12,
+    keepYearly: 3,
+  },
+  includeExcludeRules: {
+    excludePatterns: ['*.tmp', '*.temp', 'Thumbs.db', '.DS_Store', '$RECYCLE.BIN/'],
+    excludeRegex: [],
+    includeOnlyRegex: [],
+    excludeIfPresent: ['.nobackup'],
+  },
+  compression: 'Auto',
+};
+
+export const settingsService = {
+  /**
+   * Fetch the global defaults inherited by all devices and shares.
+   */
+  async getGlobalSettings(): Promise<GlobalSettings> {
+    const response = await apiClient.get<GlobalSettings>('/api/settings');
+    return response.data;
+  },
+
+  /**
+   * Replace the global defaults. The change is committed to the configuration repository.
+   */
+  async updateGlobalSettings(settings: GlobalSettingsUpdate): Promise<GlobalSettings> {
+    const response = await apiClient.put<GlobalSettings>('/api/settings', settings);
+    return response.data;
+  },
+};
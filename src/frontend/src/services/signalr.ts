@@ -1,7 +1,10 @@
 import * as signalR from '@microsoft/signalr';
+import { HealthStatus } from '../types/health';
 
 export interface BackupProgress {
   jobId: string;
+  deviceId?: string;
+  shareId?: string;
   deviceName?: string;
   shareName?: string;
   status: string;
@@ -14,56 +17,378 @@ export interface BackupProgress {
   errorMessage?: string;
 }
 
+export interface RestoreProgress {
+  restoreId: string;
+  backupId?: string;
+  deviceId?: string;
+  shareId?: string;
+  targetPath?: string;
+  status: string;
+  filesRestored?: number;
+  totalFiles?: number;
+  bytesRestored?: number;
+  totalBytes?: number;
+  percentComplete?: number;
+  startedAt: string;
+  completedAt?: string;
+  errorMessage?: string;
+}
+
+// A manual backup was accepted; it gets a job ID once the scheduler starts it
+export interface BackupQueued {
+  deviceId: string;
+  shareId?: string;
+  queuedAt: string;
+}
+
+export interface ConfigChange {
+  hash: string;
+  timestamp: string;
+  author: string;
+  email: string;
+  message: string;
+  filesChanged: string[];
+}
+
+export interface LiveEventMap {
+  jobQueued: BackupQueued;
+  jobStarted: BackupProgress;
+  jobProgress: BackupProgress;
+  jobCompleted: BackupProgress;
+  jobFailed: BackupProgress;
+  jobCancelled: BackupProgress;
+  restoreProgress: RestoreProgress;
+  healthChanged: HealthStatus;
+  configChanged: ConfigChange;
+}
+
+export type LiveEvent = keyof LiveEventMap;
+
+// 'connecting' only covers the first start; once connected, losing the hub reads as reconnecting
+export type ConnectionState = 'connecting' | 'connected' | 'reconnecting' | 'disconnected';
+
+// Which jobs' progress ticks to receive; the server only sends them to matching groups
+export type ProgressScope = 'all' | { jobId: string } | { deviceId: string };
+
+type Listener<K extends LiveEvent> = {
+  callback: (payload: LiveEventMap[K]) => void;
+  scope?: ProgressScope;
+};
+
+const backupHubEvents: Record<Exclude<LiveEvent, 'restoreProgress'>, string> = {
+  jobQueued: 'JobQueued',
+  jobStarted: 'JobStarted',
+  jobProgress: 'JobProgress',
+  jobCompleted: 'JobCompleted',
+  jobFailed: 'JobFailed',
+  jobCancelled: 'JobCancelled',
+  healthChanged: 'HealthChanged',
+  configChanged: 'ConfigChanged',
+};
+
+const scopeGroup = (scope: ProgressScope) =>
+  scope === 'all' ? 'all' : 'jobId' in scope ? `job:${scope.jobId}` : `device:${scope.deviceId}`;
+
+const inScope = (scope: ProgressScope | undefined, progress: BackupProgress) =>
+  !scope || scope === 'all'
+    ? true
+    : 'jobId' in scope
+      ? scope.jobId === progress.jobId
+      : scope.deviceId === progress.deviceId;
+
+// Identical consecutive ticks carry nothing new; they arrive when a connection is in both a job's and its device's group
+const progressSignature = (p: BackupProgress) =>
+  [p.status, p.percentComplete, p.filesProcessed, p.bytesProcessed, p.currentFile].join('|');
+
+// Automatic reconnect gives up after a few attempts and never covers a failed first start,
+// so from then on the service keeps retrying on its own with these delays
+const RETRY_DELAYS = [2000, 5000, 10000, 30000];
+
 class SignalRService {
   private connection: signalR.HubConnection | null = null;
-  private listeners: Map<string, ((progress: BackupProgress) => void)[]> = new Map();
+  private restoreConnection: signalR.HubConnection | null = null;
+  private listeners = new Map<LiveEvent, Set<Listener<never>>>();
+  private reconnectListeners = new Set<() => void>();
+  private stateListeners = new Set<(state: ConnectionState) => void>();
+  private connectionState: ConnectionState = 'connecting';
+  // Set while the hub is down, so the next successful connect tells listeners to catch up
+  private missedEvents = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private retryAttempt = 0;
+  // Subscriber count per progress group, and the groups this connection has joined on the server
+  private groupRefs = new Map<string, number>();
+  private joinedGroups = new Set<string>();
+  // Last progress delivered per running job, to drop repeats; cleared when the job ends
+  private lastProgress = new Map<string, string>();
+
+  // 'connected' while backup events are being delivered
+  get state() {
+    return this.connectionState;
+  }
 
   async connect() {
-    if (this.connection?.state === signalR.HubConnectionState.Connected) {
+    if (!this.connection) {
+      this.connection = this.createConnection();
+    } else if (this.connection.state !== signalR.HubConnectionState.Disconnected) {
+      // Already connected or mid-(re)connect - several subscribers may ask at once on first render
       return;
     }
 
-    this.connection = new signalR.HubConnectionBuilder()
+    await this.startConnection(this.connection);
+    await this.connectRestoreHub();
+  }
+
+  /** Skips the wait before the next retry, e.g. when the user asks to reconnect. */
+  reconnectNow() {
+    this.clearRetry();
+    this.retryAttempt = 0;
+    this.connect().catch(err => console.error('Failed to reconnect:', err));
+  }
+
+  private createConnection() {
+    const connection = new signalR.HubConnectionBuilder()
       .withUrl('/hubs/backup-progress')
       .withAutomaticReconnect()
       .build();
 
-    this.connection.on('BackupProgress', (progress: BackupProgress) => {
-      // Notify all listeners
-      this.listeners.forEach(callbacks => {
-        callbacks.forEach(callback => callback(progress));
+    (Object.keys(backupHubEvents) as (keyof typeof backupHubEvents)[]).forEach(event => {
+      connection.on(backupHubEvents[event], (payload: LiveEventMap[typeof event]) => {
+        if (event === 'jobProgress') {
+          this.dispatchProgress(payload as BackupProgress);
+        } else {
+          if (event === 'jobCompleted' || event === 'jobFailed' || event === 'jobCancelled') {
+            this.lastProgress.delete((payload as BackupProgress).jobId);
+          }
+          this.dispatch(event, payload);
+        }
       });
     });
 
+    connection.onreconnecting(() => this.setState('reconnecting'));
+
+    // A reconnect gets a new connection ID, so group membership has to be set up again
+    connection.onreconnected(() => {
+      this.joinedGroups.clear();
+      this.syncGroups();
+      this.setState('connected');
+    });
+
+    // Automatic reconnect gave up; a connection replaced by disconnect() is left alone
+    connection.onclose(() => {
+      if (connection !== this.connection) return;
+      this.setState('disconnected');
+      this.scheduleRetry();
+    });
+
+    return connection;
+  }
+
+  private async startConnection(connection: signalR.HubConnection) {
+    this.clearRetry();
+    if (this.missedEvents) this.setState('reconnecting');
+
     try {
-      await this.connection.start();
+      await connection.start();
       console.log('SignalR Connected');
+      this.retryAttempt = 0;
+      this.joinedGroups.clear();
+      this.syncGroups();
+      this.setState('connected');
     } catch (err) {
       console.error('SignalR Connection Error: ', err);
-      // Will auto-reconnect
+      if (connection !== this.connection) return;
+      this.setState('disconnected');
+      this.scheduleRetry();
+    }
+  }
+
+  private scheduleRetry() {
+    if (this.retryTimer) return;
+
+    const delay = RETRY_DELAYS[Math.min(this.retryAttempt, RETRY_DELAYS.length - 1)];
+    this.retryAttempt++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      this.connect().catch(err => console.error('SignalR retry failed:', err));
+    }, delay);
+  }
+
+  private clearRetry() {
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+  }
+
+  private setState(state: ConnectionState) {
+    if (state === this.connectionState) return;
+
+    const resync = state === 'connected' && this.missedEvents;
+    if (state === 'reconnecting' || state === 'disconnected') {
+      this.missedEvents = true;
+    } else if (state === 'connected') {
+      this.missedEvents = false;
+    }
+    this.connectionState = state;
+    this.stateListeners.forEach(callback => callback(state));
+
+    // Events sent while the connection was down are lost, so listeners get a chance to catch up
+    if (resync) {
+      this.reconnectListeners.forEach(callback => callback());
+    }
+  }
+
+  private async connectRestoreHub() {
+    // Already connected or mid-(re)connect - the existing connection will deliver events
+    if (this.restoreConnection && this.restoreConnection.state !== signalR.HubConnectionState.Disconnected) {
+      return;
+    }
+
+    this.restoreConnection = new signalR.HubConnectionBuilder()
+      .withUrl('/hubs/restore-progress')
+      .withAutomaticReconnect()
+      .build();
+
+    this.restoreConnection.on('RestoreProgress', (progress: RestoreProgress) => {
+      this.dispatch('restoreProgress', progress);
+    });
+
+    try {
+      await this.restoreConnection.start();
+    } catch (err) {
+      console.error('SignalR restore hub connection error: ', err);
     }
   }
 
   async disconnect() {
+    this.clearRetry();
     if (this.connection) {
-      await this.connection.stop();
+      const connection = this.connection;
       this.connection = null;
+      this.joinedGroups.clear();
+      await connection.stop();
+    }
+    if (this.restoreConnection) {
+      await this.restoreConnection.stop();
+      this.restoreConnection = null;
     }
   }
 
-  subscribe(id: string, callback: (progress: BackupProgress) => void) {
-    if (!this.listeners.has(id)) {
-      this.listeners.set(id, []);
+  /**
+   * Registers a callback for one event and returns the function that removes exactly that
+   * callback. Progress ticks are only delivered for the given scope (all jobs by default).
+   */
+  on<K extends LiveEvent>(event: K, callback: (payload: LiveEventMap[K]) => void, scope?: ProgressScope): () => void {
+    const listener: Listener<K> = { callback, scope: event === 'jobProgress' ? scope ?? 'all' : scope };
+    const listeners = this.listenersOf(event) ?? new Set<Listener<K>>();
+    this.listeners.set(event, listeners);
+    listeners.add(listener);
+
+    if (event === 'jobProgress') {
+      this.addGroupRef(scopeGroup(listener.scope!));
     }
-    this.listeners.get(id)!.push(callback);
 
-    // Ensure connection is established
-    if (!this.connection || this.connection.state !== signalR.HubConnectionState.Connected) {
+    this.ensureConnected(event);
+
+    return () => {
+      if (!listeners.delete(listener)) return;
+      if (event === 'jobProgress') {
+        this.releaseGroupRef(scopeGroup(listener.scope!));
+      }
+    };
+  }
+
+  /** Runs the callback whenever the hub comes back after being down; returns the function that removes it. */
+  onReconnected(callback: () => void): () => void {
+    this.reconnectListeners.add(callback);
+    return () => {
+      this.reconnectListeners.delete(callback);
+    };
+  }
+
+  /** Runs the callback on every connection state change; returns the function that removes it. */
+  onStateChange(callback: (state: ConnectionState) => void): () => void {
+    this.stateListeners.add(callback);
+    return () => {
+      this.stateListeners.delete(callback);
+    };
+  }
+
+  private ensureConnected(event: LiveEvent) {
+    if (event === 'restoreProgress') {
+      if (!this.restoreConnection || this.restoreConnection.state !== signalR.HubConnectionState.Connected) {
+        this.connectRestoreHub().catch(err => console.error('Failed to connect restore hub on subscribe:', err));
+      }
+    } else if (!this.connection) {
+      // Once a connection exists it reconnects and retries by itself
       this.connect().catch(err => console.error('Failed to connect on subscribe:', err));
     }
   }
-  unsubscribe(id: string) {
-    this.listeners.delete(id);
+
+  private listenersOf<K extends LiveEvent>(event: K) {
+    return this.listeners.get(event) as Set<Listener<K>> | undefined;
+  }
+
+  private dispatch<K extends LiveEvent>(event: K, payload: LiveEventMap[K]) {
+    this.listenersOf(event)?.forEach(listener => listener.callback(payload));
+  }
+
+  private dispatchProgress(progress: BackupProgress) {
+    const signature = progressSignature(progress);
+    if (this.lastProgress.get(progress.jobId) === signature) return;
+    this.lastProgress.set(progress.jobId, signature);
+
+    this.listenersOf('jobProgress')?.forEach(listener => {
+      if (inScope(listener.scope, progress)) listener.callback(progress);
+    });
+  }
+
+  private addGroupRef(group: string) {
+    this.groupRefs.set(group, (this.groupRefs.get(group) ?? 0) + 1);
+    this.syncGroups();
+  }
+
+  private releaseGroupRef(group: string) {
+    const count = (this.groupRefs.get(group) ?? 0) - 1;
+    if (count > 0) {
+      this.groupRefs.set(group, count);
+    } else {
+      this.groupRefs.delete(group);
+    }
+    this.syncGroups();
+  }
+
+  // Joins the groups current subscribers need and leaves the rest; the all-jobs group covers every other one
+  private syncGroups() {
+    const connection = this.connection;
+    if (!connection || connection.state !== signalR.HubConnectionState.Connected) return;
+
+    const wanted = this.groupRefs.has('all') ? new Set(['all']) : new Set(this.groupRefs.keys());
+
+    this.joinedGroups.forEach(group => {
+      if (wanted.has(group)) return;
+      this.joinedGroups.delete(group);
+      this.invokeGroup(connection, group, false);
+    });
+
+    wanted.forEach(group => {
+      if (this.joinedGroups.has(group)) return;
+      this.joinedGroups.add(group);
+      this.invokeGroup(connection, group, true);
+    });
+  }
+
+  private invokeGroup(connection: signalR.HubConnection, group: string, join: boolean) {
+    const [kind, id] = group.split(':');
+    const target = kind === 'all' ? 'AllJobs' : kind === 'job' ? 'Job' : 'Device';
+    const method = join ? `SubscribeTo${target}` : `UnsubscribeFrom${target}`;
+    const call = id ? connection.invoke(method, id) : connection.invoke(method);
+
+    call.catch(err => {
+      console.error(`SignalR ${method} failed:`, err);
+      // Forget the membership so the next sync retries it
+      if (join) this.joinedGroups.delete(group);
+    });
   }
 }
 
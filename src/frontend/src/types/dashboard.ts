@@ -1,3 +1,5 @@
+import { Schedule } from './index';
+
 export interface DashboardSummaryDto {
   stats: DashboardStatsDto;
   devices: DeviceDashboardDto[];
@@ -26,8 +28,105 @@ export interface ShareDashboardDto {
   status: string; // "Success", "Failed", "Running", "Warning", "Disabled", "Pending"
   lastBackupTime?: string;
   nextBackupTime?: string;
+  schedule?: string | null; // Effective cron: the share's own, else the device's
+  inheritsDeviceSchedule: boolean; // Runs as part of the device-level job
   totalSize: number;
   fileCount: number;
   lastBackupId?: string;
   lastJobId?: string;
 }
+
+export type HistoryRange = 7 | 30 | 90;
+
+export interface DashboardHistoryDto {
+  days: HistoryRange;
+  daily: DailyBackupStatsDto[];
+  shares: ShareTrendDto[];
+}
+
+export interface DailyBackupStatsDto {
+  date: string; // UTC day
+  succeeded: number;
+  partial: number;
+  failed: number;
+  cancelled: number;
+  dataAdded: number;
+  repositorySize: number; // Cumulative data added up to the end of the day
+  jobs: HistoryJobDto[];
+}
+
+export interface HistoryJobDto {
+  jobId: string;
+  backupId?: string | null;
+  deviceId: string;
+  deviceName?: string | null;
+  shareId?: string | null;
+  shareName?: string | null;
+  status: string;
+  startedAt: string;
+}
+
+export interface ShareTrendDto {
+  deviceId: string;
+  deviceName: string;
+  shareId: string;
+  shareName: string;
+  points: ShareTrendPointDto[];
+  durationChangePercent?: number | null; // Later half of the range vs earlier half
+  sizeChangePercent?: number | null;
+  isCreeping: boolean;
+}
+
+export interface ShareTrendPointDto {
+  jobId: string;
+  backupId?: string | null;
+  startedAt: string;
+  durationSeconds: number;
+  size: number;
+  dataAdded: number;
+}
+
+export interface UpcomingScheduleDto {
+  from: string;
+  to: string;
+  serverTimeZone: string;
+  lanes: ScheduleLaneDto[];
+}
+
+export interface ScheduleLaneDto {
+  deviceId: string;
+  deviceName: string;
+  shareId?: string | null; // Null for a device-level schedule, which backs up every enabled share
+  shareName?: string | null;
+  shareNames: string[]; // Shares covered by the run
+  cronExpression: string;
+  timeWindowStart?: string | null; // "HH:mm:ss" in server time
+  timeWindowEnd?: string | null;
+  expectedDurationSeconds?: number | null; // Median of recent runs, null without history
+  error?: string | null;
+  truncated: boolean;
+  runs: ScheduledRunDto[];
+}
+
+export interface ScheduledRunDto {
+  startsAt: string;
+  expectedEndAt: string;
+  blockedReason?: string | null; // Set when a window, blocked hour or blackout skips the run
+  overlaps: boolean; // Competes with another run on the same device
+}
+
+export interface SchedulePreviewRequest {
+  schedule: Schedule;
+  inherited: Schedule[]; // Global and device schedules whose restrictions also apply
+}
+
+export interface SchedulePreviewDto {
+  cronExpression: string; // As the scheduler will run it
+  serverTimeZone: string;
+  runs: PreviewRunDto[];
+}
+
+export interface PreviewRunDto {
+  startsAt: string;
+  blockedReason?: string | null;
+}
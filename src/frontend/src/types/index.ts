@@ -19,12 +19,25 @@ export enum BackupJobType {
   Retry = 'Retry',
 }
 
+export type Weekday = 'Sunday' | 'Monday' | 'Tuesday' | 'Wednesday' | 'Thursday' | 'Friday' | 'Saturday';
+
+export interface BlackoutPeriod {
+  start: string; // "yyyy-MM-dd", server time
+  end: string; // Inclusive
+  reason?: string | null;
+}
+
 export interface Schedule {
   cronExpression: string;
   timeWindowStart?: string;
   timeWindowEnd?: string;
+  blockedHours?: Partial<Record<Weekday, number[]>> | null; // Hours 0-23 when runs may not start, server time
+  blackoutPeriods?: BlackoutPeriod[] | null;
 }
 
+// The parts of a schedule that limit when its runs may start
+export type ScheduleRestrictions = Pick<Schedule, 'timeWindowStart' | 'timeWindowEnd' | 'blockedHours' | 'blackoutPeriods'>;
+
 export interface RetentionPolicy {
   keepLatest?: number;
   keepDaily?: number;
@@ -33,6 +46,24 @@ export interface RetentionPolicy {
   keepYearly?: number;
 }
 
+// Named after the RetentionPolicy fields that keep a snapshot
+export type RetentionRule = 'latest' | 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+export interface RetentionPreviewSnapshot {
+  id: string;
+  timestamp: string;
+  keep: boolean;
+  reasons: RetentionRule[];
+  dataAdded?: number | null; // Unknown when no job recorded the snapshot
+}
+
+export interface RetentionPreview {
+  snapshots: RetentionPreviewSnapshot[]; // Newest first
+  keepCount: number;
+  forgetCount: number;
+  bytesReclaimed: number; // Stored data only the forgotten snapshots reference
+}
+
 export interface IncludeExcludeRules {
   excludePatterns?: string[];
   excludeRegex?: string[];
@@ -107,6 +138,7 @@ export interface BackupJob {
   backupId?: string;
   filesProcessed?: number;
   bytesTransferred?: number;
+  dataAdded?: number;
   errorMessage?: string;
   retryAttempt?: number;
   nextRetryAt?: string;
@@ -142,22 +174,104 @@ export interface FileEntry {
   name: string;
   path: string;
   isDirectory: boolean;
+  isSymlink?: boolean;
   size: number;
   modifiedAt: string;
   permissions?: string;
 }
 
+export interface FileAttributeEntry {
+  name: string;
+  value: string; // base64
+  text?: string;
+}
+
+export interface FileMetadata {
+  path: string;
+  name: string;
+  type: string;
+  mode?: string;
+  permissions?: string;
+  uid?: number;
+  gid?: number;
+  user?: string;
+  group?: string;
+  linkTarget?: string;
+  hardLinks?: number;
+  inode?: number;
+  deviceId?: number;
+  size: number;
+  modifiedAt?: string;
+  accessedAt?: string;
+  changedAt?: string;
+  attributes: FileAttributeEntry[];
+  contentChunks: number;
+  contentHash?: string;
+}
+
 export interface FileVersion {
   backupId: string;
   timestamp: string;
+  modifiedAt: string;
   size: number;
-  hash: string;
+  hash: string | null; // Null when the file was too large to hash
 }
 
+export interface FileSearchHit {
+  shareId?: string;
+  path: string;
+  name: string;
+  isDirectory: boolean;
+  size: number;
+  modifiedAt: string;
+  snapshotCount: number;
+  firstSeenBackupId: string;
+  firstSeenAt: string;
+  lastSeenBackupId: string;
+  lastSeenAt: string;
+  removedInBackupId?: string;
+  removedAt?: string;
+}
+
+export type ArchiveFormat = 'zip' | 'tar.gz';
+
+export type RestoreConflictMode = 'Overwrite' | 'Skip' | 'Rename';
+
 export interface RestoreRequest {
   targetPath: string;
   includePaths?: string[];
   restoreToSource?: boolean;
+  conflictMode?: RestoreConflictMode;
+}
+
+export interface RestoreSourceTarget {
+  deviceId: string;
+  deviceName: string;
+  host: string;
+  protocol: string;
+  shareId: string;
+  shareName: string;
+  sharePath: string;
+}
+
+export type FileChangeType = 'Added' | 'Removed' | 'Modified';
+
+export interface SnapshotDiffEntry {
+  path: string;
+  changeType: FileChangeType;
+  oldSize?: number;
+  newSize?: number;
+  sizeDelta: number;
+}
+
+export interface SnapshotDiff {
+  fromBackupId: string;
+  toBackupId: string;
+  addedCount: number;
+  removedCount: number;
+  modifiedCount: number;
+  sizeDelta: number;
+  changes: SnapshotDiffEntry[];
 }
 
 export * from './dashboard';
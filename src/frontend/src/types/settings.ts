@@ -0,0 +1,21 @@
+import { Schedule, IncludeExcludeRules } from './index';
+
+export type CompressionMode = 'Auto' | 'Off' | 'Max';
+
+export interface GlobalRetentionPolicy {
+  keepLatest: number;
+  keepDaily: number;
+  keepWeekly: number;
+  keepMonthly: number;
+  keepYearly: number;
+}
+
+export interface GlobalSettings {
+  schedule: Schedule;
+  retentionPolicy: GlobalRetentionPolicy;
+  includeExcludeRules: Required<IncludeExcludeRules>;
+  compression: CompressionMode;
+  updatedAt?: string;
+}
+
+export type GlobalSettingsUpdate = Omit<GlobalSettings, 'updatedAt'>;
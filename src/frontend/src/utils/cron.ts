@@ -0,0 +1,238 @@
+import cronstrue from 'cronstrue';
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+// Sunday first: Quartz numbers these 1-7, standard cron 0-6
+export const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+/**
+ * The calendar fields of a cron expression. Quartz (6 or 7 parts, seconds first) and standard
+ * (5 parts) cron number weekdays differently, so the day-of-week field keeps track of which it is.
+ */
+export interface CronDayFields {
+  dayOfMonth: string;
+  month: string;
+  dayOfWeek: string;
+  quartz: boolean;
+}
+
+export function getCronDayFields(cron: string): CronDayFields | null {
+  const parts = cron.trim().split(/\s+/);
+  if (parts.length === 5) {
+    return { dayOfMonth: parts[2], month: parts[3], dayOfWeek: parts[4], quartz: false };
+  }
+  if (parts.length === 6 || parts.length === 7) {
+    return { dayOfMonth: parts[3], month: parts[4], dayOfWeek: parts[5], quartz: true };
+  }
+  return null;
+}
+
+const isWildcard = (field: string) => field === '*' || field === '?';
+
+/**
+ * Expands a cron field such as "1-5", "MON,WED" or "0/15" into the values it matches.
+ * Returns null for syntax it does not model (L, W, #), so callers can treat the field as unknown.
+ */
+export function expandCronField(field: string, min: number, max: number, names?: string[], nameOffset = 0): Set<number> | null {
+  const values = new Set<number>();
+
+  const parseValue = (token: string) => {
+    const named = names?.indexOf(token.toUpperCase()) ?? -1;
+    if (named >= 0) return named + nameOffset;
+    return /^\d+$/.test(token) ? Number(token) : NaN;
+  };
+
+  for (const part of field.split(',')) {
+    const withoutNames = names ? part.toUpperCase().replace(new RegExp(names.join('|'), 'g'), '') : part;
+    if (/[LW#]/i.test(withoutNames)) return null;
+
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let start: number;
+    let end: number;
+
+    if (isWildcard(range)) {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from);
+      end = parseValue(to);
+    } else {
+      start = parseValue(range);
+      end = stepText === undefined ? start : max;
+    }
+
+    if (isNaN(start) || isNaN(end) || isNaN(step) || step < 1) return null;
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Returns whether the schedule fires at some time on the given day, judged on the day-of-month,
+ * month and day-of-week fields only. Returns null when the expression uses syntax it cannot evaluate.
+ */
+export function runsOnDay(cron: string, day: Date): boolean | null {
+  const fields = getCronDayFields(cron);
+  if (!fields) return null;
+
+  const months = expandCronField(fields.month, 1, 12, MONTH_NAMES, 1);
+  if (!months) return null;
+  if (!months.has(day.getMonth() + 1)) return false;
+
+  // Quartz counts weekdays 1 (SUN) to 7 (SAT); standard cron counts 0 (SUN) to 6, with 7 also Sunday
+  const weekday = fields.quartz ? day.getDay() + 1 : day.getDay();
+  const dayOfWeekMatches = () => {
+    const days = fields.quartz
+      ? expandCronField(fields.dayOfWeek, 1, 7, DAY_NAMES, 1)
+      : expandCronField(fields.dayOfWeek, 0, 7, DAY_NAMES, 0);
+    if (!days) return null;
+    return days.has(weekday) || (!fields.quartz && weekday === 0 && days.has(7));
+  };
+  const dayOfMonthMatches = () => {
+    const dates = expandCronField(fields.dayOfMonth, 1, 31);
+    return dates ? dates.has(day.getDate()) : null;
+  };
+
+  if (isWildcard(fields.dayOfWeek)) return dayOfMonthMatches();
+  if (isWildcard(fields.dayOfMonth)) return dayOfWeekMatches();
+
+  // Standard cron fires when either restricted day field matches
+  const byDate = dayOfMonthMatches();
+  const byWeekday = dayOfWeekMatches();
+  if (byDate === null || byWeekday === null) return null;
+  return byDate || byWeekday;
+}
+
+/**
+ * Marks the weekday (Sunday first) and hour slots in which the schedule can fire, for drawing it
+ * over a weekly grid. Day-of-month and month rules are ignored, so a slot means "in some weeks".
+ * Returns null when the expression uses syntax it cannot evaluate.
+ */
+export function getCronWeeklyHours(cron: string): boolean[][] | null {
+  const fields = getCronDayFields(cron);
+  if (!fields) return null;
+
+  const hourField = cron.trim().split(/\s+/)[fields.quartz ? 2 : 1];
+  const hours = expandCronField(hourField, 0, 23);
+  const days = isWildcard(fields.dayOfWeek)
+    ? null
+    : fields.quartz
+      ? expandCronField(fields.dayOfWeek, 1, 7, DAY_NAMES, 1)
+      : expandCronField(fields.dayOfWeek, 0, 7, DAY_NAMES, 0);
+  if (!hours || (!isWildcard(fields.dayOfWeek) && !days)) return null;
+
+  return DAY_NAMES.map((_, weekday) => {
+    const firesOnDay = !days || (fields.quartz ? days.has(weekday + 1) : days.has(weekday) || (weekday === 0 && days.has(7)));
+    return Array.from({ length: 24 }, (_, hour) => firesOnDay && hours.has(hour));
+  });
+}
+
+/** The fields of a Quartz cron expression, in order. Year is optional. */
+export const QUARTZ_FIELDS = [
+  { key: 'second', label: 'Second', hint: '0-59' },
+  { key: 'minute', label: 'Minute', hint: '0-59' },
+  { key: 'hour', label: 'Hour', hint: '0-23' },
+  { key: 'dayOfMonth', label: 'Day of month', hint: '1-31, ?, L' },
+  { key: 'month', label: 'Month', hint: '1-12 or JAN-DEC' },
+  { key: 'dayOfWeek', label: 'Day of week', hint: '1-7 (SUN-SAT), ?' },
+  { key: 'year', label: 'Year', hint: 'Optional' },
+] as const;
+
+/**
+ * Checks the shape of a 6 or 7-part Quartz cron expression and returns an error message, or an
+ * empty string when it looks valid. The server has the final say; this catches typos while typing.
+ */
+export function validateQuartzCron(value: string): string {
+  const trimmed = value.trim();
+  if (!trimmed) return '';
+
+  const parts = trimmed.split(/\s+/);
+  if (parts.length < 6 || parts.length > 7) return 'Use 6 or 7-part Quartz cron (sec min hour day month day-of-week [year])';
+
+  const secondsMinutes = /^([0-5]?\d|\*|\*\/[1-9]\d*|[0-5]?\d\/[1-9]\d*|[0-5]?\d-[0-5]?\d|([0-5]?\d,)+[0-5]?\d)$/;
+  const hours = /^([01]?\d|2[0-3]|\*|\*\/[1-9]\d*|([01]?\d|2[0-3])\/[1-9]\d*|([01]?\d|2[0-3])-([01]?\d|2[0-3])|(([01]?\d|2[0-3]),)+([01]?\d|2[0-3]))$/;
+  const dayOfMonth = /^([1-9]|[12]\d|3[01]|\*|\?|L|LW|L-[1-9]|[1-9]W|[12]\dW|3[01]W|([1-9]|[12]\d|3[01])-([1-9]|[12]\d|3[01])|([1-9]|[12]\d|3[01])\/[1-9]\d*|(([1-9]|[12]\d|3[01]),)+([1-9]|[12]\d|3[01]))$/;
+  const month = /^(1[0-2]|0?[1-9]|JAN|FEB|MAR|APR|MAY|JUN|JUL|AUG|SEP|OCT|NOV|DEC|\*|\*\/[1-9]\d*|(1[0-2]|0?[1-9])-(1[0-2]|0?[1-9])|(1[0-2]|0?[1-9])\/[1-9]\d*|((1[0-2]|0?[1-9]),)+(1[0-2]|0?[1-9]))$/i;
+  // Quartz numbers weekdays 1 (SUN) to 7 (SAT)
+  const dayOfWeek = /^(SUN|MON|TUE|WED|THU|FRI|SAT|[1-7]|\?|\*|\*\/[1-9]\d*|[1-7]\/[1-9]\d*|[1-7]-[1-7]|(SUN|MON|TUE|WED|THU|FRI|SAT)-(SUN|MON|TUE|WED|THU|FRI|SAT|[1-7])|(SUN|MON|TUE|WED|THU|FRI|SAT|[1-7])(,(SUN|MON|TUE|WED|THU|FRI|SAT|[1-7]))+|[1-7]#[1-5]|[1-7]?L)$/i;
+  const year = /^([12]\d{3}|\*|\*\/[1-9]\d*|[12]\d{3}\/[1-9]\d*|[12]\d{3}-[12]\d{3}|([12]\d{3},)+[12]\d{3})$/;
+
+  const [sec, min, hr, dom, mon, dow, yr] = parts;
+
+  if (!secondsMinutes.test(sec)) return 'Second field is invalid';
+  if (!secondsMinutes.test(min)) return 'Minute field is invalid';
+  if (!hours.test(hr)) return 'Hour field is invalid';
+  if (!dayOfMonth.test(dom)) return 'Day-of-month field is invalid';
+  if (!month.test(mon)) return 'Month field is invalid';
+  if (!dayOfWeek.test(dow)) return 'Day-of-week field is invalid';
+
+  if (yr && !year.test(yr)) return 'Year field is invalid';
+
+  // Quartz requires either day-of-month or day-of-week to be '?' (not both can be * or both specific)
+  const domSpecific = dom !== '*' && dom !== '?';
+  const dowSpecific = dow !== '*' && dow !== '?';
+  if (domSpecific && dowSpecific) return "Use '?' in day-of-month or day-of-week (only one can be specific)";
+  if (dom === '*' && dow === '*') return "Use '?' for day-of-week (cannot have both day-of-month and day-of-week as '*')";
+
+  return '';
+}
+
+/** Describes a Quartz cron expression in plain English, or returns an empty string if it can't. */
+export function describeCron(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.split(/\s+/).length < 6) return '';
+
+  try {
+    return cronstrue.toString(trimmed, { dayOfWeekStartIndexZero: false });
+  } catch {
+    return '';
+  }
+}
+
+export type SchedulePreset =
+  | { kind: 'hourly'; minute: number }
+  | { kind: 'daily'; hour: number; minute: number }
+  | { kind: 'weekly'; hour: number; minute: number; days: string[] };
+
+export function buildPresetCron(preset: SchedulePreset): string {
+  switch (preset.kind) {
+    case 'hourly':
+      return `0 ${preset.minute} * * * ?`;
+    case 'daily':
+      return `0 ${preset.minute} ${preset.hour} * * ?`;
+    case 'weekly': {
+      const days = DAY_NAMES.filter(day => preset.days.includes(day));
+      return `0 ${preset.minute} ${preset.hour} ? * ${days.length ? days.join(',') : 'SUN'}`;
+    }
+  }
+}
+
+/**
+ * Recognises expressions that one of the presets would produce, so an existing schedule opens
+ * in the preset view. Returns null for anything else.
+ */
+export function parsePresetCron(cron: string): SchedulePreset | null {
+  const parts = cron.trim().split(/\s+/);
+  if (parts.length !== 6 || parts[0] !== '0' || parts[4] !== '*') return null;
+
+  const [, min, hr, dom, , dow] = parts;
+  const minute = /^\d+$/.test(min) ? Number(min) : NaN;
+  const hour = /^\d+$/.test(hr) ? Number(hr) : NaN;
+  if (isNaN(minute) || minute > 59) return null;
+
+  if (hr === '*' && dom === '*' && dow === '?') return { kind: 'hourly', minute };
+  if (isNaN(hour) || hour > 23) return null;
+  if (dom === '*' && dow === '?') return { kind: 'daily', hour, minute };
+
+  if (dom === '?') {
+    const days = expandCronField(dow, 1, 7, DAY_NAMES, 1);
+    if (!days || days.size === 0 || Array.from(days).some(day => day < 1 || day > 7)) return null;
+    return { kind: 'weekly', hour, minute, days: DAY_NAMES.filter((_, index) => days.has(index + 1)) };
+  }
+
+  return null;
+}
@@ -0,0 +1,8 @@
+/**
+ * The most useful message in a failed request: the API's detail or error text when the server
+ * sent one, else the error's own message, else the fallback.
+ */
+export function getErrorMessage(err: unknown, fallback: string): string {
+  const maybeResponse = (err as { response?: { data?: { detail?: string; error?: string } } }).response;
+  return maybeResponse?.data?.detail || maybeResponse?.data?.error || (err instanceof Error ? err.message : fallback);
+}
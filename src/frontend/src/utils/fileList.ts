@@ -0,0 +1,41 @@
+import { FileEntry } from '../types';
+
+export type SortKey = 'name' | 'size' | 'mtime';
+export type TypeFilter = 'all' | 'files' | 'folders';
+
+export const SORT_KEYS: SortKey[] = ['name', 'size', 'mtime'];
+export const TYPE_FILTERS: TypeFilter[] = ['all', 'files', 'folders'];
+
+/** How a folder listing is sorted and narrowed down. */
+export interface FileListView {
+  sortKey: SortKey;
+  sortDescending: boolean;
+  typeFilter: TypeFilter;
+  nameFilter: string;
+}
+
+/**
+ * Applies a view to a folder listing. Folders stay on top regardless of the sort column,
+ * and ties are broken by name.
+ */
+export function filterAndSortFiles(files: FileEntry[], view: FileListView): FileEntry[] {
+  const { sortKey, sortDescending, typeFilter, nameFilter } = view;
+  const needle = nameFilter.toLowerCase();
+  const filtered = files.filter(f =>
+    (typeFilter === 'all' || (typeFilter === 'folders') === f.isDirectory) &&
+    (!needle || f.name.toLowerCase().includes(needle))
+  );
+
+  // Precompute sort keys once; comparing Date objects per comparison is slow at 100k rows
+  const times = sortKey === 'mtime' ? new Map(filtered.map(f => [f, new Date(f.modifiedAt).getTime()])) : null;
+  const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+  const direction = sortDescending ? -1 : 1;
+
+  return filtered.sort((a, b) => {
+    if (a.isDirectory !== b.isDirectory) return a.isDirectory ? -1 : 1;
+    const byName = collator.compare(a.name, b.name);
+    if (sortKey === 'size') return ((a.size - b.size) || byName) * direction;
+    if (times) return ((times.get(a)! - times.get(b)!) || byName) * direction;
+    return byName * direction;
+  });
+}
@@ -0,0 +1,137 @@
+export type PreviewKind = 'text' | 'image' | 'pdf' | 'binary';
+
+export type TokenType = 'plain' | 'keyword' | 'string' | 'comment' | 'number' | 'error' | 'warning' | 'info';
+
+export interface Token {
+  text: string;
+  type: TokenType;
+}
+
+/** Largest image or PDF that is loaded into the browser for preview (in bytes). */
+export const MAX_MEDIA_PREVIEW_BYTES = 25 * 1024 * 1024;
+
+/** How much of a text file is shown before asking the user to download it (in bytes). */
+export const MAX_TEXT_PREVIEW_BYTES = 1024 * 1024;
+
+/** How much of a binary file is shown in the hex view (in bytes). */
+export const MAX_HEX_PREVIEW_BYTES = 64 * 1024;
+
+const IMAGE_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  bmp: 'image/bmp',
+  svg: 'image/svg+xml',
+  ico: 'image/x-icon',
+  avif: 'image/avif',
+};
+
+const TEXT_EXTENSIONS = new Set([
+  'txt', 'log', 'md', 'csv', 'tsv', 'json', 'xml', 'yml', 'yaml', 'toml', 'ini', 'conf', 'cfg', 'env',
+  'html', 'htm', 'css', 'scss', 'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'py', 'rb', 'go', 'rs', 'java',
+  'kt', 'cs', 'c', 'h', 'cpp', 'hpp', 'php', 'sh', 'bash', 'zsh', 'ps1', 'bat', 'sql', 'properties',
+  'gitignore', 'dockerfile', 'service', 'vue', 'svelte', 'lua', 'pl', 'r', 'swift',
+]);
+
+const KEYWORDS = new Set([
+  'abstract', 'async', 'await', 'bool', 'break', 'case', 'catch', 'class', 'const', 'continue', 'def', 'default',
+  'do', 'elif', 'else', 'enum', 'export', 'extends', 'false', 'final', 'finally', 'fn', 'for', 'from', 'func',
+  'function', 'if', 'implements', 'import', 'in', 'int', 'interface', 'let', 'namespace', 'new', 'null', 'package',
+  'private', 'protected', 'public', 'return', 'static', 'string', 'struct', 'switch', 'this', 'throw', 'true',
+  'try', 'type', 'typeof', 'using', 'var', 'void', 'while', 'with', 'yield', 'None', 'True', 'False', 'select',
+  'SELECT', 'FROM', 'WHERE', 'INSERT', 'UPDATE', 'DELETE', 'JOIN', 'CREATE', 'TABLE',
+]);
+
+const getExtension = (fileName: string) => {
+  const lower = fileName.toLowerCase();
+  const dot = lower.lastIndexOf('.');
+  return dot >= 0 ? lower.substring(dot + 1) : lower;
+};
+
+export function getPreviewKind(fileName: string): PreviewKind {
+  const extension = getExtension(fileName);
+  if (extension in IMAGE_TYPES) return 'image';
+  if (extension === 'pdf') return 'pdf';
+  if (TEXT_EXTENSIONS.has(extension)) return 'text';
+  // Unknown types are sniffed once the first bytes arrive
+  return 'binary';
+}
+
+export function getMimeType(fileName: string): string {
+  const extension = getExtension(fileName);
+  if (extension === 'pdf') return 'application/pdf';
+  return IMAGE_TYPES[extension] ?? 'application/octet-stream';
+}
+
+export function isLogFile(fileName: string): boolean {
+  return getExtension(fileName) === 'log';
+}
+
+/**
+ * Treats content as text when the sample has no NUL bytes and decodes as UTF-8.
+ */
+export function looksLikeText(bytes: Uint8Array): boolean {
+  const sample = bytes.subarray(0, 8192);
+  if (sample.includes(0)) return false;
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample);
+    return true;
+  } catch {
+    // A multi-byte character cut at the sample boundary is still text
+    return sample.length === 8192;
+  }
+}
+
+const CODE_PATTERN = /(\/\/.*$|#.*$|\/\*.*?\*\/|--.*$)|("(?:[^"\\]|\\.)*"?|'(?:[^'\\]|\\.)*'?|`[^`]*`?)|(\b\d+(?:\.\d+)?\b)|([A-Za-z_][A-Za-z0-9_]*)/g;
+const LOG_LEVEL_PATTERN = /\b(ERROR|ERR|FATAL|CRITICAL|FAIL(?:ED)?|WARN(?:ING)?|INFO|DEBUG|TRACE)\b/i;
+
+/**
+ * Splits a line into coloured tokens. Deliberately simple: it recognises comments, strings,
+ * numbers and common keywords across languages, and log levels in .log files.
+ */
+export function highlightLine(line: string, asLog: boolean): Token[] {
+  if (asLog) {
+    const level = LOG_LEVEL_PATTERN.exec(line)?.[1].toUpperCase();
+    if (!level) return [{ text: line, type: 'plain' }];
+    if (level.startsWith('ERR') || level === 'FATAL' || level === 'CRITICAL' || level.startsWith('FAIL')) {
+      return [{ text: line, type: 'error' }];
+    }
+    return [{ text: line, type: level.startsWith('WARN') ? 'warning' : level === 'INFO' ? 'info' : 'plain' }];
+  }
+
+  const tokens: Token[] = [];
+  let last = 0;
+  for (const match of line.matchAll(CODE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) tokens.push({ text: line.substring(last, index), type: 'plain' });
+
+    const [text, comment, str, num, word] = match;
+    if (comment) tokens.push({ text, type: 'comment' });
+    else if (str) tokens.push({ text, type: 'string' });
+    else if (num) tokens.push({ text, type: 'number' });
+    else tokens.push({ text, type: word && KEYWORDS.has(word) ? 'keyword' : 'plain' });
+
+    last = index + text.length;
+  }
+  if (last < line.length) tokens.push({ text: line.substring(last), type: 'plain' });
+  return tokens;
+}
+
+export interface HexRow {
+  offset: string;
+  hex: string;
+  ascii: string;
+}
+
+export function toHexRows(bytes: Uint8Array, bytesPerRow = 16): HexRow[] {
+  const rows: HexRow[] = [];
+  for (let start = 0; start < bytes.length; start += bytesPerRow) {
+    const chunk = bytes.subarray(start, start + bytesPerRow);
+    const hex = Array.from(chunk, b => b.toString(16).padStart(2, '0')).join(' ');
+    const ascii = Array.from(chunk, b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+    rows.push({ offset: start.toString(16).padStart(8, '0'), hex, ascii });
+  }
+  return rows;
+}
@@ -0,0 +1,8 @@
+/**
+ * The folder holding a snapshot path, e.g. "/docs" for "/docs/report.pdf" and "/" for top-level entries.
+ */
+export function parentFolder(path: string): string {
+  const parts = path.split('/').filter(Boolean);
+  parts.pop();
+  return parts.length > 0 ? '/' + parts.join('/') : '/';
+}
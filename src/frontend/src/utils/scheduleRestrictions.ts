@@ -0,0 +1,63 @@
+import { ScheduleRestrictions, Weekday } from '../types';
+
+// Sunday first, like Date.getDay() and the backend's DayOfWeek
+export const WEEKDAYS: Weekday[] = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Backend TimeOnly values are "HH:mm:ss"; <input type="time"> works with "HH:mm"
+export const toTimeInput = (value?: string | null) => (value ? value.substring(0, 5) : '');
+export const fromTimeInput = (value: string) => (value ? `${value}:00` : undefined);
+
+const toMinutes = (value: string) => {
+  const [hours, minutes] = value.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export function pickRestrictions(schedule?: ScheduleRestrictions | null): ScheduleRestrictions {
+  return {
+    timeWindowStart: schedule?.timeWindowStart,
+    timeWindowEnd: schedule?.timeWindowEnd,
+    blockedHours: schedule?.blockedHours,
+    blackoutPeriods: schedule?.blackoutPeriods,
+  };
+}
+
+export function hasRestrictions(restrictions: ScheduleRestrictions): boolean {
+  return Boolean(
+    restrictions.timeWindowStart ||
+    restrictions.timeWindowEnd ||
+    Object.values(restrictions.blockedHours ?? {}).some(hours => hours?.length) ||
+    restrictions.blackoutPeriods?.length
+  );
+}
+
+/**
+ * Returns whether any part of the hour falls inside the daily window. A missing bound leaves
+ * that side open and a window ending before it starts wraps past midnight, as on the server.
+ */
+export function hourInWindow(hour: number, restrictions: ScheduleRestrictions): boolean {
+  if (!restrictions.timeWindowStart && !restrictions.timeWindowEnd) return true;
+
+  const start = restrictions.timeWindowStart ? toMinutes(restrictions.timeWindowStart) : 0;
+  const end = restrictions.timeWindowEnd ? toMinutes(restrictions.timeWindowEnd) : 24 * 60;
+  const overlaps = (from: number, to: number) => hour * 60 < to && hour * 60 + 60 > from;
+
+  return start <= end ? overlaps(start, end) : overlaps(start, 24 * 60) || overlaps(0, end);
+}
+
+export function isHourBlocked(restrictions: ScheduleRestrictions, weekday: Weekday, hour: number): boolean {
+  return restrictions.blockedHours?.[weekday]?.includes(hour) ?? false;
+}
+
+/** Returns an error message for restrictions the server would reject, or an empty string. */
+export function validateRestrictions(restrictions: ScheduleRestrictions): string {
+  const { timeWindowStart: start, timeWindowEnd: end } = restrictions;
+  if ((start && !end) || (!start && end)) return 'Set both window start and end, or leave both empty';
+  // An end before the start is an overnight window, e.g. 22:00-06:00
+  if (start && end && end === start) return 'Window start and end cannot be the same time';
+
+  for (const period of restrictions.blackoutPeriods ?? []) {
+    if (!period.start || !period.end) return 'Every blackout period needs a start and end date';
+    if (period.end < period.start) return 'A blackout period cannot end before it starts';
+  }
+  return '';
+}
@@ -0,0 +1,207 @@
+export type DiffLineType = 'equal' | 'insert' | 'delete';
+
+export interface DiffLine {
+  type: DiffLineType;
+  text: string;
+  oldNumber?: number;
+  newNumber?: number;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+export interface WhitespaceOptions {
+  ignoreTrailing: boolean;
+  ignoreAll: boolean;
+}
+
+export const splitLines = (text: string): string[] => {
+  const lines = text.split(/\r?\n/);
+  // A trailing newline does not start another line
+  if (lines.length > 1 && lines[lines.length - 1] === '') lines.pop();
+  return lines;
+};
+
+const normalize = (line: string, options: WhitespaceOptions) => {
+  if (options.ignoreAll) return line.replace(/\s+/g, '');
+  if (options.ignoreTrailing) return line.replace(/\s+$/, '');
+  return line;
+};
+
+/**
+ * Line diff using Myers' O((N+M)D) algorithm, after trimming the common prefix and suffix.
+ * Lines are compared after whitespace normalisation but reported with their original text.
+ */
+export function diffLines(oldLines: string[], newLines: string[], options: WhitespaceOptions): DiffLine[] {
+  const a = oldLines.map(line => normalize(line, options));
+  const b = newLines.map(line => normalize(line, options));
+
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+
+  let suffix = 0;
+  while (
+    suffix < a.length - prefix &&
+    suffix < b.length - prefix &&
+    a[a.length - 1 - suffix] === b[b.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const result: DiffLine[] = [];
+  for (let i = 0; i < prefix; i++) {
+    result.push({ type: 'equal', text: newLines[i], oldNumber: i + 1, newNumber: i + 1 });
+  }
+
+  const middle = myers(a.slice(prefix, a.length - suffix), b.slice(prefix, b.length - suffix));
+  let oldIndex = prefix;
+  let newIndex = prefix;
+  for (const op of middle) {
+    if (op === 'equal') {
+      result.push({ type: 'equal', text: newLines[newIndex], oldNumber: ++oldIndex, newNumber: ++newIndex });
+    } else if (op === 'delete') {
+      result.push({ type: 'delete', text: oldLines[oldIndex], oldNumber: ++oldIndex });
+    } else {
+      result.push({ type: 'insert', text: newLines[newIndex], newNumber: ++newIndex });
+    }
+  }
+
+  for (let i = 0; i < suffix; i++) {
+    result.push({ type: 'equal', text: newLines[newIndex], oldNumber: ++oldIndex, newNumber: ++newIndex });
+  }
+
+  return result;
+}
+
+// Beyond this many edits the files are treated as completely rewritten, which keeps memory bounded
+const MAX_EDIT_DISTANCE = 4000;
+
+function myers(a: string[], b: string[]): DiffLineType[] {
+  const n = a.length;
+  const m = b.length;
+  const max = Math.min(n + m, MAX_EDIT_DISTANCE);
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Only diagonals -d..d are reachable at step d, so each snapshot keeps just that window
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(trace, n, m);
+    }
+  }
+
+  return [...Array<DiffLineType>(n).fill('delete'), ...Array<DiffLineType>(m).fill('insert')];
+}
+
+function backtrack(trace: Int32Array[], n: number, m: number): DiffLineType[] {
+  const ops: DiffLineType[] = [];
+  let x = n;
+  let y = m;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    // trace[d] holds diagonals -d-1..d+1, so diagonal k is at index k + d + 1
+    const v = trace[d];
+    const at = (k: number) => v[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      ops.push('equal');
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      ops.push(x === prevX ? 'insert' : 'delete');
+    }
+    x = prevX;
+    y = prevY;
+  }
+
+  return ops.reverse();
+}
+
+/**
+ * Groups a diff into hunks with the given number of unchanged context lines around each change.
+ */
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const visible = new Array<boolean>(lines.length).fill(false);
+  lines.forEach((line, index) => {
+    if (line.type === 'equal') return;
+    for (let i = Math.max(0, index - context); i <= Math.min(lines.length - 1, index + context); i++) {
+      visible[i] = true;
+    }
+  });
+
+  const hunks: DiffHunk[] = [];
+  let current: DiffLine[] = [];
+  lines.forEach((line, index) => {
+    if (visible[index]) {
+      current.push(line);
+    } else if (current.length > 0) {
+      hunks.push(makeHunk(current));
+      current = [];
+    }
+  });
+
+  if (current.length > 0) hunks.push(makeHunk(current));
+  return hunks;
+}
+
+const makeHunk = (lines: DiffLine[]): DiffHunk => ({
+  oldStart: lines.find(l => l.oldNumber !== undefined)?.oldNumber ?? 0,
+  newStart: lines.find(l => l.newNumber !== undefined)?.newNumber ?? 0,
+  lines,
+});
+
+export interface SplitRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Pairs deletions with the insertions that follow them so a split view can show them side by side.
+ */
+export function toSplitRows(lines: DiffLine[]): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let deletes: DiffLine[] = [];
+  let inserts: DiffLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(deletes.length, inserts.length); i++) {
+      rows.push({ left: deletes[i], right: inserts[i] });
+    }
+    deletes = [];
+    inserts = [];
+  };
+
+  for (const line of lines) {
+    if (line.type === 'delete') {
+      if (inserts.length > 0) flush();
+      deletes.push(line);
+    } else if (line.type === 'insert') {
+      inserts.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -110,3 +110,14 @@ export function formatSize(sizeGB: number): string {
 export function formatFileCount(count: number): string {
   return count.toLocaleString();
 }
+
+/**
+ * Format a byte count as a human-readable size ("-" for empty)
+ */
+export function formatFileSize(bytes?: number): string {
+  if (!bytes || bytes <= 0) return '-';
+  const k = 1024;
+  const sizes = ['B', 'KB', 'MB', 'GB', 'TB'];
+  const i = Math.min(Math.floor(Math.log(bytes) / Math.log(k)), sizes.length - 1);
+  return `${(bytes / Math.pow(k, i)).toFixed(1)} ${sizes[i]}`;
+}